@@ -4,13 +4,79 @@
  */
 
 import { defineBackground } from 'wxt/sandbox';
+import { DevToolsProtocolCapture } from '../../src/capture/DevToolsProtocolCapture.js';
+import { HighResClock } from '../../src/capture/HighResClock.js';
+import { redactScreenshot, type ScreenshotRequest } from '../../src/capture/ScreenshotCapture.js';
+import { EventBus } from '../../src/core/EventBus.js';
+import { StorageManager } from '../../src/core/StorageManager.js';
+import type { ScreenshotReference } from '../../src/types/index.js';
 
 export default defineBackground(() => {
   console.log('ConsoleCapture Pro background script started');
 
   let vscodeWebSocket: WebSocket | null = null;
+  const clock = new HighResClock();
   let currentSessionId: string | null = null;
 
+  // DevTools Protocol capture backend; records go to the tab's top frame, which owns the session
+  const devtoolsCapture = new DevToolsProtocolCapture();
+  devtoolsCapture.initialize();
+  devtoolsCapture.setLogHandler((tabId, record) => {
+    chrome.tabs.sendMessage(tabId, { type: 'devtools:log', payload: { record } }, { frameId: 0 }).catch(() => {
+      // Top frame may be navigating
+    });
+  });
+  devtoolsCapture.setNetworkHandler((tabId, request) => {
+    chrome.tabs.sendMessage(tabId, { type: 'devtools:network', payload: { request } }, { frameId: 0 }).catch(() => {
+      // Top frame may be navigating
+    });
+  });
+  devtoolsCapture.setDetachHandler((tabId, reason) => {
+    chrome.tabs.sendMessage(tabId, { type: 'devtools:detached', payload: { reason } }, { frameId: 0 }).catch(() => {
+      // Tab was closed
+    });
+  });
+
+  // Screenshots are stored encrypted; storage opens on the first screenshot
+  const storageManager = new StorageManager(new EventBus());
+  let storageReady: Promise<void> | null = null;
+
+  // Capture the visible tab, black out the requested areas and store the result
+  async function captureScreenshot(windowId: number, request: ScreenshotRequest): Promise<ScreenshotReference> {
+    storageReady ??= storageManager.initialize();
+    await storageReady;
+
+    const dataUrl = await chrome.tabs.captureVisibleTab(windowId, { format: request.format });
+    const captured = await (await fetch(dataUrl)).blob();
+    const { image, width, height } = await redactScreenshot(captured, request.redactions, request.viewportWidth);
+
+    const screenshot: ScreenshotReference = {
+      id: `screenshot_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      timestamp: new Date(),
+      trigger: request.trigger,
+      mimeType: image.type || `image/${request.format}`,
+      width,
+      height,
+      redactedRegions: request.redactions.length
+    };
+
+    if (request.logId) {
+      screenshot.logId = request.logId;
+    }
+
+    await storageManager.saveScreenshot({ ...screenshot, sessionId: request.sessionId }, image);
+    return screenshot;
+  }
+
+  // The keyboard shortcut goes to the tab's top frame, which owns the session
+  chrome.commands.onCommand.addListener((command, tab) => {
+    if (command === 'capture-screenshot' && tab?.id !== undefined) {
+      chrome.tabs.sendMessage(tab.id, { type: 'screenshot:hotkey' }, { frameId: 0 }).catch(() => {
+        // No content script on this page
+      });
+    }
+  });
+
   // Connect to VSCode extension WebSocket server
   function connectToVSCode() {
     try {
@@ -29,6 +95,23 @@ export default defineBackground(() => {
         }));
       };
 
+      // Answer clock sync requests so VS Code can align timestamps with its own clock
+      vscodeWebSocket.onmessage = (event) => {
+        try {
+          const message = JSON.parse(String(event.data));
+          if (message?.type === 'clock:sync-request') {
+            vscodeWebSocket?.send(JSON.stringify({
+              type: 'clock:sync-response',
+              syncId: message.syncId,
+              serverTime: message.serverTime,
+              clientTime: clock.now()
+            }));
+          }
+        } catch (error) {
+          console.log('Invalid message from VSCode:', error);
+        }
+      };
+
       vscodeWebSocket.onclose = () => {
         console.log('Disconnected from VSCode Console Capture extension');
         vscodeWebSocket = null;
@@ -56,13 +139,91 @@ export default defineBackground(() => {
         level: logEntry.level,
         message: logEntry.message,
         timestamp: logEntry.timestamp?.toISOString() || new Date().toISOString(),
+        hrTimestamp: logEntry.hrTimestamp,
+        sequence: logEntry.sequence,
         url: logEntry.url || 'Unknown',
         stackTrace: logEntry.stackTrace,
-        sourceInfo: logEntry.source
+        sourceInfo: logEntry.source,
+        resolvedStackTrace: logEntry.resolvedStackTrace,
+        resolvedSourceInfo: logEntry.resolvedSource,
+        origin: logEntry.origin,
+        browserSource: logEntry.browserSource,
+        error: logEntry.error,
+        args: logEntry.args,
+        executionContext: logEntry.executionContext,
+        preSession: logEntry.preSession
       }));
     }
   }
 
+  // Largest script or source map loaded for stack trace resolution
+  const MAX_SOURCE_BYTES = 10 * 1024 * 1024;
+
+  // Origin of the frame that sent a message, if it has one
+  function getSenderOrigin(sender: chrome.runtime.MessageSender): string | null {
+    if (sender.origin) {
+      return sender.origin;
+    }
+
+    try {
+      return sender.url ? new URL(sender.url).origin : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Fetch a script or source map for a frame; only http(s) resources on the
+  // requesting page's origin or the script's own origin are loaded
+  async function fetchSourceText(url: unknown, scriptUrl: unknown, pageOrigin: string | null): Promise<string | null> {
+    if (typeof url !== 'string' || typeof scriptUrl !== 'string') {
+      return null;
+    }
+
+    let target: URL;
+    let script: URL;
+    try {
+      target = new URL(url);
+      script = new URL(scriptUrl);
+    } catch {
+      return null;
+    }
+
+    const isHttp = (candidate: URL) => candidate.protocol === 'http:' || candidate.protocol === 'https:';
+    if (!isHttp(target) || !isHttp(script) || (target.origin !== pageOrigin && target.origin !== script.origin)) {
+      return null;
+    }
+
+    try {
+      const response = await fetch(target.href, { signal: AbortSignal.timeout(5000) });
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (!response.ok || !response.body || declaredLength > MAX_SOURCE_BYTES) {
+        return null;
+      }
+
+      // Read incrementally so an undeclared oversized body is abandoned early
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let received = 0;
+      let text = '';
+
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          return text + decoder.decode();
+        }
+
+        received += value.byteLength;
+        if (received > MAX_SOURCE_BYTES) {
+          await reader.cancel();
+          return null;
+        }
+        text += decoder.decode(value, { stream: true });
+      }
+    } catch {
+      return null;
+    }
+  }
+
   // Try to connect to VSCode on startup
   connectToVSCode();
 
@@ -72,7 +233,7 @@ export default defineBackground(() => {
   });
 
   // Handle messages from content scripts and popup
-  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     console.log('Background received message:', message);
     
     const { type, payload } = message;
@@ -85,10 +246,87 @@ export default defineBackground(() => {
         }
         sendResponse({ success: true });
         break;
+      case 'logs:frame-relay':
+        // Child frames hand their logs to the top frame, which owns the tab's session.
+        // The protocol backend already reports every frame, so relays are dropped then.
+        if (sender.tab?.id !== undefined && !devtoolsCapture.isAttached(sender.tab.id) &&
+            payload?.logs && Array.isArray(payload.logs)) {
+          chrome.tabs.sendMessage(
+            sender.tab.id,
+            { type: 'logs:frame-merge', payload: { logs: payload.logs, frameId: sender.frameId } },
+            { frameId: 0 }
+          ).catch(() => {
+            // Top frame may be navigating
+          });
+        }
+        sendResponse({ success: true });
+        break;
+
+      case 'frames:sync':
+        // Child frames loaded mid-session ask whether the top frame is capturing
+        if (sender.tab?.id === undefined) {
+          sendResponse({ success: false, error: 'No tab' });
+          break;
+        }
+        chrome.tabs.sendMessage(sender.tab.id, { type: 'capture:status' }, { frameId: 0 })
+          .then(response => sendResponse({ success: true, isCapturing: response?.status?.isCapturing === true }))
+          .catch(() => sendResponse({ success: true, isCapturing: false }));
+        break;
+
+      case 'frames:follow':
+        // A capture trigger started or stopped the top frame's session; relay to its child frames
+        if (sender.tab?.id === undefined) {
+          sendResponse({ success: false, error: 'No tab' });
+          break;
+        }
+        chrome.tabs.sendMessage(sender.tab.id, { type: 'frames:follow', payload })
+          .catch(() => {
+            // Tab has no other frames listening
+          });
+        sendResponse({ success: true });
+        break;
+
+      case 'devtools:attach':
+        // Top frame switched its session to the DevTools Protocol backend
+        if (sender.tab?.id === undefined) {
+          sendResponse({ success: false, error: 'No tab' });
+          break;
+        }
+        devtoolsCapture.attach(sender.tab.id)
+          .then(() => sendResponse({ success: true }))
+          .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+        break;
+
+      case 'devtools:detach':
+        if (sender.tab?.id !== undefined) {
+          devtoolsCapture.detach(sender.tab.id).then(() => sendResponse({ success: true }));
+        } else {
+          sendResponse({ success: false, error: 'No tab' });
+        }
+        break;
+
       case 'ping':
         sendResponse({ success: true, message: 'Background script alive' });
         break;
 
+      case 'screenshot:capture':
+        // Only the top frame's session requests screenshots
+        if (sender.tab?.windowId === undefined || sender.frameId !== 0) {
+          sendResponse({ success: false, error: 'No tab' });
+          break;
+        }
+        captureScreenshot(sender.tab.windowId, payload)
+          .then(screenshot => sendResponse({ success: true, screenshot }))
+          .catch((error: Error) => sendResponse({ success: false, error: error.message }));
+        break;
+
+      case 'sourcemap:fetch':
+        // Fetch scripts and source maps for stack trace resolution
+        fetchSourceText(payload?.url, payload?.scriptUrl, getSenderOrigin(sender)).then(text => {
+          sendResponse(text !== null ? { success: true, text } : { success: false, error: 'Not found' });
+        });
+        break;
+
       case 'websocket:status':
         // Return the current WebSocket connection status
         const wsState = vscodeWebSocket?.readyState;
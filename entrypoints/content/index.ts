@@ -6,11 +6,14 @@
 import { CaptureEngine } from '../../src/capture/CaptureEngine.js';
 import { EventBus } from '../../src/core/EventBus.js';
 import { SecurityEngine } from '../../src/security/SecurityEngine.js';
-import type { CaptureSession, ExtensionConfig } from '../../src/types/index.js';
+import type { CaptureSession, ExtensionConfig, LogEntry } from '../../src/types/index.js';
 
 export default defineContentScript({
   matches: ['<all_urls>', 'http://localhost:*/*', 'https://localhost:*/*'],
   runAt: 'document_start',
+  // Child frames capture too and relay their logs to the top frame's session
+  allFrames: true,
+  matchAboutBlank: true,
   main: async () => {
     console.log('ConsoleCapture Pro content script injected at:', window.location.href);
 
@@ -24,6 +27,7 @@ export default defineContentScript({
       captureEnabled: true,
       capturedLevels: ['log', 'warn', 'error', 'info'],
       maxLogsRetained: 1000,
+      filterRules: [],
       autoCaptureOnLoad: false,
       privacy: {
         enablePIIDetection: true,
@@ -39,42 +43,214 @@ export default defineContentScript({
       export: {
         defaultFormat: 'json',
         includeMetadata: true
+      },
+      sourceMaps: {
+        enabled: true,
+        localDirectories: []
+      },
+      captureMode: 'patch',
+      contexts: {
+        frames: true,
+        workers: false
+      },
+      networkCapture: {
+        captureHeaders: false,
+        captureBodies: false,
+        maxBodyBytes: 16384,
+        allowOrigins: [],
+        denyOrigins: [],
+        captureFrames: false
+      },
+      requestCorrelation: {
+        enabled: true,
+        windowMs: 1000,
+        injectTraceparent: false
+      },
+      domSnapshots: {
+        enabled: false,
+        maxPerSession: 3,
+        maxBytes: 524288
+      },
+      screenshots: {
+        enabled: false,
+        onError: true,
+        maxPerSession: 5,
+        format: 'png',
+        redactSelectors: ['input[type="password"]', '[data-redact]']
+      },
+      storageState: {
+        enabled: true,
+        maxEntries: 100,
+        maxValueLength: 200
+      },
+      asyncStacks: {
+        enabled: false,
+        maxDepth: 5
+      },
+      preRoll: {
+        enabled: true,
+        maxEntries: 500,
+        maxAgeSeconds: 60
+      },
+      deduplication: {
+        enabled: true,
+        mode: 'consecutive',
+        windowMs: 5000
+      },
+      rateLimit: {
+        enabled: true,
+        ratePerSecond: 50,
+        burst: 200
+      },
+      triggers: {
+        startOnError: false,
+        startOnUrlPatterns: [],
+        startOnLogPatterns: [],
+        stopAfterQuietSeconds: 0,
+        stopAfterEntries: 0,
+        stopOnNavigation: false
+      }
+    };
+
+    const isTopFrame = window.top === window;
+    // The DevTools Protocol backend captures every frame from the top frame's session
+    if (!isTopFrame && (!defaultConfig.contexts.frames || defaultConfig.captureMode === 'devtools-protocol')) {
+      return;
+    }
+
+    // Asks the background to attach chrome.debugger; patching takes over if it cannot
+    const attachDebugger = async (): Promise<void> => {
+      const response = await chrome.runtime.sendMessage({ type: 'devtools:attach' }).catch(() => null);
+      if (!response?.success) {
+        console.warn('ConsoleCapture Pro: DevTools Protocol capture unavailable, falling back to console patching', response?.error);
+        await captureEngine.switchCaptureMode('patch');
       }
     };
 
     let currentSession: CaptureSession | null = null;
 
     try {
-      // Initialize capture engine
-      await captureEngine.initialize();
+      // Configure before initializing: worker instrumentation is set up when the page hook is injected
       captureEngine.updateConfig(defaultConfig);
+      await captureEngine.initialize();
+
+      // Load scripts and source maps through the background, which is not bound by page CORS
+      captureEngine.setSourceFetcher(async (url: string, scriptUrl: string) => {
+        try {
+          const response = await chrome.runtime.sendMessage({ type: 'sourcemap:fetch', payload: { url, scriptUrl } });
+          return response?.success ? response.text : null;
+        } catch {
+          return null;
+        }
+      });
+
+      // Only the background can capture the visible tab; it redacts and stores the image
+      captureEngine.setScreenshotTaker(async (request) => {
+        const response = await chrome.runtime.sendMessage({ type: 'screenshot:capture', payload: request });
+        return response?.success ? { ...response.screenshot, timestamp: new Date(response.screenshot.timestamp) } : null;
+      });
 
-      // Forward logs to background script for VSCode integration
+      // Forward logs to background script: the top frame sends them on to VSCode,
+      // child frames hand them to the top frame's session
       eventBus.on('capture:log-captured', (event: any) => {
         const activeSession = captureEngine.getCurrentSession();
-        if (activeSession) {
+        const logEntry = activeSession?.logs.find((log: LogEntry) => log.id === event.logId);
+        if (logEntry) {
           chrome.runtime.sendMessage({
-            type: 'logs:forward',
+            type: isTopFrame ? 'logs:forward' : 'logs:frame-relay',
             payload: {
-              logs: [activeSession.logs[activeSession.logs.length - 1]] // Send the latest log
+              logs: [logEntry]
             }
           }).catch(() => {
             // Ignore errors if background script isn't ready
           });
         }
       });
+
+      // Auto mode moves to the protocol backend when the page's CSP blocks the page hook
+      eventBus.on('capture:mode-changed', (event: any) => {
+        if (isTopFrame && event.captureMode === 'devtools-protocol') {
+          void attachDebugger();
+        }
+      });
+
+      // Sessions started and stopped by capture triggers; child frames follow through the background
+      if (isTopFrame) {
+        eventBus.on('capture:started', () => {
+          currentSession = captureEngine.getCurrentSession();
+          if (captureEngine.getActiveCaptureMode() === 'devtools-protocol') {
+            void attachDebugger();
+          }
+          chrome.runtime.sendMessage({
+            type: 'frames:follow',
+            payload: { action: 'start', includePreRoll: defaultConfig.preRoll.enabled }
+          }).catch(() => {
+            // Frames join on the next capture:start
+          });
+        });
+
+        eventBus.on('capture:stopped', () => {
+          currentSession = null;
+          // Detaching is a no-op when the session did not use the debugger
+          chrome.runtime.sendMessage({ type: 'devtools:detach' }).catch(() => {
+            // Background will detach when the tab closes
+          });
+          chrome.runtime.sendMessage({ type: 'frames:follow', payload: { action: 'stop' } }).catch(() => {
+            // Frame sessions end with their page
+          });
+        });
+
+        await captureEngine.evaluateLoadTriggers();
+      }
+
+      // Frames loaded while the top frame is already capturing join its session
+      if (!isTopFrame) {
+        chrome.runtime.sendMessage({ type: 'frames:sync' }).then(async (response) => {
+          if (response?.isCapturing && !captureEngine.isCapturing()) {
+            currentSession = await captureEngine.startSession();
+          }
+        }).catch(() => {
+          // Background may not be ready; the frame joins on the next capture:start
+        });
+      }
     } catch (error) {
       console.error('Failed to initialize ConsoleCapture Pro:', error);
     }
 
+    // Child frames follow capture start and stop silently; only the top frame responds
+    if (!isTopFrame) {
+      chrome.runtime.onMessage.addListener((message) => {
+        const action = message.type === 'frames:follow' ? message.payload?.action : message.type;
+        if ((action === 'capture:start' || action === 'start') && !captureEngine.isCapturing()) {
+          captureEngine.startSession({ includePreRoll: message.payload?.includePreRoll === true }).then(session => {
+            currentSession = session;
+          }).catch(() => {
+            // Frame could not start capturing; the top frame's session is unaffected
+          });
+        } else if ((action === 'capture:stop' || action === 'stop') && captureEngine.isCapturing()) {
+          captureEngine.stopSession().catch(() => {
+            // Session state is discarded either way
+          });
+          currentSession = null;
+        }
+        return false;
+      });
+      return;
+    }
+
     // Message handling
     chrome.runtime.onMessage.addListener(async (message, _sender, sendResponse) => {
-      const { type } = message;
+      const { type, payload } = message;
 
       try {
         switch (type) {
           case 'capture:start':
-            currentSession = await captureEngine.startSession();
+            currentSession = await captureEngine.startSession({
+              includePreRoll: payload?.includePreRoll === true
+            });
+            if (captureEngine.getActiveCaptureMode() === 'devtools-protocol') {
+              await attachDebugger();
+            }
             sendResponse({ 
               success: true, 
               session: {
@@ -86,8 +262,14 @@ export default defineContentScript({
             return true;
 
           case 'capture:stop':
+            const usedProtocol = captureEngine.isCapturing() && captureEngine.getActiveCaptureMode() === 'devtools-protocol';
             const stoppedSession = await captureEngine.stopSession();
             currentSession = null;
+            if (usedProtocol) {
+              chrome.runtime.sendMessage({ type: 'devtools:detach' }).catch(() => {
+                // Background will detach when the tab closes
+              });
+            }
             sendResponse({ 
               success: true, 
               session: stoppedSession ? {
@@ -115,6 +297,44 @@ export default defineContentScript({
             });
             return true;
 
+          case 'logs:frame-merge':
+            // Logs relayed from child frames through the background
+            if (Array.isArray(payload?.logs)) {
+              captureEngine.addExternalLogs(
+                payload.logs,
+                typeof payload.frameId === 'number' ? { frameId: payload.frameId } : undefined
+              );
+            }
+            sendResponse({ success: true });
+            return true;
+
+          case 'frames:follow':
+            // Relayed for child frames; this frame started or stopped the session itself
+            sendResponse({ success: true });
+            return true;
+
+          case 'devtools:log':
+            captureEngine.addProtocolLog(payload.record);
+            sendResponse({ success: true });
+            return true;
+
+          case 'devtools:network':
+            captureEngine.addNetworkRequest(payload.request);
+            sendResponse({ success: true });
+            return true;
+
+          case 'screenshot:hotkey':
+            // Keyboard shortcut relayed by the background
+            const screenshot = await captureEngine.captureScreenshot('hotkey');
+            sendResponse({ success: screenshot !== null, screenshot });
+            return true;
+
+          case 'devtools:detached':
+            // The user dismissed the debugging banner or opened DevTools on another client
+            await captureEngine.switchCaptureMode('patch');
+            sendResponse({ success: true });
+            return true;
+
           case 'ping':
             sendResponse({ 
               success: true, 
@@ -0,0 +1,55 @@
+/**
+ * Main-world bridge script for ConsoleCapture Pro
+ * Injected by the content script to wrap the page's own console, and loaded
+ * into instrumented dedicated workers by their bootstrap script
+ */
+
+import { defineUnlistedScript } from 'wxt/sandbox';
+import { PageConsoleHook } from '../src/capture/PageConsoleHook.js';
+import { WORKER_HOOK_GLOBAL, type WorkerHookConfig } from '../src/capture/WorkerInstrumentation.js';
+
+export default defineUnlistedScript(() => {
+  if (typeof document === 'undefined') {
+    installWorkerHook();
+    return;
+  }
+
+  // The nonce is only readable while the injected script element is executing
+  const script = document.currentScript as HTMLScriptElement | null;
+  const nonce = script?.dataset['nonce'];
+
+  if (!script || !nonce) {
+    return;
+  }
+
+  const captureWorkers = script.dataset['captureWorkers'] === 'true';
+  const asyncStackDepth = Number(script.dataset['asyncStackDepth'] ?? 0) || 0;
+  script.removeAttribute('data-nonce');
+
+  new PageConsoleHook(nonce, {
+    ...(captureWorkers ? { workerHookUrl: script.src } : {}),
+    asyncStackDepth
+  }).install();
+});
+
+/**
+ * Installs the hook inside a dedicated worker started by WorkerInstrumentation
+ */
+function installWorkerHook(): void {
+  const scope = self as unknown as Record<string, WorkerHookConfig | undefined>;
+  const config = scope[WORKER_HOOK_GLOBAL];
+  delete scope[WORKER_HOOK_GLOBAL];
+
+  if (!config || typeof BroadcastChannel !== 'function') {
+    return;
+  }
+
+  const channel = new BroadcastChannel(config.channelName);
+
+  // The page-side hook forwards these over its port to the content script
+  new PageConsoleHook('', {
+    transport: message => channel.postMessage(message),
+    context: { type: 'dedicated-worker', frameUrl: config.frameUrl, workerUrl: config.workerUrl },
+    asyncStackDepth: config.asyncStackDepth ?? 0
+  }).install();
+}
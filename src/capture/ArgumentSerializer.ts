@@ -0,0 +1,532 @@
+/**
+ * ArgumentSerializer - Converts console arguments into typed, bounded previews
+ * Produces DevTools RemoteObject-like values that survive postMessage and JSON,
+ * and renders printf-style console messages from them. Has no extension
+ * dependencies so it can run in the page's main world as well as in the content script
+ */
+
+import type { SerializedProperty, SerializedValue } from '../types/index.js';
+
+/**
+ * Limits applied when serializing console arguments
+ */
+export interface SerializationLimits {
+  /** Maximum object nesting depth */
+  maxDepth: number;
+  /** Maximum number of properties or items per object */
+  maxProperties: number;
+  /** Maximum string length */
+  maxStringLength: number;
+  /** Maximum number of properties shown in one-line previews */
+  maxPreviewProperties: number;
+  /** Maximum number of values serialized per call, across all nesting levels */
+  maxNodes: number;
+}
+
+/**
+ * State shared by one serialization call
+ */
+interface SerializationState {
+  /** Objects already visited on the current path */
+  seen: WeakSet<object>;
+  /** Values that may still be serialized before children are cut off */
+  remainingNodes: number;
+}
+
+/**
+ * Cycle-safe serializer for console arguments, bounded in depth and total size
+ */
+export class ArgumentSerializer {
+  private readonly limits: SerializationLimits;
+
+  /**
+   * Creates a new ArgumentSerializer instance
+   * @param limits - Optional overrides for the serialization limits
+   */
+  constructor(limits: Partial<SerializationLimits> = {}) {
+    this.limits = {
+      maxDepth: 4,
+      maxProperties: 100,
+      maxStringLength: 10000,
+      maxPreviewProperties: 5,
+      maxNodes: 1000,
+      ...limits
+    };
+  }
+
+  /**
+   * Serializes a list of console arguments
+   * The arguments share one node budget, so a single console call stays bounded
+   * @param args - Console arguments
+   * @returns Serialized arguments
+   */
+  serializeAll(args: unknown[]): SerializedValue[] {
+    const state = this.createState();
+    return args.map(arg => this.serializeValue(arg, 0, state));
+  }
+
+  /**
+   * Serializes a single value
+   * @param value - Value to serialize
+   * @returns Serialized value
+   */
+  serialize(value: unknown): SerializedValue {
+    return this.serializeValue(value, 0, this.createState());
+  }
+
+  /**
+   * Renders serialized console arguments into a single message, applying
+   * printf-style substitutions (%s, %d, %i, %f, %o, %O, %c) the way the console does
+   * @param args - Serialized console arguments
+   * @returns Rendered message
+   */
+  formatMessage(args: SerializedValue[]): string {
+    const [first, ...rest] = args;
+    if (!first) {
+      return '';
+    }
+
+    if (first.type !== 'string') {
+      return args.map(arg => this.preview(arg, false)).join(' ');
+    }
+
+    const remaining = [...rest];
+    const format = typeof first.value === 'string' ? first.value : first.description;
+
+    const rendered = format.replace(/%[sdifoOc%]/g, token => {
+      if (token === '%%') {
+        return '%';
+      }
+
+      const arg = remaining.shift();
+      if (!arg) {
+        return token;
+      }
+
+      switch (token) {
+        case '%s':
+          return this.preview(arg, false);
+        case '%d':
+        case '%i':
+          return arg.type === 'number' || arg.type === 'string'
+            ? String(parseInt(arg.description, 10))
+            : 'NaN';
+        case '%f':
+          return arg.type === 'number' || arg.type === 'string'
+            ? String(parseFloat(arg.description))
+            : 'NaN';
+        case '%c':
+          // CSS styling has no meaning outside the DevTools console
+          return '';
+        default:
+          // %o and %O expand objects; strings stay quoted
+          return this.preview(arg, arg.type === 'string');
+      }
+    });
+
+    return [rendered, ...remaining.map(arg => this.preview(arg, false))].join(' ');
+  }
+
+  /**
+   * Renders a serialized value as multi-line, indented text for reports
+   * @param value - Serialized value
+   * @param indent - Current indentation
+   * @returns Rendered text
+   */
+  inspect(value: SerializedValue, indent: string = ''): string {
+    if (value.type === 'error') {
+      return value.stack ?? value.description;
+    }
+
+    const childIndent = `${indent}  `;
+    const lines: string[] = [];
+
+    if (value.entries) {
+      for (const entry of value.entries) {
+        lines.push(`${childIndent}${this.inspect(entry.key, childIndent)} => ${this.inspect(entry.value, childIndent)}`);
+      }
+    }
+
+    if (value.properties) {
+      for (const property of value.properties) {
+        const name = value.type === 'set' ? '' : `${property.name}: `;
+        lines.push(`${childIndent}${name}${this.inspect(property.value, childIndent)}`);
+      }
+    }
+
+    if (lines.length === 0) {
+      return value.overflow ? this.shortDescription(value) : this.preview(value, true);
+    }
+
+    if (value.overflow) {
+      lines.push(`${childIndent}…`);
+    }
+
+    const [open, close] = value.type === 'array' ? ['[', ']'] : ['{', '}'];
+    const header = value.type === 'object' && value.className === 'Object' ? '' : `${value.description} `;
+
+    return `${header}${open}\n${lines.join(',\n')}\n${indent}${close}`;
+  }
+
+  /**
+   * Renders a one-line preview of a serialized value
+   * @param value - Serialized value
+   * @param nested - Whether the value appears inside another value
+   * @returns Preview text
+   */
+  preview(value: SerializedValue, nested: boolean): string {
+    switch (value.type) {
+      case 'string': {
+        const text = typeof value.value === 'string' ? value.value : value.description;
+        return nested ? `'${text}'` : text;
+      }
+      case 'error':
+        return !nested && value.stack ? value.stack : value.description;
+      case 'array':
+      case 'object':
+      case 'map':
+      case 'set':
+        return nested ? this.shortDescription(value) : this.previewChildren(value);
+      default:
+        return value.description;
+    }
+  }
+
+  /**
+   * Renders a one-level preview of an object's children
+   * @param value - Serialized object, array, map or set
+   * @returns Preview text
+   */
+  private previewChildren(value: SerializedValue): string {
+    const limit = this.limits.maxPreviewProperties;
+    const parts: string[] = [];
+
+    if (value.entries) {
+      for (const entry of value.entries.slice(0, limit)) {
+        parts.push(`${this.preview(entry.key, true)} => ${this.preview(entry.value, true)}`);
+      }
+    }
+
+    if (value.properties) {
+      for (const property of value.properties.slice(0, limit)) {
+        const name = value.type === 'array' || value.type === 'set' ? '' : `${property.name}: `;
+        parts.push(`${name}${this.preview(property.value, true)}`);
+      }
+    }
+
+    const shown = (value.entries?.length ?? 0) + (value.properties?.length ?? 0);
+    if (value.overflow || shown > limit) {
+      parts.push('…');
+    }
+
+    if (value.type === 'array') {
+      const prefix = value.className && value.className !== 'Array' ? `${value.description} ` : '';
+      return `${prefix}[${parts.join(', ')}]`;
+    }
+
+    const prefix = value.type === 'object' && value.className === 'Object' ? '' : `${value.description} `;
+    return `${prefix}{${parts.join(', ')}}`;
+  }
+
+  /**
+   * Gets the short description used for nested objects
+   * @param value - Serialized object, array, map or set
+   * @returns Short description
+   */
+  private shortDescription(value: SerializedValue): string {
+    if (value.type === 'object') {
+      return value.className === 'Object' ? '{…}' : value.description;
+    }
+
+    return value.description;
+  }
+
+  /**
+   * Creates the state for one serialization call
+   * @returns Fresh serialization state
+   */
+  private createState(): SerializationState {
+    return { seen: new WeakSet(), remainingNodes: this.limits.maxNodes };
+  }
+
+  /**
+   * Serializes a value at a given depth
+   * @param value - Value to serialize
+   * @param depth - Current nesting depth
+   * @param state - Serialization state of the current call
+   * @returns Serialized value
+   */
+  private serializeValue(value: unknown, depth: number, state: SerializationState): SerializedValue {
+    state.remainingNodes--;
+
+    switch (typeof value) {
+      case 'string': {
+        const text = value.length > this.limits.maxStringLength
+          ? `${value.substring(0, this.limits.maxStringLength)}…`
+          : value;
+        // The full text lives in value; the description is only a short label
+        const description = text.length > 100 ? `${text.substring(0, 100)}…` : text;
+        return { type: 'string', value: text, description };
+      }
+      case 'number': {
+        const description = Object.is(value, -0) ? '-0' : String(value);
+        // NaN and Infinity have no JSON representation, the description carries them
+        return Number.isFinite(value)
+          ? { type: 'number', value, description }
+          : { type: 'number', description };
+      }
+      case 'boolean':
+        return { type: 'boolean', value, description: String(value) };
+      case 'undefined':
+        return { type: 'undefined', description: 'undefined' };
+      case 'bigint':
+        return { type: 'bigint', description: `${value.toString()}n` };
+      case 'symbol':
+        return { type: 'symbol', description: value.toString() };
+      case 'function':
+        return { type: 'function', className: 'Function', description: `ƒ ${value.name || 'anonymous'}()` };
+    }
+
+    if (value === null) {
+      return { type: 'null', description: 'null' };
+    }
+
+    const object = value as object;
+
+    if (state.seen.has(object)) {
+      return { type: 'circular', description: '[Circular]' };
+    }
+
+    state.seen.add(object);
+
+    try {
+      return this.serializeObject(object, depth, state);
+    } finally {
+      state.seen.delete(object);
+    }
+  }
+
+  /**
+   * Serializes a non-null object
+   * @param object - Object to serialize
+   * @param depth - Current nesting depth
+   * @param state - Serialization state of the current call
+   * @returns Serialized value
+   */
+  private serializeObject(object: object, depth: number, state: SerializationState): SerializedValue {
+    const className = this.getClassName(object);
+    const expand = depth < this.limits.maxDepth;
+
+    if (object instanceof Error) {
+      const result: SerializedValue = {
+        type: 'error',
+        className,
+        description: `${object.name}: ${object.message}`
+      };
+
+      if (object.stack) {
+        result.stack = object.stack;
+      }
+
+      this.addProperties(result, object, depth, state);
+      return result;
+    }
+
+    if (object instanceof Date) {
+      return {
+        type: 'date',
+        className,
+        description: isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString()
+      };
+    }
+
+    if (object instanceof RegExp) {
+      return { type: 'regexp', className, description: String(object) };
+    }
+
+    if (typeof Node !== 'undefined' && object instanceof Node) {
+      return { type: 'node', className, description: this.describeNode(object) };
+    }
+
+    if (typeof Promise !== 'undefined' && object instanceof Promise) {
+      return { type: 'promise', className, description: 'Promise' };
+    }
+
+    if (object instanceof Map) {
+      const result: SerializedValue = {
+        type: 'map',
+        className,
+        description: `${className}(${object.size})`,
+        size: object.size
+      };
+
+      if (!expand) {
+        result.overflow = object.size > 0;
+        return result;
+      }
+
+      result.entries = [];
+      for (const [key, entryValue] of object) {
+        if (result.entries.length >= this.limits.maxProperties || state.remainingNodes <= 0) {
+          result.overflow = true;
+          break;
+        }
+        result.entries.push({
+          key: this.serializeValue(key, depth + 1, state),
+          value: this.serializeValue(entryValue, depth + 1, state)
+        });
+      }
+
+      return result;
+    }
+
+    if (object instanceof Set) {
+      const result: SerializedValue = {
+        type: 'set',
+        className,
+        description: `${className}(${object.size})`,
+        size: object.size
+      };
+
+      if (!expand) {
+        result.overflow = object.size > 0;
+        return result;
+      }
+
+      result.properties = [];
+      for (const member of object) {
+        if (result.properties.length >= this.limits.maxProperties || state.remainingNodes <= 0) {
+          result.overflow = true;
+          break;
+        }
+        result.properties.push({
+          name: String(result.properties.length),
+          value: this.serializeValue(member, depth + 1, state)
+        });
+      }
+
+      return result;
+    }
+
+    if (Array.isArray(object) || (ArrayBuffer.isView(object) && !(object instanceof DataView))) {
+      const items = object as ArrayLike<unknown>;
+      const result: SerializedValue = {
+        type: 'array',
+        className,
+        description: `${className}(${items.length})`,
+        size: items.length
+      };
+
+      if (!expand) {
+        result.overflow = items.length > 0;
+        return result;
+      }
+
+      const count = Math.min(items.length, this.limits.maxProperties);
+      result.properties = [];
+      for (let index = 0; index < count && state.remainingNodes > 0; index++) {
+        result.properties.push({
+          name: String(index),
+          value: this.readProperty(items, index, depth, state)
+        });
+      }
+
+      if (items.length > result.properties.length) {
+        result.overflow = true;
+      }
+
+      return result;
+    }
+
+    const result: SerializedValue = { type: 'object', className, description: className };
+    this.addProperties(result, object, depth, state);
+    return result;
+  }
+
+  /**
+   * Adds an object's own enumerable properties to a serialized value
+   * @param result - Serialized value to populate
+   * @param object - Source object
+   * @param depth - Current nesting depth
+   * @param state - Serialization state of the current call
+   */
+  private addProperties(result: SerializedValue, object: object, depth: number, state: SerializationState): void {
+    const keys = Object.keys(object);
+    if (keys.length === 0) {
+      return;
+    }
+
+    if (depth >= this.limits.maxDepth) {
+      result.overflow = true;
+      return;
+    }
+
+    const properties: SerializedProperty[] = [];
+
+    for (const key of keys.slice(0, this.limits.maxProperties)) {
+      // The node budget is spent; mark the rest as cut like any other limit
+      if (state.remainingNodes <= 0) {
+        break;
+      }
+      properties.push({ name: key, value: this.readProperty(object, key, depth, state) });
+    }
+
+    result.properties = properties;
+
+    if (keys.length > properties.length) {
+      result.overflow = true;
+    }
+  }
+
+  /**
+   * Reads and serializes a single property, tolerating throwing getters
+   * @param object - Source object
+   * @param key - Property key
+   * @param depth - Depth of the source object
+   * @param state - Serialization state of the current call
+   * @returns Serialized property value
+   */
+  private readProperty(object: object, key: string | number, depth: number, state: SerializationState): SerializedValue {
+    try {
+      return this.serializeValue((object as Record<string | number, unknown>)[key], depth + 1, state);
+    } catch (error) {
+      return {
+        type: 'string',
+        description: `[Exception: ${error instanceof Error ? error.message : 'Unknown error'}]`
+      };
+    }
+  }
+
+  /**
+   * Gets the constructor name of an object
+   * @param object - Object to inspect
+   * @returns Constructor name, 'Object' when unavailable
+   */
+  private getClassName(object: object): string {
+    try {
+      const prototype: unknown = Object.getPrototypeOf(object);
+      const name: unknown = (prototype as { constructor?: { name?: unknown } } | null)?.constructor?.name;
+      return typeof name === 'string' && name ? name : 'Object';
+    } catch {
+      // Proxies can throw from getPrototypeOf
+      return 'Object';
+    }
+  }
+
+  /**
+   * Builds a short description of a DOM node
+   * @param node - DOM node
+   * @returns Node description
+   */
+  private describeNode(node: Node): string {
+    if (node instanceof Element) {
+      const id = node.id ? `#${node.id}` : '';
+      const classes = typeof node.className === 'string' && node.className
+        ? `.${node.className.trim().split(/\s+/).join('.')}`
+        : '';
+      return `<${node.tagName.toLowerCase()}${id}${classes}>`;
+    }
+
+    return node.nodeName;
+  }
+}
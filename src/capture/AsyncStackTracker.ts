@@ -0,0 +1,334 @@
+/**
+ * AsyncStackTracker - Records where the asynchronous work behind a console call was scheduled
+ * Wraps timers, microtasks, promise reactions, event listeners and fetch so each callback
+ * runs with the chain of scheduling sites that led to it. Runs inside the page and its
+ * workers, so it must not depend on any extension API
+ *
+ * Native await resumes without calling Promise.prototype.then, so awaited steps are only
+ * visible through the promises they were created from
+ */
+
+import type { AsyncOriginKind, AsyncStackSegment } from '../types/index.js';
+
+/**
+ * Global scope whose scheduling APIs are wrapped; a window or worker global
+ */
+export interface AsyncScope {
+  setTimeout?: unknown;
+  setInterval?: unknown;
+  requestAnimationFrame?: unknown;
+  queueMicrotask?: unknown;
+  fetch?: unknown;
+  Promise?: { prototype: object };
+  EventTarget?: { prototype: object };
+}
+
+/**
+ * Any function, called with whatever receiver the page used
+ */
+type AnyFunction = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * Number of stack lines per scheduling site
+ */
+const MAX_SEGMENT_FRAMES = 10;
+
+/**
+ * Wraps scheduling APIs to track async causality chains
+ */
+export class AsyncStackTracker {
+  private readonly maxDepth: number;
+  private currentChain: AsyncStackSegment[] = [];
+  private readonly promiseChains: WeakMap<object, AsyncStackSegment[]> = new WeakMap();
+  private readonly listenerWrappers: WeakMap<object, Map<string, AnyFunction>> = new WeakMap();
+  private readonly restorers: Array<() => void> = [];
+
+  /**
+   * Creates a new AsyncStackTracker instance
+   * @param maxDepth - Maximum number of scheduling sites kept per chain
+   */
+  constructor(maxDepth: number) {
+    this.maxDepth = Math.max(1, maxDepth);
+  }
+
+  /**
+   * Wraps the scope's scheduling APIs
+   * @param scope - Global scope to instrument
+   */
+  install(scope: AsyncScope = globalThis as unknown as AsyncScope): void {
+    if (this.restorers.length > 0) {
+      return;
+    }
+
+    for (const name of ['setTimeout', 'setInterval', 'requestAnimationFrame', 'queueMicrotask'] as const) {
+      this.patch(scope, name, original => this.wrapScheduler(name, original));
+    }
+
+    this.patch(scope, 'fetch', original => this.wrapFetch(original));
+
+    if (scope.Promise) {
+      this.patch(scope.Promise.prototype, 'then', original => this.wrapThen(original));
+    }
+
+    if (scope.EventTarget) {
+      const prototype = scope.EventTarget.prototype;
+      this.patch(prototype, 'addEventListener', original => this.wrapAddEventListener(original));
+      this.patch(prototype, 'removeEventListener', original => this.wrapRemoveEventListener(original));
+    }
+  }
+
+  /**
+   * Restores the original scheduling APIs
+   * Callbacks scheduled while installed keep their wrappers
+   */
+  uninstall(): void {
+    for (const restore of this.restorers.splice(0)) {
+      restore();
+    }
+    this.currentChain = [];
+  }
+
+  /**
+   * Gets the scheduling sites the running code descends from
+   * @returns Chain, innermost first, or undefined outside tracked callbacks
+   */
+  getCurrentChain(): AsyncStackSegment[] | undefined {
+    return this.currentChain.length > 0 ? [...this.currentChain] : undefined;
+  }
+
+  /**
+   * Replaces a function property with a wrapper and records how to restore it
+   * @param target - Object holding the function
+   * @param name - Property name
+   * @param createWrapper - Builds the wrapper from the original function
+   */
+  private patch(target: object, name: string, createWrapper: (original: AnyFunction) => AnyFunction): void {
+    const holder = target as Record<string, unknown>;
+    const original = holder[name];
+    if (typeof original !== 'function') {
+      return;
+    }
+
+    holder[name] = createWrapper(original as AnyFunction);
+    this.restorers.push(() => {
+      holder[name] = original;
+    });
+  }
+
+  /**
+   * Wraps a timer or microtask API whose first argument is the callback
+   * @param kind - Scheduling call
+   * @param original - Original API
+   * @returns Wrapped API
+   */
+  private wrapScheduler(kind: AsyncOriginKind, original: AnyFunction): AnyFunction {
+    const tracker = this;
+
+    return function (this: unknown, callback: unknown, ...args: unknown[]): unknown {
+      if (typeof callback !== 'function') {
+        return original.apply(this, [callback, ...args]);
+      }
+
+      const chain = tracker.extendChain(tracker.captureSegment(kind), tracker.currentChain);
+      return original.apply(this, [tracker.bind(callback as AnyFunction, chain), ...args]);
+    };
+  }
+
+  /**
+   * Wraps fetch so reactions to its promise descend from the request
+   * @param original - Original fetch
+   * @returns Wrapped fetch
+   */
+  private wrapFetch(original: AnyFunction): AnyFunction {
+    const tracker = this;
+
+    return function (this: unknown, ...args: unknown[]): unknown {
+      const segment = tracker.captureSegment('fetch', tracker.describeRequest(args[0]));
+      const result = original.apply(this, args);
+
+      if (result && typeof result === 'object') {
+        tracker.promiseChains.set(result, tracker.extendChain(segment, tracker.currentChain));
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Wraps Promise.prototype.then; catch and finally call it too
+   * A reaction descends from the promise it was attached to when that promise is tracked
+   * @param original - Original then
+   * @returns Wrapped then
+   */
+  private wrapThen(original: AnyFunction): AnyFunction {
+    const tracker = this;
+
+    return function (this: unknown, onFulfilled: unknown, onRejected: unknown): unknown {
+      const tracked = typeof this === 'object' && this !== null ? tracker.promiseChains.get(this) : undefined;
+      const parent = tracked ?? tracker.currentChain;
+      const chain = tracker.extendChain(tracker.captureSegment('promise'), parent);
+
+      const result = original.call(
+        this,
+        typeof onFulfilled === 'function' ? tracker.bind(onFulfilled as AnyFunction, chain) : onFulfilled,
+        typeof onRejected === 'function' ? tracker.bind(onRejected as AnyFunction, chain) : onRejected
+      );
+
+      if (result && typeof result === 'object') {
+        tracker.promiseChains.set(result, chain);
+      }
+      return result;
+    };
+  }
+
+  /**
+   * Wraps EventTarget.prototype.addEventListener
+   * The same listener, type and capture flag always map to the same wrapper, so
+   * duplicate registrations are still ignored and removal still works
+   * @param original - Original addEventListener
+   * @returns Wrapped addEventListener
+   */
+  private wrapAddEventListener(original: AnyFunction): AnyFunction {
+    const tracker = this;
+
+    return function (this: unknown, type: unknown, listener: unknown, options: unknown): unknown {
+      if (!listener || (typeof listener !== 'function' && typeof listener !== 'object')) {
+        return original.call(this, type, listener, options);
+      }
+
+      const key = tracker.getListenerKey(type, options);
+      let wrappers = tracker.listenerWrappers.get(listener);
+      let wrapper = wrappers?.get(key);
+
+      if (!wrapper) {
+        const chain = tracker.extendChain(tracker.captureSegment('event-listener', String(type)), tracker.currentChain);
+        const handler = listener as AnyFunction | { handleEvent?: AnyFunction };
+
+        // Listener objects are looked up at dispatch time, like the browser does
+        wrapper = tracker.bind(function (this: unknown, ...args: unknown[]): unknown {
+          return typeof handler === 'function'
+            ? handler.apply(this, args)
+            : handler.handleEvent?.apply(handler, args);
+        }, chain);
+
+        if (!wrappers) {
+          wrappers = new Map();
+          tracker.listenerWrappers.set(listener, wrappers);
+        }
+        wrappers.set(key, wrapper);
+      }
+
+      return original.call(this, type, wrapper, options);
+    };
+  }
+
+  /**
+   * Wraps EventTarget.prototype.removeEventListener to remove the registered wrapper
+   * @param original - Original removeEventListener
+   * @returns Wrapped removeEventListener
+   */
+  private wrapRemoveEventListener(original: AnyFunction): AnyFunction {
+    const tracker = this;
+
+    return function (this: unknown, type: unknown, listener: unknown, options: unknown): unknown {
+      const wrapper = (listener && typeof listener === 'object') || typeof listener === 'function'
+        ? tracker.listenerWrappers.get(listener as object)?.get(tracker.getListenerKey(type, options))
+        : undefined;
+
+      return original.call(this, type, wrapper ?? listener, options);
+    };
+  }
+
+  /**
+   * Wraps a callback so it runs with the given chain
+   * @param callback - Callback to wrap
+   * @param chain - Chain the callback descends from
+   * @returns Wrapped callback
+   */
+  private bind(callback: AnyFunction, chain: AsyncStackSegment[]): AnyFunction {
+    const tracker = this;
+
+    return function (this: unknown, ...args: unknown[]): unknown {
+      const previous = tracker.currentChain;
+      tracker.currentChain = chain;
+      try {
+        return callback.apply(this, args);
+      } finally {
+        tracker.currentChain = previous;
+      }
+    };
+  }
+
+  /**
+   * Prepends a scheduling site to a chain, keeping it within the maximum depth
+   * @param segment - New innermost site
+   * @param parent - Chain the scheduling code was running in
+   * @returns New chain
+   */
+  private extendChain(segment: AsyncStackSegment, parent: AsyncStackSegment[]): AsyncStackSegment[] {
+    return [segment, ...parent.slice(0, this.maxDepth - 1)];
+  }
+
+  /**
+   * Captures the stack at a scheduling site
+   * Must be called directly from a wrapper so the skipped frames are the tracker's own
+   * @param kind - Scheduling call
+   * @param detail - Event type or request URL
+   * @returns Scheduling site
+   */
+  private captureSegment(kind: AsyncOriginKind, detail?: string): AsyncStackSegment {
+    const segment: AsyncStackSegment = { kind };
+    if (detail) {
+      segment.detail = detail;
+    }
+
+    const stack = new Error().stack;
+    if (stack) {
+      // Skip captureSegment and the wrapper. Frame names are not reliable here
+      // because the bundle is minified.
+      const trackerFrameCount = 2;
+      const lines = stack
+        .split('\n')
+        .filter(line => line.trim().length > 0 && line.trim() !== 'Error')
+        .slice(trackerFrameCount, trackerFrameCount + MAX_SEGMENT_FRAMES);
+
+      if (lines.length > 0) {
+        segment.stackTrace = lines.join('\n');
+      }
+    }
+
+    return segment;
+  }
+
+  /**
+   * Describes a fetch request without its query string, which often carries tokens
+   * @param input - First fetch argument
+   * @returns Request URL or undefined
+   */
+  private describeRequest(input: unknown): string | undefined {
+    let url: string | undefined;
+
+    if (typeof input === 'string') {
+      url = input;
+    } else if (input instanceof URL) {
+      url = input.href;
+    } else if (input && typeof input === 'object' && 'url' in input) {
+      // Request objects
+      url = String((input as { url: unknown }).url);
+    }
+
+    return url?.split(/[?#]/)[0];
+  }
+
+  /**
+   * Builds the key identifying a listener registration
+   * @param type - Event type
+   * @param options - Capture flag or listener options
+   * @returns Registration key
+   */
+  private getListenerKey(type: unknown, options: unknown): string {
+    const capture = typeof options === 'boolean'
+      ? options
+      : Boolean(options && typeof options === 'object' && (options as { capture?: unknown }).capture);
+    return `${String(type)}:${capture}`;
+  }
+}
@@ -4,17 +4,39 @@
  */
 
 import type { 
+  Breadcrumb,
+  CaptureMode,
   CaptureSession, 
+  CaptureTrigger,
   LogEntry, 
   LogLevel, 
+  LogCaptureDetails,
+  ExecutionContext,
   ExtensionConfig, 
   SessionContext, 
   SessionMetadata,
+  StackFrame,
   PerformanceMetrics,
-  ExtensionError
+  NetworkRequest,
+  ExtensionError,
+  SampledOutCount,
+  ScreenshotReference,
+  ScreenshotTrigger
 } from '../types/index.js';
+import { ArgumentSerializer } from './ArgumentSerializer.js';
+import { CaptureFilter } from './CaptureFilter.js';
+import { CaptureTriggers } from './CaptureTriggers.js';
 import { ConsoleInterceptor } from './ConsoleInterceptor.js';
 import { ContextCollector } from './ContextCollector.js';
+import { HighResClock, compareLogOrder } from './HighResClock.js';
+import type { ProtocolLogRecord } from './DevToolsProtocolCapture.js';
+import { LogDeduplicator } from './LogDeduplicator.js';
+import { PageBridge } from './PageBridge.js';
+import { PreRollBuffer } from './PreRollBuffer.js';
+import { RateLimiter } from './RateLimiter.js';
+import { ScreenshotCapture, type ScreenshotTaker } from './ScreenshotCapture.js';
+import { SourceMapResolver, type SourceFetcher } from './SourceMapResolver.js';
+import { StackTraceParser } from './StackTraceParser.js';
 
 /**
  * Performance monitoring thresholds for capture system
@@ -24,10 +46,6 @@ interface PerformanceThresholds {
   maxCaptureLatencyMs: number;
   /** Maximum memory usage in MB */
   maxMemoryMB: number;
-  /** Throttle threshold in milliseconds */
-  throttleThresholdMs: number;
-  /** Maximum logs per second before throttling */
-  maxLogsPerSecond: number;
 }
 
 /**
@@ -42,10 +60,29 @@ interface CaptureStats {
   averageCaptureLatency: number;
   /** Current memory usage in MB */
   currentMemoryMB: number;
-  /** Number of throttled captures */
-  throttledCaptures: number;
+  /** Number of entries dropped by rate limiting */
+  sampledOutLogs: number;
+  /** Number of entries dropped by filter rules */
+  filteredLogs: number;
+  /** Number of entries each filter rule decided on, by rule ID */
+  filterHits: Record<string, number>;
 }
 
+/**
+ * Options for starting a capture session
+ */
+export interface StartSessionOptions {
+  /** Seed the session with logs buffered before it started */
+  includePreRoll?: boolean;
+  /** Trigger that started the session; defaults to a manual start */
+  trigger?: CaptureTrigger;
+}
+
+/**
+ * Share of performance.maxMemoryMB available to the pre-roll buffer
+ */
+const PRE_ROLL_MEMORY_SHARE = 0.1;
+
 /**
  * Main capture orchestration class that manages capture sessions and log collection
  * Integrates with security engine for PII detection and handles performance monitoring
@@ -53,18 +90,32 @@ interface CaptureStats {
 export class CaptureEngine {
   private currentSession: CaptureSession | null = null;
   private consoleInterceptor: ConsoleInterceptor;
+  private pageBridge: PageBridge;
   private contextCollector: ContextCollector;
+  private argumentSerializer: ArgumentSerializer;
+  private sourceMapResolver: SourceMapResolver;
+  private stackTraceParser: StackTraceParser;
+  private preRollBuffer: PreRollBuffer;
+  private captureTriggers: CaptureTriggers;
+  private logDeduplicator: LogDeduplicator;
+  private captureFilter: CaptureFilter;
+  private rateLimiter: RateLimiter;
+  private screenshotCapture: ScreenshotCapture = new ScreenshotCapture();
+  private clock: HighResClock = new HighResClock();
+  private sampledOutCounts: Map<string, SampledOutCount> = new Map();
+  private isTriggeredStartPending: boolean = false;
+  private navigationListener: (() => void) | null = null;
   private eventBus: any; // EventBus type from core
   private securityEngine: any; // SecurityEngine type from security
   private config: ExtensionConfig | null = null;
   private isInitialized: boolean = false;
+  private executionContext: ExecutionContext = { type: 'top-frame' };
+  private activeCaptureMode: Exclude<CaptureMode, 'auto'> = 'patch';
   
   // Performance monitoring
   private performanceThresholds: PerformanceThresholds = {
     maxCaptureLatencyMs: 2,
-    maxMemoryMB: 50,
-    throttleThresholdMs: 100,
-    maxLogsPerSecond: 1000
+    maxMemoryMB: 50
   };
   
   private captureStats: CaptureStats = {
@@ -72,14 +123,13 @@ export class CaptureEngine {
     logsPerSecond: 0,
     averageCaptureLatency: 0,
     currentMemoryMB: 0,
-    throttledCaptures: 0
+    sampledOutLogs: 0,
+    filteredLogs: 0,
+    filterHits: {}
   };
   
-  // Throttling and rate limiting
-  private lastCaptureTime: number = 0;
+  // Capture times within the last second, for logsPerSecond
   private recentCaptureTimes: number[] = [];
-  private throttleTimer: NodeJS.Timeout | null = null;
-  private pendingLogs: LogEntry[] = [];
   
   // Memory management
   private memoryMonitorInterval: NodeJS.Timeout | null = null;
@@ -94,7 +144,16 @@ export class CaptureEngine {
     this.eventBus = eventBus;
     this.securityEngine = securityEngine;
     this.consoleInterceptor = new ConsoleInterceptor();
+    this.pageBridge = new PageBridge();
     this.contextCollector = new ContextCollector();
+    this.argumentSerializer = new ArgumentSerializer();
+    this.sourceMapResolver = new SourceMapResolver();
+    this.stackTraceParser = new StackTraceParser();
+    this.preRollBuffer = new PreRollBuffer();
+    this.captureTriggers = new CaptureTriggers();
+    this.logDeduplicator = new LogDeduplicator();
+    this.captureFilter = new CaptureFilter();
+    this.rateLimiter = new RateLimiter();
   }
 
   /**
@@ -104,12 +163,21 @@ export class CaptureEngine {
    */
   async initialize(): Promise<void> {
     try {
+      this.executionContext = this.detectExecutionContext();
+      this.consoleInterceptor.setCSPRestrictionHandler(() => this.handleCSPRestriction());
+
       // Initialize components
       await this.consoleInterceptor.initialize();
+      await this.pageBridge.initialize();
       await this.contextCollector.initialize();
       
-      // Set up console interception handler
+      // Set up console interception handlers (isolated world and page main world)
       this.consoleInterceptor.setLogHandler(this.handleCapturedLog.bind(this));
+      this.pageBridge.setLogHandler(this.handleCapturedLog.bind(this));
+      this.pageBridge.setNavigationHandler((type, url) => this.contextCollector.recordNavigation(type, url));
+      this.pageBridge.setConnectionHandler(connection => this.contextCollector.recordConnection(connection));
+      this.pageBridge.setRequestHandler(request => this.contextCollector.recordNetworkRequest(request));
+      this.contextCollector.setPageNetworkController(config => this.pageBridge.sendNetworkConfig(config));
       
       // Start performance monitoring
       this.startPerformanceMonitoring();
@@ -118,6 +186,14 @@ export class CaptureEngine {
       this.setupCleanupHandlers();
       
       this.isInitialized = true;
+
+      this.captureTriggers.setStopHandler(trigger => {
+        void this.stopTriggeredSession(trigger);
+      });
+
+      // Fill the pre-roll buffer and watch for start triggers while no session is active
+      await this.syncIdleCapture();
+
       this.eventBus?.emit('capture:engine-initialized', { timestamp: new Date() });
       
     } catch (error) {
@@ -136,10 +212,11 @@ export class CaptureEngine {
 
   /**
    * Starts a new capture session
+   * @param options - Session start options
    * @returns Promise that resolves to the new capture session
    * @throws {ExtensionError} When session creation fails
    */
-  async startSession(): Promise<CaptureSession> {
+  async startSession(options: StartSessionOptions = {}): Promise<CaptureSession> {
     this.ensureInitialized();
     
     if (this.currentSession) {
@@ -161,12 +238,28 @@ export class CaptureEngine {
           errorCount: 0,
           warningCount: 0,
           containsSensitiveData: false,
-          tags: []
+          tags: [],
+          startTrigger: options.trigger ?? { reason: 'manual', timestamp: new Date() }
         }
       };
 
-      // Start console interception
-      await this.consoleInterceptor.startCapture();
+      this.logDeduplicator.reset();
+      this.rateLimiter.reset();
+      this.screenshotCapture.reset();
+      this.sampledOutCounts.clear();
+
+      // Buffered entries are either seeded below or discarded
+      const preRollEntries = options.includePreRoll ? this.preRollBuffer.drain() : [];
+      this.preRollBuffer.clear();
+
+      // Start the capture backend; protocol logs are delivered through addProtocolLog
+      this.activeCaptureMode = this.resolveCaptureMode();
+      if (this.activeCaptureMode !== 'patch') {
+        // Idle pre-roll capture patches the console even when the session will not
+        await this.consoleInterceptor.stopCapture();
+        this.pageBridge.stopCapture();
+      }
+      await this.startCaptureBackend();
       
       // Start context monitoring
       if (this.currentSession) {
@@ -179,9 +272,14 @@ export class CaptureEngine {
       if (this.currentSession) {
         this.eventBus?.emit('capture:session-started', { 
           sessionId: this.currentSession.id,
-          timestamp: this.currentSession.startTime 
+          timestamp: this.currentSession.startTime,
+          captureMode: this.activeCaptureMode
         });
       }
+
+      await this.seedPreRoll(preRollEntries);
+
+      this.watchSessionTriggers();
       
       return this.currentSession!;
       
@@ -203,10 +301,11 @@ export class CaptureEngine {
 
   /**
    * Stops the current capture session
+   * @param trigger - Trigger that stopped the session; defaults to a manual stop
    * @returns Promise that resolves to the completed session or null if no active session
    * @throws {ExtensionError} When stopping the session fails
    */
-  async stopSession(): Promise<CaptureSession | null> {
+  async stopSession(trigger?: CaptureTrigger): Promise<CaptureSession | null> {
     this.ensureInitialized();
     
     if (!this.currentSession) {
@@ -214,26 +313,41 @@ export class CaptureEngine {
     }
 
     try {
+      this.unwatchSessionTriggers();
+      this.currentSession.metadata.stopTrigger = trigger ?? { reason: 'manual', timestamp: new Date() };
+
       // Stop console interception
       await this.consoleInterceptor.stopCapture();
+      this.pageBridge.stopCapture();
       
       // Stop context monitoring
       this.contextCollector.stopMonitoring();
       
-      // Process any pending logs
-      await this.processPendingLogs();
-      
       // Finalize session
       this.currentSession.endTime = new Date();
       this.currentSession.context = await this.contextCollector.getFinalContext();
       
-      // Update performance metrics
+      if (this.currentSession.context.breadcrumbs && this.config?.privacy.enablePIIDetection) {
+        this.sanitizeBreadcrumbs(this.currentSession.context.breadcrumbs);
+      }
+      
+      const screenshots = this.screenshotCapture.getScreenshots();
+      if (screenshots.length > 0) {
+        this.currentSession.context.screenshots = screenshots;
+      }
+      
+      // Update performance metrics, keeping the Web Vitals and timeline the collector observed
       if (this.currentSession) {
-        this.currentSession.context.performance = await this.getPerformanceMetrics();
+        this.currentSession.context.performance = {
+          ...this.currentSession.context.performance,
+          ...await this.getPerformanceMetrics()
+        };
       }
       
       const completedSession = { ...this.currentSession };
       this.currentSession = null;
+
+      await this.syncIdleCapture();
       
       this.eventBus?.emit('capture:session-stopped', { 
         sessionId: completedSession.id,
@@ -283,27 +397,271 @@ export class CaptureEngine {
     // Update performance thresholds based on config
     if (config.performance) {
       this.performanceThresholds.maxMemoryMB = config.performance.maxMemoryMB;
-      this.performanceThresholds.throttleThresholdMs = config.performance.throttleMs;
     }
     
     // Update console interceptor configuration
     this.consoleInterceptor.updateConfig({
+      capturedLevels: config.capturedLevels
+    });
+    this.pageBridge.updateConfig({
       capturedLevels: config.capturedLevels,
-      throttleMs: config.performance?.throttleMs || 0
+      captureWorkers: config.contexts?.workers ?? false,
+      asyncStackDepth: config.asyncStacks?.enabled ? config.asyncStacks.maxDepth : 0
     });
     
     // Update context collector configuration
     this.contextCollector.updateConfig({
-      enablePerformanceMonitoring: config.performance?.enableMonitoring || false
+      enablePerformanceMonitoring: config.performance?.enableMonitoring || false,
+      ...(config.networkCapture ? { networkPayloads: config.networkCapture } : {}),
+      ...(config.requestCorrelation ? { requestCorrelation: config.requestCorrelation } : {}),
+      ...(config.domSnapshots ? { domSnapshots: config.domSnapshots } : {}),
+      ...(config.storageState ? { storageState: config.storageState } : {})
+    });
+    
+    // Update source map resolution
+    if (config.sourceMaps) {
+      this.sourceMapResolver.updateConfig({
+        enabled: config.sourceMaps.enabled,
+        localDirectories: config.sourceMaps.localDirectories
+      });
+    }
+
+    // Update filter rules
+    if (config.filterRules) {
+      this.captureFilter.setRules(config.filterRules);
+    }
+
+    // Update repeat collapsing
+    if (config.deduplication) {
+      this.logDeduplicator.updateConfig(config.deduplication);
+    }
+
+    // Update rate limiting
+    if (config.rateLimit) {
+      this.rateLimiter.updateConfig(config.rateLimit);
+    }
+
+    // Update screenshots
+    if (config.screenshots) {
+      this.screenshotCapture.updateConfig(config.screenshots);
+    }
+
+    // Update trigger rules
+    if (config.triggers) {
+      this.captureTriggers.updateConfig({
+        ...config.triggers,
+        startOnLoad: config.autoCaptureOnLoad
+      });
+    }
+
+    // Update pre-roll buffer limits
+    if (config.preRoll) {
+      this.preRollBuffer.updateConfig({
+        maxEntries: config.preRoll.enabled ? config.preRoll.maxEntries : 0,
+        maxAgeMs: config.preRoll.maxAgeSeconds * 1000,
+        maxBytes: this.performanceThresholds.maxMemoryMB * 1024 * 1024 * PRE_ROLL_MEMORY_SHARE
+      });
+    }
+
+    if (this.isInitialized) {
+      this.syncIdleCapture().catch(() => {
+        // Idle capture is best effort; sessions start the backend themselves
+      });
+    }
+  }
+
+  /**
+   * Sets the fetcher used to load scripts and source maps
+   * Content scripts route fetches through the background so cross-origin maps can load
+   * @param fetcher - Fetcher function
+   */
+  setSourceFetcher(fetcher: SourceFetcher): void {
+    this.sourceMapResolver.setFetcher(fetcher);
+  }
+
+  /**
+   * Sets the function that asks the background for a screenshot of the tab
+   * Only the background can capture the visible tab
+   * @param taker - Screenshot taker
+   */
+  setScreenshotTaker(taker: ScreenshotTaker): void {
+    this.screenshotCapture.setTaker(taker);
+  }
+
+  /**
+   * Takes a screenshot for the current session, within the session's screenshot cap
+   * @param trigger - What caused the screenshot
+   * @param logEntry - Error entry to link the screenshot to
+   * @returns Stored screenshot, or null when not capturing, disabled, capped or failed
+   */
+  async captureScreenshot(trigger: ScreenshotTrigger, logEntry?: LogEntry): Promise<ScreenshotReference | null> {
+    if (!this.currentSession) {
+      return null;
+    }
+
+    const sessionId = this.currentSession.id;
+    const screenshot = await this.screenshotCapture.capture(sessionId, trigger, logEntry?.id);
+
+    if (screenshot) {
+      if (logEntry) {
+        logEntry.screenshotId = screenshot.id;
+      }
+
+      this.eventBus?.emit('capture:screenshot-taken', {
+        sessionId,
+        screenshotId: screenshot.id,
+        trigger
+      });
+    }
+
+    return screenshot;
+  }
+
+  /**
+   * Gets the capture backend in use, or the one a new session would use
+   * @returns Active capture mode
+   */
+  getActiveCaptureMode(): Exclude<CaptureMode, 'auto'> {
+    return this.currentSession ? this.activeCaptureMode : this.resolveCaptureMode();
+  }
+
+  /**
+   * Switches the current session to another capture backend
+   * Used when auto mode detects a restrictive CSP, or when the debugger cannot attach
+   * @param mode - Capture backend to use
+   * @returns Promise that resolves when the backend has been switched
+   */
+  async switchCaptureMode(mode: Exclude<CaptureMode, 'auto'>): Promise<void> {
+    if (!this.currentSession || mode === this.activeCaptureMode) {
+      return;
+    }
+
+    this.activeCaptureMode = mode;
+
+    if (mode === 'devtools-protocol') {
+      await this.consoleInterceptor.stopCapture();
+      this.pageBridge.stopCapture();
+    }
+
+    await this.startCaptureBackend();
+
+    this.eventBus?.emit('capture:mode-changed', {
+      sessionId: this.currentSession.id,
+      captureMode: mode
     });
   }
 
+  /**
+   * Adds a log record captured through the DevTools Protocol to the current session
+   * @param record - Record converted from a protocol event
+   */
+  addProtocolLog(record: ProtocolLogRecord): void {
+    if (!this.currentSession || this.activeCaptureMode !== 'devtools-protocol') {
+      return;
+    }
+
+    // Enabling the Runtime domain replays messages logged before the session started
+    const timestamp = record.details.timestamp;
+    if (timestamp !== undefined && timestamp < this.currentSession.startTime.getTime()) {
+      return;
+    }
+
+    // Console calls respect the configured levels; errors and browser messages are always captured
+    const isConsoleCall = (record.details.origin ?? 'console') === 'console';
+    if (isConsoleCall && this.config && !this.config.capturedLevels.includes(record.level)) {
+      return;
+    }
+
+    void this.handleCapturedLog([], record.level, record.stackTrace, record.details);
+  }
+
+  /**
+   * Adds a network request observed by another capture backend to the session context
+   * @param request - Completed network request; its timestamp may be an ISO string after messaging
+   */
+  addNetworkRequest(request: NetworkRequest): void {
+    this.contextCollector.recordNetworkRequest({
+      ...request,
+      timestamp: new Date(request.timestamp)
+    });
+  }
+
+  /**
+   * Gets the execution context this engine captures from
+   * @returns Execution context of the document the engine runs in
+   */
+  getExecutionContext(): ExecutionContext {
+    return { ...this.executionContext };
+  }
+
+  /**
+   * Merges log entries captured in another execution context (e.g. a child frame)
+   * into the current session, keeping the session ordered by timestamp
+   * @param logEntries - Log entries captured elsewhere; timestamps may be ISO strings after messaging
+   * @param context - Execution context details to attach, such as the browser frame ID
+   */
+  addExternalLogs(logEntries: LogEntry[], context?: Partial<ExecutionContext>): void {
+    if (!this.currentSession) {
+      return;
+    }
+
+    for (const entry of logEntries) {
+      const logEntry: LogEntry = {
+        ...entry,
+        timestamp: new Date(entry.timestamp)
+      };
+
+      if (entry.lastRepeatTimestamp) {
+        logEntry.lastRepeatTimestamp = new Date(entry.lastRepeatTimestamp);
+      }
+
+      if (Number.isNaN(logEntry.timestamp.getTime())) {
+        continue;
+      }
+
+      const executionContext = { ...entry.executionContext, ...context };
+      if (executionContext.type) {
+        logEntry.executionContext = executionContext as ExecutionContext;
+      }
+
+      if (logEntry.classification?.sanitized) {
+        this.currentSession.metadata.containsSensitiveData = true;
+      }
+
+      this.emitLogAdded(logEntry, this.addLogToSession(logEntry));
+    }
+  }
+
+  /**
+   * Starts a session if the page load or URL rules match
+   * Called once the caller has subscribed to capture events
+   * @returns Promise that resolves to the started session, or null if no rule matched
+   */
+  async evaluateLoadTriggers(): Promise<CaptureSession | null> {
+    this.ensureInitialized();
+
+    if (this.currentSession || !this.shouldEvaluateTriggers()) {
+      return null;
+    }
+
+    const trigger = this.captureTriggers.checkPageLoad(window.location.href);
+    return trigger ? this.startTriggeredSession(trigger) : null;
+  }
+
+  /**
+   * Gets statistics about logs buffered while no session is active
+   * @returns Pre-roll buffer statistics
+   */
+  getPreRollStats(): ReturnType<PreRollBuffer['getStats']> {
+    return this.preRollBuffer.getStats();
+  }
+
   /**
    * Gets current capture statistics for performance monitoring
    * @returns Current capture statistics
    */
   getCaptureStats(): CaptureStats {
-    return { ...this.captureStats };
+    return { ...this.captureStats, filterHits: { ...this.captureStats.filterHits } };
   }
 
   /**
@@ -311,28 +669,36 @@ export class CaptureEngine {
    * @param originalArgs - Original console arguments
    * @param level - Log level
    * @param stackTrace - Stack trace if available
+   * @param details - Capture source and error details if available
    */
   private async handleCapturedLog(
     originalArgs: any[], 
     level: LogLevel, 
-    stackTrace?: string
+    stackTrace?: string,
+    details?: LogCaptureDetails
   ): Promise<void> {
     if (!this.currentSession) {
+      await this.handleIdleLog(originalArgs, level, stackTrace, details);
       return;
     }
 
     const startTime = performance.now();
     
     try {
-      // Check throttling
-      if (this.shouldThrottle()) {
-        this.captureStats.throttledCaptures++;
-        this.queueForThrottledProcessing(originalArgs, level, stackTrace);
+      // Create log entry
+      const logEntry = await this.createLogEntry(originalArgs, level, stackTrace, details);
+
+      const relatedRequest = this.contextCollector.findRelatedRequest(logEntry.timestamp);
+      if (relatedRequest?.id) {
+        logEntry.relatedRequestId = relatedRequest.id;
+      }
+
+      // Filter rules and rate limiting run before source map resolution, PII scanning and storage
+      if (!this.applyFilterRules(logEntry) || !this.applyRateLimit(logEntry)) {
         return;
       }
 
-      // Create log entry
-      const logEntry = await this.createLogEntry(originalArgs, level, stackTrace);
+      await this.resolveSourceMaps(logEntry);
       
       // Security scan for PII
       if (this.config?.privacy.enablePIIDetection) {
@@ -340,7 +706,18 @@ export class CaptureEngine {
       }
       
       // Add to session
-      this.addLogToSession(logEntry);
+      const storedEntry = this.addLogToSession(logEntry);
+      
+      // Snapshot the page while it still shows the error; repeats reuse the first snapshot
+      if (logEntry.level === 'error' && storedEntry === logEntry) {
+        const snapshot = this.contextCollector.captureDomSnapshot(logEntry.id);
+        if (snapshot) {
+          logEntry.domSnapshotId = snapshot.id;
+        }
+
+        // The screenshot round-trip through the background is not awaited
+        void this.captureScreenshot('error', logEntry);
+      }
       
       // Update statistics
       const captureLatency = performance.now() - startTime;
@@ -350,11 +727,7 @@ export class CaptureEngine {
       this.checkPerformanceThresholds(captureLatency);
       
       // Emit capture event
-      this.eventBus?.emit('capture:log-captured', {
-        sessionId: this.currentSession.id,
-        logId: logEntry.id,
-        level: logEntry.level
-      });
+      this.emitLogAdded(logEntry, storedEntry);
       
     } catch (error) {
       this.eventBus?.emit('capture:log-capture-failed', {
@@ -369,35 +742,45 @@ export class CaptureEngine {
    * @param originalArgs - Original console arguments
    * @param level - Log level
    * @param stackTrace - Stack trace if available
-   * @returns Promise that resolves to the created log entry
+   * @param details - Capture source and error details if available
+   * @returns Promise that resolves to the created log entry, with locations not yet source-mapped
    */
   private async createLogEntry(
     originalArgs: any[],
     level: LogLevel,
-    stackTrace?: string
+    stackTrace?: string,
+    details?: LogCaptureDetails
   ): Promise<LogEntry> {
-    // Convert arguments to message string
-    const message = originalArgs
-      .map(arg => {
-        if (typeof arg === 'object' && arg !== null) {
-          try {
-            return JSON.stringify(arg, null, 2);
-          } catch {
-            return String(arg);
-          }
-        }
-        return String(arg);
-      })
-      .join(' ');
+    // Serialize arguments into typed previews unless the capture source already did
+    const args = details?.serializedArgs ?? this.argumentSerializer.serializeAll(originalArgs);
+    const message = this.argumentSerializer.formatMessage(args);
 
-    // Extract source location from stack trace
-    const source = this.extractSourceLocation(stackTrace);
+    // Extract source location from stack trace, falling back to the error event location
+    const error = details?.error;
+    const frames = stackTrace ? this.stackTraceParser.parse(stackTrace) : [];
+    const source = this.extractSourceLocation(frames) ?? (
+      error?.filename && error.lineno !== undefined
+        ? { file: error.filename, line: error.lineno, column: error.colno ?? 0 }
+        : undefined
+    );
+
+    // Sources that do not stamp their logs are numbered on arrival, keeping any call time they report
+    const stamp = details?.hrTimestamp !== undefined && details.sequence !== undefined
+      ? { hrTimestamp: details.hrTimestamp, sequence: details.sequence }
+      : this.clock.stamp();
+    if (details?.hrTimestamp === undefined && details?.timestamp !== undefined) {
+      stamp.hrTimestamp = details.timestamp;
+    }
 
     const logEntry: LogEntry = {
       id: this.generateLogId(),
-      timestamp: new Date(),
+      timestamp: details?.timestamp !== undefined ? new Date(details.timestamp) : new Date(),
+      hrTimestamp: stamp.hrTimestamp,
+      sequence: stamp.sequence,
       level,
-      message
+      message,
+      origin: details?.origin ?? 'console',
+      args
     };
 
     if (source) {
@@ -408,9 +791,289 @@ export class CaptureEngine {
       logEntry.stackTrace = stackTrace;
     }
 
+    if (frames.length > 0) {
+      logEntry.frames = frames;
+    }
+
+    if (details?.asyncStack) {
+      logEntry.asyncStack = details.asyncStack;
+    }
+
+    if (error) {
+      logEntry.error = error;
+    }
+
+    if (details?.console) {
+      logEntry.console = details.console;
+    }
+
+    if (details?.browserSource) {
+      logEntry.browserSource = details.browserSource;
+    }
+
+    // Worker calls keep the owning document's URL alongside their own context
+    logEntry.executionContext = { ...this.executionContext, ...details?.executionContext };
+
+    const route = this.contextCollector.getCurrentRoute();
+    if (route) {
+      logEntry.route = route;
+    }
+
     return logEntry;
   }
 
+  /**
+   * Evaluates the filter rules for an entry and records the rule hit
+   * @param logEntry - Log entry to evaluate
+   * @returns True if the entry should be captured
+   */
+  private applyFilterRules(logEntry: LogEntry): boolean {
+    if (!this.captureFilter.hasRules()) {
+      return true;
+    }
+
+    const result = this.captureFilter.evaluate(logEntry);
+
+    if (result.ruleId) {
+      const hits = this.captureStats.filterHits;
+      hits[result.ruleId] = (hits[result.ruleId] ?? 0) + 1;
+    }
+
+    if (!result.captured) {
+      this.captureStats.filteredLogs++;
+    }
+
+    return result.captured;
+  }
+
+  /**
+   * Asks the rate limiter to admit an entry and records it against the session if dropped
+   * @param logEntry - Log entry to admit
+   * @returns True if the entry should be captured
+   */
+  private applyRateLimit(logEntry: LogEntry): boolean {
+    const source = logEntry.source?.file.split(/[?#]/)[0] || logEntry.origin || 'console';
+
+    if (this.rateLimiter.admit(logEntry.level, source).admitted) {
+      return true;
+    }
+
+    this.captureStats.sampledOutLogs++;
+
+    if (this.currentSession) {
+      const key = `${logEntry.level}\u0000${source}`;
+      let sampledOut = this.sampledOutCounts.get(key);
+
+      if (!sampledOut) {
+        sampledOut = { level: logEntry.level, source, count: 0 };
+        this.sampledOutCounts.set(key, sampledOut);
+        (this.currentSession.metadata.sampledOut ??= []).push(sampledOut);
+      }
+
+      sampledOut.count++;
+    }
+
+    return false;
+  }
+
+  /**
+   * Handles a log captured while no session is active
+   * The entry is buffered for pre-roll, or starts a session when it matches a start trigger.
+   * Source maps and PII scanning are deferred until the entry is added to a session
+   * @param originalArgs - Original console arguments
+   * @param level - Log level
+   * @param stackTrace - Stack trace if available
+   * @param details - Capture source and error details if available
+   */
+  private async handleIdleLog(
+    originalArgs: any[],
+    level: LogLevel,
+    stackTrace?: string,
+    details?: LogCaptureDetails
+  ): Promise<void> {
+    const checkTriggers = this.shouldEvaluateTriggers() && this.captureTriggers.hasLogStartTriggers();
+    if (!this.config?.preRoll?.enabled && !checkTriggers) {
+      return;
+    }
+
+    try {
+      const logEntry = await this.createLogEntry(originalArgs, level, stackTrace, details);
+
+      if (!this.applyFilterRules(logEntry)) {
+        return;
+      }
+
+      // A session may have started while the entry was being created
+      if (this.currentSession) {
+        await this.addDeferredLog(logEntry);
+        return;
+      }
+
+      const trigger = checkTriggers && !this.isTriggeredStartPending
+        ? this.captureTriggers.checkLog(logEntry)
+        : null;
+
+      if (trigger) {
+        await this.startTriggeredSession(trigger, logEntry);
+      } else {
+        this.preRollBuffer.add(logEntry);
+      }
+    } catch {
+      // Idle capture is best effort and must never affect the page
+    }
+  }
+
+  /**
+   * Starts a session for a fired start trigger and emits capture:started
+   * @param trigger - Trigger that fired
+   * @param logEntry - Entry that fired the trigger, added to the session as a regular entry
+   * @returns Promise that resolves to the started session, or null if one could not be started
+   */
+  private async startTriggeredSession(trigger: CaptureTrigger, logEntry?: LogEntry): Promise<CaptureSession | null> {
+    this.isTriggeredStartPending = true;
+
+    try {
+      const session = await this.startSession({
+        includePreRoll: this.config?.preRoll?.enabled ?? false,
+        trigger
+      });
+
+      this.eventBus?.emit('capture:started', { sessionId: session.id, trigger });
+
+      if (logEntry) {
+        await this.addDeferredLog(logEntry);
+      }
+
+      return session;
+    } catch {
+      // A manually started session may have won the race
+      return null;
+    } finally {
+      this.isTriggeredStartPending = false;
+    }
+  }
+
+  /**
+   * Stops the session for a fired stop trigger and emits capture:stopped
+   * @param trigger - Trigger that fired
+   */
+  private async stopTriggeredSession(trigger: CaptureTrigger): Promise<void> {
+    try {
+      const session = await this.stopSession(trigger);
+      if (session) {
+        this.eventBus?.emit('capture:stopped', { sessionId: session.id, trigger });
+        this.eventBus?.emit('capture:session-ended', { session });
+      }
+    } catch {
+      // The session stays active and can still be stopped manually
+    }
+  }
+
+  /**
+   * Adds buffered pre-roll entries to the current session, marked as pre-session
+   * @param entries - Entries drained from the pre-roll buffer
+   */
+  private async seedPreRoll(entries: LogEntry[]): Promise<void> {
+    for (const logEntry of entries) {
+      logEntry.preSession = true;
+      await this.addDeferredLog(logEntry);
+    }
+  }
+
+  /**
+   * Finishes an entry created while no session was active and adds it to the current session
+   * @param logEntry - Entry created without source map resolution or PII scanning
+   */
+  private async addDeferredLog(logEntry: LogEntry): Promise<void> {
+    if (!this.currentSession) {
+      return;
+    }
+
+    await this.resolveSourceMaps(logEntry);
+
+    if (this.config?.privacy.enablePIIDetection) {
+      await this.scanForPII(logEntry);
+    }
+
+    if (!this.currentSession) {
+      return;
+    }
+
+    this.emitLogAdded(logEntry, this.addLogToSession(logEntry));
+  }
+
+  /**
+   * Resolves the entry's stack trace and source location through source maps
+   * The original stack trace and source location are kept unchanged
+   * @param logEntry - Log entry to resolve
+   */
+  private async resolveSourceMaps(logEntry: LogEntry): Promise<void> {
+    try {
+      if (logEntry.stackTrace) {
+        const resolved = await this.sourceMapResolver.resolveStackTrace(logEntry.stackTrace);
+        if (resolved) {
+          logEntry.resolvedStackTrace = resolved.stackTrace;
+        }
+      }
+
+      // Resolve the selected source frame; maps are cached, so this does not refetch
+      if (logEntry.source) {
+        const position = await this.sourceMapResolver.resolvePosition(
+          logEntry.source.file,
+          logEntry.source.line,
+          logEntry.source.column,
+          logEntry.source.functionName
+        );
+        if (position) {
+          logEntry.resolvedSource = position;
+        }
+      }
+    } catch {
+      // Resolution is best effort; the generated locations remain available
+    }
+  }
+
+  /**
+   * Masks PII in the element text and data of user action breadcrumbs
+   * @param breadcrumbs - Breadcrumbs to sanitize in place
+   */
+  private sanitizeBreadcrumbs(breadcrumbs: Breadcrumb[]): void {
+    if (!this.securityEngine) {
+      return;
+    }
+
+    for (const breadcrumb of breadcrumbs) {
+      try {
+        if (breadcrumb.text) {
+          const text = this.securityEngine.sanitizeText(breadcrumb.text);
+          if (text !== breadcrumb.text) {
+            breadcrumb.text = text;
+            breadcrumb.sanitized = true;
+          }
+        }
+
+        const data = breadcrumb.data ?? {};
+        for (const [key, value] of Object.entries(data)) {
+          if (typeof value === 'string') {
+            const sanitized = this.securityEngine.sanitizeText(value);
+            if (sanitized !== value) {
+              data[key] = sanitized;
+              breadcrumb.sanitized = true;
+            }
+          }
+        }
+      } catch {
+        // Drop text that could not be scanned rather than keep it unscanned
+        delete breadcrumb.text;
+        delete breadcrumb.data;
+      }
+    }
+
+    if (breadcrumbs.some(breadcrumb => breadcrumb.sanitized) && this.currentSession) {
+      this.currentSession.metadata.containsSensitiveData = true;
+    }
+  }
+
   /**
    * Scans log entry for PII and applies security classification
    * @param logEntry - Log entry to scan
@@ -448,17 +1111,29 @@ export class CaptureEngine {
   }
 
   /**
-   * Adds a log entry to the current session
+   * Adds a log entry to the current session, collapsing it into an earlier entry it repeats
    * @param logEntry - Log entry to add
+   * @returns The session entry holding the log: the entry itself, or the earlier entry it was collapsed into
    */
-  private addLogToSession(logEntry: LogEntry): void {
+  private addLogToSession(logEntry: LogEntry): LogEntry {
     if (!this.currentSession) {
-      return;
+      return logEntry;
     }
 
-    this.currentSession.logs.push(logEntry);
+    // Repeats update the earlier entry's count instead of taking a slot of their own
+    const repeatedEntry = this.logDeduplicator.collapse(logEntry);
+
+    if (!repeatedEntry) {
+      // Entries from other frames and workers can arrive late; insert them in time order
+      const logs = this.currentSession.logs;
+      let index = logs.length;
+      while (index > 0 && compareLogOrder(logs[index - 1]!, logEntry) > 0) {
+        index--;
+      }
+      logs.splice(index, 0, logEntry);
+    }
     
-    // Update session metadata
+    // Update session metadata; counts include collapsed repeats
     this.currentSession.metadata.totalLogs++;
     
     switch (logEntry.level) {
@@ -469,73 +1144,156 @@ export class CaptureEngine {
         this.currentSession.metadata.warningCount++;
         break;
     }
+
+    // pushState navigations in the page are not observable from here, so compare URLs per entry
+    if (typeof window !== 'undefined') {
+      this.captureTriggers.recordNavigation(window.location.href);
+    }
+    this.captureTriggers.recordSessionLog(this.currentSession.metadata.totalLogs);
+
+    return repeatedEntry ?? logEntry;
   }
 
   /**
-   * Checks if capturing should be throttled based on performance thresholds
-   * @returns True if should throttle, false otherwise
+   * Emits the event for a log added to the current session
+   * @param logEntry - Log entry that was added
+   * @param storedEntry - Session entry returned by addLogToSession
    */
-  private shouldThrottle(): boolean {
-    const now = Date.now();
-    
-    // Check time-based throttling
-    if (now - this.lastCaptureTime < this.performanceThresholds.throttleThresholdMs) {
-      return true;
+  private emitLogAdded(logEntry: LogEntry, storedEntry: LogEntry): void {
+    if (!this.currentSession) {
+      return;
     }
-    
-    // Check rate-based throttling
-    this.recentCaptureTimes = this.recentCaptureTimes.filter(time => now - time < 1000);
-    this.recentCaptureTimes.push(now);
-    
-    if (this.recentCaptureTimes.length > this.performanceThresholds.maxLogsPerSecond) {
-      return true;
+
+    if (storedEntry === logEntry) {
+      this.eventBus?.emit('capture:log-captured', {
+        sessionId: this.currentSession.id,
+        logId: logEntry.id,
+        level: logEntry.level
+      });
+    } else {
+      this.eventBus?.emit('capture:log-repeated', {
+        sessionId: this.currentSession.id,
+        logId: storedEntry.id,
+        repeatCount: storedEntry.repeatCount ?? 1
+      });
     }
-    
-    this.lastCaptureTime = now;
-    return false;
   }
 
   /**
-   * Queues log for throttled processing
-   * @param originalArgs - Original console arguments
-   * @param level - Log level
-   * @param stackTrace - Stack trace if available
+   * Resolves the configured capture mode into the backend to use
+   * @returns Capture backend
+   */
+  private resolveCaptureMode(): Exclude<CaptureMode, 'auto'> {
+    const mode = this.config?.captureMode ?? 'patch';
+    if (mode === 'auto') {
+      return this.consoleInterceptor.isPageCSPRestricted() ? 'devtools-protocol' : 'patch';
+    }
+    return mode;
+  }
+
+  /**
+   * Starts the components of the active capture backend
+   * @returns Promise that resolves when capture has started
    */
-  private queueForThrottledProcessing(
-    _originalArgs: any[],
-    _level: LogLevel,
-    _stackTrace?: string
-  ): void {
-    // If throttle timer isn't running, start it
-    if (!this.throttleTimer) {
-      this.throttleTimer = setTimeout(() => {
-        this.processThrottledLogs();
-        this.throttleTimer = null;
-      }, this.performanceThresholds.throttleThresholdMs);
+  private async startCaptureBackend(): Promise<void> {
+    if (this.activeCaptureMode === 'patch') {
+      await this.consoleInterceptor.startCapture();
+      this.pageBridge.startCapture();
     }
+
+    // The protocol backend reports network requests itself, without patching fetch
+    this.contextCollector.updateConfig({
+      interceptNetwork: this.activeCaptureMode === 'patch'
+    });
   }
 
   /**
-   * Processes queued logs from throttling
+   * Checks whether this engine evaluates capture triggers
+   * Only the top frame does; child frames follow the top frame's session
+   * @returns True if triggers are evaluated here
    */
-  private async processThrottledLogs(): Promise<void> {
-    // Process pending logs with reduced frequency
-    // This is a simplified implementation - in practice you might batch process
-    // or sample the most important logs
+  private shouldEvaluateTriggers(): boolean {
+    return this.executionContext.type === 'top-frame' && typeof window !== 'undefined';
   }
 
   /**
-   * Processes any pending logs before session ends
+   * Starts watching the current session for stop triggers
    */
-  private async processPendingLogs(): Promise<void> {
-    // Clear any throttling timers
-    if (this.throttleTimer) {
-      clearTimeout(this.throttleTimer);
-      this.throttleTimer = null;
+  private watchSessionTriggers(): void {
+    if (!this.shouldEvaluateTriggers()) {
+      return;
     }
-    
-    // Process any remaining queued logs
-    await this.processThrottledLogs();
+
+    this.captureTriggers.watchSession(window.location.href);
+
+    // A full page load ends the content script, and with it the session
+    this.navigationListener = () => this.captureTriggers.recordNavigation(window.location.href);
+    window.addEventListener('popstate', this.navigationListener);
+    window.addEventListener('hashchange', this.navigationListener);
+  }
+
+  /**
+   * Stops watching the current session for stop triggers
+   */
+  private unwatchSessionTriggers(): void {
+    this.captureTriggers.unwatchSession();
+
+    if (this.navigationListener) {
+      window.removeEventListener('popstate', this.navigationListener);
+      window.removeEventListener('hashchange', this.navigationListener);
+      this.navigationListener = null;
+    }
+  }
+
+  /**
+   * Keeps the patching backend running between sessions while pre-roll is enabled
+   * or a log rule can start a session
+   * @returns Promise that resolves when idle capture has been started or stopped
+   */
+  private async syncIdleCapture(): Promise<void> {
+    if (this.currentSession) {
+      return;
+    }
+
+    const watchForStart = this.shouldEvaluateTriggers() && this.captureTriggers.hasLogStartTriggers();
+
+    if (this.config?.preRoll?.enabled || watchForStart) {
+      await this.consoleInterceptor.startCapture();
+      this.pageBridge.startCapture();
+    } else {
+      await this.consoleInterceptor.stopCapture();
+      this.pageBridge.stopCapture();
+      this.preRollBuffer.clear();
+    }
+  }
+
+  /**
+   * Moves an auto-mode session to the protocol backend once the page's CSP blocks the page hook
+   */
+  private handleCSPRestriction(): void {
+    if (this.config?.captureMode !== 'auto' || !this.currentSession) {
+      return;
+    }
+
+    this.switchCaptureMode('devtools-protocol').catch(() => {
+      // Patching keeps capturing isolated-world calls
+    });
+  }
+
+  /**
+   * Determines whether the engine runs in the top document or in a child frame
+   * @returns Execution context of the current document
+   */
+  private detectExecutionContext(): ExecutionContext {
+    if (typeof window === 'undefined') {
+      return { type: 'top-frame' };
+    }
+
+    // Comparing window proxies is allowed even when the parent is cross-origin
+    return {
+      type: window.top === window ? 'top-frame' : 'iframe',
+      frameUrl: window.location.href
+    };
   }
 
   /**
@@ -544,13 +1302,17 @@ export class CaptureEngine {
    */
   private updateCaptureStats(captureLatency: number): void {
     this.captureStats.totalLogs++;
+
+    const now = Date.now();
+    this.recentCaptureTimes = this.recentCaptureTimes.filter(time => now - time < 1000);
+    this.recentCaptureTimes.push(now);
     
     // Update rolling average latency
     const alpha = 0.1; // Smoothing factor
     this.captureStats.averageCaptureLatency = 
       (1 - alpha) * this.captureStats.averageCaptureLatency + alpha * captureLatency;
     
-    // Update logs per second (simplified calculation)
+    // Update logs per second
     this.captureStats.logsPerSecond = this.recentCaptureTimes.length;
     
     // Update memory usage
@@ -649,9 +1411,17 @@ export class CaptureEngine {
     if (typeof window !== 'undefined') {
       window.addEventListener('beforeunload', () => {
         this.cleanup();
+        this.teardownSessionState();
+      });
+
+      // Pages kept in the back/forward cache come back with their session
+      window.addEventListener('pagehide', (event: PageTransitionEvent) => {
+        if (!event.persisted) {
+          this.teardownSessionState();
+        }
       });
       
-      // Handle visibility change (tab switching)
+      // Handle visibility change (tab switching); session triggers and pre-roll stay intact
       document.addEventListener('visibilitychange', () => {
         if (document.visibilityState === 'hidden') {
           this.cleanup();
@@ -664,11 +1434,6 @@ export class CaptureEngine {
    * Performs cleanup of resources and timers
    */
   private cleanup(): void {
-    if (this.throttleTimer) {
-      clearTimeout(this.throttleTimer);
-      this.throttleTimer = null;
-    }
-    
     if (this.memoryMonitorInterval) {
       clearInterval(this.memoryMonitorInterval);
       this.memoryMonitorInterval = null;
@@ -680,6 +1445,14 @@ export class CaptureEngine {
     }
   }
 
+  /**
+   * Stops watching the session's triggers and drops buffered pre-roll entries when the page goes away
+   */
+  private teardownSessionState(): void {
+    this.preRollBuffer.clear();
+    this.unwatchSessionTriggers();
+  }
+
   /**
    * Shuts down the capture engine and cleans up resources
    * @returns Promise that resolves when shutdown is complete
@@ -693,10 +1466,12 @@ export class CaptureEngine {
       
       // Shutdown components
       await this.consoleInterceptor.shutdown();
+      await this.pageBridge.shutdown();
       await this.contextCollector.shutdown();
       
       // Cleanup resources
       this.cleanup();
+      this.teardownSessionState();
       
       this.isInitialized = false;
     }
@@ -751,34 +1526,38 @@ export class CaptureEngine {
       logsPerSecond: 0,
       averageCaptureLatency: 0,
       currentMemoryMB: 0,
-      throttledCaptures: 0
+      sampledOutLogs: 0,
+      filteredLogs: 0,
+      filterHits: {}
     };
     
     this.recentCaptureTimes = [];
-    this.lastCaptureTime = 0;
   }
 
   /**
-   * Extracts source location information from stack trace
-   * @param stackTrace - Stack trace string
-   * @returns Source location object or undefined
+   * Extracts source location information from parsed stack frames
+   * @param frames - Parsed stack frames
+   * @returns Source location of the first application frame, or undefined
    */
-  private extractSourceLocation(stackTrace?: string): { file: string; line: number; column: number } | undefined {
-    if (!stackTrace) {
+  private extractSourceLocation(
+    frames: StackFrame[]
+  ): { file: string; line: number; column: number; functionName?: string } | undefined {
+    const frame = this.stackTraceParser.selectSourceFrame(frames);
+    if (!frame || frame.line === undefined) {
       return undefined;
     }
 
-    // Simple regex to extract file, line, and column from common stack trace formats
-    const match = stackTrace.match(/at .+? \((.+?):(\d+):(\d+)\)/);
-    if (match && match[1] && match[2] && match[3]) {
-      return {
-        file: match[1],
-        line: parseInt(match[2], 10),
-        column: parseInt(match[3], 10)
-      };
+    const location: { file: string; line: number; column: number; functionName?: string } = {
+      file: frame.file,
+      line: frame.line,
+      column: frame.column ?? 0
+    };
+
+    if (frame.functionName) {
+      location.functionName = frame.functionName;
     }
-    
-    return undefined;
+
+    return location;
   }
 
   /**
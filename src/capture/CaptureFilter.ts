@@ -0,0 +1,155 @@
+/**
+ * CaptureFilter - Evaluates user-defined include/exclude rules against log entries
+ * Runs before source map resolution, PII scanning and storage so dropped entries cost little
+ */
+
+import type { CaptureFilterRule, LogEntry } from '../types/index.js';
+
+/**
+ * Outcome of evaluating the filter rules for an entry
+ */
+export interface CaptureFilterResult {
+  /** Whether the entry should be captured */
+  captured: boolean;
+  /** ID of the rule that decided, if any matched */
+  ruleId?: string;
+}
+
+/**
+ * Rule with its patterns compiled
+ */
+interface CompiledRule {
+  /** Rule as configured */
+  rule: CaptureFilterRule;
+  /** Compiled message pattern */
+  message?: RegExp;
+  /** Compiled source file glob */
+  source?: RegExp;
+  /** Compiled frame URL glob */
+  frameUrl?: RegExp;
+}
+
+/**
+ * Ordered include/exclude filter; the first matching rule decides
+ */
+export class CaptureFilter {
+  private rules: CompiledRule[] = [];
+  private hasIncludeRules: boolean = false;
+
+  /**
+   * Replaces the filter rules
+   * Rules with invalid patterns are skipped; ConfigManager rejects them before they get here
+   * @param rules - Rules in evaluation order
+   */
+  setRules(rules: CaptureFilterRule[]): void {
+    this.rules = [];
+
+    for (const rule of rules) {
+      if (!rule.enabled) {
+        continue;
+      }
+
+      try {
+        const compiled: CompiledRule = { rule };
+        if (rule.messagePattern) {
+          compiled.message = new RegExp(rule.messagePattern);
+        }
+        if (rule.sourceGlob) {
+          compiled.source = this.globToRegExp(rule.sourceGlob);
+        }
+        if (rule.frameUrlGlob) {
+          compiled.frameUrl = this.globToRegExp(rule.frameUrlGlob);
+        }
+        this.rules.push(compiled);
+      } catch {
+        // Skip rules whose patterns do not compile
+      }
+    }
+
+    this.hasIncludeRules = this.rules.some(compiled => compiled.rule.action === 'include');
+  }
+
+  /**
+   * Checks whether any rules are active
+   * @returns True if at least one enabled rule exists
+   */
+  hasRules(): boolean {
+    return this.rules.length > 0;
+  }
+
+  /**
+   * Decides whether an entry is captured
+   * @param entry - Log entry, before source maps are resolved
+   * @returns Decision and the rule that made it
+   */
+  evaluate(entry: LogEntry): CaptureFilterResult {
+    for (const compiled of this.rules) {
+      if (this.matches(compiled, entry)) {
+        return { captured: compiled.rule.action === 'include', ruleId: compiled.rule.id };
+      }
+    }
+
+    // With include rules configured, only what they match is captured
+    return { captured: !this.hasIncludeRules };
+  }
+
+  /**
+   * Checks whether all of a rule's criteria match an entry
+   * @param compiled - Compiled rule
+   * @param entry - Log entry
+   * @returns True if the rule matches
+   */
+  private matches(compiled: CompiledRule, entry: LogEntry): boolean {
+    const { rule } = compiled;
+
+    if (rule.levels && !rule.levels.includes(entry.level)) {
+      return false;
+    }
+
+    if (rule.origins && !rule.origins.includes(entry.origin ?? 'console')) {
+      return false;
+    }
+
+    if (compiled.message && !compiled.message.test(entry.message)) {
+      return false;
+    }
+
+    if (compiled.source && !(entry.source && compiled.source.test(entry.source.file))) {
+      return false;
+    }
+
+    const frameUrl = entry.executionContext?.frameUrl;
+    if (compiled.frameUrl && !(frameUrl && compiled.frameUrl.test(frameUrl))) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Converts a glob into an anchored regular expression
+   * '**' matches across path segments, '*' within one and '?' a single character
+   * @param glob - Glob pattern
+   * @returns Equivalent regular expression
+   */
+  private globToRegExp(glob: string): RegExp {
+    let source = '';
+
+    for (let index = 0; index < glob.length; index++) {
+      const char = glob[index]!;
+
+      if (char === '*' && glob[index + 1] === '*') {
+        source += '.*';
+        index++;
+      } else if (char === '*') {
+        source += '[^/]*';
+      } else if (char === '?') {
+        source += '[^/]';
+      } else {
+        source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+
+    return new RegExp(`^${source}$`);
+  }
+}
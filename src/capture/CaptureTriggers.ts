@@ -0,0 +1,238 @@
+/**
+ * CaptureTriggers - Rule evaluation for starting and stopping sessions automatically
+ * Decides when a page load or a log entry should start a session, and watches an
+ * active session for the quiet period, entry limit and navigation stop conditions
+ */
+
+import type { CaptureTrigger, CaptureTriggerReason, LogEntry } from '../types/index.js';
+
+/**
+ * Trigger rules
+ */
+export interface CaptureTriggerConfig {
+  /** Start a session as soon as the page loads */
+  startOnLoad: boolean;
+  /** Start a session on the first error */
+  startOnError: boolean;
+  /** Regular expressions matched against the page URL */
+  startOnUrlPatterns: string[];
+  /** Regular expressions matched against log messages */
+  startOnLogPatterns: string[];
+  /** Seconds without a new entry before stopping; 0 disables */
+  stopAfterQuietSeconds: number;
+  /** Entry count at which to stop; 0 disables */
+  stopAfterEntries: number;
+  /** Stop when the page URL changes */
+  stopOnNavigation: boolean;
+}
+
+/**
+ * Compiled pattern with its configured source
+ */
+interface TriggerPattern {
+  /** Pattern as configured, reported as the trigger detail */
+  source: string;
+  /** Compiled expression */
+  regex: RegExp;
+}
+
+/**
+ * Handler called when a stop condition is met for the watched session
+ */
+export type TriggerStopHandler = (trigger: CaptureTrigger) => void;
+
+/**
+ * Evaluates capture trigger rules
+ */
+export class CaptureTriggers {
+  private config: CaptureTriggerConfig = {
+    startOnLoad: false,
+    startOnError: false,
+    startOnUrlPatterns: [],
+    startOnLogPatterns: [],
+    stopAfterQuietSeconds: 0,
+    stopAfterEntries: 0,
+    stopOnNavigation: false
+  };
+
+  private urlPatterns: TriggerPattern[] = [];
+  private logPatterns: TriggerPattern[] = [];
+  private stopHandler: TriggerStopHandler | null = null;
+  private isWatching: boolean = false;
+  private sessionUrl: string = '';
+  private quietTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Updates the trigger rules
+   * Invalid patterns are skipped; ConfigManager rejects them before they get here
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<CaptureTriggerConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.urlPatterns = this.compilePatterns(this.config.startOnUrlPatterns);
+    this.logPatterns = this.compilePatterns(this.config.startOnLogPatterns);
+
+    if (this.isWatching) {
+      this.resetQuietTimer();
+    }
+  }
+
+  /**
+   * Sets the handler called when the watched session should stop
+   * @param handler - Stop handler
+   */
+  setStopHandler(handler: TriggerStopHandler): void {
+    this.stopHandler = handler;
+  }
+
+  /**
+   * Checks whether any rule needs logs observed while no session is active
+   * @returns True if errors or log patterns can start a session
+   */
+  hasLogStartTriggers(): boolean {
+    return this.config.startOnError || this.logPatterns.length > 0;
+  }
+
+  /**
+   * Evaluates the page load rules
+   * @param url - Page URL
+   * @returns Trigger to start a session with, or null
+   */
+  checkPageLoad(url: string): CaptureTrigger | null {
+    if (this.config.startOnLoad) {
+      return this.createTrigger('page-load', url);
+    }
+
+    const pattern = this.urlPatterns.find(candidate => candidate.regex.test(url));
+    return pattern ? this.createTrigger('url-match', pattern.source) : null;
+  }
+
+  /**
+   * Evaluates the log rules for an entry captured while no session is active
+   * @param entry - Captured log entry
+   * @returns Trigger to start a session with, or null
+   */
+  checkLog(entry: LogEntry): CaptureTrigger | null {
+    if (this.config.startOnError && entry.level === 'error') {
+      // The message itself is not sanitized yet, so it is not recorded
+      return this.createTrigger('first-error');
+    }
+
+    const pattern = this.logPatterns.find(candidate => candidate.regex.test(entry.message));
+    return pattern ? this.createTrigger('log-match', pattern.source) : null;
+  }
+
+  /**
+   * Starts watching a session for stop conditions
+   * @param url - Page URL when the session started
+   */
+  watchSession(url: string): void {
+    this.isWatching = true;
+    this.sessionUrl = url;
+    this.resetQuietTimer();
+  }
+
+  /**
+   * Records that an entry was added to the watched session
+   * @param totalLogs - Number of entries in the session
+   */
+  recordSessionLog(totalLogs: number): void {
+    if (!this.isWatching) {
+      return;
+    }
+
+    if (this.config.stopAfterEntries > 0 && totalLogs >= this.config.stopAfterEntries) {
+      this.fireStop('entry-limit', String(this.config.stopAfterEntries));
+      return;
+    }
+
+    this.resetQuietTimer();
+  }
+
+  /**
+   * Records the page URL after a possible navigation
+   * @param url - Current page URL
+   */
+  recordNavigation(url: string): void {
+    if (!this.isWatching || !this.config.stopOnNavigation || url === this.sessionUrl) {
+      return;
+    }
+
+    this.fireStop('navigation', url);
+  }
+
+  /**
+   * Stops watching the current session
+   */
+  unwatchSession(): void {
+    this.isWatching = false;
+    this.clearQuietTimer();
+  }
+
+  /**
+   * Restarts the quiet period countdown
+   */
+  private resetQuietTimer(): void {
+    this.clearQuietTimer();
+
+    if (this.config.stopAfterQuietSeconds > 0) {
+      this.quietTimer = setTimeout(() => {
+        this.quietTimer = null;
+        this.fireStop('quiet-period', `${this.config.stopAfterQuietSeconds}s`);
+      }, this.config.stopAfterQuietSeconds * 1000);
+    }
+  }
+
+  /**
+   * Cancels the quiet period countdown
+   */
+  private clearQuietTimer(): void {
+    if (this.quietTimer) {
+      clearTimeout(this.quietTimer);
+      this.quietTimer = null;
+    }
+  }
+
+  /**
+   * Stops watching and notifies the stop handler once
+   * @param reason - Stop reason
+   * @param detail - Limit or URL that fired the trigger
+   */
+  private fireStop(reason: CaptureTriggerReason, detail: string): void {
+    this.unwatchSession();
+    this.stopHandler?.(this.createTrigger(reason, detail));
+  }
+
+  /**
+   * Creates a trigger record
+   * @param reason - Trigger reason
+   * @param detail - Pattern, URL or limit that fired the trigger
+   * @returns Trigger record
+   */
+  private createTrigger(reason: CaptureTriggerReason, detail?: string): CaptureTrigger {
+    const trigger: CaptureTrigger = { reason, timestamp: new Date() };
+    if (detail !== undefined) {
+      trigger.detail = detail;
+    }
+    return trigger;
+  }
+
+  /**
+   * Compiles pattern sources, skipping invalid ones
+   * @param patterns - Regular expression sources
+   * @returns Compiled patterns
+   */
+  private compilePatterns(patterns: string[]): TriggerPattern[] {
+    const compiled: TriggerPattern[] = [];
+
+    for (const source of patterns) {
+      try {
+        compiled.push({ source, regex: new RegExp(source) });
+      } catch {
+        // Skip patterns that do not compile
+      }
+    }
+
+    return compiled;
+  }
+}
@@ -0,0 +1,518 @@
+/**
+ * ConnectionMonitor - Records WebSocket and EventSource connections and sendBeacon calls
+ * Replaces the WebSocket and EventSource constructors with subclasses that observe each
+ * connection through its own events, and wraps navigator.sendBeacon. Frame sizes are always
+ * recorded; frame data only when frame capture is enabled for the connection's origin.
+ * The page's own connections are only visible from its main world, so the monitor is
+ * installed by the page hook; the content script keeps the records it reports.
+ */
+
+import type { ConnectionFrame, ConnectionType, NetworkConnection } from '../types/index.js';
+import type { NetworkPayloadCapture } from './NetworkPayloadCapture.js';
+
+/**
+ * Global scope whose connection APIs are wrapped; a window in practice
+ */
+export interface ConnectionScope {
+  WebSocket?: unknown;
+  EventSource?: unknown;
+  navigator?: object;
+}
+
+/**
+ * Connection monitor configuration
+ */
+export interface ConnectionMonitorConfig {
+  /** Maximum number of connections kept; the oldest are dropped first */
+  maxConnections: number;
+  /** Maximum number of frames kept per connection; the oldest are dropped first */
+  maxFramesPerConnection: number;
+}
+
+/**
+ * Receives a connection record each time it changes
+ * @param connection - Live connection record; copy it before keeping it
+ */
+export type ConnectionChangeHandler = (connection: NetworkConnection) => void;
+
+/**
+ * WebSocket constructor as seen by the page
+ */
+type WebSocketConstructor = new (url: string | URL, protocols?: string | string[]) => WebSocket;
+
+/**
+ * EventSource constructor as seen by the page
+ */
+type EventSourceConstructor = new (url: string | URL, eventSourceInitDict?: EventSourceInit) => EventSource;
+
+/**
+ * Any function, called with whatever receiver the page used
+ */
+type AnyFunction = (this: unknown, ...args: unknown[]) => unknown;
+
+/**
+ * EventSource readyState once the browser has given up reconnecting
+ */
+const EVENT_SOURCE_CLOSED = 2;
+
+/**
+ * Monitors realtime connections and beacons
+ */
+export class ConnectionMonitor {
+  private config: ConnectionMonitorConfig = {
+    maxConnections: 50,
+    maxFramesPerConnection: 50
+  };
+
+  private readonly payloadCapture: NetworkPayloadCapture;
+  private connections: NetworkConnection[] = [];
+  private readonly tracked: WeakMap<object, NetworkConnection> = new WeakMap();
+  private readonly watchedEventTypes: WeakMap<object, Set<string>> = new WeakMap();
+  private readonly restorers: Array<() => void> = [];
+  private changeHandler: ConnectionChangeHandler | null = null;
+
+  /**
+   * Creates a new ConnectionMonitor instance
+   * @param payloadCapture - Decides whether frame data is captured and sanitizes it
+   */
+  constructor(payloadCapture: NetworkPayloadCapture) {
+    this.payloadCapture = payloadCapture;
+  }
+
+  /**
+   * Updates the monitor configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<ConnectionMonitorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Sets the handler notified whenever a recorded connection changes
+   * @param handler - Function receiving changed connections
+   */
+  setChangeHandler(handler: ConnectionChangeHandler): void {
+    this.changeHandler = handler;
+  }
+
+  /**
+   * Wraps the scope's WebSocket, EventSource and sendBeacon
+   * @param scope - Global scope to instrument
+   */
+  install(scope: ConnectionScope = globalThis as unknown as ConnectionScope): void {
+    if (this.restorers.length > 0) {
+      return;
+    }
+
+    this.patch(scope, 'WebSocket', original => this.wrapWebSocket(original as unknown as WebSocketConstructor));
+    this.patch(scope, 'EventSource', original => this.wrapEventSource(original as unknown as EventSourceConstructor));
+
+    if (scope.navigator) {
+      this.patch(scope.navigator, 'sendBeacon', original => this.wrapSendBeacon(original));
+    }
+  }
+
+  /**
+   * Restores the original APIs
+   * Connections opened while installed keep being recorded until they close
+   */
+  uninstall(): void {
+    for (const restore of this.restorers.splice(0)) {
+      restore();
+    }
+  }
+
+  /**
+   * Gets the recorded connections
+   * @returns Copies of the recorded connections, oldest first
+   */
+  getConnections(): NetworkConnection[] {
+    return this.connections.map(connection => {
+      const copy = { ...connection };
+      if (connection.frames) {
+        copy.frames = [...connection.frames];
+      }
+      return copy;
+    });
+  }
+
+  /**
+   * Stores a connection recorded by a monitor in another world, replacing an earlier
+   * record of the same connection
+   * @param connection - Connection record
+   */
+  recordConnection(connection: NetworkConnection): void {
+    const index = this.connections.findIndex(existing => existing.id === connection.id);
+    if (index !== -1) {
+      this.connections[index] = connection;
+      return;
+    }
+
+    this.connections.push(connection);
+
+    // Maintain maximum size
+    if (this.connections.length > this.config.maxConnections) {
+      this.connections.shift();
+    }
+  }
+
+  /**
+   * Drops connections that closed before a point in time
+   * @param closedBefore - Epoch milliseconds; open connections are always kept
+   */
+  prune(closedBefore: number): void {
+    this.connections = this.connections.filter(
+      connection => !connection.closedAt || connection.closedAt.getTime() >= closedBefore
+    );
+  }
+
+  /**
+   * Drops all recorded connections
+   */
+  clear(): void {
+    this.connections = [];
+  }
+
+  /**
+   * Replaces a property with a wrapper and records how to restore it
+   * @param target - Object holding the property
+   * @param name - Property name
+   * @param createWrapper - Builds the wrapper from the original value
+   */
+  private patch(target: object, name: string, createWrapper: (original: AnyFunction) => unknown): void {
+    const holder = target as Record<string, unknown>;
+    const original = holder[name];
+    if (typeof original !== 'function') {
+      return;
+    }
+
+    holder[name] = createWrapper(original as AnyFunction);
+    this.restorers.push(() => {
+      holder[name] = original;
+    });
+  }
+
+  /**
+   * Creates a WebSocket subclass that records the connection and its frames
+   * A subclass keeps instanceof checks and the readyState constants working
+   * @param Original - Original WebSocket constructor
+   * @returns Monitored constructor
+   */
+  private wrapWebSocket(Original: WebSocketConstructor): WebSocketConstructor {
+    const monitor = this;
+
+    return class extends Original {
+      constructor(url: string | URL, protocols?: string | string[]) {
+        super(url, protocols);
+        monitor.watchWebSocket(this, url);
+      }
+
+      override send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+        super.send(data);
+
+        // Only frames the browser accepted; send throws while still connecting
+        const connection = monitor.tracked.get(this);
+        if (connection) {
+          monitor.recordFrame(connection, 'sent', data);
+        }
+      }
+    };
+  }
+
+  /**
+   * Creates an EventSource subclass that records the connection and its messages
+   * Named events are only dispatched to listeners for their type, so types the page
+   * listens for are watched as they are registered
+   * @param Original - Original EventSource constructor
+   * @returns Monitored constructor
+   */
+  private wrapEventSource(Original: EventSourceConstructor): EventSourceConstructor {
+    const monitor = this;
+
+    return class extends Original {
+      constructor(url: string | URL, eventSourceInitDict?: EventSourceInit) {
+        super(url, eventSourceInitDict);
+        monitor.watchEventSource(this, url);
+      }
+
+      override addEventListener(type: string, listener: unknown, options?: boolean | AddEventListenerOptions): void {
+        monitor.watchEventType(this, type);
+        super.addEventListener(type, listener as EventListenerOrEventListenerObject, options);
+      }
+
+      override close(): void {
+        super.close();
+
+        const connection = monitor.tracked.get(this);
+        if (connection && !connection.closedAt) {
+          connection.state = 'closed';
+          connection.closedAt = new Date();
+          monitor.notify(connection);
+        }
+      }
+    };
+  }
+
+  /**
+   * Wraps navigator.sendBeacon
+   * @param original - Original sendBeacon
+   * @returns Wrapped sendBeacon
+   */
+  private wrapSendBeacon(original: AnyFunction): AnyFunction {
+    const monitor = this;
+
+    return function (this: unknown, url: unknown, data?: unknown): unknown {
+      const queued = original.call(this, url, data);
+
+      try {
+        monitor.recordBeacon(String(url), data, Boolean(queued));
+      } catch {
+        // Monitoring must never affect the page's beacon
+      }
+      return queued;
+    };
+  }
+
+  /**
+   * Starts recording a WebSocket
+   * @param socket - New socket
+   * @param url - URL passed to the constructor
+   */
+  private watchWebSocket(socket: WebSocket, url: string | URL): void {
+    const connection = this.openConnection('websocket', socket.url || String(url));
+    this.tracked.set(socket, connection);
+
+    socket.addEventListener('open', () => {
+      connection.state = 'open';
+      if (socket.protocol) {
+        connection.protocol = socket.protocol;
+      }
+      this.notify(connection);
+    });
+
+    socket.addEventListener('message', event => {
+      this.recordFrame(connection, 'received', event.data);
+    });
+
+    socket.addEventListener('error', () => {
+      connection.errorCount++;
+      this.notify(connection);
+    });
+
+    socket.addEventListener('close', event => {
+      connection.state = connection.state === 'open' ? 'closed' : 'failed';
+      connection.closedAt = new Date();
+      connection.closeCode = event.code;
+      if (event.reason) {
+        connection.closeReason = event.reason;
+      }
+      this.notify(connection);
+    });
+  }
+
+  /**
+   * Starts recording an EventSource
+   * @param source - New event source
+   * @param url - URL passed to the constructor
+   */
+  private watchEventSource(source: EventSource, url: string | URL): void {
+    const connection = this.openConnection('eventsource', source.url || String(url));
+    this.tracked.set(source, connection);
+
+    source.addEventListener('open', () => {
+      connection.state = 'open';
+      this.notify(connection);
+    });
+
+    source.addEventListener('error', () => {
+      connection.errorCount++;
+
+      // The browser reconnects on its own unless the stream failed for good
+      if (source.readyState === EVENT_SOURCE_CLOSED) {
+        connection.state = connection.state === 'open' ? 'closed' : 'failed';
+        connection.closedAt = new Date();
+      } else {
+        connection.state = 'connecting';
+      }
+      this.notify(connection);
+    });
+
+    this.watchEventType(source, 'message');
+  }
+
+  /**
+   * Records messages of an EventSource event type, once per type
+   * @param source - Event source
+   * @param type - Event type
+   */
+  private watchEventType(source: EventSource, type: string): void {
+    const connection = this.tracked.get(source);
+    if (!connection || type === 'open' || type === 'error') {
+      return;
+    }
+
+    let watched = this.watchedEventTypes.get(source);
+    if (!watched) {
+      watched = new Set();
+      this.watchedEventTypes.set(source, watched);
+    }
+
+    if (watched.has(type)) {
+      return;
+    }
+    watched.add(type);
+
+    source.addEventListener(type, event => {
+      this.recordFrame(connection, 'received', (event as MessageEvent).data, type);
+    });
+  }
+
+  /**
+   * Records a sendBeacon call as a connection with a single sent frame
+   * @param url - Beacon URL
+   * @param data - Beacon body
+   * @param queued - Whether the browser queued the beacon
+   */
+  private recordBeacon(url: string, data: unknown, queued: boolean): void {
+    const connection = this.openConnection('beacon', this.resolveUrl(url));
+    connection.state = queued ? 'closed' : 'failed';
+    connection.closedAt = connection.openedAt;
+
+    if (data !== undefined && data !== null) {
+      this.recordFrame(connection, 'sent', data);
+    }
+    this.notify(connection);
+  }
+
+  /**
+   * Creates and stores a connection record
+   * @param type - Connection type
+   * @param url - Connection URL
+   * @returns New connection record
+   */
+  private openConnection(type: ConnectionType, url: string): NetworkConnection {
+    const connection: NetworkConnection = {
+      id: `${type}_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      type,
+      url,
+      openedAt: new Date(),
+      state: 'connecting',
+      errorCount: 0,
+      framesSent: 0,
+      framesReceived: 0,
+      bytesSent: 0,
+      bytesReceived: 0
+    };
+
+    this.connections.push(connection);
+
+    // Maintain maximum size
+    if (this.connections.length > this.config.maxConnections) {
+      this.connections.shift();
+    }
+
+    this.notify(connection);
+    return connection;
+  }
+
+  /**
+   * Counts a frame and keeps it within the per-connection cap
+   * @param connection - Connection the frame belongs to
+   * @param direction - Whether the page sent or received it
+   * @param data - Frame data
+   * @param event - EventSource event type
+   */
+  private recordFrame(connection: NetworkConnection, direction: ConnectionFrame['direction'], data: unknown, event?: string): void {
+    const size = this.measure(data);
+
+    if (direction === 'sent') {
+      connection.framesSent++;
+      connection.bytesSent += size;
+    } else {
+      connection.framesReceived++;
+      connection.bytesReceived += size;
+    }
+
+    const frame: ConnectionFrame = {
+      direction,
+      timestamp: new Date(),
+      size
+    };
+
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data) || (typeof Blob !== 'undefined' && data instanceof Blob)) {
+      frame.binary = true;
+    }
+
+    if (event && event !== 'message') {
+      frame.event = event;
+    }
+
+    if (this.payloadCapture.shouldCaptureFrames(connection.url)) {
+      try {
+        frame.payload = this.payloadCapture.fromFrame(data);
+      } catch {
+        // Frame capture must never affect the page's connection
+      }
+    }
+
+    const frames = connection.frames ?? (connection.frames = []);
+    frames.push(frame);
+
+    if (frames.length > this.config.maxFramesPerConnection) {
+      frames.shift();
+      connection.droppedFrames = (connection.droppedFrames ?? 0) + 1;
+    }
+
+    this.notify(connection);
+  }
+
+  /**
+   * Tells the change handler about a changed connection
+   * @param connection - Changed connection
+   */
+  private notify(connection: NetworkConnection): void {
+    try {
+      this.changeHandler?.(connection);
+    } catch {
+      // Reporting must never affect the page's connection
+    }
+  }
+
+  /**
+   * Measures frame data in bytes
+   * @param data - Frame data
+   * @returns Size in bytes, or 0 when it cannot be known without reading the data
+   */
+  private measure(data: unknown): number {
+    if (typeof data === 'string') {
+      return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(data).length : data.length;
+    }
+
+    if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) {
+      return data.byteLength;
+    }
+
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+      return data.size;
+    }
+
+    if (typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams) {
+      return this.measure(data.toString());
+    }
+
+    return 0;
+  }
+
+  /**
+   * Resolves a URL against the page
+   * @param url - Absolute or relative URL
+   * @returns Absolute URL, or the input if it does not parse
+   */
+  private resolveUrl(url: string): string {
+    try {
+      return new URL(url, typeof location !== 'undefined' ? location.href : undefined).href;
+    } catch {
+      return url;
+    }
+  }
+}
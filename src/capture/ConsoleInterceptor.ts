@@ -3,7 +3,9 @@
  * Handles CSP restrictions with fallback methods and implements capture filtering
  */
 
-import type { LogLevel } from '../types/index.js';
+import type { ConsoleMethod, LogLevel, LogCaptureDetails } from '../types/index.js';
+import { ConsoleMethodTracker, EXTENDED_CONSOLE_METHODS } from './ConsoleMethodTracker.js';
+import { HighResClock } from './HighResClock.js';
 
 /**
  * Console interceptor configuration
@@ -11,8 +13,6 @@ import type { LogLevel } from '../types/index.js';
 interface ConsoleInterceptorConfig {
   /** Log levels to capture */
   capturedLevels: LogLevel[];
-  /** Throttling delay in milliseconds */
-  throttleMs: number;
   /** Whether to preserve original console behavior */
   preserveOriginal: boolean;
   /** Whether to use CSP-safe methods */
@@ -22,10 +22,11 @@ interface ConsoleInterceptorConfig {
 /**
  * Handler function for captured console logs
  */
-type LogHandler = (
+export type LogHandler = (
   originalArgs: any[],
   level: LogLevel,
-  stackTrace?: string
+  stackTrace?: string,
+  details?: LogCaptureDetails
 ) => Promise<void> | void;
 
 /**
@@ -38,6 +39,18 @@ interface OriginalConsoleMethods {
   error: typeof console.error;
   debug: typeof console.debug;
   trace: typeof console.trace;
+  table: typeof console.table;
+  group: typeof console.group;
+  groupCollapsed: typeof console.groupCollapsed;
+  groupEnd: typeof console.groupEnd;
+  time: typeof console.time;
+  timeLog: typeof console.timeLog;
+  timeEnd: typeof console.timeEnd;
+  count: typeof console.count;
+  countReset: typeof console.countReset;
+  assert: typeof console.assert;
+  dir: typeof console.dir;
+  dirxml: typeof console.dirxml;
 }
 
 /**
@@ -62,21 +75,24 @@ export class ConsoleInterceptor {
   private logHandler: LogHandler | null = null;
   private originalMethods: OriginalConsoleMethods;
   private stackTraceExtractor: StackTraceExtractor;
+  private methodTracker: ConsoleMethodTracker = new ConsoleMethodTracker();
+  private clock: HighResClock = new HighResClock();
   
   // Configuration
   private config: ConsoleInterceptorConfig = {
     capturedLevels: ['log', 'info', 'warn', 'error', 'debug'],
-    throttleMs: 0,
     preserveOriginal: true,
     cspSafeMode: false
   };
   
   // CSP detection and fallback handling
   private cspRestricted: boolean = false;
+  private pageCSPRestricted: boolean = false;
+  private cspRestrictionHandler: (() => void) | null = null;
+  private cspViolationListener: ((event: SecurityPolicyViolationEvent) => void) | null = null;
   private fallbackMethods: Map<LogLevel, Function> = new Map();
   
   // Performance optimization
-  private lastInterceptTime: Map<LogLevel, number> = new Map();
   private interceptedCallsCount: number = 0;
   
   // Stack trace caching for performance
@@ -94,7 +110,19 @@ export class ConsoleInterceptor {
       warn: console.warn.bind(console),
       error: console.error.bind(console),
       debug: console.debug.bind(console),
-      trace: console.trace.bind(console)
+      trace: console.trace.bind(console),
+      table: console.table.bind(console),
+      group: console.group.bind(console),
+      groupCollapsed: console.groupCollapsed.bind(console),
+      groupEnd: console.groupEnd.bind(console),
+      time: console.time.bind(console),
+      timeLog: console.timeLog.bind(console),
+      timeEnd: console.timeEnd.bind(console),
+      count: console.count.bind(console),
+      countReset: console.countReset.bind(console),
+      assert: console.assert.bind(console),
+      dir: console.dir.bind(console),
+      dirxml: console.dirxml.bind(console)
     };
     
     // Initialize stack trace extractor
@@ -169,6 +197,9 @@ export class ConsoleInterceptor {
       // Restore original console methods
       this.restoreOriginalMethods();
       
+      // Open groups, timers and counters do not carry over to the next capture
+      this.methodTracker.reset();
+      
       this.isCapturing = false;
       
     } catch (error) {
@@ -198,6 +229,23 @@ export class ConsoleInterceptor {
     }
   }
 
+  /**
+   * Sets the handler called once the page's Content Security Policy is found to block the page hook
+   * @param handler - Function to call when the restriction is detected
+   */
+  setCSPRestrictionHandler(handler: () => void): void {
+    this.cspRestrictionHandler = handler;
+  }
+
+  /**
+   * Checks whether the page's Content Security Policy blocked extension scripts
+   * Unlike the isolated-world checks, this means main-world console calls cannot be captured by patching
+   * @returns True if a CSP violation for an extension script was reported
+   */
+  isPageCSPRestricted(): boolean {
+    return this.pageCSPRestricted;
+  }
+
   /**
    * Gets current interception statistics
    * @returns Statistics object
@@ -206,12 +254,14 @@ export class ConsoleInterceptor {
     interceptedCalls: number;
     isCapturing: boolean;
     cspRestricted: boolean;
+    pageCSPRestricted: boolean;
     capturedLevels: LogLevel[];
   } {
     return {
       interceptedCalls: this.interceptedCallsCount,
       isCapturing: this.isCapturing,
       cspRestricted: this.cspRestricted,
+      pageCSPRestricted: this.pageCSPRestricted,
       capturedLevels: this.config.capturedLevels
     };
   }
@@ -225,9 +275,13 @@ export class ConsoleInterceptor {
       await this.stopCapture();
     }
     
+    if (this.cspViolationListener) {
+      document.removeEventListener('securitypolicyviolation', this.cspViolationListener);
+      this.cspViolationListener = null;
+    }
+    
     // Clear caches
     this.stackTraceCache.clear();
-    this.lastInterceptTime.clear();
     
     this.isInitialized = false;
   }
@@ -243,15 +297,20 @@ export class ConsoleInterceptor {
         (console as any)[level] = this.createInterceptor(level);
       }
     }
+    
+    // Always wrap the remaining console API so group depth, timers and counters stay accurate
+    for (const method of EXTENDED_CONSOLE_METHODS) {
+      (console as any)[method] = this.createInterceptor(method);
+    }
   }
 
   /**
-   * Creates an interceptor function for a specific log level
-   * @param level - Log level to intercept
+   * Creates an interceptor function for a specific console method
+   * @param method - Console method to intercept
    * @returns Interceptor function
    */
-  private createInterceptor(level: LogLevel): Function {
-    const originalMethod = this.originalMethods[level];
+  private createInterceptor(method: ConsoleMethod): Function {
+    const originalMethod: (...args: any[]) => void = this.originalMethods[method];
     
     return (...args: any[]) => {
       // Always call original method first to preserve behavior
@@ -264,25 +323,33 @@ export class ConsoleInterceptor {
       }
       
       // Handle capture with performance optimizations
-      this.handleInterceptedCall(args, level);
+      this.handleInterceptedCall(args, method);
     };
   }
 
   /**
    * Handles intercepted console calls with performance optimizations
-   * @param args - Console arguments
-   * @param level - Log level
+   * @param originalArgs - Console arguments
+   * @param method - Console method that was called
    */
-  private handleInterceptedCall(args: any[], level: LogLevel): void {
+  private handleInterceptedCall(originalArgs: any[], method: ConsoleMethod): void {
     try {
-      // Check throttling
-      if (this.shouldThrottle(level)) {
+      // Track console state before filtering so groups, timers and counters stay in sync
+      const tracked = this.methodTracker.track(method, originalArgs);
+      if (!tracked || !this.config.capturedLevels.includes(tracked.level)) {
         return;
       }
       
-      // Update statistics
+      const { level, args } = tracked;
+      
+      // Stamp the call now; the handler runs after it has returned
+      const details: LogCaptureDetails = { timestamp: Date.now(), ...this.clock.stamp() };
+      if (tracked.console) {
+        details.console = tracked.console;
+      }
+      
+      // Update statistics; volume limiting happens in CaptureEngine where drops are counted
       this.interceptedCallsCount++;
-      this.lastInterceptTime.set(level, Date.now());
       
       // Extract stack trace if available
       const stackTrace = this.extractStackTrace();
@@ -291,30 +358,16 @@ export class ConsoleInterceptor {
       if (this.logHandler) {
         // Use setTimeout to make it async and non-blocking
         setTimeout(() => {
-          this.logHandler!(args, level, stackTrace);
+          this.logHandler!(args, level, stackTrace, details);
         }, 0);
       }
       
     } catch (error) {
       // Silent error handling to prevent breaking console functionality
-      this.handleInterceptionError(error, level);
+      this.handleInterceptionError(error, method);
     }
   }
 
-  /**
-   * Checks if logging should be throttled for performance
-   * @param level - Log level to check
-   * @returns True if should throttle, false otherwise
-   */
-  private shouldThrottle(level: LogLevel): boolean {
-    if (this.config.throttleMs <= 0) {
-      return false;
-    }
-    
-    const lastTime = this.lastInterceptTime.get(level) || 0;
-    return Date.now() - lastTime < this.config.throttleMs;
-  }
-
   /**
    * Extracts stack trace using CSP-safe methods
    * @returns Stack trace string or undefined
@@ -433,6 +486,10 @@ export class ConsoleInterceptor {
       console.warn = this.originalMethods.warn;
       console.error = this.originalMethods.error;
       console.debug = this.originalMethods.debug;
+      
+      for (const method of EXTENDED_CONSOLE_METHODS) {
+        (console as any)[method] = this.originalMethods[method];
+      }
     } catch (error) {
       // Restoration failed, but continue to avoid breaking the application
     }
@@ -464,6 +521,19 @@ export class ConsoleInterceptor {
         this.cspRestricted = true;
       }
       
+      // The checks above run in this script's own world. The page's policy only
+      // shows when it blocks the main-world hook script, which can happen later.
+      if (typeof document !== 'undefined' && !this.cspViolationListener) {
+        this.cspViolationListener = (event: SecurityPolicyViolationEvent) => {
+          if (this.pageCSPRestricted || !/^(?:chrome|moz)-extension:/.test(event.blockedURI)) {
+            return;
+          }
+          this.pageCSPRestricted = true;
+          this.cspRestrictionHandler?.();
+        };
+        document.addEventListener('securitypolicyviolation', this.cspViolationListener);
+      }
+      
     } catch (error) {
       // Assume CSP restricted if detection fails
       this.cspRestricted = true;
@@ -508,24 +578,24 @@ export class ConsoleInterceptor {
   /**
    * Handles errors that occur during interception
    * @param error - Error that occurred
-   * @param level - Log level where error occurred
+   * @param method - Console method where error occurred
    */
-  private handleInterceptionError(error: any, level: LogLevel): void {
+  private handleInterceptionError(error: any, method: ConsoleMethod): void {
     try {
       // Log error using original method to avoid infinite loops
       this.originalMethods.error('ConsoleInterceptor error:', error);
       
       // If errors are frequent, disable interception for this level
-      const errorKey = `error_${level}`;
+      const errorKey = `error_${method}`;
       const errorCount = (this as any)[errorKey] || 0;
       (this as any)[errorKey] = errorCount + 1;
       
       if (errorCount > 5) {
         // Remove this level from captured levels
-        this.config.capturedLevels = this.config.capturedLevels.filter(l => l !== level);
+        this.config.capturedLevels = this.config.capturedLevels.filter(l => l !== method);
         
-        // Restore original method for this level
-        console[level] = this.originalMethods[level];
+        // Restore original method for this console method
+        (console as any)[method] = this.originalMethods[method];
       }
       
     } catch {
@@ -0,0 +1,378 @@
+/**
+ * ConsoleMethodTracker - Tracks console API state (groups, timers, counters)
+ * Converts calls to non-logging console methods into log-level calls with their
+ * semantics preserved. Has no extension dependencies so it can run in the page's
+ * main world as well as in the content script
+ */
+
+import type { ConsoleCallDetails, ConsoleMethod, ConsoleTableData, LogLevel } from '../types/index.js';
+
+/**
+ * Console methods that are captured in addition to the basic log levels
+ */
+export const EXTENDED_CONSOLE_METHODS: Exclude<ConsoleMethod, LogLevel>[] = [
+  'table',
+  'group',
+  'groupCollapsed',
+  'groupEnd',
+  'time',
+  'timeLog',
+  'timeEnd',
+  'count',
+  'countReset',
+  'assert',
+  'trace',
+  'dir',
+  'dirxml'
+];
+
+/**
+ * Console call translated into a loggable call
+ */
+export interface TrackedConsoleCall {
+  /** Log level the call is recorded at */
+  level: LogLevel;
+  /** Arguments used to build the log message */
+  args: unknown[];
+  /** Console semantics, omitted for plain log calls outside of any group */
+  console?: ConsoleCallDetails;
+}
+
+/**
+ * Limits applied when converting console.table data
+ */
+interface TableLimits {
+  /** Maximum number of rows */
+  maxRows: number;
+  /** Maximum number of columns */
+  maxColumns: number;
+  /** Maximum length of a single cell */
+  maxCellLength: number;
+}
+
+/**
+ * Keeps per-context console state the way the browser console does
+ * One instance must be shared by every wrapper in a JavaScript context
+ */
+export class ConsoleMethodTracker {
+  private groupDepth: number = 0;
+  private readonly timers: Map<string, number> = new Map();
+  private readonly counters: Map<string, number> = new Map();
+  private readonly now: () => number;
+
+  private readonly tableLimits: TableLimits = {
+    maxRows: 100,
+    maxColumns: 20,
+    maxCellLength: 200
+  };
+
+  /**
+   * Creates a new ConsoleMethodTracker instance
+   * @param now - Clock used for timers, in milliseconds
+   */
+  constructor(now?: () => number) {
+    this.now = now ?? (() => (typeof performance !== 'undefined' ? performance.now() : Date.now()));
+  }
+
+  /**
+   * Records a console call and translates it into a loggable call
+   * @param method - Console method that was called
+   * @param args - Arguments passed to the method
+   * @returns Loggable call, or null if the call produces no console output
+   */
+  track(method: ConsoleMethod, args: unknown[]): TrackedConsoleCall | null {
+    const groupDepth = this.groupDepth;
+
+    switch (method) {
+      case 'log':
+      case 'info':
+      case 'warn':
+      case 'error':
+      case 'debug':
+        return groupDepth > 0
+          ? { level: method, args, console: { method, groupDepth } }
+          : { level: method, args };
+
+      case 'group':
+      case 'groupCollapsed':
+        this.groupDepth++;
+        return {
+          level: 'log',
+          args: args.length > 0 ? args : [`console.${method}`],
+          console: { method, groupDepth, groupCollapsed: method === 'groupCollapsed' }
+        };
+
+      case 'groupEnd':
+        this.groupDepth = Math.max(0, this.groupDepth - 1);
+        return null;
+
+      case 'table':
+        return this.trackTable(args, groupDepth);
+
+      case 'time':
+      case 'timeLog':
+      case 'timeEnd':
+        return this.trackTimer(method, args, groupDepth);
+
+      case 'count':
+      case 'countReset':
+        return this.trackCounter(method, args, groupDepth);
+
+      case 'assert':
+        return this.trackAssert(args, groupDepth);
+
+      case 'trace':
+        return {
+          level: 'log',
+          args: args.length > 0 ? args : ['console.trace'],
+          console: { method, groupDepth }
+        };
+
+      case 'dir':
+      case 'dirxml':
+        return {
+          level: 'log',
+          args: args.slice(0, 1),
+          console: { method, groupDepth }
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Clears groups, timers and counters
+   */
+  reset(): void {
+    this.groupDepth = 0;
+    this.timers.clear();
+    this.counters.clear();
+  }
+
+  /**
+   * Translates a console.table call
+   * @param args - Table data and optional column filter
+   * @param groupDepth - Current group depth
+   * @returns Loggable call
+   */
+  private trackTable(args: unknown[], groupDepth: number): TrackedConsoleCall {
+    const [data, columnFilter] = args;
+
+    // Non-tabular data is logged like console.log
+    if (typeof data !== 'object' || data === null) {
+      return { level: 'log', args, console: { method: 'table', groupDepth } };
+    }
+
+    const filter = Array.isArray(columnFilter)
+      ? columnFilter.filter((column): column is string => typeof column === 'string')
+      : undefined;
+
+    return {
+      level: 'log',
+      args: [data],
+      console: { method: 'table', groupDepth, table: this.buildTable(data, filter) }
+    };
+  }
+
+  /**
+   * Translates console.time, console.timeLog and console.timeEnd calls
+   * @param method - Timer method
+   * @param args - Label and extra arguments
+   * @param groupDepth - Current group depth
+   * @returns Loggable call, or null when a timer starts
+   */
+  private trackTimer(
+    method: 'time' | 'timeLog' | 'timeEnd',
+    args: unknown[],
+    groupDepth: number
+  ): TrackedConsoleCall | null {
+    const label = this.getLabel(args);
+
+    if (method === 'time') {
+      if (this.timers.has(label)) {
+        return { level: 'warn', args: [`Timer '${label}' already exists`], console: { method, groupDepth } };
+      }
+
+      this.timers.set(label, this.now());
+      return null;
+    }
+
+    const startTime = this.timers.get(label);
+    if (startTime === undefined) {
+      return { level: 'warn', args: [`Timer '${label}' does not exist`], console: { method, groupDepth } };
+    }
+
+    const durationMs = this.now() - startTime;
+    const ended = method === 'timeEnd';
+
+    if (ended) {
+      this.timers.delete(label);
+    }
+
+    return {
+      level: 'log',
+      args: [`${label}: ${durationMs.toFixed(3)} ms`, ...args.slice(1)],
+      console: { method, groupDepth, timer: { label, durationMs, ended } }
+    };
+  }
+
+  /**
+   * Translates console.count and console.countReset calls
+   * @param method - Counter method
+   * @param args - Label
+   * @param groupDepth - Current group depth
+   * @returns Loggable call, or null when a counter is reset
+   */
+  private trackCounter(
+    method: 'count' | 'countReset',
+    args: unknown[],
+    groupDepth: number
+  ): TrackedConsoleCall | null {
+    const label = this.getLabel(args);
+
+    if (method === 'countReset') {
+      if (!this.counters.has(label)) {
+        return { level: 'warn', args: [`Count for '${label}' does not exist`], console: { method, groupDepth } };
+      }
+
+      this.counters.set(label, 0);
+      return null;
+    }
+
+    const count = (this.counters.get(label) ?? 0) + 1;
+    this.counters.set(label, count);
+
+    return {
+      level: 'log',
+      args: [`${label}: ${count}`],
+      console: { method, groupDepth, counter: { label, count } }
+    };
+  }
+
+  /**
+   * Translates a console.assert call
+   * @param args - Condition followed by message arguments
+   * @param groupDepth - Current group depth
+   * @returns Loggable call for failed assertions, null otherwise
+   */
+  private trackAssert(args: unknown[], groupDepth: number): TrackedConsoleCall | null {
+    const [condition, ...data] = args;
+
+    if (condition) {
+      return null;
+    }
+
+    const [first, ...rest] = data;
+    const message = typeof first === 'string'
+      ? [`Assertion failed: ${first}`, ...rest]
+      : ['Assertion failed', ...data];
+
+    return {
+      level: 'error',
+      args: message,
+      console: { method: 'assert', groupDepth, assertion: { passed: false } }
+    };
+  }
+
+  /**
+   * Builds structured table data from console.table input
+   * @param data - Array or object passed to console.table
+   * @param columnFilter - Optional list of columns to include
+   * @returns Table data
+   */
+  private buildTable(data: object, columnFilter?: string[]): ConsoleTableData {
+    const entries = Array.isArray(data)
+      ? data.map((value, index): [string, unknown] => [String(index), value])
+      : Object.entries(data);
+
+    const columns: string[] = [];
+    const rows: ConsoleTableData['rows'] = [];
+    let hasValueColumn = false;
+    let truncated = entries.length > this.tableLimits.maxRows;
+
+    for (const [index, rowValue] of entries.slice(0, this.tableLimits.maxRows)) {
+      const values: Record<string, string> = {};
+
+      if (typeof rowValue === 'object' && rowValue !== null) {
+        for (const [column, cellValue] of Object.entries(rowValue)) {
+          if (columnFilter && !columnFilter.includes(column)) {
+            continue;
+          }
+
+          if (!columns.includes(column)) {
+            if (columns.length >= this.tableLimits.maxColumns) {
+              truncated = true;
+              continue;
+            }
+            columns.push(column);
+          }
+
+          values[column] = this.formatCell(cellValue);
+        }
+      } else if (!columnFilter) {
+        // Primitive rows are shown in a trailing "Value" column
+        hasValueColumn = true;
+        values['Value'] = this.formatCell(rowValue);
+      }
+
+      rows.push({ index, values });
+    }
+
+    if (hasValueColumn && !columns.includes('Value')) {
+      columns.push('Value');
+    }
+
+    return {
+      columns: columnFilter ? columnFilter.filter(column => columns.includes(column)) : columns,
+      rows,
+      truncated
+    };
+  }
+
+  /**
+   * Converts a table cell value into display text
+   * @param value - Cell value
+   * @returns Display text
+   */
+  private formatCell(value: unknown): string {
+    let text: string;
+
+    switch (typeof value) {
+      case 'string':
+        text = value;
+        break;
+      case 'function':
+        text = `ƒ ${value.name || 'anonymous'}()`;
+        break;
+      case 'object':
+        if (value === null) {
+          text = 'null';
+        } else if (Array.isArray(value)) {
+          text = `Array(${value.length})`;
+        } else {
+          try {
+            text = JSON.stringify(value) ?? String(value);
+          } catch {
+            text = Object.prototype.toString.call(value);
+          }
+        }
+        break;
+      default:
+        text = String(value);
+    }
+
+    return text.length > this.tableLimits.maxCellLength
+      ? `${text.substring(0, this.tableLimits.maxCellLength)}…`
+      : text;
+  }
+
+  /**
+   * Gets the label argument used by timers and counters
+   * @param args - Method arguments
+   * @returns Label, 'default' when omitted
+   */
+  private getLabel(args: unknown[]): string {
+    return args[0] === undefined ? 'default' : String(args[0]);
+  }
+}
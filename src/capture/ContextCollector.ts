@@ -4,10 +4,24 @@
  */
 
 import type { 
+  Breadcrumb,
+  BreadcrumbType,
+  DomSnapshot,
+  NavigationType,
   SessionContext, 
+  NetworkConnection,
   NetworkRequest, 
   PerformanceMetrics
 } from '../types/index.js';
+import { NetworkPayloadCapture, type NetworkPayloadConfig } from './NetworkPayloadCapture.js';
+import { ConnectionMonitor } from './ConnectionMonitor.js';
+import type { PageNetworkConfig } from './PageNetworkHook.js';
+import { RequestCorrelator, type RequestCorrelatorConfig } from './RequestCorrelator.js';
+import { getSelectorPath, getElementText } from './ElementSelector.js';
+import { DomSnapshotter, type DomSnapshotterConfig } from './DomSnapshotter.js';
+import { StorageStateCollector, type StorageStateConfig } from './StorageStateCollector.js';
+import { RouteTracker, getRoute } from './RouteTracker.js';
+import { WebVitalsCollector } from './WebVitalsCollector.js';
 
 /**
  * Context collector configuration
@@ -17,46 +31,33 @@ interface ContextCollectorConfig {
   enablePerformanceMonitoring: boolean;
   /** Whether to monitor network requests */
   enableNetworkMonitoring: boolean;
+  /** Whether the page hook instruments the page's network APIs; off when requests are reported by another backend */
+  interceptNetwork: boolean;
   /** Whether to track user interactions */
   enableUserTracking: boolean;
   /** Maximum number of network requests to store */
   maxNetworkRequests: number;
+  /** Maximum number of WebSocket, EventSource and beacon connections to store */
+  maxConnections: number;
+  /** Maximum number of frames to store per connection */
+  maxConnectionFrames: number;
   /** Maximum number of user actions to store */
   maxUserActions: number;
+  /** Header and body capture for intercepted requests */
+  networkPayloads?: NetworkPayloadConfig;
+  /** Trace headers and linking of logs to requests */
+  requestCorrelation?: RequestCorrelatorConfig;
+  /** Page snapshots for error entries */
+  domSnapshots?: DomSnapshotterConfig;
+  /** Web storage, cookie and IndexedDB state at the start and end of sessions */
+  storageState?: StorageStateConfig;
 }
 
 /**
- * User action tracking information
+ * Sends network instrumentation settings to the page's main world
+ * @param config - Network instrumentation settings
  */
-interface UserAction {
-  /** Action type (click, scroll, keypress, etc.) */
-  type: string;
-  /** Target element information */
-  target: {
-    tagName: string;
-    id?: string;
-    className?: string;
-    textContent?: string;
-  };
-  /** Action timestamp */
-  timestamp: Date;
-  /** Mouse coordinates (for click events) */
-  coordinates?: { x: number; y: number };
-  /** Additional action-specific data */
-  metadata?: Record<string, any>;
-}
-
-/**
- * Network request monitoring entry
- */
-interface NetworkRequestMonitor {
-  /** Request information */
-  request: NetworkRequest;
-  /** Associated Promise for tracking completion */
-  promise?: Promise<Response>;
-  /** Request start time for performance measurement */
-  startTime: number;
-}
+export type PageNetworkController = (config: PageNetworkConfig) => void;
 
 /**
  * Performance metrics collection system
@@ -87,15 +88,20 @@ export class ContextCollector {
   private config: ContextCollectorConfig = {
     enablePerformanceMonitoring: true,
     enableNetworkMonitoring: true,
+    interceptNetwork: true,
     enableUserTracking: true,
     maxNetworkRequests: 100,
+    maxConnections: 50,
+    maxConnectionFrames: 50,
     maxUserActions: 50
   };
   
   // Context data storage
   private initialContext: SessionContext | null = null;
   private networkRequests: NetworkRequest[] = [];
-  private userActions: UserAction[] = [];
+  private userActions: Breadcrumb[] = [];
+  // Session the collected requests, connections, actions and snapshots belong to
+  private sessionDataId: string | null = null;
   
   // Performance monitoring
   private performanceCollector: PerformanceCollector = {
@@ -103,6 +109,7 @@ export class ContextCollector {
     resourceTiming: [],
     memoryUsage: []
   };
+  private webVitals: WebVitalsCollector = new WebVitalsCollector();
   
   // Event listeners cleanup
   private eventListeners: Array<{
@@ -113,10 +120,13 @@ export class ContextCollector {
   }> = [];
   
   // Network monitoring
-  private originalFetch: typeof fetch;
-  private originalXHROpen: typeof XMLHttpRequest.prototype.open;
-  private originalXHRSend: typeof XMLHttpRequest.prototype.send;
-  private activeRequests: Map<string, NetworkRequestMonitor> = new Map();
+  // Records arrive from the page hook with payloads already captured
+  private connectionMonitor: ConnectionMonitor = new ConnectionMonitor(new NetworkPayloadCapture());
+  private pageNetworkController: PageNetworkController | null = null;
+  private requestCorrelator: RequestCorrelator = new RequestCorrelator();
+  private domSnapshotter: DomSnapshotter = new DomSnapshotter();
+  private storageStateCollector: StorageStateCollector = new StorageStateCollector();
+  private routeTracker: RouteTracker = new RouteTracker();
   
   // Web Worker for performance-intensive operations
   private performanceWorker: Worker | null = null;
@@ -126,16 +136,6 @@ export class ContextCollector {
   private memoryMonitorInterval: NodeJS.Timeout | null = null;
   private cleanupInterval: NodeJS.Timeout | null = null;
 
-  /**
-   * Creates a new ContextCollector instance
-   */
-  constructor() {
-    // Store original network methods for restoration
-    this.originalFetch = window.fetch?.bind(window) || (() => Promise.reject(new Error('fetch not available')));
-    this.originalXHROpen = XMLHttpRequest.prototype.open;
-    this.originalXHRSend = XMLHttpRequest.prototype.send;
-  }
-
   /**
    * Initializes the context collector
    * @returns Promise that resolves when initialization is complete
@@ -201,9 +201,16 @@ export class ContextCollector {
         context.performance = await this.collectPerformanceMetrics();
       }
       
-      // Initialize network requests array
+      // Initialize network requests and connections arrays
       if (this.config.enableNetworkMonitoring) {
         context.networkRequests = [];
+        context.connections = [];
+      }
+      
+      // Record storage before the page changes it during the session
+      const storageState = await this.storageStateCollector.captureInitial();
+      if (storageState) {
+        context.storageState = { initial: storageState };
       }
       
       this.initialContext = context;
@@ -230,8 +237,26 @@ export class ContextCollector {
     this.currentSessionId = sessionId;
     this.isMonitoring = true;
     
+    // Records belong to a single session; restarting for a config change keeps them
+    if (sessionId !== this.sessionDataId) {
+      this.sessionDataId = sessionId;
+      this.networkRequests = [];
+      this.requestCorrelator.clear();
+      this.connectionMonitor.clear();
+      this.userActions = [];
+      // Snapshots also count towards the session's cap
+      this.domSnapshotter.clear();
+    }
+    
+    // The performance timeline is per session; INP and CLS describe the whole page
+    this.webVitals.resetTimeline();
+    if (this.config.enablePerformanceMonitoring && !this.performanceCollector.observer) {
+      // Buffered entries were already processed when the page was first observed
+      this.initializePerformanceMonitoring(false);
+    }
+    
     // Start network monitoring
-    if (this.config.enableNetworkMonitoring) {
+    if (this.config.enableNetworkMonitoring && this.config.interceptNetwork) {
       this.startNetworkMonitoring();
     }
     
@@ -244,6 +269,7 @@ export class ContextCollector {
     this.startViewportMonitoring();
     
     // Start URL change monitoring (for SPAs)
+    this.routeTracker.start(window.location.href, document.title, this.detectLoadType());
     this.startURLChangeMonitoring();
   }
 
@@ -259,7 +285,7 @@ export class ContextCollector {
     this.removeAllEventListeners();
     
     // Restore original network methods
-    this.restoreNetworkMethods();
+    this.stopNetworkMonitoring();
     
     // Stop performance monitoring
     this.stopPerformanceMonitoring();
@@ -289,9 +315,32 @@ export class ContextCollector {
         }
       };
       
-      // Add collected network requests
+      // Add collected network requests and connections
       if (this.config.enableNetworkMonitoring) {
         finalContext.networkRequests = this.getNetworkRequests();
+        finalContext.connections = this.connectionMonitor.getConnections();
+      }
+      
+      // Add user action breadcrumbs
+      if (this.config.enableUserTracking) {
+        finalContext.breadcrumbs = this.userActions.map(action => ({ ...action }));
+      }
+      
+      const domSnapshots = this.domSnapshotter.getSnapshots();
+      if (domSnapshots.length > 0) {
+        finalContext.domSnapshots = domSnapshots;
+      }
+      
+      // Add the route timeline, closing the last visit now
+      const navigation = this.routeTracker.getTimeline();
+      if (navigation.length > 0) {
+        finalContext.navigation = navigation;
+      }
+      
+      // Compare storage with the start of the session
+      const storageState = await this.storageStateCollector.captureFinal();
+      if (storageState) {
+        finalContext.storageState = storageState;
       }
       
       // Add final performance metrics
@@ -314,10 +363,33 @@ export class ContextCollector {
   updateConfig(config: Partial<ContextCollectorConfig>): void {
     const oldConfig = { ...this.config };
     this.config = { ...this.config, ...config };
+
+    if (config.requestCorrelation) {
+      this.requestCorrelator.updateConfig(config.requestCorrelation);
+    }
+
+    if (config.domSnapshots) {
+      this.domSnapshotter.updateConfig(config.domSnapshots);
+    }
+
+    if (config.storageState) {
+      this.storageStateCollector.updateConfig(config.storageState);
+    }
+
+    this.connectionMonitor.updateConfig({
+      maxConnections: this.config.maxConnections,
+      maxFramesPerConnection: this.config.maxConnectionFrames
+    });
+    
+    // The page hook applies payload settings and limits as they change
+    if (this.isMonitoring && this.config.enableNetworkMonitoring && this.config.interceptNetwork) {
+      this.pageNetworkController?.(this.getPageNetworkConfig(true));
+    }
     
     // Restart monitoring if configuration changed significantly
     if (this.isMonitoring && (
       oldConfig.enableNetworkMonitoring !== this.config.enableNetworkMonitoring ||
+      oldConfig.interceptNetwork !== this.config.interceptNetwork ||
       oldConfig.enableUserTracking !== this.config.enableUserTracking ||
       oldConfig.enablePerformanceMonitoring !== this.config.enablePerformanceMonitoring
     )) {
@@ -329,6 +401,98 @@ export class ContextCollector {
     }
   }
 
+  /**
+   * Records a network request observed by the page hook or another capture backend
+   * @param request - Completed network request; a request already recorded with its id is updated
+   */
+  recordNetworkRequest(request: NetworkRequest): void {
+    if (!this.isMonitoring || !this.config.enableNetworkMonitoring) {
+      return;
+    }
+
+    this.addNetworkRequest(request);
+  }
+
+  /**
+   * Sets how network instrumentation settings reach the page's main world
+   * @param controller - Function delivering settings to the page hook
+   */
+  setPageNetworkController(controller: PageNetworkController): void {
+    this.pageNetworkController = controller;
+  }
+
+  /**
+   * Records a WebSocket, EventSource or beacon reported by the page hook
+   * @param connection - Connection as recorded so far; replaces earlier records with its id
+   */
+  recordConnection(connection: NetworkConnection): void {
+    if (!this.isMonitoring || !this.config.enableNetworkMonitoring) {
+      return;
+    }
+
+    this.connectionMonitor.recordConnection(connection);
+  }
+
+  /**
+   * Snapshots the page for an error entry, within the session's snapshot cap
+   * @param logId - Id of the error entry
+   * @returns Snapshot, or null when disabled, capped or not monitoring
+   */
+  captureDomSnapshot(logId: string): DomSnapshot | null {
+    if (!this.isMonitoring) {
+      return null;
+    }
+
+    try {
+      return this.domSnapshotter.capture(logId);
+    } catch {
+      // Serialization failures must not affect log capture
+      return null;
+    }
+  }
+
+  /**
+   * Records a history navigation made by page JavaScript
+   * pushState and replaceState calls in the page are not observable from the content
+   * script's world, so the page hook reports them
+   * @param type - History method that was called
+   * @param url - URL after the call
+   */
+  recordNavigation(type: 'push' | 'replace', url: string): void {
+    if (!this.isMonitoring) {
+      return;
+    }
+
+    this.handleURLChange(type, url);
+  }
+
+  /**
+   * Gets the route the page is on, as recorded in navigation order
+   * Logs and navigations from the page arrive in order, so a log made just before a
+   * pushState call still gets the route it was made on
+   * @returns Current route
+   */
+  getCurrentRoute(): string | undefined {
+    if (this.isMonitoring) {
+      return this.routeTracker.getCurrentRoute();
+    }
+
+    return typeof window !== 'undefined' ? getRoute(window.location.href) : undefined;
+  }
+
+  /**
+   * Finds the network request a log most likely followed
+   * @param timestamp - Log time
+   * @returns Request that completed shortly before the log, if any
+   */
+  findRelatedRequest(timestamp: Date): NetworkRequest | undefined {
+    if (!this.isMonitoring || !this.config.enableNetworkMonitoring) {
+      return undefined;
+    }
+
+    return this.requestCorrelator.findRelated(timestamp.getTime());
+  }
+
   /**
    * Gets current context collector statistics
    * @returns Statistics object
@@ -336,6 +500,7 @@ export class ContextCollector {
   getStats(): {
     isMonitoring: boolean;
     networkRequestsCount: number;
+    connectionsCount: number;
     userActionsCount: number;
     memoryUsageSamples: number;
     workerSupported: boolean;
@@ -343,6 +508,7 @@ export class ContextCollector {
     return {
       isMonitoring: this.isMonitoring,
       networkRequestsCount: this.networkRequests.length,
+      connectionsCount: this.connectionMonitor.getConnections().length,
       userActionsCount: this.userActions.length,
       memoryUsageSamples: this.performanceCollector.memoryUsage.length,
       workerSupported: this.workerSupported
@@ -376,7 +542,14 @@ export class ContextCollector {
     }
     
     // Clear data
+    this.sessionDataId = null;
     this.networkRequests = [];
+    this.requestCorrelator.clear();
+    this.connectionMonitor.clear();
+    this.domSnapshotter.clear();
+    this.storageStateCollector.reset();
+    this.routeTracker.clear();
+    this.webVitals.clear();
     this.userActions = [];
     this.performanceCollector.paintTiming = [];
     this.performanceCollector.resourceTiming = [];
@@ -386,129 +559,35 @@ export class ContextCollector {
   }
 
   /**
-   * Starts network request monitoring by intercepting fetch and XMLHttpRequest
+   * Starts network request monitoring by having the page hook instrument fetch,
+   * XMLHttpRequest, WebSocket, EventSource and sendBeacon
    */
   private startNetworkMonitoring(): void {
-    // Intercept fetch
-    window.fetch = this.createFetchInterceptor();
-    
-    // Intercept XMLHttpRequest
-    this.interceptXMLHttpRequest();
+    // Page traffic is made in the page's world, not this one
+    this.pageNetworkController?.(this.getPageNetworkConfig(true));
   }
 
   /**
-   * Creates a fetch interceptor that monitors network requests
-   * @returns Intercepted fetch function
+   * Builds the settings for the page hook's network instrumentation
+   * @param enabled - Whether the hook instruments the page
+   * @returns Network instrumentation settings
    */
-  private createFetchInterceptor(): typeof fetch {
-    return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
-      const url = input instanceof URL ? input.href : 
-                  typeof input === 'string' ? input : input.url;
-      const method = init?.method || 'GET';
-      const startTime = performance.now();
-      
-      const requestId = `fetch_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      
-      try {
-        // Create network request entry
-        const networkRequest: NetworkRequest = {
-          url,
-          method: method.toUpperCase(),
-          status: 0,
-          timestamp: new Date(),
-          responseTime: 0,
-          failed: false
-        };
-        
-        // Store active request
-        this.activeRequests.set(requestId, {
-          request: networkRequest,
-          startTime
-        });
-        
-        // Make the actual request
-        const response = await this.originalFetch(input, init);
-        
-        // Update request with response data
-        networkRequest.status = response.status;
-        networkRequest.responseTime = performance.now() - startTime;
-        networkRequest.failed = !response.ok;
-        
-        // Add to collected requests
-        this.addNetworkRequest(networkRequest);
-        
-        // Remove from active requests
-        this.activeRequests.delete(requestId);
-        
-        return response;
-        
-      } catch (error) {
-        // Handle failed request
-        const activeRequest = this.activeRequests.get(requestId);
-        if (activeRequest) {
-          activeRequest.request.responseTime = performance.now() - startTime;
-          activeRequest.request.failed = true;
-          activeRequest.request.status = 0;
-          
-          this.addNetworkRequest(activeRequest.request);
-          this.activeRequests.delete(requestId);
-        }
-        
-        throw error;
-      }
+  private getPageNetworkConfig(enabled: boolean): PageNetworkConfig {
+    const config: PageNetworkConfig = {
+      enabled,
+      maxConnections: this.config.maxConnections,
+      maxConnectionFrames: this.config.maxConnectionFrames
     };
-  }
 
-  /**
-   * Intercepts XMLHttpRequest to monitor network requests
-   */
-  private interceptXMLHttpRequest(): void {
-    const self = this;
-    
-    XMLHttpRequest.prototype.open = function(
-      method: string,
-      url: string | URL,
-      async?: boolean,
-      username?: string | null,
-      password?: string | null
-    ) {
-      const urlString = typeof url === 'string' ? url : url.toString();
-      const requestId = `xhr_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-      const startTime = performance.now();
-      
-      // Store request information on the XHR object
-      (this as any).__contextCollector = {
-        requestId,
-        startTime,
-        url: urlString,
-        method: method.toUpperCase()
-      };
-      
-      // Set up event listeners for this request
-      this.addEventListener('loadend', function() {
-        const requestInfo = (this as any).__contextCollector;
-        if (requestInfo && self.isMonitoring) {
-          const networkRequest: NetworkRequest = {
-            url: requestInfo.url,
-            method: requestInfo.method,
-            status: this.status,
-            timestamp: new Date(Date.now() - (performance.now() - requestInfo.startTime)),
-            responseTime: performance.now() - requestInfo.startTime,
-            failed: this.status === 0 || this.status >= 400
-          };
-          
-          self.addNetworkRequest(networkRequest);
-        }
-      });
-      
-      // Call original method
-      return self.originalXHROpen.call(this, method, url, async ?? true, username, password);
-    };
-    
-    XMLHttpRequest.prototype.send = function(body?: XMLHttpRequestBodyInit | null) {
-      // Call original method
-      return self.originalXHRSend.call(this, body);
-    };
+    if (this.config.networkPayloads) {
+      config.payloads = this.config.networkPayloads;
+    }
+
+    if (this.config.requestCorrelation) {
+      config.injectTraceparent = this.config.requestCorrelation.injectTraceparent;
+    }
+
+    return config;
   }
 
   /**
@@ -516,6 +595,14 @@ export class ContextCollector {
    * @param request - Network request to add
    */
   private addNetworkRequest(request: NetworkRequest): void {
+    // Payloads arrive as a second report of a request already recorded
+    const recorded = request.id ? this.networkRequests.find(existing => existing.id === request.id) : undefined;
+    if (recorded) {
+      Object.assign(recorded, request);
+      return;
+    }
+
+    this.requestCorrelator.recordCompletion(request);
     this.networkRequests.push(request);
     
     // Maintain maximum size
@@ -576,39 +663,31 @@ export class ContextCollector {
 
   /**
    * Tracks a user action with privacy-safe data collection
+   * Text is kept raw here and PII-scanned when the session's context is finalized
    * @param type - Action type
    * @param eventOrData - Event object or action data
    */
-  private trackUserAction(type: string, eventOrData?: any): void {
+  private trackUserAction(type: BreadcrumbType, eventOrData?: Event | Record<string, string | number | boolean>): void {
     try {
-      const action: UserAction = {
+      const action: Breadcrumb = {
         type,
-        target: { tagName: 'unknown' },
         timestamp: new Date()
       };
       
       // Extract safe information from events
-      if (eventOrData && eventOrData.target) {
-        const target = eventOrData.target as Element;
-        action.target = {
-          tagName: target.tagName || 'unknown'
-        };
-
-        if (target.id) {
-          action.target.id = target.id;
-        }
-
-        if (target.className) {
-          action.target.className = target.className;
-        }
-
-        const textContent = target.textContent?.substring(0, 50);
-        if (textContent) {
-          action.target.textContent = textContent;
+      if (eventOrData instanceof Event) {
+        const target = eventOrData.target;
+        if (target instanceof Element) {
+          action.selector = getSelectorPath(target);
+          
+          const text = getElementText(target);
+          if (text) {
+            action.text = text;
+          }
         }
         
         // Add coordinates for click events
-        if (type === 'click' && 'clientX' in eventOrData && 'clientY' in eventOrData) {
+        if (type === 'click' && eventOrData instanceof MouseEvent) {
           action.coordinates = {
             x: eventOrData.clientX,
             y: eventOrData.clientY
@@ -616,7 +695,7 @@ export class ContextCollector {
         }
       } else if (eventOrData) {
         // Non-event data
-        action.metadata = eventOrData;
+        action.data = eventOrData;
       }
       
       // Add to collection
@@ -670,50 +749,54 @@ export class ContextCollector {
    * Starts URL change monitoring for Single Page Applications
    */
   private startURLChangeMonitoring(): void {
-    // Monitor pushState and replaceState for SPA navigation
-    const originalPushState = history.pushState;
-    const originalReplaceState = history.replaceState;
-    
-    history.pushState = (...args) => {
-      originalPushState.apply(history, args);
-      this.handleURLChange();
-    };
-    
-    history.replaceState = (...args) => {
-      originalReplaceState.apply(history, args);
-      this.handleURLChange();
-    };
-    
-    // Monitor popstate for back/forward navigation
+    // pushState and replaceState are reported through recordNavigation; history events are shared
     this.addEventListener(window, 'popstate', () => {
-      this.handleURLChange();
+      this.handleURLChange('pop', window.location.href);
     }, { passive: true });
     
-    // Store original methods for restoration
-    (this as any).__originalPushState = originalPushState;
-    (this as any).__originalReplaceState = originalReplaceState;
+    this.addEventListener(window, 'hashchange', () => {
+      this.handleURLChange('hash', window.location.href);
+    }, { passive: true });
   }
 
   /**
    * Handles URL change events
+   * @param type - Kind of navigation
+   * @param url - URL after the navigation
    */
-  private handleURLChange(): void {
+  private handleURLChange(type: NavigationType, url: string): void {
+    const visit = this.routeTracker.record(type, url, document.title);
+    if (!visit) {
+      return;
+    }
+    
     if (this.initialContext) {
-      const newURL = window.location.href;
-      if (newURL !== this.initialContext.url) {
-        this.initialContext.url = newURL;
-        this.initialContext.title = document.title || this.initialContext.title;
-        
-        // Track navigation as user action
-        this.trackUserAction('navigation', { url: newURL, title: document.title });
-      }
+      this.initialContext.url = url;
+      this.initialContext.title = document.title || this.initialContext.title;
+    }
+    
+    // Track navigation as user action
+    this.trackUserAction('navigation', { url, title: document.title });
+  }
+
+  /**
+   * Detects how the document was loaded
+   * @returns 'reload' for reloads, otherwise 'load'
+   */
+  private detectLoadType(): NavigationType {
+    try {
+      const entry = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      return entry?.type === 'reload' ? 'reload' : 'load';
+    } catch {
+      return 'load';
     }
   }
 
   /**
    * Initializes performance monitoring systems
+   * @param buffered - Also deliver entries recorded before observing started
    */
-  private initializePerformanceMonitoring(): void {
+  private initializePerformanceMonitoring(buffered: boolean = true): void {
     try {
       // Initialize Performance Observer if available
       if ('PerformanceObserver' in window) {
@@ -721,11 +804,26 @@ export class ContextCollector {
           this.handlePerformanceEntries(list.getEntries());
         });
         
-        // Observe different entry types
-        const entryTypes = ['navigation', 'paint', 'resource', 'largest-contentful-paint'];
+        // Observe each type separately; observe({ entryTypes }) would replace the previous list
+        const entryTypes = [
+          'navigation',
+          'paint',
+          'resource',
+          'largest-contentful-paint',
+          'first-input',
+          'event',
+          'layout-shift',
+          'longtask',
+          'long-animation-frame'
+        ];
         for (const entryType of entryTypes) {
+          const options: PerformanceObserverInit & { durationThreshold?: number } = { type: entryType, buffered };
+          if (entryType === 'event') {
+            // The lowest threshold allowed; the default of 104ms would miss interactions that matter for INP
+            options.durationThreshold = 40;
+          }
           try {
-            this.performanceCollector.observer.observe({ entryTypes: [entryType] });
+            this.performanceCollector.observer.observe(options);
           } catch {
             // Entry type not supported, continue with others
           }
@@ -737,6 +835,7 @@ export class ContextCollector {
         const navEntries = window.performance.getEntriesByType('navigation');
         if (navEntries.length > 0) {
           this.performanceCollector.navigationTiming = navEntries[0] as PerformanceNavigationTiming;
+          this.webVitals.addEntries(navEntries);
         }
       }
       
@@ -750,6 +849,8 @@ export class ContextCollector {
    * @param entries - Performance entries
    */
   private handlePerformanceEntries(entries: PerformanceEntry[]): void {
+    this.webVitals.addEntries(entries);
+    
     for (const entry of entries) {
       switch (entry.entryType) {
         case 'paint':
@@ -780,15 +881,12 @@ export class ContextCollector {
     const metrics: PerformanceMetrics = {};
     
     try {
-      // Get paint timing metrics
+      // Get paint timing metrics; LCP entries have no name
       for (const entry of this.performanceCollector.paintTiming) {
-        switch (entry.name) {
-          case 'first-contentful-paint':
-            metrics.fcp = entry.startTime;
-            break;
-          case 'largest-contentful-paint':
-            metrics.lcp = entry.startTime;
-            break;
+        if (entry.name === 'first-contentful-paint') {
+          metrics.fcp = entry.startTime;
+        } else if (entry.entryType === 'largest-contentful-paint') {
+          metrics.lcp = entry.startTime;
         }
       }
       
@@ -815,16 +913,8 @@ export class ContextCollector {
         }
       }
       
-      // Calculate CLS if available
-      if (this.performanceCollector.resourceTiming.length > 0) {
-        // CLS calculation is complex, simplified here
-        metrics.cls = 0; // Would need layout shift entries
-      }
-      
-      // Calculate FID if available
-      if (this.userActions.some(action => ['click', 'keypress'].includes(action.type))) {
-        metrics.fid = 0; // Would need first input delay measurement
-      }
+      // Add INP, CLS, TTFB, FID, the performance timeline and resource summaries
+      Object.assign(metrics, this.webVitals.getMetrics());
       
     } catch (error) {
       // Performance metrics collection failed, return partial metrics
@@ -891,6 +981,9 @@ export class ContextCollector {
       request => now - request.timestamp.getTime() < maxAge
     );
     
+    // Clean connections that closed long ago; open ones are kept
+    this.connectionMonitor.prune(now - maxAge);
+    
     // Clean old memory usage data
     this.performanceCollector.memoryUsage = this.performanceCollector.memoryUsage.filter(
       entry => now - entry.timestamp.getTime() < maxAge
@@ -1001,21 +1094,11 @@ export class ContextCollector {
   }
 
   /**
-   * Restores original network methods
+   * Has the page hook restore the page's network APIs
    */
-  private restoreNetworkMethods(): void {
+  private stopNetworkMonitoring(): void {
     try {
-      window.fetch = this.originalFetch;
-      XMLHttpRequest.prototype.open = this.originalXHROpen;
-      XMLHttpRequest.prototype.send = this.originalXHRSend;
-      
-      // Restore history methods if they were overridden
-      if ((this as any).__originalPushState) {
-        history.pushState = (this as any).__originalPushState;
-      }
-      if ((this as any).__originalReplaceState) {
-        history.replaceState = (this as any).__originalReplaceState;
-      }
+      this.pageNetworkController?.(this.getPageNetworkConfig(false));
     } catch {
       // Restoration failed, but continue to avoid breaking the application
     }
@@ -0,0 +1,1060 @@
+/**
+ * DevToolsProtocolCapture - Alternative capture backend built on chrome.debugger
+ * Attaches to a tab and converts Chrome DevTools Protocol events into the same
+ * log and network records the patching backend produces. Runs in the background
+ * script, the only context with access to the debugger API.
+ */
+
+import type {
+  ConsoleCallDetails,
+  ConsoleMethod,
+  ConsoleTableData,
+  ErrorDetails,
+  ExecutionContext,
+  LogCaptureDetails,
+  LogLevel,
+  NetworkRequest,
+  SerializedProperty,
+  SerializedValue,
+  SerializedValueType
+} from '../types/index.js';
+import { readTraceHeaders, lowerCaseHeaders } from './RequestCorrelator.js';
+
+/**
+ * Console call, exception or browser message converted from a protocol event
+ */
+export interface ProtocolLogRecord {
+  /** Log level */
+  level: LogLevel;
+  /** V8-style stack trace built from the protocol call frames */
+  stackTrace?: string;
+  /** Capture details; serializedArgs always holds the converted arguments */
+  details: LogCaptureDetails;
+}
+
+/**
+ * Handler for log records produced in an attached tab
+ */
+export type ProtocolLogHandler = (tabId: number, record: ProtocolLogRecord) => void;
+
+/**
+ * Handler for completed network requests in an attached tab
+ */
+export type ProtocolNetworkHandler = (tabId: number, request: NetworkRequest) => void;
+
+/**
+ * Handler notified when the browser ends a debugging session (tab closed, infobar dismissed)
+ */
+export type ProtocolDetachHandler = (tabId: number, reason: string) => void;
+
+/**
+ * Debuggee including the flat-mode session ID, which @types/chrome does not declare yet
+ */
+type DebuggerTarget = chrome.debugger.Debuggee & { sessionId?: string };
+
+/**
+ * Runtime.RemoteObject (subset)
+ */
+interface RemoteObject {
+  type: string;
+  subtype?: string;
+  className?: string;
+  value?: unknown;
+  unserializableValue?: string;
+  description?: string;
+  preview?: ObjectPreview;
+}
+
+/**
+ * Runtime.ObjectPreview (subset)
+ */
+interface ObjectPreview {
+  type: string;
+  subtype?: string;
+  description?: string;
+  overflow: boolean;
+  properties: PropertyPreview[];
+  entries?: Array<{ key?: ObjectPreview; value: ObjectPreview }>;
+}
+
+/**
+ * Runtime.PropertyPreview (subset)
+ */
+interface PropertyPreview {
+  name: string;
+  type: string;
+  subtype?: string;
+  value?: string;
+  valuePreview?: ObjectPreview;
+}
+
+/**
+ * Runtime.StackTrace (subset)
+ */
+interface ProtocolStackTrace {
+  callFrames: Array<{
+    functionName: string;
+    url: string;
+    lineNumber: number;
+    columnNumber: number;
+  }>;
+}
+
+/**
+ * Runtime.ExceptionDetails (subset)
+ */
+interface ExceptionDetails {
+  text: string;
+  lineNumber: number;
+  columnNumber: number;
+  url?: string;
+  stackTrace?: ProtocolStackTrace;
+  exception?: RemoteObject;
+  executionContextId?: number;
+}
+
+/**
+ * Request being tracked between Network.requestWillBeSent and its completion
+ */
+interface PendingRequest {
+  /** Request being built */
+  request: NetworkRequest;
+  /** Protocol monotonic timestamp (seconds) when the request was sent */
+  startTime: number;
+}
+
+/**
+ * Per-tab protocol state
+ */
+interface TabState {
+  /** Execution contexts by "<sessionId>:<contextId>" */
+  contexts: Map<string, ExecutionContext>;
+  /** Contexts of auto-attached targets (workers, out-of-process iframes) by session ID */
+  sessions: Map<string, ExecutionContext>;
+  /** Frame URLs by frame ID */
+  frameUrls: Map<string, string>;
+  /** ID of the tab's top frame */
+  mainFrameId: string | null;
+  /** Requests awaiting completion by request ID */
+  pendingRequests: Map<string, PendingRequest>;
+  /** console.group nesting depth per execution context */
+  groupDepths: Map<string, number>;
+}
+
+/**
+ * Protocol console API types mapped to console methods
+ */
+const CONSOLE_API_METHODS: Record<string, ConsoleMethod> = {
+  log: 'log',
+  debug: 'debug',
+  info: 'info',
+  error: 'error',
+  warning: 'warn',
+  dir: 'dir',
+  dirxml: 'dirxml',
+  table: 'table',
+  trace: 'trace',
+  startGroup: 'group',
+  startGroupCollapsed: 'groupCollapsed',
+  endGroup: 'groupEnd',
+  assert: 'assert',
+  count: 'count',
+  timeEnd: 'timeEnd'
+};
+
+/**
+ * Auto-attached target types mapped to execution context types
+ */
+const TARGET_CONTEXT_TYPES: Record<string, ExecutionContext['type']> = {
+  iframe: 'iframe',
+  worker: 'dedicated-worker',
+  shared_worker: 'shared-worker',
+  service_worker: 'service-worker'
+};
+
+/**
+ * Captures console output, exceptions, browser messages and network activity
+ * through the Chrome DevTools Protocol
+ */
+export class DevToolsProtocolCapture {
+  private readonly protocolVersion: string = '1.3';
+  private readonly maxPendingRequests: number = 500;
+  private readonly maxTableRows: number = 100;
+  private readonly tabs: Map<number, TabState> = new Map();
+  private logHandler: ProtocolLogHandler | null = null;
+  private networkHandler: ProtocolNetworkHandler | null = null;
+  private detachHandler: ProtocolDetachHandler | null = null;
+  private isInitialized: boolean = false;
+
+  private readonly eventListener = (source: chrome.debugger.Debuggee, method: string, params?: Object): void =>
+    this.handleEvent(source as DebuggerTarget, method, (params ?? {}) as Record<string, any>);
+  private readonly detachListener = (source: chrome.debugger.Debuggee, reason: string): void =>
+    this.handleDetach(source, reason);
+
+  /**
+   * Registers the debugger event listeners
+   */
+  initialize(): void {
+    if (this.isInitialized || typeof chrome === 'undefined' || !chrome.debugger) {
+      return;
+    }
+
+    chrome.debugger.onEvent.addListener(this.eventListener);
+    chrome.debugger.onDetach.addListener(this.detachListener);
+    this.isInitialized = true;
+  }
+
+  /**
+   * Sets the log record handler
+   * @param handler - Function to handle converted log records
+   */
+  setLogHandler(handler: ProtocolLogHandler): void {
+    this.logHandler = handler;
+  }
+
+  /**
+   * Sets the network request handler
+   * @param handler - Function to handle completed network requests
+   */
+  setNetworkHandler(handler: ProtocolNetworkHandler): void {
+    this.networkHandler = handler;
+  }
+
+  /**
+   * Sets the handler notified when the browser detaches the debugger
+   * @param handler - Function to handle detach notifications
+   */
+  setDetachHandler(handler: ProtocolDetachHandler): void {
+    this.detachHandler = handler;
+  }
+
+  /**
+   * Attaches the debugger to a tab and enables the captured protocol domains
+   * @param tabId - Tab to attach to
+   * @returns Promise that resolves when capture is active
+   * @throws {Error} When the debugger cannot attach (e.g. another debugger holds the tab)
+   */
+  async attach(tabId: number): Promise<void> {
+    if (!this.isInitialized) {
+      throw new Error('DevToolsProtocolCapture not initialized. Call initialize() first.');
+    }
+
+    if (this.tabs.has(tabId)) {
+      return;
+    }
+
+    const state: TabState = {
+      contexts: new Map(),
+      sessions: new Map(),
+      frameUrls: new Map(),
+      mainFrameId: null,
+      pendingRequests: new Map(),
+      groupDepths: new Map()
+    };
+
+    try {
+      await chrome.debugger.attach({ tabId }, this.protocolVersion);
+      // Register before enabling domains: enabling replays existing contexts and messages
+      this.tabs.set(tabId, state);
+
+      const target: DebuggerTarget = { tabId };
+      const frameTree = await chrome.debugger.sendCommand(target, 'Page.getFrameTree') as {
+        frameTree?: { frame: { id: string; url: string } };
+      };
+      if (frameTree.frameTree) {
+        state.mainFrameId = frameTree.frameTree.frame.id;
+        state.frameUrls.set(frameTree.frameTree.frame.id, frameTree.frameTree.frame.url);
+      }
+
+      await this.enableDomains(target);
+    } catch (error) {
+      this.tabs.delete(tabId);
+      await chrome.debugger.detach({ tabId }).catch(() => undefined);
+      throw new Error(`Failed to attach debugger: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Detaches the debugger from a tab
+   * @param tabId - Tab to detach from
+   * @returns Promise that resolves when the debugger is detached
+   */
+  async detach(tabId: number): Promise<void> {
+    if (!this.tabs.delete(tabId)) {
+      return;
+    }
+
+    try {
+      await chrome.debugger.detach({ tabId });
+    } catch {
+      // Already detached by the browser
+    }
+  }
+
+  /**
+   * Checks whether the debugger is attached to a tab
+   * @param tabId - Tab to check
+   * @returns True if protocol capture is active for the tab
+   */
+  isAttached(tabId: number): boolean {
+    return this.tabs.has(tabId);
+  }
+
+  /**
+   * Enables the protocol domains used for capture on a target or child session
+   * @param target - Debuggee, with a session ID for auto-attached targets
+   * @param includePage - Whether to track frame navigations (page targets only)
+   */
+  private async enableDomains(target: DebuggerTarget, includePage: boolean = true): Promise<void> {
+    if (includePage) {
+      await chrome.debugger.sendCommand(target, 'Page.enable');
+    }
+    await chrome.debugger.sendCommand(target, 'Runtime.enable');
+    await chrome.debugger.sendCommand(target, 'Log.enable');
+    await chrome.debugger.sendCommand(target, 'Network.enable');
+    // Workers and out-of-process iframes report through their own sessions
+    await chrome.debugger.sendCommand(target, 'Target.setAutoAttach', {
+      autoAttach: true,
+      waitForDebuggerOnStart: false,
+      flatten: true
+    });
+  }
+
+  /**
+   * Dispatches a protocol event
+   * @param source - Debuggee that produced the event
+   * @param method - Protocol event name
+   * @param params - Event parameters
+   */
+  private handleEvent(source: DebuggerTarget, method: string, params: Record<string, any>): void {
+    const tabId = source.tabId;
+    const state = tabId !== undefined ? this.tabs.get(tabId) : undefined;
+    if (tabId === undefined || !state) {
+      return;
+    }
+
+    try {
+      switch (method) {
+        case 'Runtime.executionContextCreated':
+          this.handleContextCreated(state, source.sessionId, params['context']);
+          break;
+        case 'Runtime.executionContextDestroyed':
+          state.contexts.delete(this.contextKey(source.sessionId, params['executionContextId']));
+          break;
+        case 'Runtime.executionContextsCleared':
+          this.clearContexts(state, source.sessionId);
+          break;
+        case 'Runtime.consoleAPICalled':
+          this.handleConsoleAPICalled(tabId, state, source.sessionId, params);
+          break;
+        case 'Runtime.exceptionThrown':
+          this.handleExceptionThrown(tabId, state, source.sessionId, params);
+          break;
+        case 'Log.entryAdded':
+          this.handleLogEntry(tabId, state, source.sessionId, params['entry']);
+          break;
+        case 'Page.frameNavigated':
+          state.frameUrls.set(params['frame'].id, params['frame'].url);
+          if (!params['frame'].parentId) {
+            state.mainFrameId = params['frame'].id;
+          }
+          break;
+        case 'Target.attachedToTarget':
+          this.handleAttachedToTarget(tabId, state, params);
+          break;
+        case 'Target.detachedFromTarget':
+          state.sessions.delete(params['sessionId']);
+          this.clearContexts(state, params['sessionId']);
+          break;
+        case 'Network.requestWillBeSent':
+          this.handleRequestWillBeSent(state, params);
+          break;
+        case 'Network.responseReceived':
+          this.handleResponseReceived(state, params);
+          break;
+        case 'Network.loadingFinished':
+          this.completeRequest(tabId, state, params['requestId'], params['timestamp'], false);
+          break;
+        case 'Network.loadingFailed':
+          this.completeRequest(tabId, state, params['requestId'], params['timestamp'], true);
+          break;
+      }
+    } catch {
+      // Malformed or unexpected events must not stop capture
+    }
+  }
+
+  /**
+   * Handles the browser ending a debugging session
+   * @param source - Debuggee that was detached
+   * @param reason - Detach reason (e.g. 'target_closed', 'canceled_by_user')
+   */
+  private handleDetach(source: chrome.debugger.Debuggee, reason: string): void {
+    if (source.tabId === undefined || !this.tabs.delete(source.tabId)) {
+      return;
+    }
+
+    this.detachHandler?.(source.tabId, reason);
+  }
+
+  /**
+   * Records a new execution context, ignoring isolated worlds such as extension content scripts
+   * @param state - Tab state
+   * @param sessionId - Child session ID, if any
+   * @param context - Runtime.ExecutionContextDescription
+   */
+  private handleContextCreated(
+    state: TabState,
+    sessionId: string | undefined,
+    context: { id: number; origin: string; auxData?: { frameId?: string; isDefault?: boolean; type?: string } }
+  ): void {
+    if (context.auxData?.type === 'isolated' || context.auxData?.isDefault === false) {
+      return;
+    }
+
+    const sessionContext = sessionId ? state.sessions.get(sessionId) : undefined;
+    let executionContext: ExecutionContext;
+
+    if (sessionContext) {
+      executionContext = { ...sessionContext };
+    } else {
+      const frameId = context.auxData?.frameId;
+      const isTopFrame = !frameId || frameId === state.mainFrameId;
+      executionContext = {
+        type: isTopFrame ? 'top-frame' : 'iframe',
+        frameUrl: (frameId && state.frameUrls.get(frameId)) || context.origin
+      };
+    }
+
+    state.contexts.set(this.contextKey(sessionId, context.id), executionContext);
+  }
+
+  /**
+   * Records an auto-attached worker or iframe target and enables capture in it
+   * @param tabId - Tab the target belongs to
+   * @param state - Tab state
+   * @param params - Target.attachedToTarget parameters
+   */
+  private handleAttachedToTarget(tabId: number, state: TabState, params: Record<string, any>): void {
+    const sessionId: string = params['sessionId'];
+    const targetInfo: { type: string; url: string } = params['targetInfo'];
+    const type = TARGET_CONTEXT_TYPES[targetInfo.type];
+
+    if (!type) {
+      return;
+    }
+
+    const topFrameUrl = state.mainFrameId ? state.frameUrls.get(state.mainFrameId) : undefined;
+    const executionContext: ExecutionContext = type === 'iframe'
+      ? { type, frameUrl: targetInfo.url }
+      : { type, workerUrl: targetInfo.url, ...(topFrameUrl ? { frameUrl: topFrameUrl } : {}) };
+
+    state.sessions.set(sessionId, executionContext);
+
+    const target: DebuggerTarget = { tabId, sessionId };
+    this.enableDomains(target, type === 'iframe').catch(() => {
+      // Targets can go away before they are instrumented
+    });
+  }
+
+  /**
+   * Converts a console API call into a log record
+   * @param tabId - Tab the call was made in
+   * @param state - Tab state
+   * @param sessionId - Child session ID, if any
+   * @param params - Runtime.consoleAPICalled parameters
+   */
+  private handleConsoleAPICalled(
+    tabId: number,
+    state: TabState,
+    sessionId: string | undefined,
+    params: Record<string, any>
+  ): void {
+    const key = this.contextKey(sessionId, params['executionContextId']);
+    const executionContext = state.contexts.get(key) ?? (sessionId ? state.sessions.get(sessionId) : undefined);
+    if (!executionContext) {
+      // Unknown contexts are isolated worlds, including this extension's own content scripts
+      return;
+    }
+
+    const method = CONSOLE_API_METHODS[params['type']];
+    if (!method) {
+      // clear, profile and profileEnd produce no output
+      return;
+    }
+
+    // Group depth is tracked per context, as the console does
+    const depth = state.groupDepths.get(key) ?? 0;
+    if (method === 'groupEnd') {
+      state.groupDepths.set(key, Math.max(0, depth - 1));
+      return;
+    }
+    if (method === 'group' || method === 'groupCollapsed') {
+      state.groupDepths.set(key, depth + 1);
+    }
+
+    const remoteArgs: RemoteObject[] = params['args'] ?? [];
+    const args = remoteArgs.map(arg => this.toSerializedValue(arg));
+    const level = this.toLogLevel(method);
+
+    const details: LogCaptureDetails = {
+      serializedArgs: args,
+      executionContext,
+      timestamp: params['timestamp']
+    };
+
+    const consoleDetails = this.createConsoleDetails(method, depth, remoteArgs);
+    if (consoleDetails) {
+      details.console = consoleDetails;
+    }
+
+    const record: ProtocolLogRecord = { level, details };
+    const stackTrace = this.formatStackTrace(params['stackTrace']);
+    if (stackTrace) {
+      record.stackTrace = stackTrace;
+    }
+
+    this.logHandler?.(tabId, record);
+  }
+
+  /**
+   * Converts an uncaught exception or unhandled rejection into a log record
+   * @param tabId - Tab the exception was thrown in
+   * @param state - Tab state
+   * @param sessionId - Child session ID, if any
+   * @param params - Runtime.exceptionThrown parameters
+   */
+  private handleExceptionThrown(
+    tabId: number,
+    state: TabState,
+    sessionId: string | undefined,
+    params: Record<string, any>
+  ): void {
+    const exceptionDetails: ExceptionDetails = params['exceptionDetails'];
+    const contextId = exceptionDetails.executionContextId;
+    const executionContext = (contextId !== undefined ? state.contexts.get(this.contextKey(sessionId, contextId)) : undefined)
+      ?? (sessionId ? state.sessions.get(sessionId) : undefined);
+    if (!executionContext) {
+      // Unknown contexts are isolated worlds, including this extension's own content scripts
+      return;
+    }
+
+    const exception = exceptionDetails.exception;
+    const isRejection = exceptionDetails.text.includes('(in promise)');
+    // V8 error descriptions are the full stack; the first line is "Name: message"
+    const description = exception?.description ?? exception?.value?.toString() ?? '';
+    const [headline = ''] = description.split('\n');
+
+    const error: ErrorDetails = { message: headline || exceptionDetails.text };
+
+    if (exception?.subtype === 'error') {
+      const separator = headline.indexOf(': ');
+      error.name = exception.className ?? 'Error';
+      error.message = separator !== -1 ? headline.slice(separator + 2) : headline;
+      error.stack = description;
+    } else if (exception) {
+      // Non-Error values can be thrown or rejected too
+      error.reason = description;
+    }
+
+    if (exceptionDetails.url) {
+      error.filename = exceptionDetails.url;
+      error.lineno = exceptionDetails.lineNumber + 1;
+      error.colno = exceptionDetails.columnNumber + 1;
+    }
+
+    const message = `${exceptionDetails.text} ${headline}`.trim();
+    const details: LogCaptureDetails = {
+      origin: isRejection ? 'unhandled-rejection' : 'uncaught-error',
+      error,
+      serializedArgs: [{ type: 'string', value: message, description: message }],
+      executionContext,
+      timestamp: params['timestamp']
+    };
+
+    const record: ProtocolLogRecord = { level: 'error', details };
+    const stackTrace = this.formatStackTrace(exceptionDetails.stackTrace) ?? error.stack;
+    if (stackTrace) {
+      record.stackTrace = stackTrace;
+    }
+
+    this.logHandler?.(tabId, record);
+  }
+
+  /**
+   * Converts a browser-generated message (CORS failures, deprecations, interventions) into a log record
+   * @param tabId - Tab the message belongs to
+   * @param state - Tab state
+   * @param sessionId - Child session ID, if any
+   * @param entry - Log.LogEntry
+   */
+  private handleLogEntry(
+    tabId: number,
+    state: TabState,
+    sessionId: string | undefined,
+    entry: {
+      source: string;
+      level: string;
+      text: string;
+      timestamp: number;
+      url?: string;
+      lineNumber?: number;
+      stackTrace?: ProtocolStackTrace;
+    }
+  ): void {
+    const levels: Record<string, LogLevel> = { verbose: 'debug', info: 'info', warning: 'warn', error: 'error' };
+    const level = levels[entry.level] ?? 'log';
+
+    const details: LogCaptureDetails = {
+      origin: 'browser',
+      browserSource: entry.source,
+      serializedArgs: [{ type: 'string', value: entry.text, description: entry.text }],
+      timestamp: entry.timestamp
+    };
+
+    const sessionContext = sessionId ? state.sessions.get(sessionId) : undefined;
+    if (sessionContext) {
+      details.executionContext = sessionContext;
+    }
+
+    // Network messages point at the failed resource; script messages at a code location
+    if (entry.url && entry.source === 'network') {
+      details.error = { name: 'NetworkError', message: entry.text, resourceUrl: entry.url };
+    }
+
+    const record: ProtocolLogRecord = { level, details };
+    const stackTrace = this.formatStackTrace(entry.stackTrace)
+      ?? (entry.url && entry.lineNumber !== undefined ? `    at ${entry.url}:${entry.lineNumber + 1}` : undefined);
+    if (stackTrace) {
+      record.stackTrace = stackTrace;
+    }
+
+    this.logHandler?.(tabId, record);
+  }
+
+  /**
+   * Starts tracking a network request
+   * @param state - Tab state
+   * @param params - Network.requestWillBeSent parameters
+   */
+  private handleRequestWillBeSent(state: TabState, params: Record<string, any>): void {
+    const url: string = params['request'].url;
+    if (url.startsWith('data:')) {
+      return;
+    }
+
+    if (state.pendingRequests.size >= this.maxPendingRequests) {
+      // Drop the oldest request that never completed
+      const oldest = state.pendingRequests.keys().next().value;
+      if (oldest !== undefined) {
+        state.pendingRequests.delete(oldest);
+      }
+    }
+
+    const request: NetworkRequest = {
+      url,
+      method: String(params['request'].method).toUpperCase(),
+      status: 0,
+      // wallTime is epoch seconds; timestamp is a monotonic clock in seconds
+      timestamp: new Date(params['wallTime'] * 1000),
+      responseTime: 0,
+      failed: false
+    };
+
+    const trace = readTraceHeaders(lowerCaseHeaders(params['request'].headers));
+    if (trace) {
+      request.trace = trace;
+    }
+
+    state.pendingRequests.set(params['requestId'], {
+      request,
+      startTime: params['timestamp']
+    });
+  }
+
+  /**
+   * Records the response status of a tracked request
+   * @param state - Tab state
+   * @param params - Network.responseReceived parameters
+   */
+  private handleResponseReceived(state: TabState, params: Record<string, any>): void {
+    const pending = state.pendingRequests.get(params['requestId']);
+    if (pending) {
+      pending.request.status = params['response'].status;
+
+      const requestId = lowerCaseHeaders(params['response'].headers)['x-request-id'];
+      if (requestId) {
+        pending.request.trace = { ...pending.request.trace, requestId };
+      }
+    }
+  }
+
+  /**
+   * Completes a tracked request and hands it to the network handler
+   * @param tabId - Tab the request belongs to
+   * @param state - Tab state
+   * @param requestId - Protocol request ID
+   * @param timestamp - Monotonic completion time in seconds
+   * @param failed - Whether the request failed at the network level
+   */
+  private completeRequest(tabId: number, state: TabState, requestId: string, timestamp: number, failed: boolean): void {
+    const pending = state.pendingRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    state.pendingRequests.delete(requestId);
+
+    const request = pending.request;
+    request.responseTime = Math.max(0, (timestamp - pending.startTime) * 1000);
+    request.failed = failed || request.status === 0 || request.status >= 400;
+
+    this.networkHandler?.(tabId, request);
+  }
+
+  /**
+   * Builds console API details for calls that carry more than their arguments
+   * @param method - Console method
+   * @param groupDepth - Group depth before the call
+   * @param args - Protocol arguments
+   * @returns Console details, or undefined for basic logging calls
+   */
+  private createConsoleDetails(method: ConsoleMethod, groupDepth: number, args: RemoteObject[]): ConsoleCallDetails | undefined {
+    if (['log', 'info', 'warn', 'error', 'debug'].includes(method) && groupDepth === 0) {
+      return undefined;
+    }
+
+    const details: ConsoleCallDetails = { method, groupDepth };
+    const text = typeof args[0]?.value === 'string' ? args[0].value : '';
+
+    switch (method) {
+      case 'groupCollapsed':
+        details.groupCollapsed = true;
+        break;
+      case 'table': {
+        const table = args[0]?.preview ? this.createTable(args[0].preview) : undefined;
+        if (table) {
+          details.table = table;
+        }
+        break;
+      }
+      case 'timeEnd': {
+        // Reported as "label: 1.234 ms"
+        const timer = /^(.*): ([\d.]+) ms$/.exec(text);
+        if (timer?.[1] !== undefined && timer[2]) {
+          details.timer = { label: timer[1], durationMs: parseFloat(timer[2]), ended: true };
+        }
+        break;
+      }
+      case 'count': {
+        // Reported as "label: 3"
+        const counter = /^(.*): (\d+)$/.exec(text);
+        if (counter?.[1] !== undefined && counter[2]) {
+          details.counter = { label: counter[1], count: parseInt(counter[2], 10) };
+        }
+        break;
+      }
+      case 'assert':
+        details.assertion = { passed: false };
+        break;
+    }
+
+    return details;
+  }
+
+  /**
+   * Builds table data from the preview of a console.table argument
+   * @param preview - Object preview of the tabular data
+   * @returns Table data
+   */
+  private createTable(preview: ObjectPreview): ConsoleTableData {
+    const columns: string[] = [];
+    const rows: ConsoleTableData['rows'] = [];
+    let hasValueColumn = false;
+
+    for (const row of preview.properties.slice(0, this.maxTableRows)) {
+      const values: Record<string, string> = {};
+
+      if (row.valuePreview) {
+        for (const cell of row.valuePreview.properties) {
+          if (!columns.includes(cell.name)) {
+            columns.push(cell.name);
+          }
+          values[cell.name] = this.previewText(cell);
+        }
+      } else {
+        hasValueColumn = true;
+        values['Value'] = this.previewText(row);
+      }
+
+      rows.push({ index: row.name, values });
+    }
+
+    if (hasValueColumn) {
+      columns.push('Value');
+    }
+
+    return {
+      columns,
+      rows,
+      truncated: preview.overflow || preview.properties.length > this.maxTableRows
+    };
+  }
+
+  /**
+   * Converts a protocol remote object into a serialized value
+   * @param remote - Runtime.RemoteObject
+   * @returns Serialized value
+   */
+  private toSerializedValue(remote: RemoteObject): SerializedValue {
+    const type = this.toValueType(remote.type, remote.subtype);
+
+    switch (type) {
+      case 'string': {
+        const text = String(remote.value ?? '');
+        return { type, value: text, description: text.length > 100 ? `${text.substring(0, 100)}…` : text };
+      }
+      case 'number':
+        return remote.unserializableValue !== undefined
+          ? { type, description: remote.unserializableValue }
+          : { type, value: remote.value as number, description: String(remote.value) };
+      case 'boolean':
+        return { type, value: remote.value as boolean, description: String(remote.value) };
+      case 'undefined':
+      case 'null':
+        return { type, description: type };
+      case 'bigint':
+        return { type, description: remote.unserializableValue ?? remote.description ?? '' };
+      case 'function':
+        return { type, className: 'Function', description: this.describeFunction(remote.description ?? '') };
+    }
+
+    const description = remote.description ?? remote.className ?? 'Object';
+    const result: SerializedValue = { type, description };
+
+    if (remote.className) {
+      result.className = remote.className;
+    }
+
+    if (type === 'error') {
+      // V8 error descriptions are the full stack trace
+      const [headline = description] = description.split('\n');
+      result.description = headline;
+      result.stack = description;
+    }
+
+    if (remote.preview) {
+      this.addPreview(result, remote.preview);
+    }
+
+    return result;
+  }
+
+  /**
+   * Converts a nested object preview into a serialized value
+   * @param preview - Runtime.ObjectPreview
+   * @returns Serialized value
+   */
+  private previewToSerializedValue(preview: ObjectPreview): SerializedValue {
+    const result: SerializedValue = {
+      type: this.toValueType(preview.type, preview.subtype),
+      description: preview.description ?? 'Object'
+    };
+
+    if (preview.type === 'object' && !preview.subtype) {
+      result.className = preview.description ?? 'Object';
+    }
+
+    this.addPreview(result, preview);
+    return result;
+  }
+
+  /**
+   * Adds preview properties and entries to a serialized value
+   * @param result - Serialized value to extend
+   * @param preview - Object preview
+   */
+  private addPreview(result: SerializedValue, preview: ObjectPreview): void {
+    if (preview.entries) {
+      result.entries = preview.entries.map(entry => ({
+        key: entry.key ? this.previewToSerializedValue(entry.key) : { type: 'undefined', description: 'undefined' },
+        value: this.previewToSerializedValue(entry.value)
+      }));
+    }
+
+    if (result.entries && result.type === 'set') {
+      // Sets have no keys; their values are listed as properties like the patching backend does
+      result.properties = result.entries.map((entry, index) => ({ name: String(index), value: entry.value }));
+      delete result.entries;
+    } else if (preview.properties.length > 0) {
+      result.properties = preview.properties.map((property): SerializedProperty => ({
+        name: property.name,
+        value: this.propertyToSerializedValue(property)
+      }));
+    }
+
+    const size = /\((\d+)\)$/.exec(preview.description ?? '');
+    if (size?.[1] && (result.type === 'map' || result.type === 'set')) {
+      result.size = parseInt(size[1], 10);
+    }
+
+    if (preview.overflow) {
+      result.overflow = true;
+    }
+  }
+
+  /**
+   * Converts a property preview into a serialized value
+   * @param property - Runtime.PropertyPreview
+   * @returns Serialized value
+   */
+  private propertyToSerializedValue(property: PropertyPreview): SerializedValue {
+    if (property.valuePreview) {
+      return this.previewToSerializedValue(property.valuePreview);
+    }
+
+    const type = this.toValueType(property.type, property.subtype);
+    const text = property.value ?? '';
+
+    switch (type) {
+      case 'string':
+        return { type, value: text, description: text };
+      case 'number': {
+        const value = Number(text);
+        return Number.isFinite(value) && text !== '-0' ? { type, value, description: text } : { type, description: text };
+      }
+      case 'boolean':
+        return { type, value: text === 'true', description: text };
+      case 'function':
+        return { type, className: 'Function', description: 'ƒ' };
+      case 'object':
+        // Nested objects beyond the preview depth
+        return { type, description: text || 'Object', overflow: true };
+      default:
+        return { type, description: text || type };
+    }
+  }
+
+  /**
+   * Maps a protocol type and subtype onto a serialized value type
+   * @param type - Protocol type
+   * @param subtype - Protocol subtype
+   * @returns Serialized value type
+   */
+  private toValueType(type: string, subtype?: string): SerializedValueType {
+    if (type !== 'object') {
+      const primitives: SerializedValueType[] = ['string', 'number', 'boolean', 'undefined', 'bigint', 'symbol', 'function'];
+      return primitives.includes(type as SerializedValueType) ? type as SerializedValueType : 'object';
+    }
+
+    switch (subtype) {
+      case 'null':
+        return 'null';
+      case 'array':
+      case 'typedarray':
+        return 'array';
+      case 'error':
+        return 'error';
+      case 'date':
+        return 'date';
+      case 'regexp':
+        return 'regexp';
+      case 'map':
+      case 'weakmap':
+        return 'map';
+      case 'set':
+      case 'weakset':
+        return 'set';
+      case 'node':
+        return 'node';
+      case 'promise':
+        return 'promise';
+      default:
+        return 'object';
+    }
+  }
+
+  /**
+   * Gets the display text of a property preview
+   * @param property - Property preview
+   * @returns Display text
+   */
+  private previewText(property: PropertyPreview): string {
+    if (property.valuePreview) {
+      return property.valuePreview.description ?? 'Object';
+    }
+
+    return property.type === 'string' ? `'${property.value ?? ''}'` : property.value ?? '';
+  }
+
+  /**
+   * Builds the "ƒ name()" label used for functions from their source text
+   * @param source - Function source as reported by the protocol
+   * @returns Function label
+   */
+  private describeFunction(source: string): string {
+    const name = /^(?:async\s+)?(?:function\*?|class)\s*([\w$]*)/.exec(source)?.[1];
+    return `ƒ ${name || 'anonymous'}()`;
+  }
+
+  /**
+   * Formats protocol call frames as a V8-style stack trace
+   * @param stackTrace - Runtime.StackTrace
+   * @returns Stack trace string, or undefined if there are no frames
+   */
+  private formatStackTrace(stackTrace?: ProtocolStackTrace): string | undefined {
+    if (!stackTrace || stackTrace.callFrames.length === 0) {
+      return undefined;
+    }
+
+    // Protocol line and column numbers are zero-based
+    return stackTrace.callFrames.map(frame => {
+      const location = `${frame.url || '<anonymous>'}:${frame.lineNumber + 1}:${frame.columnNumber + 1}`;
+      return frame.functionName ? `    at ${frame.functionName} (${location})` : `    at ${location}`;
+    }).join('\n');
+  }
+
+  /**
+   * Maps a console method onto the log level it is reported at
+   * @param method - Console method
+   * @returns Log level
+   */
+  private toLogLevel(method: ConsoleMethod): LogLevel {
+    switch (method) {
+      case 'info':
+      case 'warn':
+      case 'error':
+      case 'debug':
+        return method;
+      case 'assert':
+        return 'error';
+      default:
+        return 'log';
+    }
+  }
+
+  /**
+   * Builds the key identifying an execution context within a tab
+   * @param sessionId - Child session ID, if any
+   * @param contextId - Protocol execution context ID
+   * @returns Context key
+   */
+  private contextKey(sessionId: string | undefined, contextId: number): string {
+    return `${sessionId ?? ''}:${contextId}`;
+  }
+
+  /**
+   * Forgets the execution contexts of a session after navigation or detach
+   * @param state - Tab state
+   * @param sessionId - Child session ID, or undefined for the tab itself
+   */
+  private clearContexts(state: TabState, sessionId: string | undefined): void {
+    const prefix = `${sessionId ?? ''}:`;
+    for (const key of [...state.contexts.keys()]) {
+      if (key.startsWith(prefix)) {
+        state.contexts.delete(key);
+        state.groupDepths.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,281 @@
+/**
+ * DomSnapshotter - Serializes the page when an error is captured
+ * Works on a clone of the document so the page is never modified. Scripts and inline
+ * handlers are removed, form values and data-* attributes are masked, PII in text and
+ * attributes is sanitized and stylesheets stay linked rather than inlined. Shadow roots
+ * and canvas contents are not part of the serialization.
+ */
+
+import type { DomSnapshot } from '../types/index.js';
+import { PIIDetector } from '../security/PIIDetector.js';
+import { DataSanitizer } from '../security/DataSanitizer.js';
+
+/**
+ * DOM snapshot configuration
+ */
+export interface DomSnapshotterConfig {
+  /** Snapshot the page for error-level entries */
+  enabled: boolean;
+  /** Maximum number of snapshots per session */
+  maxPerSession: number;
+  /** Serialized HTML beyond this size is cut off, in bytes */
+  maxBytes: number;
+}
+
+/**
+ * Elements that run code or embed active content
+ */
+const REMOVED_ELEMENTS = 'script, noscript, link[rel="modulepreload"], link[rel="preload"][as="script"]';
+
+/**
+ * Input types whose value is a visible label rather than user data
+ */
+const LABEL_INPUT_TYPES = new Set(['button', 'submit', 'reset', 'image', 'checkbox', 'radio']);
+
+/**
+ * Replacement for masked form values
+ */
+const MASKED_VALUE = '••••••';
+
+/**
+ * Attributes holding human-readable text that is scanned for PII
+ */
+const TEXT_ATTRIBUTES = ['title', 'alt', 'placeholder', 'aria-label', 'aria-description', 'content', 'href', 'src'];
+
+/**
+ * Names the file a snapshot is exported as
+ * @param snapshotId - Snapshot identifier
+ * @returns Attachment file name
+ */
+export function getSnapshotFileName(snapshotId: string): string {
+  return `dom-${snapshotId}.html`;
+}
+
+/**
+ * Takes size-bounded, sanitized snapshots of the document, up to a per-session cap
+ */
+export class DomSnapshotter {
+  private config: DomSnapshotterConfig = {
+    enabled: false,
+    maxPerSession: 3,
+    maxBytes: 524288
+  };
+
+  private snapshots: DomSnapshot[] = [];
+  private readonly detector: PIIDetector;
+  private readonly sanitizer: DataSanitizer;
+
+  /**
+   * Creates a new DomSnapshotter instance
+   * @param detector - Detector finding PII in text and attribute values
+   * @param sanitizer - Sanitizer masking the detected PII
+   */
+  constructor(detector: PIIDetector = new PIIDetector(), sanitizer: DataSanitizer = new DataSanitizer()) {
+    this.detector = detector;
+    this.sanitizer = sanitizer;
+  }
+
+  /**
+   * Updates the snapshot configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<DomSnapshotterConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Snapshots the document for an error entry
+   * @param logId - Id of the error entry
+   * @param root - Document to snapshot
+   * @returns Snapshot, or null when disabled or the session cap is reached
+   */
+  capture(logId: string, root: Document = document): DomSnapshot | null {
+    if (!this.config.enabled || this.snapshots.length >= this.config.maxPerSession || !root.documentElement) {
+      return null;
+    }
+
+    const clone = root.documentElement.cloneNode(true) as HTMLElement;
+
+    const maskedFields = this.maskFormFields(root.documentElement, clone);
+    this.removeActiveContent(clone);
+    this.redactContent(root, clone);
+    const stylesheets = this.linkResources(root, clone);
+
+    const serialized = `<!DOCTYPE html>\n${clone.outerHTML}`;
+    const encoded = new TextEncoder().encode(serialized);
+    const truncated = encoded.length > this.config.maxBytes;
+
+    const snapshot: DomSnapshot = {
+      id: `snapshot_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
+      logId,
+      timestamp: new Date(),
+      url: root.location?.href ?? root.baseURI,
+      // A multi-byte character cut in half decodes as U+FFFD
+      html: truncated
+        ? `${new TextDecoder().decode(encoded.subarray(0, this.config.maxBytes))}\n<!-- snapshot truncated -->`
+        : serialized,
+      size: encoded.length,
+      truncated,
+      stylesheets,
+      maskedFields
+    };
+
+    this.snapshots.push(snapshot);
+    return snapshot;
+  }
+
+  /**
+   * Gets the snapshots taken this session
+   * @returns Copy of the snapshot list
+   */
+  getSnapshots(): DomSnapshot[] {
+    return [...this.snapshots];
+  }
+
+  /**
+   * Forgets all snapshots, starting a new session's cap
+   */
+  clear(): void {
+    this.snapshots = [];
+  }
+
+  /**
+   * Replaces form values in the clone; live values are read from the original,
+   * since typed text is not reflected in attributes
+   * @param original - Document element of the page
+   * @param clone - Cloned document element
+   * @returns Number of masked fields
+   */
+  private maskFormFields(original: Element, clone: Element): number {
+    const originalFields = original.querySelectorAll('input, textarea, select');
+    const clonedFields = clone.querySelectorAll('input, textarea, select');
+    let masked = 0;
+
+    clonedFields.forEach((field, index) => {
+      const source = originalFields[index];
+
+      if (field instanceof HTMLInputElement) {
+        if (LABEL_INPUT_TYPES.has(field.type)) {
+          return;
+        }
+
+        const value = source instanceof HTMLInputElement ? source.value : field.getAttribute('value');
+        if (value) {
+          field.setAttribute('value', MASKED_VALUE);
+          masked++;
+        } else {
+          field.removeAttribute('value');
+        }
+      } else if (field instanceof HTMLTextAreaElement) {
+        const value = source instanceof HTMLTextAreaElement ? source.value : field.textContent;
+        field.textContent = value ? MASKED_VALUE : '';
+        if (value) {
+          masked++;
+        }
+      } else if (field instanceof HTMLSelectElement) {
+        // The chosen option is the user's data; the option list is page content
+        const selected = field.querySelectorAll('option[selected]');
+        selected.forEach(option => option.removeAttribute('selected'));
+        if (selected.length > 0 || (source instanceof HTMLSelectElement && source.selectedIndex > 0)) {
+          masked++;
+        }
+      }
+    });
+
+    return masked;
+  }
+
+  /**
+   * Removes scripts, inline event handlers and javascript: URLs from the clone
+   * @param clone - Cloned document element
+   */
+  private removeActiveContent(clone: Element): void {
+    clone.querySelectorAll(REMOVED_ELEMENTS).forEach(element => element.remove());
+
+    for (const element of [clone, ...Array.from(clone.querySelectorAll('*'))]) {
+      for (const attribute of Array.from(element.attributes)) {
+        const name = attribute.name.toLowerCase();
+        if (name.startsWith('on') || /^\s*javascript:/i.test(attribute.value)) {
+          element.removeAttribute(attribute.name);
+        }
+      }
+    }
+  }
+
+  /**
+   * Masks data-* attributes and sanitizes PII in text and text-bearing attributes
+   * @param root - Page document, used to walk the clone's text nodes
+   * @param clone - Cloned document element
+   */
+  private redactContent(root: Document, clone: Element): void {
+    for (const element of [clone, ...Array.from(clone.querySelectorAll('*'))]) {
+      for (const attribute of Array.from(element.attributes)) {
+        const name = attribute.name.toLowerCase();
+        if (name.startsWith('data-')) {
+          // Frameworks keep ids, emails and tokens in data attributes
+          if (attribute.value) {
+            element.setAttribute(attribute.name, MASKED_VALUE);
+          }
+        } else if (TEXT_ATTRIBUTES.includes(name)) {
+          const sanitized = this.sanitize(attribute.value);
+          if (sanitized !== attribute.value) {
+            element.setAttribute(attribute.name, sanitized);
+          }
+        }
+      }
+    }
+
+    // Style contents are page code, not user data
+    const walker = root.createTreeWalker(clone, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (node.parentElement?.tagName === 'STYLE' || !node.nodeValue?.trim()) {
+        continue;
+      }
+
+      const sanitized = this.sanitize(node.nodeValue);
+      if (sanitized !== node.nodeValue) {
+        node.nodeValue = sanitized;
+      }
+    }
+  }
+
+  /**
+   * Masks the PII detected in a text
+   * @param text - Text to sanitize
+   * @returns Sanitized text
+   */
+  private sanitize(text: string): string {
+    const detections = this.detector.scanText(text);
+    return detections.length > 0 ? this.sanitizer.sanitizeText(text, detections).sanitizedText : text;
+  }
+
+  /**
+   * Points stylesheet links and relative resources at the page's URLs
+   * @param root - Page document
+   * @param clone - Cloned document element
+   * @returns Absolute URLs of the linked stylesheets
+   */
+  private linkResources(root: Document, clone: Element): string[] {
+    const stylesheets: string[] = [];
+
+    clone.querySelectorAll('link[rel~="stylesheet"][href]').forEach(link => {
+      try {
+        const href = new URL(link.getAttribute('href') ?? '', root.baseURI).href;
+        link.setAttribute('href', href);
+        stylesheets.push(href);
+      } catch {
+        link.remove();
+      }
+    });
+
+    // Relative images and fonts resolve against the page when the snapshot is opened elsewhere
+    const head = clone.querySelector('head');
+    if (head && !head.querySelector('base[href]')) {
+      const base = root.createElement('base');
+      base.setAttribute('href', root.baseURI);
+      head.prepend(base);
+    }
+
+    return stylesheets;
+  }
+}
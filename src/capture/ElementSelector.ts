@@ -0,0 +1,109 @@
+/**
+ * ElementSelector - Describes DOM elements for breadcrumbs
+ * Builds short CSS selector paths that stay meaningful across renders, unlike the raw
+ * className strings utility-class frameworks produce, and reads the start of an
+ * element's visible label
+ */
+
+/**
+ * Attributes test suites add to give elements stable names, in order of preference
+ */
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test', 'data-cy'];
+
+/**
+ * Attributes that label elements without text content
+ */
+const LABEL_ATTRIBUTES = ['aria-label', 'title', 'alt'];
+
+/**
+ * Escapes an identifier for use in a selector
+ * @param value - Raw id or attribute value
+ * @returns Value safe to place in a selector
+ */
+function escapeIdentifier(value: string): string {
+  return value.replace(/[^\w-]/g, char => `\\${char}`);
+}
+
+/**
+ * Builds the selector step for a single element
+ * @param element - Element to describe
+ * @returns Selector step, and whether it identifies the element on its own
+ */
+function describeStep(element: Element): { step: string; unique: boolean } {
+  const tag = element.tagName.toLowerCase();
+
+  if (element.id) {
+    return { step: `${tag}#${escapeIdentifier(element.id)}`, unique: true };
+  }
+
+  for (const attribute of TEST_ID_ATTRIBUTES) {
+    const value = element.getAttribute(attribute);
+    if (value) {
+      return { step: `${tag}[${attribute}="${value.replace(/"/g, '\\"')}"]`, unique: true };
+    }
+  }
+
+  // Position among same-tag siblings, only when it is ambiguous
+  const parent = element.parentElement;
+  if (parent) {
+    const sameTag = Array.from(parent.children).filter(sibling => sibling.tagName === element.tagName);
+    if (sameTag.length > 1) {
+      return { step: `${tag}:nth-of-type(${sameTag.indexOf(element) + 1})`, unique: false };
+    }
+  }
+
+  return { step: tag, unique: false };
+}
+
+/**
+ * Builds a CSS selector path for an element
+ * Walks up until an element with an id or test id anchors the path, the body is
+ * reached, or the depth limit is hit
+ * @param element - Target element
+ * @param maxDepth - Maximum number of steps
+ * @returns Selector such as `form#checkout > div:nth-of-type(2) > button`
+ */
+export function getSelectorPath(element: Element, maxDepth: number = 5): string {
+  const steps: string[] = [];
+  let current: Element | null = element;
+
+  while (current && steps.length < maxDepth) {
+    const { step, unique } = describeStep(current);
+    steps.unshift(step);
+
+    const tag = current.tagName.toLowerCase();
+    if (unique || tag === 'body' || tag === 'html') {
+      break;
+    }
+
+    current = current.parentElement;
+  }
+
+  return steps.join(' > ');
+}
+
+/**
+ * Reads the start of an element's visible label
+ * Form field values are never read; only text content and labelling attributes are
+ * @param element - Target element
+ * @param maxLength - Maximum number of characters
+ * @returns Whitespace-collapsed label, or undefined when the element has none
+ */
+export function getElementText(element: Element, maxLength: number = 50): string | undefined {
+  let text: string | undefined = element.textContent?.replace(/\s+/g, ' ').trim();
+
+  if (!text) {
+    for (const attribute of LABEL_ATTRIBUTES) {
+      text = element.getAttribute(attribute)?.trim();
+      if (text) {
+        break;
+      }
+    }
+  }
+
+  if (!text) {
+    return undefined;
+  }
+
+  return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
@@ -0,0 +1,223 @@
+/**
+ * ErrorEventCapture - Captures uncaught exceptions, unhandled promise rejections
+ * and resource load failures that never pass through console methods
+ */
+
+import type { ErrorDetails, LogOrigin } from '../types/index.js';
+
+/**
+ * Error event normalized for the capture pipeline
+ */
+export interface CapturedErrorEvent {
+  /** Capture source of the event */
+  origin: Exclude<LogOrigin, 'console'>;
+  /** Human-readable summary used as the log message */
+  message: string;
+  /** Structured error details */
+  error: ErrorDetails;
+}
+
+/**
+ * Handler function for captured error events
+ */
+export type ErrorEventHandler = (event: CapturedErrorEvent) => void;
+
+/**
+ * Listens for window error events and converts them into captured error records
+ * Must run in the page's main world to see the thrown Error objects
+ */
+export class ErrorEventCapture {
+  private handler: ErrorEventHandler | null = null;
+  private target: Window | null = null;
+  private readonly maxReasonLength: number = 2000;
+
+  private readonly errorListener = (event: Event): void => this.handleErrorEvent(event);
+  private readonly rejectionListener = (event: PromiseRejectionEvent): void => this.handleRejection(event);
+
+  /**
+   * Sets the error event handler
+   * @param handler - Function to handle captured error events
+   */
+  setHandler(handler: ErrorEventHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Starts listening for error events on the given window
+   * @param target - Window to listen on
+   */
+  install(target: Window): void {
+    if (this.target) {
+      return;
+    }
+
+    // Capture phase is required: resource errors do not bubble to window
+    target.addEventListener('error', this.errorListener, true);
+    target.addEventListener('unhandledrejection', this.rejectionListener);
+    this.target = target;
+  }
+
+  /**
+   * Stops listening for error events
+   */
+  uninstall(): void {
+    if (!this.target) {
+      return;
+    }
+
+    this.target.removeEventListener('error', this.errorListener, true);
+    this.target.removeEventListener('unhandledrejection', this.rejectionListener);
+    this.target = null;
+  }
+
+  /**
+   * Handles window error events, distinguishing script errors from resource failures
+   * @param event - Error or resource load event
+   */
+  private handleErrorEvent(event: Event): void {
+    try {
+      if (event instanceof ErrorEvent) {
+        this.emit(this.fromUncaughtError(event));
+        return;
+      }
+
+      // Worker scopes have no DOM and no resource errors
+      const element = event.target;
+      if (typeof Element !== 'undefined' && element && element !== this.target && element instanceof Element) {
+        this.emit(this.fromResourceError(element));
+      }
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+
+  /**
+   * Handles unhandled promise rejections
+   * @param event - Promise rejection event
+   */
+  private handleRejection(event: PromiseRejectionEvent): void {
+    try {
+      this.emit(this.fromRejection(event.reason));
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+
+  /**
+   * Builds a captured record from an uncaught script error
+   * @param event - Error event
+   * @returns Captured error event
+   */
+  private fromUncaughtError(event: ErrorEvent): CapturedErrorEvent {
+    const thrown: unknown = event.error;
+    const error: ErrorDetails = {
+      message: event.message || 'Script error'
+    };
+
+    if (thrown instanceof Error) {
+      error.name = thrown.name;
+      error.message = thrown.message;
+      if (thrown.stack) {
+        error.stack = thrown.stack;
+      }
+    } else if (thrown !== undefined && thrown !== null) {
+      // Non-Error values can be thrown too
+      error.reason = this.describeValue(thrown);
+    }
+
+    if (event.filename) {
+      error.filename = event.filename;
+      error.lineno = event.lineno;
+      error.colno = event.colno;
+    }
+
+    const prefix = error.name ? `Uncaught ${error.name}` : 'Uncaught';
+
+    return {
+      origin: 'uncaught-error',
+      message: `${prefix}: ${error.message}`,
+      error
+    };
+  }
+
+  /**
+   * Builds a captured record from an unhandled promise rejection
+   * @param reason - Rejection reason
+   * @returns Captured error event
+   */
+  private fromRejection(reason: unknown): CapturedErrorEvent {
+    const error: ErrorDetails = {
+      message: 'Unhandled promise rejection',
+      reason: this.describeValue(reason)
+    };
+
+    if (reason instanceof Error) {
+      error.name = reason.name;
+      error.message = reason.message;
+      if (reason.stack) {
+        error.stack = reason.stack;
+      }
+    }
+
+    return {
+      origin: 'unhandled-rejection',
+      message: `Uncaught (in promise) ${error.name ? `${error.name}: ${error.message}` : error.reason}`,
+      error
+    };
+  }
+
+  /**
+   * Builds a captured record from a failed resource load
+   * @param element - Element whose resource failed
+   * @returns Captured error event
+   */
+  private fromResourceError(element: Element): CapturedErrorEvent {
+    const resourceType = element.tagName.toLowerCase();
+    // <img>, <script>, <audio>, <video> expose src; <link> exposes href
+    const resourceUrl = (element as HTMLImageElement).src || (element as HTMLLinkElement).href || '';
+
+    return {
+      origin: 'resource-error',
+      message: `Failed to load ${resourceType}: ${resourceUrl || '(unknown URL)'}`,
+      error: {
+        name: 'ResourceError',
+        message: `Failed to load resource: ${resourceUrl}`,
+        resourceUrl,
+        resourceType
+      }
+    };
+  }
+
+  /**
+   * Converts an arbitrary thrown or rejected value into a string
+   * @param value - Value to describe
+   * @returns String description
+   */
+  private describeValue(value: unknown): string {
+    let description: string;
+
+    if (value instanceof Error) {
+      description = `${value.name}: ${value.message}`;
+    } else if (typeof value === 'object' && value !== null) {
+      try {
+        description = JSON.stringify(value);
+      } catch {
+        description = Object.prototype.toString.call(value);
+      }
+    } else {
+      description = String(value);
+    }
+
+    return description.length > this.maxReasonLength
+      ? `${description.substring(0, this.maxReasonLength)}…`
+      : description;
+  }
+
+  /**
+   * Passes a captured record to the handler
+   * @param event - Captured error event
+   */
+  private emit(event: CapturedErrorEvent): void {
+    this.handler?.(event);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * HighResClock - High-resolution timestamps and per-context sequence numbers
+ * Runs in the page, workers, the content script and the background, so it must not
+ * depend on any extension API
+ */
+
+import type { LogEntry } from '../types/index.js';
+
+/**
+ * High-resolution time and position of a log within the context that produced it
+ */
+export interface HighResStamp {
+  /** Epoch milliseconds with sub-millisecond precision */
+  hrTimestamp: number;
+  /** Position among the logs stamped by the same clock, starting at 1 */
+  sequence: number;
+}
+
+/**
+ * Monotonic clock for one JavaScript context
+ * performance.timeOrigin is the context's start time on the system clock, so
+ * timeOrigin + performance.now() values from different contexts are comparable,
+ * while still never going backwards within a context
+ */
+export class HighResClock {
+  private lastTime: number = 0;
+  private sequence: number = 0;
+
+  /**
+   * Gets the current high-resolution time
+   * @returns Epoch milliseconds with sub-millisecond precision where available
+   */
+  now(): number {
+    const time = typeof performance !== 'undefined' && typeof performance.timeOrigin === 'number'
+      ? performance.timeOrigin + performance.now()
+      : Date.now();
+
+    // The Date.now() fallback steps backwards when the system clock is adjusted
+    this.lastTime = Math.max(this.lastTime, time);
+    return this.lastTime;
+  }
+
+  /**
+   * Stamps a log with the current time and the next sequence number
+   * @returns High-resolution stamp
+   */
+  stamp(): HighResStamp {
+    return { hrTimestamp: this.now(), sequence: ++this.sequence };
+  }
+}
+
+/**
+ * Orders log entries by high-resolution time, falling back to the wall-clock timestamp
+ * Entries stamped at the same instant are ordered by sequence number
+ * @param a - First entry
+ * @param b - Second entry
+ * @returns Negative if a comes first, positive if b does, 0 if equal
+ */
+export function compareLogOrder(
+  a: Pick<LogEntry, 'timestamp' | 'hrTimestamp' | 'sequence'>,
+  b: Pick<LogEntry, 'timestamp' | 'hrTimestamp' | 'sequence'>
+): number {
+  const timeA = a.hrTimestamp ?? a.timestamp.getTime();
+  const timeB = b.hrTimestamp ?? b.timestamp.getTime();
+
+  if (timeA !== timeB) {
+    return timeA - timeB;
+  }
+
+  return (a.sequence ?? 0) - (b.sequence ?? 0);
+}
@@ -0,0 +1,157 @@
+/**
+ * LogDeduplicator - Collapses repeated log entries within a session
+ * Entries are keyed on a normalized message and their source, so render loops
+ * logging the same line with a changing counter collapse into one entry;
+ * warnings and errors keep their numbers, which often carry a status or code
+ */
+
+import type { DeduplicationMode, LogEntry, LogLevel } from '../types/index.js';
+
+/**
+ * Deduplication configuration
+ */
+export interface LogDeduplicatorConfig {
+  /** Collapse repeated entries */
+  enabled: boolean;
+  /** Collapse only into the previous entry, or into any matching entry within the window */
+  mode: DeduplicationMode;
+  /** How long after an entry's last repeat it can still absorb repeats, in milliseconds */
+  windowMs: number;
+}
+
+/**
+ * Maximum number of tracked keys before entries outside the window are swept
+ */
+const MAX_TRACKED_KEYS = 1000;
+
+/**
+ * Finds earlier session entries that a new entry repeats
+ */
+export class LogDeduplicator {
+  private config: LogDeduplicatorConfig = {
+    enabled: true,
+    mode: 'consecutive',
+    windowMs: 5000
+  };
+
+  private lastKey: string | null = null;
+  private lastEntry: LogEntry | null = null;
+  private entriesByKey: Map<string, LogEntry> = new Map();
+
+  /**
+   * Updates the deduplication configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<LogDeduplicatorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Finds the entry a new entry repeats and records the repeat on it
+   * @param entry - Entry about to be added to the session
+   * @returns The earlier entry the new one was collapsed into, or null if it should be added
+   */
+  collapse(entry: LogEntry): LogEntry | null {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const key = this.createKey(entry);
+    const time = entry.timestamp.getTime();
+
+    let target: LogEntry | null = null;
+    if (this.config.mode === 'consecutive') {
+      target = key === this.lastKey ? this.lastEntry : null;
+    } else {
+      const candidate = this.entriesByKey.get(key);
+      const lastSeen = candidate ? (candidate.lastRepeatTimestamp ?? candidate.timestamp).getTime() : 0;
+      target = candidate && Math.abs(time - lastSeen) <= this.config.windowMs ? candidate : null;
+    }
+
+    if (target) {
+      target.repeatCount = (target.repeatCount ?? 1) + 1;
+      if (!target.lastRepeatTimestamp || time > target.lastRepeatTimestamp.getTime()) {
+        target.lastRepeatTimestamp = entry.timestamp;
+      }
+      return target;
+    }
+
+    this.track(key, entry);
+    return null;
+  }
+
+  /**
+   * Forgets all tracked entries, e.g. when a session starts
+   */
+  reset(): void {
+    this.lastKey = null;
+    this.lastEntry = null;
+    this.entriesByKey.clear();
+  }
+
+  /**
+   * Tracks an entry that was added to the session
+   * @param key - Deduplication key
+   * @param entry - Added entry
+   */
+  private track(key: string, entry: LogEntry): void {
+    this.lastKey = key;
+    this.lastEntry = entry;
+
+    if (this.config.mode !== 'window') {
+      return;
+    }
+
+    this.entriesByKey.set(key, entry);
+
+    if (this.entriesByKey.size > MAX_TRACKED_KEYS) {
+      const cutoff = entry.timestamp.getTime() - this.config.windowMs;
+      for (const [trackedKey, tracked] of this.entriesByKey) {
+        if ((tracked.lastRepeatTimestamp ?? tracked.timestamp).getTime() < cutoff) {
+          this.entriesByKey.delete(trackedKey);
+        }
+      }
+    }
+  }
+
+  /**
+   * Builds the key that identifies repeats of an entry
+   * @param entry - Log entry
+   * @returns Deduplication key
+   */
+  private createKey(entry: LogEntry): string {
+    const source = entry.source ? `${entry.source.file}:${entry.source.line}:${entry.source.column}` : '';
+    const context = entry.executionContext;
+    const contextKey = context
+      ? `${context.type}|${context.frameId ?? ''}|${context.workerUrl ?? context.frameUrl ?? ''}`
+      : '';
+
+    return [
+      entry.level,
+      entry.origin ?? 'console',
+      entry.preSession ? 'pre' : '',
+      contextKey,
+      source,
+      this.normalizeMessage(entry.message, entry.level)
+    ].join('\u0000');
+  }
+
+  /**
+   * Normalizes volatile parts of a message so that lines differing only in ids,
+   * counters or timestamps are treated as repeats
+   * Numbers are kept for warnings and errors, so "Request failed: 404" and
+   * "Request failed: 500" stay separate entries
+   * @param message - Formatted log message
+   * @param level - Log level of the entry
+   * @returns Normalized message
+   */
+  private normalizeMessage(message: string, level: LogLevel): string {
+    const normalized = message
+      .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+      .replace(/\b0x[0-9a-f]+\b/gi, '<hex>');
+
+    return (level === 'error' || level === 'warn' ? normalized : normalized.replace(/\d+(\.\d+)?/g, '<n>'))
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
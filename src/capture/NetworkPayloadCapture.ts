@@ -0,0 +1,464 @@
+/**
+ * NetworkPayloadCapture - Records request and response headers and bodies for network requests
+ * Payloads are truncated, parsed according to their content type and run through
+ * DataSanitizer before storage. Credential headers and cookies are always stripped
+ */
+
+import type { NetworkPayload } from '../types/index.js';
+import { DataSanitizer } from '../security/DataSanitizer.js';
+
+/**
+ * Network payload capture configuration
+ */
+export interface NetworkPayloadConfig {
+  /** Record request and response headers */
+  captureHeaders: boolean;
+  /** Record text request and response bodies */
+  captureBodies: boolean;
+  /** Bodies are cut after this many characters */
+  maxBodyBytes: number;
+  /** Only capture payloads for these origins when non-empty */
+  allowOrigins: string[];
+  /** Never capture payloads for these origins */
+  denyOrigins: string[];
+  /** Record WebSocket, EventSource and beacon data */
+  captureFrames: boolean;
+}
+
+/**
+ * Body text read from a request or response, or the reason it was not read
+ */
+interface BodyText {
+  /** Body text, cut at the configured size */
+  text?: string;
+  /** Whether the text was cut */
+  truncated?: boolean;
+  /** Why the body was not read */
+  omitted?: string;
+}
+
+/**
+ * Headers that always carry credentials or cookies
+ */
+const STRIPPED_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+  'set-cookie2'
+]);
+
+/**
+ * Header names that usually carry tokens or session identifiers
+ */
+const STRIPPED_HEADER_PATTERN = /(^x-.*(token|auth|api-?key|secret|session))|csrf|xsrf/i;
+
+/**
+ * Content types whose bodies are never text
+ */
+const BINARY_CONTENT_PATTERN = /^(image|audio|video|font)\/|^application\/(octet-stream|pdf|zip|gzip|wasm|protobuf|x-protobuf)|^multipart\//;
+
+/**
+ * Content types that never finish and must not be read
+ */
+const STREAMING_CONTENT_PATTERN = /^text\/event-stream|^application\/x-ndjson/;
+
+/**
+ * Captures and sanitizes network payloads
+ */
+export class NetworkPayloadCapture {
+  private config: NetworkPayloadConfig = {
+    captureHeaders: false,
+    captureBodies: false,
+    maxBodyBytes: 16384,
+    allowOrigins: [],
+    denyOrigins: [],
+    captureFrames: false
+  };
+
+  private readonly sanitizer: DataSanitizer;
+  private allowPatterns: RegExp[] = [];
+  private denyPatterns: RegExp[] = [];
+
+  /**
+   * Creates a new NetworkPayloadCapture instance
+   * @param sanitizer - Sanitizer applied to headers and bodies before storage
+   */
+  constructor(sanitizer: DataSanitizer = new DataSanitizer()) {
+    this.sanitizer = sanitizer;
+  }
+
+  /**
+   * Updates the capture configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<NetworkPayloadConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.allowPatterns = this.config.allowOrigins.map(origin => this.originToRegExp(origin));
+    this.denyPatterns = this.config.denyOrigins.map(origin => this.originToRegExp(origin));
+  }
+
+  /**
+   * Checks whether payloads are captured for a request URL
+   * @param url - Request URL, possibly relative to the page
+   * @returns True if headers or bodies should be captured
+   */
+  shouldCapture(url: string): boolean {
+    if (!this.config.captureHeaders && !this.config.captureBodies) {
+      return false;
+    }
+
+    return this.isOriginAllowed(url);
+  }
+
+  /**
+   * Checks whether frame data is captured for a WebSocket, EventSource or beacon URL
+   * @param url - Connection URL, possibly relative to the page
+   * @returns True if frame data should be captured
+   */
+  shouldCaptureFrames(url: string): boolean {
+    return this.config.captureFrames && this.isOriginAllowed(url);
+  }
+
+  /**
+   * Captures the data of a WebSocket frame, EventSource message or beacon
+   * Frames have no content type, so text that looks like JSON is parsed as JSON
+   * @param data - Frame data
+   * @returns Sanitized payload
+   */
+  fromFrame(data: unknown): NetworkPayload {
+    const payload: NetworkPayload = {};
+    const body = this.describeBody(data, payload);
+
+    if (payload.contentType === undefined && body.text && !body.truncated && /^\s*[[{]/.test(body.text)) {
+      payload.contentType = 'application/json';
+    }
+
+    this.applyBody(payload, body);
+    return payload;
+  }
+
+  /**
+   * Captures the headers and body of a fetch Request or Response
+   * The body is consumed, so pass a clone
+   * @param message - Request or Response clone
+   * @returns Sanitized payload
+   */
+  async fromMessage(message: Request | Response): Promise<NetworkPayload> {
+    const contentType = message.headers.get('content-type') ?? undefined;
+    const payload = this.createPayload(message.headers, contentType);
+
+    if (this.config.captureBodies) {
+      const length = Number(message.headers.get('content-length'));
+      if (length > 0) {
+        payload.bodySize = length;
+      }
+      const body = await this.readBody(message, payload.contentType);
+      if (payload.bodySize === undefined && body.text && !body.truncated) {
+        payload.bodySize = this.byteLength(body.text);
+      }
+      this.applyBody(payload, body);
+    }
+
+    return payload;
+  }
+
+  /**
+   * Captures headers and a body that are already available, as with XMLHttpRequest
+   * @param headers - Headers, or a raw CRLF-separated header block
+   * @param body - Body as sent or received
+   * @param contentType - Content type when it is not among the headers
+   * @returns Sanitized payload
+   */
+  fromParts(headers: HeadersInit | string | undefined, body: unknown, contentType?: string | null): NetworkPayload {
+    const normalized = this.normalizeHeaders(headers);
+    const payload = this.createPayload(normalized, contentType ?? normalized['content-type']);
+
+    if (this.config.captureBodies && body !== null && body !== undefined) {
+      this.applyBody(payload, this.describeBody(body, payload));
+    }
+
+    return payload;
+  }
+
+  /**
+   * Checks a URL against the allow and deny lists
+   * @param url - URL, possibly relative to the page
+   * @returns True if the deny list does not match and the allow list is empty or matches
+   */
+  private isOriginAllowed(url: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url, typeof location !== 'undefined' ? location.href : undefined);
+    } catch {
+      return false;
+    }
+
+    const matches = (pattern: RegExp): boolean => pattern.test(parsed.origin) || pattern.test(parsed.host);
+
+    if (this.denyPatterns.some(matches)) {
+      return false;
+    }
+
+    return this.allowPatterns.length === 0 || this.allowPatterns.some(matches);
+  }
+
+  /**
+   * Creates a payload holding the sanitized headers and content type
+   * @param headers - Request or response headers
+   * @param contentType - Content-Type header value
+   * @returns Payload without a body
+   */
+  private createPayload(headers: HeadersInit, contentType: string | undefined): NetworkPayload {
+    const payload: NetworkPayload = {};
+
+    const mediaType = contentType?.split(';')[0]?.trim().toLowerCase();
+    if (mediaType) {
+      payload.contentType = mediaType;
+    }
+
+    if (this.config.captureHeaders) {
+      const kept: Record<string, string> = {};
+      const stripped: string[] = [];
+
+      for (const [name, value] of Object.entries(this.normalizeHeaders(headers))) {
+        if (STRIPPED_HEADERS.has(name) || STRIPPED_HEADER_PATTERN.test(name)) {
+          stripped.push(name);
+        } else {
+          kept[name] = value;
+        }
+      }
+
+      payload.headers = this.sanitizer.sanitizeObject(kept).sanitizedData as Record<string, string>;
+      if (stripped.length > 0) {
+        payload.strippedHeaders = stripped;
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Parses, sanitizes and stores body text on a payload
+   * @param payload - Payload to update
+   * @param body - Body text or the reason it was not read
+   */
+  private applyBody(payload: NetworkPayload, body: BodyText): void {
+    if (body.omitted) {
+      payload.bodyOmitted = body.omitted;
+      return;
+    }
+
+    if (body.text === undefined || body.text.length === 0) {
+      return;
+    }
+
+    if (body.truncated) {
+      payload.truncated = true;
+    }
+
+    payload.body = this.sanitizer.sanitizeObject(this.parseBody(body.text, payload.contentType, body.truncated)).sanitizedData;
+  }
+
+  /**
+   * Parses structured bodies so sanitization can use their field names
+   * @param text - Body text
+   * @param contentType - Media type
+   * @param truncated - Whether the text was cut, which breaks structured parsing
+   * @returns Parsed body, or the text itself
+   */
+  private parseBody(text: string, contentType: string | undefined, truncated: boolean | undefined): unknown {
+    if (truncated || !contentType) {
+      return text;
+    }
+
+    if (contentType === 'application/json' || contentType.endsWith('+json')) {
+      try {
+        return JSON.parse(text);
+      } catch {
+        return text;
+      }
+    }
+
+    if (contentType === 'application/x-www-form-urlencoded') {
+      return Object.fromEntries(new URLSearchParams(text));
+    }
+
+    return text;
+  }
+
+  /**
+   * Reads a fetch body up to the configured size
+   * @param message - Request or Response clone
+   * @param contentType - Media type
+   * @returns Body text or the reason it was not read
+   */
+  private async readBody(message: Request | Response, contentType: string | undefined): Promise<BodyText> {
+    const omitted = this.getOmittedReason(contentType);
+    if (omitted) {
+      return { omitted };
+    }
+
+    if (!message.body) {
+      return {};
+    }
+
+    const reader = message.body.getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+
+    try {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        text += decoder.decode(value, { stream: true });
+        if (text.length > this.config.maxBodyBytes) {
+          // Stop reading; the page's own copy of the body is unaffected
+          await reader.cancel();
+          return { text: text.slice(0, this.config.maxBodyBytes), truncated: true };
+        }
+      }
+    } catch {
+      return { omitted: 'Body could not be read' };
+    }
+
+    return { text: text + decoder.decode() };
+  }
+
+  /**
+   * Gets the text of a body passed to fetch or XMLHttpRequest.send
+   * @param body - Body value
+   * @param payload - Payload whose content type may be filled in
+   * @returns Body text or the reason it was not read
+   */
+  private describeBody(body: unknown, payload: NetworkPayload): BodyText {
+    let text: string;
+
+    if (typeof body === 'string') {
+      text = body;
+    } else if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+      payload.contentType ??= 'application/x-www-form-urlencoded';
+      text = body.toString();
+    } else if (typeof FormData !== 'undefined' && body instanceof FormData) {
+      return { omitted: 'Form data' };
+    } else if (typeof body !== 'object' || body === null || this.isOpaqueBody(body)) {
+      return { omitted: 'Binary or streamed body' };
+    } else {
+      // XMLHttpRequest responses with responseType 'json' are already parsed
+      text = JSON.stringify(body);
+      payload.contentType ??= 'application/json';
+    }
+
+    const omitted = this.getOmittedReason(payload.contentType);
+    if (omitted) {
+      return { omitted };
+    }
+
+    payload.bodySize = this.byteLength(text);
+
+    return text.length > this.config.maxBodyBytes
+      ? { text: text.slice(0, this.config.maxBodyBytes), truncated: true }
+      : { text };
+  }
+
+  /**
+   * Checks whether a body object holds binary data, a stream or a document
+   * @param body - Body object
+   * @returns True if the body cannot be captured as text
+   */
+  private isOpaqueBody(body: object): boolean {
+    return ArrayBuffer.isView(body)
+      || body instanceof ArrayBuffer
+      || (typeof Blob !== 'undefined' && body instanceof Blob)
+      || (typeof ReadableStream !== 'undefined' && body instanceof ReadableStream)
+      || (typeof Document !== 'undefined' && body instanceof Document);
+  }
+
+  /**
+   * Measures text in UTF-8 bytes
+   * @param text - Text to measure
+   * @returns Byte length
+   */
+  private byteLength(text: string): number {
+    return typeof TextEncoder !== 'undefined' ? new TextEncoder().encode(text).length : text.length;
+  }
+
+  /**
+   * Gets the reason a body of the given type is not captured
+   * @param contentType - Media type
+   * @returns Reason, or undefined if the body is text
+   */
+  private getOmittedReason(contentType: string | undefined): string | undefined {
+    if (!contentType) {
+      return undefined;
+    }
+
+    if (STREAMING_CONTENT_PATTERN.test(contentType)) {
+      return `Streamed content (${contentType})`;
+    }
+
+    if (BINARY_CONTENT_PATTERN.test(contentType)) {
+      return `Binary content (${contentType})`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Normalizes headers into a record keyed by lower-cased name
+   * @param headers - Headers object, pairs, record or raw CRLF-separated block
+   * @returns Header record
+   */
+  private normalizeHeaders(headers: HeadersInit | string | undefined): Record<string, string> {
+    const normalized: Record<string, string> = {};
+
+    if (!headers) {
+      return normalized;
+    }
+
+    if (typeof headers === 'string') {
+      for (const line of headers.split(/\r?\n/)) {
+        const separator = line.indexOf(':');
+        if (separator > 0) {
+          normalized[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+        }
+      }
+      return normalized;
+    }
+
+    if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+      headers.forEach((value, name) => {
+        normalized[name.toLowerCase()] = value;
+      });
+      return normalized;
+    }
+
+    for (const [name, value] of Array.isArray(headers) ? headers : Object.entries(headers)) {
+      if (name !== undefined && value !== undefined) {
+        normalized[name.toLowerCase()] = value;
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Converts an origin pattern into a regular expression
+   * Patterns with a scheme match the origin, others match the host; '*' stays within the host
+   * @param origin - Origin pattern, e.g. 'https://*.example.com' or 'api.example.com'
+   * @returns Anchored regular expression
+   */
+  private originToRegExp(origin: string): RegExp {
+    const source = origin
+      .trim()
+      .toLowerCase()
+      .replace(/\/+$/, '')
+      .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*');
+
+    return new RegExp(`^${source}$`);
+  }
+}
@@ -0,0 +1,400 @@
+/**
+ * PageBridge - Content-script side of the main-world console bridge
+ * Injects the page hook script, accepts the port it hands back in a nonce-checked
+ * handshake, and validates forwarded console calls before handing them to the
+ * capture pipeline
+ */
+
+import type { LogCaptureDetails, LogLevel, NetworkConnection, NetworkRequest } from '../types/index.js';
+import type { LogHandler } from './ConsoleInterceptor.js';
+import {
+  BRIDGE_MESSAGE_SOURCE,
+  type PageBridgeMessage,
+  type PageConnectionMessage,
+  type PageHandshakeMessage,
+  type PageNavigationMessage,
+  type PageNetworkConfigMessage,
+  type PageRequestMessage
+} from './PageConsoleHook.js';
+import type { PageNetworkConfig } from './PageNetworkHook.js';
+
+/**
+ * Receives history navigations made by page JavaScript
+ * @param type - History method the page called
+ * @param url - URL after the call
+ */
+export type NavigationHandler = (type: 'push' | 'replace', url: string) => void;
+
+/**
+ * Receives WebSocket, EventSource and beacon records made in the page
+ * @param connection - Connection as recorded so far; replaces earlier records with its id
+ */
+export type ConnectionHandler = (connection: NetworkConnection) => void;
+
+/**
+ * Receives fetch and XMLHttpRequest calls made in the page
+ * @param request - Completed request with its sanitized payloads
+ */
+export type RequestHandler = (request: NetworkRequest) => void;
+
+/**
+ * Page bridge configuration
+ */
+interface PageBridgeConfig {
+  /** Log levels to capture */
+  capturedLevels: LogLevel[];
+  /** Extension-relative path of the injected main-world script */
+  scriptPath: string;
+  /** Instrument dedicated workers created by the page; read once, when the hook is injected */
+  captureWorkers: boolean;
+  /** Async causality depth recorded by the hook, 0 to disable; read once, when the hook is injected */
+  asyncStackDepth: number;
+}
+
+/**
+ * Receives console calls made by page JavaScript in the main world
+ * The isolated-world ConsoleInterceptor cannot see these calls on its own
+ */
+export class PageBridge {
+  private isInitialized: boolean = false;
+  private isCapturing: boolean = false;
+  private logHandler: LogHandler | null = null;
+  private navigationHandler: NavigationHandler | null = null;
+  private connectionHandler: ConnectionHandler | null = null;
+  private requestHandler: RequestHandler | null = null;
+  private networkConfig: PageNetworkConfig | null = null;
+  private nonce: string = '';
+  private handshakeListener: ((event: MessageEvent) => void) | null = null;
+  private port: MessagePort | null = null;
+  private readonly portListener = (event: MessageEvent): void => this.handleMessage(event.data);
+  private receivedMessagesCount: number = 0;
+  private rejectedMessagesCount: number = 0;
+
+  // Configuration
+  private config: PageBridgeConfig = {
+    capturedLevels: ['log', 'info', 'warn', 'error', 'debug'],
+    scriptPath: '/page-bridge.js',
+    captureWorkers: false,
+    asyncStackDepth: 0
+  };
+
+  /**
+   * Initializes the bridge and injects the main-world hook
+   * @returns Promise that resolves when the hook script has been injected
+   */
+  async initialize(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+
+    if (typeof window === 'undefined' || typeof document === 'undefined') {
+      // Nothing to bridge outside of a document context
+      return;
+    }
+
+    if (typeof chrome === 'undefined' || !chrome.runtime?.getURL) {
+      // Hook script can only be injected from an extension content script
+      return;
+    }
+
+    try {
+      this.nonce = this.generateNonce();
+
+      this.handshakeListener = (event: MessageEvent) => this.handleHandshake(event);
+      window.addEventListener('message', this.handshakeListener);
+
+      this.injectHookScript();
+
+      this.isInitialized = true;
+
+    } catch (error) {
+      throw new Error(`Failed to initialize PageBridge: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Starts forwarding page console calls to the log handler
+   */
+  startCapture(): void {
+    this.isCapturing = true;
+  }
+
+  /**
+   * Stops forwarding page console calls
+   */
+  stopCapture(): void {
+    this.isCapturing = false;
+  }
+
+  /**
+   * Sets the log handler function
+   * @param handler - Function to handle captured logs
+   */
+  setLogHandler(handler: LogHandler): void {
+    this.logHandler = handler;
+  }
+
+  /**
+   * Sets the handler for history navigations made by the page
+   * Navigations are reported whether or not console capture is running
+   * @param handler - Function to handle navigations
+   */
+  setNavigationHandler(handler: NavigationHandler): void {
+    this.navigationHandler = handler;
+  }
+
+  /**
+   * Sets the handler for WebSocket, EventSource and beacon records made in the page
+   * Records are reported whether or not console capture is running
+   * @param handler - Function to handle connection records
+   */
+  setConnectionHandler(handler: ConnectionHandler): void {
+    this.connectionHandler = handler;
+  }
+
+  /**
+   * Sets the handler for fetch and XMLHttpRequest calls made in the page
+   * Requests are reported whether or not console capture is running
+   * @param handler - Function to handle completed requests
+   */
+  setRequestHandler(handler: RequestHandler): void {
+    this.requestHandler = handler;
+  }
+
+  /**
+   * Sends network instrumentation settings to the page hook
+   * Settings sent before the hook has connected are delivered once it does
+   * @param config - Network instrumentation settings
+   */
+  sendNetworkConfig(config: PageNetworkConfig): void {
+    this.networkConfig = config;
+    this.postNetworkConfig();
+  }
+
+  /**
+   * Updates the bridge configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<PageBridgeConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Gets current bridge statistics
+   * @returns Statistics object
+   */
+  getStats(): {
+    isInitialized: boolean;
+    isCapturing: boolean;
+    receivedMessages: number;
+    rejectedMessages: number;
+  } {
+    return {
+      isInitialized: this.isInitialized,
+      isCapturing: this.isCapturing,
+      receivedMessages: this.receivedMessagesCount,
+      rejectedMessages: this.rejectedMessagesCount
+    };
+  }
+
+  /**
+   * Shuts down the bridge
+   * The injected hook keeps running in the page, but its messages are ignored
+   * @returns Promise that resolves when shutdown is complete
+   */
+  async shutdown(): Promise<void> {
+    this.removeHandshakeListener();
+
+    if (this.port) {
+      this.port.removeEventListener('message', this.portListener);
+      this.port.close();
+      this.port = null;
+    }
+
+    this.isCapturing = false;
+    this.isInitialized = false;
+  }
+
+  /**
+   * Injects the main-world hook script with the nonce attached
+   */
+  private injectHookScript(): void {
+    const script = document.createElement('script');
+    script.src = chrome.runtime.getURL(this.config.scriptPath);
+    script.dataset['nonce'] = this.nonce;
+    if (this.config.captureWorkers) {
+      script.dataset['captureWorkers'] = 'true';
+    }
+    if (this.config.asyncStackDepth > 0) {
+      script.dataset['asyncStackDepth'] = String(this.config.asyncStackDepth);
+    }
+    script.async = false;
+
+    // Remove the element once it has run so the nonce does not stay in the DOM
+    script.onload = () => script.remove();
+    script.onerror = () => script.remove();
+
+    (document.head || document.documentElement).appendChild(script);
+  }
+
+  /**
+   * Accepts the port the hook hands over, once
+   * @param event - Window message event
+   */
+  private handleHandshake(event: MessageEvent): void {
+    // Only accept messages posted by this window to itself
+    if (event.source !== window) {
+      return;
+    }
+
+    const data = event.data as Partial<PageHandshakeMessage> | null;
+    if (!data || typeof data !== 'object' || data.source !== BRIDGE_MESSAGE_SOURCE || data.type !== 'handshake') {
+      return;
+    }
+
+    const port = event.ports?.[0];
+    if (!this.nonce || data.nonce !== this.nonce || !port) {
+      // Page scripts can post handshake-shaped messages; without the nonce they are forged
+      this.rejectedMessagesCount++;
+      return;
+    }
+
+    // Later handshakes are ignored, so a nonce read from this message is worthless
+    this.nonce = '';
+    this.removeHandshakeListener();
+
+    this.port = port;
+    port.addEventListener('message', this.portListener);
+    port.start();
+
+    this.postNetworkConfig();
+  }
+
+  /**
+   * Posts the latest network settings to the hook, once connected
+   */
+  private postNetworkConfig(): void {
+    if (!this.port || !this.networkConfig) {
+      return;
+    }
+
+    const message: PageNetworkConfigMessage = {
+      source: BRIDGE_MESSAGE_SOURCE,
+      type: 'network-config',
+      config: this.networkConfig
+    };
+    this.port.postMessage(message);
+  }
+
+  /**
+   * Stops listening for the handshake on the window
+   */
+  private removeHandshakeListener(): void {
+    if (this.handshakeListener) {
+      window.removeEventListener('message', this.handshakeListener);
+      this.handshakeListener = null;
+    }
+  }
+
+  /**
+   * Validates and dispatches a message received over the bridge port
+   * Only the hook holds the other end, but messages are still checked for shape
+   * @param message - Message data
+   */
+  private handleMessage(message: unknown): void {
+    const data = message as Partial<PageBridgeMessage> | null;
+    if (!data || typeof data !== 'object' || data.source !== BRIDGE_MESSAGE_SOURCE) {
+      return;
+    }
+
+    this.receivedMessagesCount++;
+
+    const navigation = message as Partial<PageNavigationMessage>;
+    if (navigation.type === 'navigation') {
+      if ((navigation.navigation === 'push' || navigation.navigation === 'replace') && typeof navigation.url === 'string') {
+        this.navigationHandler?.(navigation.navigation, navigation.url);
+      }
+      return;
+    }
+
+    const connection = message as Partial<PageConnectionMessage>;
+    if (connection.type === 'connection') {
+      if (connection.connection && typeof connection.connection.id === 'string') {
+        this.connectionHandler?.(connection.connection);
+      }
+      return;
+    }
+
+    const request = message as Partial<PageRequestMessage>;
+    if (request.type === 'request') {
+      if (request.request && typeof request.request.url === 'string') {
+        this.requestHandler?.(request.request);
+      }
+      return;
+    }
+
+    if (!this.isCapturing || !this.logHandler) {
+      return;
+    }
+
+    if (!data.level || !Array.isArray(data.args)) {
+      return;
+    }
+
+    // Error events are always captured; console calls respect the configured levels
+    if (data.type === 'console' && !this.config.capturedLevels.includes(data.level)) {
+      return;
+    }
+
+    // Arguments were already serialized in the page
+    const details: LogCaptureDetails = { serializedArgs: data.args };
+
+    if (data.type === 'error-event') {
+      if (!data.origin || !data.error) {
+        return;
+      }
+      details.origin = data.origin;
+      details.error = data.error;
+    } else if (data.type === 'console') {
+      if (data.console) {
+        details.console = data.console;
+      }
+    } else {
+      return;
+    }
+
+    if (Array.isArray(data.asyncStack) && data.asyncStack.length > 0) {
+      details.asyncStack = data.asyncStack;
+    }
+
+    // Time the call was made in the page; delivery to this world is asynchronous
+    if (typeof data.timestamp === 'number') {
+      details.timestamp = data.timestamp;
+    }
+    if (typeof data.hrTimestamp === 'number' && typeof data.sequence === 'number') {
+      details.hrTimestamp = data.hrTimestamp;
+      details.sequence = data.sequence;
+    }
+
+    // Only worker contexts are reported by the hook; document calls belong to this frame
+    if (data.context && data.context.type === 'dedicated-worker') {
+      details.executionContext = data.context;
+    }
+
+    try {
+      void this.logHandler(data.args, data.level, data.stackTrace, details);
+    } catch {
+      // Handler failures must not break message processing
+    }
+  }
+
+  /**
+   * Generates a random nonce for authenticating the handshake
+   * @returns Hex-encoded nonce
+   */
+  private generateNonce(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
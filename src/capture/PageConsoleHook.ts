@@ -0,0 +1,482 @@
+/**
+ * PageConsoleHook - Main-world console instrumentation for ConsoleCapture Pro
+ * Wraps the page's own console and forwards serialized calls to the content script
+ * over a MessageChannel. The channel's port is handed to the content script once, in a
+ * handshake carrying the nonce; page scripts never get hold of the sending port, so they
+ * cannot forge entries. The same hook runs inside instrumented workers, where it posts
+ * to the page instead.
+ */
+
+import type {
+  AsyncStackSegment,
+  ConsoleCallDetails,
+  ConsoleMethod,
+  ErrorDetails,
+  ExecutionContext,
+  LogLevel,
+  LogOrigin,
+  NetworkConnection,
+  NetworkRequest,
+  SerializedValue
+} from '../types/index.js';
+import { ArgumentSerializer } from './ArgumentSerializer.js';
+import { AsyncStackTracker } from './AsyncStackTracker.js';
+import { ConsoleMethodTracker, EXTENDED_CONSOLE_METHODS } from './ConsoleMethodTracker.js';
+import { ErrorEventCapture, type CapturedErrorEvent } from './ErrorEventCapture.js';
+import { HighResClock } from './HighResClock.js';
+import { PageNetworkHook, type PageNetworkConfig } from './PageNetworkHook.js';
+import { WorkerInstrumentation } from './WorkerInstrumentation.js';
+
+/**
+ * Source tag identifying bridge messages
+ */
+export const BRIDGE_MESSAGE_SOURCE = 'console-capture-pro:page-bridge';
+
+/**
+ * Hands the bridge port to the content script; the only message posted to the window
+ */
+export interface PageHandshakeMessage {
+  /** Source tag, always BRIDGE_MESSAGE_SOURCE */
+  source: typeof BRIDGE_MESSAGE_SOURCE;
+  /** Message type */
+  type: 'handshake';
+  /** Nonce the content script gave the hook at injection */
+  nonce: string;
+}
+
+/**
+ * Console call or error event forwarded from the page to the content script
+ */
+export interface PageBridgeMessage {
+  /** Source tag, always BRIDGE_MESSAGE_SOURCE */
+  source: typeof BRIDGE_MESSAGE_SOURCE;
+  /** Message type */
+  type: 'console' | 'error-event';
+  /** Console level that was called ('error' for error events) */
+  level: LogLevel;
+  /** Capture source for error events */
+  origin?: LogOrigin;
+  /** Error details for error events */
+  error?: ErrorDetails;
+  /** Console API semantics for non-basic console methods */
+  console?: ConsoleCallDetails;
+  /** Typed previews of the console arguments */
+  args: SerializedValue[];
+  /** Stack trace at the call site, hook frames removed */
+  stackTrace?: string;
+  /** Scheduling sites the call descends from, innermost first */
+  asyncStack?: AsyncStackSegment[];
+  /** Epoch milliseconds when the page made the call */
+  timestamp: number;
+  /** High-resolution epoch milliseconds when the page made the call */
+  hrTimestamp: number;
+  /** Position among the calls forwarded by this hook; workers number their own */
+  sequence: number;
+  /** Worker the call was made in; absent for calls made by the document itself */
+  context?: ExecutionContext;
+}
+
+/**
+ * History navigation made by page JavaScript, forwarded to the content script
+ */
+export interface PageNavigationMessage {
+  /** Source tag, always BRIDGE_MESSAGE_SOURCE */
+  source: typeof BRIDGE_MESSAGE_SOURCE;
+  /** Message type */
+  type: 'navigation';
+  /** History method the page called */
+  navigation: 'push' | 'replace';
+  /** URL after the call */
+  url: string;
+  /** Epoch milliseconds when the page made the call */
+  timestamp: number;
+}
+
+/**
+ * WebSocket, EventSource or beacon record forwarded to the content script
+ */
+export interface PageConnectionMessage {
+  /** Source tag, always BRIDGE_MESSAGE_SOURCE */
+  source: typeof BRIDGE_MESSAGE_SOURCE;
+  /** Message type */
+  type: 'connection';
+  /** Connection as recorded so far; later messages for the same id replace it */
+  connection: NetworkConnection;
+}
+
+/**
+ * fetch or XMLHttpRequest made by the page, posted once it completes
+ */
+export interface PageRequestMessage {
+  /** Source tag, always BRIDGE_MESSAGE_SOURCE */
+  source: typeof BRIDGE_MESSAGE_SOURCE;
+  /** Message type */
+  type: 'request';
+  /** Completed request with its sanitized payloads */
+  request: NetworkRequest;
+}
+
+/**
+ * Network instrumentation settings sent from the content script to the hook
+ */
+export interface PageNetworkConfigMessage {
+  /** Source tag, always BRIDGE_MESSAGE_SOURCE */
+  source: typeof BRIDGE_MESSAGE_SOURCE;
+  /** Message type */
+  type: 'network-config';
+  /** Settings to apply */
+  config: PageNetworkConfig;
+}
+
+/**
+ * Any message the hook posts over its port
+ */
+export type PageHookMessage = PageBridgeMessage | PageNavigationMessage | PageConnectionMessage | PageRequestMessage;
+
+/**
+ * Options for running the hook outside the page's top-level window
+ */
+export interface PageConsoleHookOptions {
+  /** Delivers messages to the content script, defaults to a port handed over through the window */
+  transport?: (message: PageBridgeMessage) => void;
+  /** Execution context attached to every message, set when running in a worker */
+  context?: ExecutionContext;
+  /** URL of the hook script; when set, dedicated workers created by the page are instrumented */
+  workerHookUrl?: string;
+  /** Maximum async causality depth recorded per call; 0 or absent leaves scheduling APIs alone */
+  asyncStackDepth?: number;
+}
+
+/**
+ * Installs console wrappers in the page's JavaScript world
+ * Runs inside the page, so it must not depend on any extension API
+ */
+export class PageConsoleHook {
+  private readonly nonce: string;
+  private readonly transport: (message: PageBridgeMessage) => void;
+  private readonly windowTransport: ((message: PageHookMessage) => void) | null;
+  private readonly context: ExecutionContext | undefined;
+  private readonly workerInstrumentation: WorkerInstrumentation | null = null;
+  private readonly networkHook: PageNetworkHook | null = null;
+  private readonly asyncStackTracker: AsyncStackTracker | null = null;
+  private readonly originalMethods: Map<ConsoleMethod, (...args: unknown[]) => void> = new Map();
+  private readonly originalHistoryMethods: Map<'pushState' | 'replaceState', History['pushState']> = new Map();
+  private readonly methodTracker: ConsoleMethodTracker = new ConsoleMethodTracker();
+  private readonly serializer: ArgumentSerializer = new ArgumentSerializer();
+  private readonly errorEventCapture: ErrorEventCapture = new ErrorEventCapture();
+  private readonly clock: HighResClock = new HighResClock();
+  private isInstalled: boolean = false;
+  private isForwarding: boolean = false;
+
+  /**
+   * Creates a new PageConsoleHook instance
+   * @param nonce - Nonce authenticating the handshake with the content script
+   * @param options - Transport, context and worker instrumentation options
+   */
+  constructor(nonce: string, options: PageConsoleHookOptions = {}) {
+    this.nonce = nonce;
+    this.context = options.context;
+
+    // Only the hook posting to its own window reports navigations and network activity
+    if (options.transport) {
+      this.transport = options.transport;
+      this.windowTransport = null;
+    } else {
+      const windowTransport = this.createWindowTransport();
+      this.windowTransport = windowTransport;
+      this.transport = windowTransport;
+      this.networkHook = new PageNetworkHook(report => windowTransport({ source: BRIDGE_MESSAGE_SOURCE, ...report }));
+    }
+
+    if (options.workerHookUrl) {
+      this.workerInstrumentation = new WorkerInstrumentation(
+        options.workerHookUrl,
+        message => this.relayWorkerMessage(message),
+        options.asyncStackDepth ?? 0
+      );
+    }
+
+    if (options.asyncStackDepth && options.asyncStackDepth > 0) {
+      this.asyncStackTracker = new AsyncStackTracker(options.asyncStackDepth);
+    }
+  }
+
+  /**
+   * Wraps the page's console methods and starts listening for error events
+   */
+  install(): void {
+    if (this.isInstalled) {
+      return;
+    }
+
+    const methods: ConsoleMethod[] = ['log', 'info', 'warn', 'error', 'debug', ...EXTENDED_CONSOLE_METHODS];
+
+    for (const method of methods) {
+      const original: unknown = console[method];
+      if (typeof original !== 'function') {
+        continue;
+      }
+
+      this.originalMethods.set(method, original as (...args: unknown[]) => void);
+      (console as unknown as Record<ConsoleMethod, unknown>)[method] = this.createWrapper(
+        method,
+        original as (...args: unknown[]) => void
+      );
+    }
+
+    this.errorEventCapture.setHandler(event => this.forwardErrorEvent(event));
+    // Window and worker global scopes dispatch the same error events
+    this.errorEventCapture.install(globalThis as unknown as Window);
+
+    this.workerInstrumentation?.install();
+    this.asyncStackTracker?.install();
+
+    if (this.windowTransport && typeof history !== 'undefined') {
+      this.installHistoryHook();
+    }
+
+    this.isInstalled = true;
+  }
+
+  /**
+   * Restores the page's original console methods and removes error listeners
+   */
+  uninstall(): void {
+    for (const [method, original] of this.originalMethods) {
+      (console as unknown as Record<ConsoleMethod, unknown>)[method] = original;
+    }
+
+    for (const [method, original] of this.originalHistoryMethods) {
+      history[method] = original;
+    }
+
+    this.errorEventCapture.uninstall();
+    this.workerInstrumentation?.uninstall();
+    this.asyncStackTracker?.uninstall();
+    this.networkHook?.uninstall();
+
+    this.originalMethods.clear();
+    this.originalHistoryMethods.clear();
+    this.isInstalled = false;
+  }
+
+  /**
+   * Creates a console wrapper for a single method
+   * @param method - Console method being wrapped
+   * @param original - Original console method
+   * @returns Wrapped console method
+   */
+  private createWrapper(method: ConsoleMethod, original: (...args: unknown[]) => void): (...args: unknown[]) => void {
+    return (...args: unknown[]): void => {
+      // Preserve the page's own console behavior first
+      original.apply(console, args);
+      this.forward(method, args);
+    };
+  }
+
+  /**
+   * Serializes a console call and posts it to the content script
+   * @param method - Console method that was called
+   * @param originalArgs - Console arguments
+   */
+  private forward(method: ConsoleMethod, originalArgs: unknown[]): void {
+    // Guard against re-entrancy when serialization itself triggers console output
+    if (this.isForwarding) {
+      return;
+    }
+
+    this.isForwarding = true;
+
+    try {
+      // Track every call, even ones without output, so group depth, timers and counters stay in sync
+      const tracked = this.methodTracker.track(method, originalArgs);
+      if (!tracked) {
+        return;
+      }
+
+      const { level, args } = tracked;
+      const message: PageBridgeMessage = {
+        source: BRIDGE_MESSAGE_SOURCE,
+        type: 'console',
+        level,
+        args: this.serializer.serializeAll(args),
+        timestamp: Date.now(),
+        ...this.clock.stamp()
+      };
+
+      if (tracked.console) {
+        message.console = tracked.console;
+      }
+
+      const stackTrace = this.captureStackTrace();
+      if (stackTrace) {
+        message.stackTrace = stackTrace;
+      }
+
+      const asyncStack = this.asyncStackTracker?.getCurrentChain();
+      if (asyncStack) {
+        message.asyncStack = asyncStack;
+      }
+
+      this.post(message);
+    } catch {
+      // Never let capture failures surface in the page
+    } finally {
+      this.isForwarding = false;
+    }
+  }
+
+  /**
+   * Posts a captured error event to the content script
+   * @param event - Captured error event
+   */
+  private forwardErrorEvent(event: CapturedErrorEvent): void {
+    try {
+      const message: PageBridgeMessage = {
+        source: BRIDGE_MESSAGE_SOURCE,
+        type: 'error-event',
+        level: 'error',
+        origin: event.origin,
+        error: event.error,
+        args: [this.serializer.serialize(event.message)],
+        timestamp: Date.now(),
+        ...this.clock.stamp()
+      };
+
+      if (event.error.stack) {
+        message.stackTrace = event.error.stack;
+      }
+
+      this.post(message);
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+
+  /**
+   * Wraps pushState and replaceState, which the content script cannot observe
+   */
+  private installHistoryHook(): void {
+    for (const method of ['pushState', 'replaceState'] as const) {
+      const original = history[method];
+      const navigation = method === 'pushState' ? 'push' : 'replace';
+
+      this.originalHistoryMethods.set(method, original);
+      history[method] = (...args: Parameters<History['pushState']>): void => {
+        // Rejected URLs throw before the page's history changes, and nothing is reported
+        original.apply(history, args);
+        this.forwardNavigation(navigation);
+      };
+    }
+  }
+
+  /**
+   * Posts a history navigation to the content script
+   * @param navigation - History method the page called
+   */
+  private forwardNavigation(navigation: 'push' | 'replace'): void {
+    try {
+      this.windowTransport?.({
+        source: BRIDGE_MESSAGE_SOURCE,
+        type: 'navigation',
+        navigation,
+        url: window.location.href,
+        timestamp: Date.now()
+      });
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+
+  /**
+   * Forwards a console call relayed from an instrumented worker
+   * Workers have no port of their own; the page-side hook forwards over its port
+   * @param message - Message posted by the worker's hook
+   */
+  private relayWorkerMessage(message: PageBridgeMessage): void {
+    try {
+      this.transport({ ...message, source: BRIDGE_MESSAGE_SOURCE });
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+
+  /**
+   * Attaches the execution context and hands a message to the transport
+   * @param message - Message to deliver
+   */
+  private post(message: PageBridgeMessage): void {
+    if (this.context) {
+      message.context = this.context;
+    }
+
+    this.transport(message);
+  }
+
+  /**
+   * Applies a message the content script sent over the port
+   * @param message - Message data
+   */
+  private handleControlMessage(message: unknown): void {
+    const data = message as Partial<PageNetworkConfigMessage> | null;
+    if (!data || data.source !== BRIDGE_MESSAGE_SOURCE || data.type !== 'network-config' || !data.config) {
+      return;
+    }
+
+    try {
+      // Network APIs are only wrapped while installed, so uninstall restores everything
+      if (this.isInstalled || !data.config.enabled) {
+        this.networkHook?.applyConfig(data.config);
+      }
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+
+  /**
+   * Creates the default transport, handing one end of a channel to the content script
+   * The nonce is posted to the window once; the content script accepts a single
+   * handshake, so reading it afterwards is of no use to page scripts
+   * @returns Transport function posting to the hook's end of the channel
+   */
+  private createWindowTransport(): (message: PageHookMessage) => void {
+    const channel = new MessageChannel();
+    const handshake: PageHandshakeMessage = {
+      source: BRIDGE_MESSAGE_SOURCE,
+      type: 'handshake',
+      nonce: this.nonce
+    };
+
+    // Opaque origins (about:blank, sandboxed frames) report 'null' and need '*'
+    const targetOrigin = window.location.origin === 'null' ? '*' : window.location.origin;
+    window.postMessage(handshake, targetOrigin, [channel.port2]);
+
+    // The content script sends network settings back over the same channel
+    channel.port1.addEventListener('message', event => this.handleControlMessage(event.data));
+    channel.port1.start();
+
+    // Messages posted before the content script starts the port are queued
+    return message => channel.port1.postMessage(message);
+  }
+
+  /**
+   * Captures the current stack trace without the hook's own frames
+   * @returns Stack trace string or undefined
+   */
+  private captureStackTrace(): string | undefined {
+    const stack = new Error().stack;
+    if (!stack) {
+      return undefined;
+    }
+
+    // Skip captureStackTrace, forward and the console wrapper itself. Frame
+    // names are not reliable here because the bundle is minified.
+    const hookFrameCount = 3;
+    const lines = stack
+      .split('\n')
+      .filter(line => line.trim().length > 0 && line.trim() !== 'Error')
+      .slice(hookFrameCount);
+
+    return lines.slice(0, 10).join('\n') || undefined;
+  }
+}
@@ -0,0 +1,528 @@
+/**
+ * PageNetworkHook - Main-world network instrumentation for ConsoleCapture Pro
+ * The page's fetch, XMLHttpRequest, WebSocket, EventSource and sendBeacon are only
+ * visible from its own world, so they are wrapped here and what they record is
+ * reported to the content script. Payloads are captured and sanitized before they
+ * leave the page, and trace headers are added and read here, where the page's own
+ * requests are made. The content script turns instrumentation on and off through the config.
+ */
+
+import type { NetworkConnection, NetworkPayload, NetworkRequest } from '../types/index.js';
+import { ConnectionMonitor, type ConnectionScope } from './ConnectionMonitor.js';
+import { NetworkPayloadCapture, type NetworkPayloadConfig } from './NetworkPayloadCapture.js';
+import { RequestCorrelator, createRequestId, lowerCaseHeaders, readTraceHeaders } from './RequestCorrelator.js';
+
+/**
+ * Network instrumentation settings sent by the content script
+ */
+export interface PageNetworkConfig {
+  /** Instrument the page's network APIs; on while a session monitors the network */
+  enabled: boolean;
+  /** Header, body and frame capture */
+  payloads?: NetworkPayloadConfig;
+  /** Add a traceparent header to same-origin requests that do not carry one */
+  injectTraceparent?: boolean;
+  /** Maximum number of connections kept */
+  maxConnections: number;
+  /** Maximum number of frames kept per connection */
+  maxConnectionFrames: number;
+}
+
+/**
+ * Global scope whose network APIs are wrapped; a window in practice
+ */
+export interface PageNetworkScope extends ConnectionScope {
+  fetch?: typeof fetch;
+  XMLHttpRequest?: typeof XMLHttpRequest;
+  location?: { origin: string };
+}
+
+/**
+ * Record reported to the content script
+ */
+export type PageNetworkReport =
+  | { type: 'connection'; connection: NetworkConnection }
+  | { type: 'request'; request: NetworkRequest };
+
+/**
+ * State kept for an XMLHttpRequest between open and loadend
+ */
+interface XHRRequestInfo {
+  /** URL passed to open */
+  url: string;
+  /** Upper-cased method */
+  method: string;
+  /** When the request was sent, the start of the request like for fetch */
+  startedAt: Date;
+  /** performance.now() when the request was sent */
+  startTime: number;
+  /** Whether headers and bodies are captured for the URL */
+  capturePayloads: boolean;
+  /** Headers set by the page, by lower-cased name */
+  requestHeaders: Record<string, string>;
+  /** Payload captured when the request was sent */
+  requestPayload?: NetworkPayload;
+  /** Whether the traceparent header was added by the hook */
+  traceInjected: boolean;
+}
+
+/**
+ * Delay before changed connections are reported, so a burst of frames is sent once
+ */
+const CONNECTION_REPORT_DELAY_MS = 100;
+
+/**
+ * Instruments the page's network APIs and reports what they record
+ * Runs inside the page, so it must not depend on any extension API
+ */
+export class PageNetworkHook {
+  private readonly report: (report: PageNetworkReport) => void;
+  private readonly scope: PageNetworkScope;
+  private readonly payloadCapture: NetworkPayloadCapture = new NetworkPayloadCapture();
+  private readonly connectionMonitor: ConnectionMonitor = new ConnectionMonitor(this.payloadCapture);
+  private readonly requestCorrelator: RequestCorrelator = new RequestCorrelator();
+  private readonly changedConnections: Map<string, NetworkConnection> = new Map();
+  private readonly xhrRequests: WeakMap<XMLHttpRequest, XHRRequestInfo> = new WeakMap();
+  private readonly restorers: Array<() => void> = [];
+  private reportTimer: ReturnType<typeof setTimeout> | null = null;
+  private isInstalled: boolean = false;
+
+  /**
+   * Creates a new PageNetworkHook instance
+   * @param report - Delivers records to the content script
+   * @param scope - Global scope to instrument
+   */
+  constructor(
+    report: (report: PageNetworkReport) => void,
+    scope: PageNetworkScope = globalThis as unknown as PageNetworkScope
+  ) {
+    this.report = report;
+    this.scope = scope;
+    this.connectionMonitor.setChangeHandler(connection => this.queueConnection(connection));
+  }
+
+  /**
+   * Applies settings from the content script, installing or removing the instrumentation
+   * @param config - Network instrumentation settings
+   */
+  applyConfig(config: PageNetworkConfig): void {
+    if (config.payloads) {
+      this.payloadCapture.updateConfig(config.payloads);
+    }
+
+    this.requestCorrelator.updateConfig({ injectTraceparent: config.injectTraceparent ?? false });
+
+    this.connectionMonitor.updateConfig({
+      maxConnections: config.maxConnections,
+      maxFramesPerConnection: config.maxConnectionFrames
+    });
+
+    if (config.enabled && !this.isInstalled) {
+      this.install();
+    } else if (!config.enabled && this.isInstalled) {
+      this.uninstall();
+    }
+  }
+
+  /**
+   * Restores the page's network APIs and reports pending changes
+   * Requests already in flight are still reported when they complete
+   */
+  uninstall(): void {
+    for (const restore of this.restorers.splice(0)) {
+      restore();
+    }
+    this.connectionMonitor.uninstall();
+    this.reportConnections();
+
+    // Records only matter to the session that was monitoring them
+    this.connectionMonitor.clear();
+    this.isInstalled = false;
+  }
+
+  /**
+   * Wraps fetch, XMLHttpRequest and the connection APIs
+   */
+  private install(): void {
+    const originalFetch = this.scope.fetch;
+    if (typeof originalFetch === 'function') {
+      this.scope.fetch = this.createFetchInterceptor(originalFetch);
+      this.restorers.push(() => {
+        this.scope.fetch = originalFetch;
+      });
+    }
+
+    const XHR = this.scope.XMLHttpRequest;
+    if (typeof XHR === 'function') {
+      this.interceptXMLHttpRequest(XHR.prototype);
+    }
+
+    this.connectionMonitor.install(this.scope);
+    this.isInstalled = true;
+  }
+
+  /**
+   * Creates a fetch interceptor that records requests
+   * @param originalFetch - The page's fetch
+   * @returns Intercepted fetch function
+   */
+  private createFetchInterceptor(originalFetch: typeof fetch): typeof fetch {
+    const scope = this.scope;
+
+    return async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      const url = input instanceof URL ? input.href :
+                  typeof input === 'string' ? input : input.url;
+      const method = init?.method || (typeof Request !== 'undefined' && input instanceof Request ? input.method : 'GET');
+      const startedAt = new Date();
+      const startTime = performance.now();
+
+      // Headers as sent, with a traceparent added when injection applies
+      let headers: Headers | undefined;
+      let traceparent: string | undefined;
+      try {
+        headers = new Headers(init?.headers ?? (typeof Request !== 'undefined' && input instanceof Request ? input.headers : undefined));
+        traceparent = headers.has('traceparent') ? undefined : this.createTraceparent(url);
+        if (traceparent) {
+          headers.set('traceparent', traceparent);
+          init = { ...init, headers };
+        }
+      } catch {
+        // Tracing must never affect the page's request
+      }
+
+      // Read the request payload before the request consumes its body
+      let requestPayload: Promise<NetworkPayload> | undefined;
+      try {
+        requestPayload = this.payloadCapture.shouldCapture(url)
+          ? this.captureFetchRequestPayload(input, init)
+          : undefined;
+      } catch {
+        // Payload capture must never affect the page's request
+      }
+
+      const networkRequest: NetworkRequest = {
+        id: createRequestId(),
+        url,
+        method: method.toUpperCase(),
+        status: 0,
+        timestamp: startedAt,
+        responseTime: 0,
+        failed: false
+      };
+
+      let response: Response;
+      try {
+        response = await originalFetch.call(scope, input, init);
+      } catch (error) {
+        networkRequest.responseTime = performance.now() - startTime;
+        networkRequest.failed = true;
+        this.applyTraceHeaders(networkRequest, headers, null, Boolean(traceparent));
+        void this.reportRequest(networkRequest, requestPayload, null);
+        throw error;
+      }
+
+      networkRequest.status = response.status;
+      networkRequest.responseTime = performance.now() - startTime;
+      networkRequest.failed = !response.ok;
+      this.applyTraceHeaders(networkRequest, headers, response.headers.get('x-request-id'), Boolean(traceparent));
+
+      // The completion is reported before the page sees the response; payloads follow once read
+      void this.reportRequest(networkRequest, requestPayload, requestPayload ? response.clone() : null);
+
+      return response;
+    };
+  }
+
+  /**
+   * Captures the headers and body a fetch call sends
+   * @param input - Resource passed to fetch
+   * @param init - Options passed to fetch
+   * @returns Promise resolving to the sanitized request payload
+   */
+  private captureFetchRequestPayload(input: RequestInfo | URL, init?: RequestInit): Promise<NetworkPayload> {
+    const isRequest = typeof Request !== 'undefined' && input instanceof Request;
+
+    if (init?.body !== undefined && init.body !== null) {
+      const headers = init.headers ?? (isRequest ? input.headers : undefined);
+      return Promise.resolve(this.payloadCapture.fromParts(headers, init.body));
+    }
+
+    if (isRequest) {
+      return this.payloadCapture.fromMessage(input.clone());
+    }
+
+    return Promise.resolve(this.payloadCapture.fromParts(init?.headers, undefined));
+  }
+
+  /**
+   * Reports a completed fetch request, then reports it again with its payloads
+   * Logs the page writes while handling the response must find the request already
+   * recorded, so the completion is not held back while bodies are read
+   * @param networkRequest - Completed request
+   * @param requestPayload - Pending request payload, when captured
+   * @param response - Response clone, or null if the request failed or is not captured
+   */
+  private async reportRequest(
+    networkRequest: NetworkRequest,
+    requestPayload: Promise<NetworkPayload> | undefined,
+    response: Response | null
+  ): Promise<void> {
+    this.reportSafely({ type: 'request', request: { ...networkRequest } });
+
+    if (!requestPayload && !response) {
+      return;
+    }
+
+    try {
+      if (requestPayload) {
+        networkRequest.request = await requestPayload;
+      }
+
+      if (response) {
+        networkRequest.response = await this.payloadCapture.fromMessage(response);
+      }
+    } catch {
+      // Payload capture must never affect the page's request
+    }
+
+    // Same id: the content script updates the record it already has
+    this.reportSafely({ type: 'request', request: networkRequest });
+  }
+
+  /**
+   * Wraps XMLHttpRequest's open, setRequestHeader and send
+   * @param prototype - XMLHttpRequest prototype of the page
+   */
+  private interceptXMLHttpRequest(prototype: XMLHttpRequest): void {
+    const hook = this;
+    const originalOpen = prototype.open;
+    const originalSend = prototype.send;
+    const originalSetRequestHeader = prototype.setRequestHeader;
+
+    prototype.open = function(
+      this: XMLHttpRequest,
+      method: string,
+      url: string | URL,
+      async?: boolean,
+      username?: string | null,
+      password?: string | null
+    ) {
+      const urlString = typeof url === 'string' ? url : url.toString();
+
+      try {
+        const isNew = !hook.xhrRequests.has(this);
+        hook.xhrRequests.set(this, {
+          url: urlString,
+          method: method.toUpperCase(),
+          startedAt: new Date(),
+          startTime: performance.now(),
+          capturePayloads: hook.payloadCapture.shouldCapture(urlString),
+          requestHeaders: {},
+          traceInjected: false
+        });
+
+        // A reused request object fires loadend once per request; listen only once
+        if (isNew) {
+          this.addEventListener('loadend', function(this: XMLHttpRequest) {
+            hook.handleXHRLoadEnd(this);
+          });
+        }
+      } catch {
+        // Monitoring must never affect the page's request
+      }
+
+      // Call original method
+      return originalOpen.call(this, method, url, async ?? true, username, password);
+    };
+
+    prototype.setRequestHeader = function(this: XMLHttpRequest, name: string, value: string) {
+      const requestInfo = hook.xhrRequests.get(this);
+      if (requestInfo) {
+        requestInfo.requestHeaders[name.toLowerCase()] = value;
+      }
+      return originalSetRequestHeader.call(this, name, value);
+    };
+
+    prototype.send = function(this: XMLHttpRequest, body?: XMLHttpRequestBodyInit | null) {
+      const requestInfo = hook.xhrRequests.get(this);
+
+      // The request starts when it is sent, not when it is opened
+      if (requestInfo) {
+        requestInfo.startedAt = new Date();
+        requestInfo.startTime = performance.now();
+      }
+
+      if (requestInfo && !('traceparent' in requestInfo.requestHeaders)) {
+        try {
+          const traceparent = hook.createTraceparent(requestInfo.url);
+          if (traceparent) {
+            originalSetRequestHeader.call(this, 'traceparent', traceparent);
+            requestInfo.requestHeaders['traceparent'] = traceparent;
+            requestInfo.traceInjected = true;
+          }
+        } catch {
+          // Tracing must never affect the page's request
+        }
+      }
+
+      if (requestInfo?.capturePayloads) {
+        try {
+          requestInfo.requestPayload = hook.payloadCapture.fromParts(requestInfo.requestHeaders, body);
+        } catch {
+          // Payload capture must never affect the page's request
+        }
+      }
+
+      // Call original method
+      return originalSend.call(this, body);
+    };
+
+    this.restorers.push(() => {
+      prototype.open = originalOpen;
+      prototype.send = originalSend;
+      prototype.setRequestHeader = originalSetRequestHeader;
+    });
+  }
+
+  /**
+   * Records a completed XMLHttpRequest and reports it
+   * @param xhr - Completed request
+   */
+  private handleXHRLoadEnd(xhr: XMLHttpRequest): void {
+    const requestInfo = this.xhrRequests.get(xhr);
+    if (!requestInfo) {
+      return;
+    }
+
+    try {
+      const networkRequest: NetworkRequest = {
+        url: requestInfo.url,
+        method: requestInfo.method,
+        status: xhr.status,
+        timestamp: requestInfo.startedAt,
+        responseTime: performance.now() - requestInfo.startTime,
+        failed: xhr.status === 0 || xhr.status >= 400
+      };
+
+      if (requestInfo.capturePayloads) {
+        this.attachXHRPayloads(networkRequest, xhr, requestInfo.requestPayload);
+      }
+
+      this.applyTraceHeaders(
+        networkRequest,
+        requestInfo.requestHeaders,
+        xhr.getResponseHeader('x-request-id'),
+        requestInfo.traceInjected
+      );
+
+      this.reportSafely({ type: 'request', request: networkRequest });
+    } catch {
+      // Monitoring must never affect the page's request
+    }
+  }
+
+  /**
+   * Attaches request and response payloads to a recorded XMLHttpRequest
+   * @param networkRequest - Recorded request
+   * @param xhr - Completed request
+   * @param requestPayload - Payload captured when the request was sent
+   */
+  private attachXHRPayloads(networkRequest: NetworkRequest, xhr: XMLHttpRequest, requestPayload?: NetworkPayload): void {
+    try {
+      if (requestPayload) {
+        networkRequest.request = requestPayload;
+      }
+
+      // Text responses are read as text; JSON is already parsed and other types are binary
+      const body = xhr.responseType === '' || xhr.responseType === 'text' ? xhr.responseText : xhr.response;
+      networkRequest.response = this.payloadCapture.fromParts(
+        xhr.getAllResponseHeaders(),
+        body,
+        xhr.getResponseHeader('content-type')
+      );
+    } catch {
+      // Payload capture must never affect the page's request
+    }
+  }
+
+  /**
+   * Creates a traceparent header for a same-origin request when injection is on
+   * @param url - Request URL, possibly relative to the page
+   * @returns New traceparent header, or undefined if none should be added
+   */
+  private createTraceparent(url: string): string | undefined {
+    const pageOrigin = this.scope.location?.origin;
+    return pageOrigin ? this.requestCorrelator.createTraceparent(url, pageOrigin) : undefined;
+  }
+
+  /**
+   * Records the trace headers of a completed request
+   * @param networkRequest - Recorded request
+   * @param requestHeaders - Headers sent with the request
+   * @param responseRequestId - x-request-id returned by the server, if readable
+   * @param injected - Whether the traceparent header was added by the hook
+   */
+  private applyTraceHeaders(
+    networkRequest: NetworkRequest,
+    requestHeaders: Headers | Record<string, string> | undefined,
+    responseRequestId: string | null,
+    injected: boolean
+  ): void {
+    const sent: Record<string, string> = {};
+    if (requestHeaders instanceof Headers) {
+      requestHeaders.forEach((value, name) => {
+        sent[name] = value;
+      });
+    } else {
+      Object.assign(sent, lowerCaseHeaders(requestHeaders));
+    }
+
+    const trace = readTraceHeaders(sent, responseRequestId ? { 'x-request-id': responseRequestId } : undefined);
+    if (trace) {
+      if (injected && trace.traceparent) {
+        trace.injected = true;
+      }
+      networkRequest.trace = trace;
+    }
+  }
+
+  /**
+   * Remembers a changed connection and schedules a report
+   * @param connection - Changed connection
+   */
+  private queueConnection(connection: NetworkConnection): void {
+    this.changedConnections.set(connection.id, connection);
+
+    if (!this.reportTimer) {
+      this.reportTimer = setTimeout(() => this.reportConnections(), CONNECTION_REPORT_DELAY_MS);
+    }
+  }
+
+  /**
+   * Reports every connection that changed since the last report
+   */
+  private reportConnections(): void {
+    if (this.reportTimer) {
+      clearTimeout(this.reportTimer);
+      this.reportTimer = null;
+    }
+
+    // The transport copies each record as it is posted
+    for (const connection of this.changedConnections.values()) {
+      this.reportSafely({ type: 'connection', connection });
+    }
+    this.changedConnections.clear();
+  }
+
+  /**
+   * Hands a record to the transport
+   * @param report - Record to deliver
+   */
+  private reportSafely(report: PageNetworkReport): void {
+    try {
+      this.report(report);
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+}
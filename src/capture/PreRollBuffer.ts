@@ -0,0 +1,201 @@
+/**
+ * PreRollBuffer - Memory-bounded ring buffer of logs captured outside a session
+ * Keeps the most recent entries so a session started after the fact can include
+ * what happened just before the user pressed Start
+ */
+
+import type { LogEntry } from '../types/index.js';
+
+/**
+ * Pre-roll buffer limits
+ */
+export interface PreRollBufferConfig {
+  /** Maximum number of buffered entries */
+  maxEntries: number;
+  /** Entries older than this are dropped, in milliseconds */
+  maxAgeMs: number;
+  /** Approximate memory budget for buffered entries, in bytes */
+  maxBytes: number;
+}
+
+/**
+ * Buffered entry with its approximate memory footprint
+ */
+interface BufferedEntry {
+  /** Buffered log entry */
+  entry: LogEntry;
+  /** Approximate size in bytes */
+  bytes: number;
+}
+
+/**
+ * Fixed-capacity ring buffer that evicts the oldest entries by count, age and size
+ */
+export class PreRollBuffer {
+  private config: PreRollBufferConfig = {
+    maxEntries: 500,
+    maxAgeMs: 60000,
+    maxBytes: 5 * 1024 * 1024
+  };
+
+  private readonly now: () => number;
+  private slots: Array<BufferedEntry | undefined> = [];
+  private head: number = 0;
+  private count: number = 0;
+  private totalBytes: number = 0;
+
+  /**
+   * Creates a new PreRollBuffer instance
+   * @param config - Optional overrides for the buffer limits
+   * @param now - Clock returning epoch milliseconds, replaceable for tests
+   */
+  constructor(config: Partial<PreRollBufferConfig> = {}, now: () => number = Date.now) {
+    this.now = now;
+    this.config = { ...this.config, ...config };
+    this.slots = new Array(this.config.maxEntries);
+  }
+
+  /**
+   * Updates the buffer limits, keeping the newest entries that still fit
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<PreRollBufferConfig>): void {
+    const entries = this.getEntries();
+
+    this.config = { ...this.config, ...config };
+    this.slots = new Array(this.config.maxEntries);
+    this.head = 0;
+    this.count = 0;
+    this.totalBytes = 0;
+
+    for (const entry of entries) {
+      this.add(entry);
+    }
+  }
+
+  /**
+   * Adds an entry, evicting the oldest entries when a limit is exceeded
+   * @param entry - Log entry captured outside a session
+   */
+  add(entry: LogEntry): void {
+    const capacity = this.slots.length;
+    const bytes = this.estimateSize(entry);
+
+    // A single entry larger than the whole budget would evict everything else
+    if (capacity === 0 || bytes > this.config.maxBytes) {
+      return;
+    }
+
+    if (this.count === capacity) {
+      this.evictOldest();
+    }
+
+    this.slots[(this.head + this.count) % capacity] = { entry, bytes };
+    this.count++;
+    this.totalBytes += bytes;
+
+    while (this.totalBytes > this.config.maxBytes) {
+      this.evictOldest();
+    }
+
+    this.pruneExpired();
+  }
+
+  /**
+   * Gets the buffered entries that are still within the age limit
+   * @returns Entries in capture order, oldest first
+   */
+  getEntries(): LogEntry[] {
+    this.pruneExpired();
+
+    const entries: LogEntry[] = [];
+    for (let offset = 0; offset < this.count; offset++) {
+      const slot = this.slots[(this.head + offset) % this.slots.length];
+      if (slot) {
+        entries.push(slot.entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Removes and returns all buffered entries
+   * @returns Entries in capture order, oldest first
+   */
+  drain(): LogEntry[] {
+    const entries = this.getEntries();
+    this.clear();
+    return entries;
+  }
+
+  /**
+   * Removes all buffered entries
+   */
+  clear(): void {
+    this.slots.fill(undefined);
+    this.head = 0;
+    this.count = 0;
+    this.totalBytes = 0;
+  }
+
+  /**
+   * Gets buffer statistics
+   * @returns Statistics object
+   */
+  getStats(): {
+    entries: number;
+    estimatedBytes: number;
+    oldestTimestamp: Date | null;
+  } {
+    this.pruneExpired();
+
+    return {
+      entries: this.count,
+      estimatedBytes: this.totalBytes,
+      oldestTimestamp: this.count > 0 ? this.slots[this.head]?.entry.timestamp ?? null : null
+    };
+  }
+
+  /**
+   * Drops entries older than the age limit
+   */
+  private pruneExpired(): void {
+    const cutoff = this.now() - this.config.maxAgeMs;
+
+    while (this.count > 0) {
+      const oldest = this.slots[this.head];
+      if (oldest && oldest.entry.timestamp.getTime() >= cutoff) {
+        break;
+      }
+      this.evictOldest();
+    }
+  }
+
+  /**
+   * Removes the oldest entry
+   */
+  private evictOldest(): void {
+    const oldest = this.slots[this.head];
+    if (oldest) {
+      this.totalBytes -= oldest.bytes;
+    }
+
+    this.slots[this.head] = undefined;
+    this.head = (this.head + 1) % this.slots.length;
+    this.count--;
+  }
+
+  /**
+   * Estimates the memory footprint of an entry from its JSON size (UTF-16, two bytes per character)
+   * @param entry - Log entry
+   * @returns Approximate size in bytes
+   */
+  private estimateSize(entry: LogEntry): number {
+    try {
+      return JSON.stringify(entry).length * 2;
+    } catch {
+      return (entry.message.length + (entry.stackTrace?.length ?? 0)) * 2;
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * RateLimiter - Token-bucket rate limiting with adaptive sampling for high-volume pages
+ * Each level and source has its own bucket. Once a bucket is empty, entries are sampled
+ * at a rate that shrinks as the overload grows; errors are never limited
+ */
+
+import type { LogLevel } from '../types/index.js';
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterConfig {
+  /** Limit capture volume */
+  enabled: boolean;
+  /** Sustained entries per second admitted for each level and source */
+  ratePerSecond: number;
+  /** Entries a quiet bucket can admit at once */
+  burst: number;
+}
+
+/**
+ * Outcome of asking the limiter to admit an entry
+ */
+export interface RateLimitDecision {
+  /** Whether the entry should be captured */
+  admitted: boolean;
+  /** Set when the bucket was empty: one entry in this many is kept */
+  sampleEvery?: number;
+}
+
+/**
+ * Token bucket for one level and source
+ */
+interface TokenBucket {
+  /** Available tokens */
+  tokens: number;
+  /** Time of the last refill, in milliseconds */
+  lastRefill: number;
+  /** Start of the current rate measurement window, in milliseconds */
+  windowStart: number;
+  /** Arrivals in the current window */
+  windowArrivals: number;
+  /** Arrival rate measured over the previous window, per second */
+  arrivalRate: number;
+  /** Arrivals since the bucket ran empty, used to pick sampled entries */
+  overflowArrivals: number;
+}
+
+/**
+ * Length of the arrival rate measurement window in milliseconds
+ */
+const RATE_WINDOW_MS = 1000;
+
+/**
+ * Number of buckets above which idle buckets are discarded
+ */
+const MAX_BUCKETS = 500;
+
+/**
+ * Per level and source token-bucket limiter
+ */
+export class RateLimiter {
+  private config: RateLimiterConfig = {
+    enabled: true,
+    ratePerSecond: 50,
+    burst: 200
+  };
+
+  private readonly now: () => number;
+  private buckets: Map<string, TokenBucket> = new Map();
+
+  /**
+   * Creates a new RateLimiter instance
+   * @param now - Clock returning milliseconds, replaceable for tests
+   */
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  /**
+   * Updates the limiter configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<RateLimiterConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Decides whether an entry is admitted
+   * @param level - Entry level
+   * @param source - Source the entry came from, such as its script URL
+   * @returns Admission decision
+   */
+  admit(level: LogLevel, source: string): RateLimitDecision {
+    if (!this.config.enabled || level === 'error') {
+      return { admitted: true };
+    }
+
+    const now = this.now();
+    const bucket = this.getBucket(`${level}\u0000${source}`, now);
+
+    // Refill for the time elapsed since the last entry
+    const elapsed = now - bucket.lastRefill;
+    bucket.tokens = Math.min(this.config.burst, bucket.tokens + (elapsed * this.config.ratePerSecond) / 1000);
+    bucket.lastRefill = now;
+
+    // Measure the arrival rate over fixed windows
+    if (now - bucket.windowStart >= RATE_WINDOW_MS) {
+      bucket.arrivalRate = (bucket.windowArrivals * 1000) / (now - bucket.windowStart);
+      bucket.windowStart = now;
+      bucket.windowArrivals = 0;
+    }
+    bucket.windowArrivals++;
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens--;
+      bucket.overflowArrivals = 0;
+      return { admitted: true };
+    }
+
+    // Keep one entry in N, where N grows with how far arrivals exceed the sustained rate
+    const currentRate = Math.max(bucket.arrivalRate, bucket.windowArrivals);
+    const sampleEvery = Math.max(2, Math.ceil(currentRate / Math.max(this.config.ratePerSecond, 1)));
+    bucket.overflowArrivals++;
+
+    return {
+      admitted: bucket.overflowArrivals % sampleEvery === 0,
+      sampleEvery
+    };
+  }
+
+  /**
+   * Discards all buckets, e.g. when a session starts
+   */
+  reset(): void {
+    this.buckets.clear();
+  }
+
+  /**
+   * Gets the bucket for a key, creating a full one if needed
+   * @param key - Level and source key
+   * @param now - Current time in milliseconds
+   * @returns Token bucket
+   */
+  private getBucket(key: string, now: number): TokenBucket {
+    let bucket = this.buckets.get(key);
+
+    if (!bucket) {
+      if (this.buckets.size >= MAX_BUCKETS) {
+        this.discardIdleBuckets(now);
+      }
+
+      bucket = {
+        tokens: this.config.burst,
+        lastRefill: now,
+        windowStart: now,
+        windowArrivals: 0,
+        arrivalRate: 0,
+        overflowArrivals: 0
+      };
+      this.buckets.set(key, bucket);
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Discards buckets that would have refilled completely; recreating them is equivalent
+   * @param now - Current time in milliseconds
+   */
+  private discardIdleBuckets(now: number): void {
+    const refillMs = (this.config.burst / Math.max(this.config.ratePerSecond, 1)) * 1000;
+
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.lastRefill >= refillMs) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * RequestCorrelator - Links log entries to the network requests they follow
+ * Reads W3C traceparent and x-request-id headers, optionally creates traceparent headers
+ * for same-origin requests, and remembers recently completed requests so a log emitted
+ * while a response is being handled can point back to it. Headers are added and read by
+ * the page hook in the main world, or taken from DevTools protocol Network events; the
+ * content script never sees the page's requests itself.
+ */
+
+import type { NetworkRequest, NetworkTraceContext } from '../types/index.js';
+
+/**
+ * Request correlation configuration
+ */
+export interface RequestCorrelatorConfig {
+  /** Link logs to requests */
+  enabled: boolean;
+  /** A log is linked to a request that completed at most this long before it */
+  windowMs: number;
+  /** Add a traceparent header to same-origin requests that do not carry one */
+  injectTraceparent: boolean;
+}
+
+/**
+ * Request remembered for correlation
+ */
+interface CompletedRequest {
+  /** Recorded request */
+  request: NetworkRequest;
+  /** Epoch milliseconds when the response arrived or the request failed */
+  completedAt: number;
+}
+
+/**
+ * W3C trace context header: version-traceid-parentid-flags
+ */
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * Number of completed requests remembered for correlation
+ */
+const MAX_COMPLETED_REQUESTS = 50;
+
+/**
+ * Creates an identifier for a recorded request
+ * @returns New request id
+ */
+export function createRequestId(): string {
+  return `req_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Reads trace headers from request and response header records
+ * @param requestHeaders - Request headers by lower-cased name
+ * @param responseHeaders - Response headers by lower-cased name
+ * @returns Trace context, or undefined when neither side carries trace headers
+ */
+export function readTraceHeaders(
+  requestHeaders: Record<string, string> | undefined,
+  responseHeaders?: Record<string, string>
+): NetworkTraceContext | undefined {
+  const trace: NetworkTraceContext = {};
+
+  const traceparent = requestHeaders?.['traceparent']?.trim().toLowerCase();
+  const match = traceparent ? TRACEPARENT_PATTERN.exec(traceparent) : null;
+  if (traceparent && match?.[2]) {
+    trace.traceparent = traceparent;
+    trace.traceId = match[2];
+  }
+
+  // Servers commonly echo or assign the request id on the response
+  const requestId = responseHeaders?.['x-request-id'] ?? requestHeaders?.['x-request-id'];
+  if (requestId) {
+    trace.requestId = requestId;
+  }
+
+  return Object.keys(trace).length > 0 ? trace : undefined;
+}
+
+/**
+ * Lower-cases the names of a plain header record
+ * @param headers - Headers by name
+ * @returns Headers by lower-cased name
+ */
+export function lowerCaseHeaders(headers: Record<string, unknown> | undefined): Record<string, string> {
+  const lowered: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (value !== undefined && value !== null) {
+      lowered[name.toLowerCase()] = String(value);
+    }
+  }
+
+  return lowered;
+}
+
+/**
+ * Summarizes a request as method, path and outcome, e.g. "POST /api/orders → 500"
+ * @param request - Recorded request
+ * @param pageUrl - Page URL; same-origin requests are shown by path only
+ * @returns Short request description
+ */
+export function describeRequest(request: NetworkRequest, pageUrl?: string): string {
+  let target = request.url;
+
+  try {
+    const url = new URL(request.url, pageUrl);
+    if (pageUrl && url.origin === new URL(pageUrl).origin) {
+      target = `${url.pathname}${url.search}`;
+    }
+  } catch {
+    // Keep the URL as recorded
+  }
+
+  const outcome = request.status > 0 ? String(request.status) : 'failed';
+  return `${request.method} ${target} → ${outcome}`;
+}
+
+/**
+ * Correlates logs with the network requests they follow
+ */
+export class RequestCorrelator {
+  private config: RequestCorrelatorConfig = {
+    enabled: true,
+    windowMs: 1000,
+    injectTraceparent: false
+  };
+
+  private completed: CompletedRequest[] = [];
+
+  /**
+   * Updates the correlation configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<RequestCorrelatorConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Creates a traceparent header for a request the page did not trace itself
+   * Cross-origin requests are never given one, since an extra header forces a CORS preflight
+   * @param url - Request URL, possibly relative to the page
+   * @param pageOrigin - Origin of the page making the request
+   * @returns New traceparent header, or undefined if none should be added
+   */
+  createTraceparent(url: string, pageOrigin: string): string | undefined {
+    if (!this.config.injectTraceparent) {
+      return undefined;
+    }
+
+    try {
+      if (new URL(url, pageOrigin).origin !== pageOrigin) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+
+    // Sampled flag set so backends that honour it keep the trace
+    return `00-${this.randomHex(16)}-${this.randomHex(8)}-01`;
+  }
+
+  /**
+   * Remembers a completed request, giving it an id if it has none
+   * @param request - Completed request
+   */
+  recordCompletion(request: NetworkRequest): void {
+    if (!request.id) {
+      request.id = createRequestId();
+    }
+
+    const completedAt = new Date(request.timestamp).getTime() + Math.max(0, request.responseTime);
+    this.completed.push({ request, completedAt });
+
+    // Backends may report completions out of order
+    this.completed.sort((a, b) => a.completedAt - b.completedAt);
+
+    if (this.completed.length > MAX_COMPLETED_REQUESTS) {
+      this.completed.shift();
+    }
+  }
+
+  /**
+   * Finds the request a log most likely followed
+   * @param timestamp - Log time, epoch milliseconds
+   * @returns Most recent request that completed within the window before the log
+   */
+  findRelated(timestamp: number): NetworkRequest | undefined {
+    if (!this.config.enabled) {
+      return undefined;
+    }
+
+    for (let i = this.completed.length - 1; i >= 0; i--) {
+      const entry = this.completed[i];
+      if (!entry || entry.completedAt > timestamp) {
+        continue;
+      }
+
+      return timestamp - entry.completedAt <= this.config.windowMs ? entry.request : undefined;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Forgets all completed requests
+   */
+  clear(): void {
+    this.completed = [];
+  }
+
+  /**
+   * Generates random lower-case hex, never all zeros as trace context requires
+   * @param byteCount - Number of random bytes
+   * @returns Hex string of twice the byte count
+   */
+  private randomHex(byteCount: number): string {
+    const bytes = new Uint8Array(byteCount);
+    crypto.getRandomValues(bytes);
+
+    if (bytes.every(byte => byte === 0)) {
+      bytes[byteCount - 1] = 1;
+    }
+
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * RouteTracker - Records the routes a single-page application goes through
+ * A route is the URL path, plus the fragment when the app routes on it. Query strings
+ * are left out of the route, since they rarely select a view and often carry user data.
+ */
+
+import type { NavigationType, RouteVisit } from '../types/index.js';
+
+/**
+ * Maximum number of visits kept per session; the oldest are dropped first
+ */
+const MAX_VISITS = 200;
+
+/**
+ * Fragments that hash-based routers use, such as `#/settings` or `#!/settings`
+ */
+const HASH_ROUTE_PATTERN = /^#!?\//;
+
+/**
+ * Derives the route from a URL
+ * @param url - Page URL
+ * @returns Path, with the fragment when it looks like a hash route, and without its query
+ */
+export function getRoute(url: string): string {
+  try {
+    const { pathname, hash } = new URL(url);
+    return HASH_ROUTE_PATTERN.test(hash) ? `${pathname}${hash.split('?')[0]}` : pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Keeps the route timeline of the current session
+ */
+export class RouteTracker {
+  private visits: RouteVisit[] = [];
+
+  /**
+   * Starts a new timeline at the page's current URL
+   * @param url - Page URL
+   * @param title - Document title
+   * @param type - How the page was loaded
+   * @param at - When the session started
+   */
+  start(url: string, title: string, type: NavigationType = 'load', at: Date = new Date()): void {
+    this.visits = [this.createVisit(type, url, title, at)];
+  }
+
+  /**
+   * Records a navigation
+   * @param type - Kind of navigation
+   * @param url - URL after the navigation
+   * @param title - Document title after the navigation
+   * @param at - When the navigation happened
+   * @returns New visit, or null when the URL did not change
+   */
+  record(type: NavigationType, url: string, title: string, at: Date = new Date()): RouteVisit | null {
+    const current = this.visits[this.visits.length - 1];
+
+    if (current && current.url === url) {
+      // A fragment navigation fires popstate, then hashchange; the later event names it
+      if (type === 'hash' && current.type === 'pop') {
+        current.type = 'hash';
+      }
+      return null;
+    }
+
+    if (current) {
+      current.duration = Math.max(0, at.getTime() - current.startTime.getTime());
+    }
+
+    const visit = this.createVisit(type, url, title, at);
+    this.visits.push(visit);
+
+    if (this.visits.length > MAX_VISITS) {
+      this.visits.shift();
+    }
+
+    return visit;
+  }
+
+  /**
+   * Gets the route the page is on
+   * @returns Current route, or undefined before the timeline was started
+   */
+  getCurrentRoute(): string | undefined {
+    return this.visits[this.visits.length - 1]?.route;
+  }
+
+  /**
+   * Gets the timeline with the last visit's duration running until the given time
+   * @param at - End of the session
+   * @returns Copy of the visits, oldest first
+   */
+  getTimeline(at: Date = new Date()): RouteVisit[] {
+    return this.visits.map((visit, index) => index === this.visits.length - 1
+      ? { ...visit, duration: Math.max(0, at.getTime() - visit.startTime.getTime()) }
+      : { ...visit });
+  }
+
+  /**
+   * Forgets the timeline
+   */
+  clear(): void {
+    this.visits = [];
+  }
+
+  /**
+   * Creates a visit record
+   * @param type - How the page arrived at the route
+   * @param url - Page URL
+   * @param title - Document title
+   * @param at - When the route was entered
+   * @returns Visit without a duration
+   */
+  private createVisit(type: NavigationType, url: string, title: string, at: Date): RouteVisit {
+    return {
+      id: `route_${at.getTime()}_${Math.random().toString(36).substring(2, 9)}`,
+      type,
+      url,
+      route: getRoute(url),
+      title,
+      startTime: at
+    };
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * ScreenshotCapture - Screenshots of the visible tab for errors and the keyboard shortcut
+ * The content script decides when to take a screenshot and which areas to black out;
+ * only the background can call chrome.tabs.captureVisibleTab, so the request is handed
+ * to a taker that messages it. The background applies the redactions before the image
+ * is stored, so unredacted pixels never reach storage.
+ */
+
+import type { RedactionBox, ScreenshotReference, ScreenshotTrigger } from '../types/index.js';
+
+/**
+ * Screenshot configuration
+ */
+export interface ScreenshotCaptureConfig {
+  /** Allow screenshots */
+  enabled: boolean;
+  /** Take a screenshot when an error-level entry is captured */
+  onError: boolean;
+  /** Maximum number of screenshots per session */
+  maxPerSession: number;
+  /** Image format */
+  format: 'png' | 'jpeg';
+  /** Elements matching these selectors are blacked out */
+  redactSelectors: string[];
+}
+
+/**
+ * Screenshot request handed to the background
+ */
+export interface ScreenshotRequest {
+  /** Session the screenshot belongs to */
+  sessionId: string;
+  /** What caused the screenshot */
+  trigger: ScreenshotTrigger;
+  /** Id of the error entry the screenshot belongs to */
+  logId?: string;
+  /** Image format */
+  format: 'png' | 'jpeg';
+  /** Areas to black out, in CSS pixels */
+  redactions: RedactionBox[];
+  /** Viewport width in CSS pixels, to scale the boxes to the image */
+  viewportWidth: number;
+}
+
+/**
+ * Takes a screenshot through the background
+ * @param request - Screenshot request
+ * @returns Stored screenshot, or null if the background could not take it
+ */
+export type ScreenshotTaker = (request: ScreenshotRequest) => Promise<ScreenshotReference | null>;
+
+/**
+ * Minimal document surface used to find elements to redact
+ */
+export interface RedactionRoot {
+  querySelectorAll(selectors: string): ArrayLike<{ getBoundingClientRect(): { left: number; top: number; width: number; height: number } }>;
+}
+
+/**
+ * Chrome allows two captureVisibleTab calls per second per extension
+ */
+const MIN_CAPTURE_INTERVAL_MS = 1000;
+
+/**
+ * Names the file a screenshot is exported as
+ * @param screenshot - Screenshot reference
+ * @returns Attachment file name
+ */
+export function getScreenshotFileName(screenshot: Pick<ScreenshotReference, 'id' | 'mimeType'>): string {
+  return `screenshot-${screenshot.id}.${screenshot.mimeType === 'image/jpeg' ? 'jpg' : 'png'}`;
+}
+
+/**
+ * Finds the on-screen areas of elements that must not appear in a screenshot
+ * @param selectors - Selectors of elements to black out
+ * @param root - Document to search
+ * @param viewport - Viewport size in CSS pixels
+ * @returns Boxes clipped to the viewport; elements that are off screen or not rendered are skipped
+ */
+export function collectRedactionBoxes(
+  selectors: string[],
+  root: RedactionRoot,
+  viewport: { width: number; height: number }
+): RedactionBox[] {
+  const boxes: RedactionBox[] = [];
+
+  for (const selector of selectors) {
+    let elements: ArrayLike<{ getBoundingClientRect(): { left: number; top: number; width: number; height: number } }>;
+    try {
+      elements = root.querySelectorAll(selector);
+    } catch {
+      // Invalid selectors in the configuration are skipped
+      continue;
+    }
+
+    for (let i = 0; i < elements.length; i++) {
+      const rect = elements[i]?.getBoundingClientRect();
+      if (!rect) {
+        continue;
+      }
+
+      const x = Math.max(0, rect.left);
+      const y = Math.max(0, rect.top);
+      const width = Math.min(viewport.width, rect.left + rect.width) - x;
+      const height = Math.min(viewport.height, rect.top + rect.height) - y;
+
+      if (width > 0 && height > 0) {
+        boxes.push({ x, y, width, height });
+      }
+    }
+  }
+
+  return boxes;
+}
+
+/**
+ * Blacks out areas of a screenshot; runs in the background, where OffscreenCanvas is available
+ * @param image - Captured image
+ * @param boxes - Areas to black out, in CSS pixels
+ * @param viewportWidth - Viewport width in CSS pixels
+ * @returns Redacted image and its size in device pixels
+ */
+export async function redactScreenshot(
+  image: Blob,
+  boxes: RedactionBox[],
+  viewportWidth: number
+): Promise<{ image: Blob; width: number; height: number }> {
+  const bitmap = await createImageBitmap(image);
+  const { width, height } = bitmap;
+
+  if (boxes.length === 0) {
+    bitmap.close();
+    return { image, width, height };
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    bitmap.close();
+    throw new Error('Failed to redact screenshot: 2D canvas unavailable');
+  }
+
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  // The image is in device pixels; boxes are in CSS pixels
+  const scale = viewportWidth > 0 ? width / viewportWidth : 1;
+  context.fillStyle = '#000';
+  for (const box of boxes) {
+    context.fillRect(box.x * scale, box.y * scale, box.width * scale, box.height * scale);
+  }
+
+  return { image: await canvas.convertToBlob({ type: image.type || 'image/png' }), width, height };
+}
+
+/**
+ * Decides when to take screenshots and keeps the references for the current session
+ */
+export class ScreenshotCapture {
+  private config: ScreenshotCaptureConfig = {
+    enabled: false,
+    onError: true,
+    maxPerSession: 5,
+    format: 'png',
+    redactSelectors: ['input[type="password"]', '[data-redact]']
+  };
+
+  private taker: ScreenshotTaker | null = null;
+  private screenshots: ScreenshotReference[] = [];
+  private pending: number = 0;
+  private lastRequestAt: number = -Infinity;
+
+  /**
+   * Updates the screenshot configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<ScreenshotCaptureConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Sets the function that asks the background for a screenshot
+   * @param taker - Screenshot taker
+   */
+  setTaker(taker: ScreenshotTaker): void {
+    this.taker = taker;
+  }
+
+  /**
+   * Checks whether a screenshot would be taken now
+   * @param trigger - What would cause the screenshot
+   * @returns True when enabled, under the session cap and outside the rate limit
+   */
+  shouldCapture(trigger: ScreenshotTrigger): boolean {
+    if (!this.config.enabled || !this.taker) {
+      return false;
+    }
+
+    if (trigger === 'error' && !this.config.onError) {
+      return false;
+    }
+
+    return this.screenshots.length + this.pending < this.config.maxPerSession &&
+      Date.now() - this.lastRequestAt >= MIN_CAPTURE_INTERVAL_MS;
+  }
+
+  /**
+   * Takes a screenshot if allowed
+   * @param sessionId - Current session ID
+   * @param trigger - What caused the screenshot
+   * @param logId - Id of the error entry the screenshot belongs to
+   * @param root - Document to find redacted elements in
+   * @returns Stored screenshot, or null when skipped or failed
+   */
+  async capture(
+    sessionId: string,
+    trigger: ScreenshotTrigger,
+    logId?: string,
+    root: RedactionRoot = document
+  ): Promise<ScreenshotReference | null> {
+    if (!this.taker || !this.shouldCapture(trigger)) {
+      return null;
+    }
+
+    const viewport = {
+      width: typeof window !== 'undefined' ? window.innerWidth : 0,
+      height: typeof window !== 'undefined' ? window.innerHeight : 0
+    };
+
+    const request: ScreenshotRequest = {
+      sessionId,
+      trigger,
+      format: this.config.format,
+      redactions: collectRedactionBoxes(this.config.redactSelectors, root, viewport),
+      viewportWidth: viewport.width
+    };
+
+    if (logId) {
+      request.logId = logId;
+    }
+
+    this.lastRequestAt = Date.now();
+    this.pending++;
+
+    try {
+      const reference = await this.taker(request);
+      if (reference) {
+        this.screenshots.push(reference);
+      }
+      return reference;
+    } catch {
+      return null;
+    } finally {
+      this.pending--;
+    }
+  }
+
+  /**
+   * Gets the screenshots taken this session
+   * @returns Copy of the reference list
+   */
+  getScreenshots(): ScreenshotReference[] {
+    return [...this.screenshots];
+  }
+
+  /**
+   * Forgets the session's screenshots, starting a new session's cap
+   */
+  reset(): void {
+    this.screenshots = [];
+    this.lastRequestAt = -Infinity;
+  }
+}
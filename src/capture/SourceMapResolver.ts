@@ -0,0 +1,638 @@
+/**
+ * SourceMapResolver - Maps minified stack frames back to original sources
+ * Loads source maps through the script's sourceMappingURL comment or from
+ * configured map directories, decodes their VLQ mappings and rewrites stack traces
+ */
+
+import type { StackFrame } from '../types/index.js';
+import { StackTraceParser } from './StackTraceParser.js';
+
+/**
+ * Fetches a text resource for a script, resolving to null when it cannot be loaded
+ */
+export type SourceFetcher = (url: string, scriptUrl: string) => Promise<string | null>;
+
+/**
+ * Original source position for a generated position
+ */
+export interface ResolvedPosition {
+  /** Original source file URL */
+  file: string;
+  /** 1-based line in the original source */
+  line: number;
+  /** 1-based column in the original source */
+  column: number;
+  /** Original name of the enclosing function, when the frame's generated name could be traced */
+  functionName?: string;
+}
+
+/**
+ * Result of resolving a stack trace
+ */
+export interface ResolvedStackTrace {
+  /** Stack trace with every resolvable frame rewritten to original sources */
+  stackTrace: string;
+  /** Number of frames that were resolved */
+  resolvedFrames: number;
+}
+
+/**
+ * Source map resolver configuration
+ */
+interface SourceMapResolverConfig {
+  /** Whether resolution is enabled */
+  enabled: boolean;
+  /** Base URLs searched for `<script name>.map` when a script has no usable sourceMappingURL */
+  localDirectories: string[];
+  /** Maximum number of parsed source maps kept in memory */
+  maxCachedMaps: number;
+  /** Timeout for each fetch in milliseconds */
+  fetchTimeoutMs: number;
+  /** Maximum source map length in characters; larger maps are skipped rather than parsed */
+  maxMapSize: number;
+}
+
+/**
+ * Decoded mapping segment
+ */
+interface MappingSegment {
+  /** 0-based generated column */
+  generatedColumn: number;
+  /** Index into the sources list */
+  sourceIndex: number;
+  /** 0-based original line */
+  originalLine: number;
+  /** 0-based original column */
+  originalColumn: number;
+  /** Index into the names list */
+  nameIndex?: number;
+}
+
+/**
+ * Parsed source map ready for lookups
+ */
+interface ParsedSourceMap {
+  /** Absolute source URLs */
+  sources: string[];
+  /** Identifier names */
+  names: string[];
+  /** Segments per 0-based generated line, sorted by column */
+  lines: MappingSegment[][];
+  /** Generated script lines, used to find function definitions; empty if the script could not be loaded */
+  generatedLines: string[];
+}
+
+/**
+ * Raw source map JSON (revision 3), including index maps
+ */
+interface RawSourceMap {
+  version: number;
+  sources?: string[];
+  sourceRoot?: string;
+  names?: string[];
+  mappings?: string;
+  sections?: Array<{
+    offset: { line: number; column: number };
+    map?: RawSourceMap;
+  }>;
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const BASE64_VALUES: Map<string, number> = new Map(
+  Array.from(BASE64_CHARS, (char, index): [string, number] => [char, index])
+);
+
+/**
+ * Resolves generated stack frames to their original sources using source maps
+ */
+export class SourceMapResolver {
+  private fetcher: SourceFetcher;
+  private readonly stackTraceParser: StackTraceParser = new StackTraceParser();
+  private readonly mapCache: Map<string, Promise<ParsedSourceMap | null>> = new Map();
+
+  // Configuration
+  private config: SourceMapResolverConfig = {
+    enabled: true,
+    localDirectories: [],
+    maxCachedMaps: 20,
+    fetchTimeoutMs: 5000,
+    maxMapSize: 10 * 1024 * 1024
+  };
+
+  /**
+   * Creates a new SourceMapResolver instance
+   * @param fetcher - Optional fetcher for scripts and maps, defaults to fetch()
+   */
+  constructor(fetcher?: SourceFetcher) {
+    this.fetcher = fetcher ?? (url => this.defaultFetch(url));
+  }
+
+  /**
+   * Replaces the fetcher used to load scripts and source maps
+   * @param fetcher - Fetcher function
+   */
+  setFetcher(fetcher: SourceFetcher): void {
+    this.fetcher = fetcher;
+    this.mapCache.clear();
+  }
+
+  /**
+   * Updates the resolver configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<SourceMapResolverConfig>): void {
+    this.config = { ...this.config, ...config };
+
+    if (config.localDirectories) {
+      // Maps that previously failed to load may now be found
+      this.mapCache.clear();
+    }
+  }
+
+  /**
+   * Resolves every frame of a stack trace that has a source map
+   * @param stackTrace - Stack trace in V8 or Firefox/Safari format
+   * @returns Resolved stack trace, or null if no frame could be resolved
+   */
+  async resolveStackTrace(stackTrace: string): Promise<ResolvedStackTrace | null> {
+    if (!this.config.enabled || !stackTrace) {
+      return null;
+    }
+
+    const lines = stackTrace.split('\n');
+    const frames = lines.map(line => this.stackTraceParser.parseLine(line));
+    const positions = await Promise.all(frames.map(frame =>
+      frame && frame.line !== undefined && !frame.isNative
+        ? this.resolvePosition(frame.file, frame.line, frame.column ?? 1, frame.functionName)
+        : Promise.resolve(null)
+    ));
+
+    const resolvedFrames = positions.filter(Boolean).length;
+    if (resolvedFrames === 0) {
+      return null;
+    }
+
+    const resolvedLines = lines.map((line, index) => {
+      const frame = frames[index];
+      const position = positions[index];
+      return frame && position ? this.rewriteFrame(line, frame, position) : line;
+    });
+
+    return {
+      stackTrace: resolvedLines.join('\n'),
+      resolvedFrames
+    };
+  }
+
+  /**
+   * Resolves a single generated position
+   * @param scriptUrl - URL of the generated script
+   * @param line - 1-based generated line
+   * @param column - 1-based generated column
+   * @param functionName - Generated name of the frame's function, traced to its original name
+   * @returns Original position, or null if it cannot be resolved
+   */
+  async resolvePosition(
+    scriptUrl: string,
+    line: number,
+    column: number,
+    functionName?: string
+  ): Promise<ResolvedPosition | null> {
+    if (!this.config.enabled) {
+      return null;
+    }
+
+    const sourceMap = await this.getSourceMap(scriptUrl);
+    if (!sourceMap) {
+      return null;
+    }
+
+    const segment = this.findSegment(sourceMap, line - 1, column - 1);
+    if (!segment) {
+      return null;
+    }
+
+    const file = sourceMap.sources[segment.sourceIndex];
+    if (!file) {
+      return null;
+    }
+
+    const position: ResolvedPosition = {
+      file,
+      line: segment.originalLine + 1,
+      column: segment.originalColumn + 1
+    };
+
+    const generatedName = functionName ? /[A-Za-z_$][\w$]*$/.exec(functionName)?.[0] : undefined;
+    const originalName = generatedName ? this.findFunctionName(sourceMap, line - 1, column - 1, generatedName) : undefined;
+    if (originalName) {
+      position.functionName = originalName;
+    }
+
+    return position;
+  }
+
+  /**
+   * Clears all cached source maps
+   */
+  clearCache(): void {
+    this.mapCache.clear();
+  }
+
+  /**
+   * Gets the parsed source map for a script, loading it on first use
+   * @param scriptUrl - URL of the generated script
+   * @returns Parsed source map or null
+   */
+  private getSourceMap(scriptUrl: string): Promise<ParsedSourceMap | null> {
+    const cached = this.mapCache.get(scriptUrl);
+    if (cached) {
+      return cached;
+    }
+
+    const loading = this.loadSourceMap(scriptUrl).catch(() => null);
+    this.mapCache.set(scriptUrl, loading);
+
+    // Evict the oldest entry once the cache is full
+    if (this.mapCache.size > this.config.maxCachedMaps) {
+      const oldest = this.mapCache.keys().next().value;
+      if (oldest !== undefined) {
+        this.mapCache.delete(oldest);
+      }
+    }
+
+    return loading;
+  }
+
+  /**
+   * Loads a script's source map via sourceMappingURL, then the configured directories
+   * @param scriptUrl - URL of the generated script
+   * @returns Parsed source map or null
+   */
+  private async loadSourceMap(scriptUrl: string): Promise<ParsedSourceMap | null> {
+    const candidates: string[] = [];
+
+    // Placeholders such as '<anonymous>' are not URLs and have no map
+    const fileName = new URL(scriptUrl).pathname.split('/').pop();
+
+    const scriptText = await this.fetcher(scriptUrl, scriptUrl);
+    const mappingUrl = scriptText ? this.findSourceMappingUrl(scriptText) : null;
+    if (mappingUrl) {
+      candidates.push(mappingUrl.startsWith('data:') ? mappingUrl : new URL(mappingUrl, scriptUrl).href);
+    }
+
+    if (fileName) {
+      for (const directory of this.config.localDirectories) {
+        const base = directory.endsWith('/') ? directory : `${directory}/`;
+        candidates.push(new URL(`${fileName}.map`, base).href);
+      }
+    }
+
+    for (const mapUrl of candidates) {
+      const mapText = mapUrl.startsWith('data:')
+        ? this.decodeDataUrl(mapUrl)
+        : await this.fetcher(mapUrl, scriptUrl);
+
+      // Parsing is synchronous and would block the page's content script on huge maps
+      if (!mapText || mapText.length > this.config.maxMapSize) {
+        continue;
+      }
+
+      try {
+        // Maps may start with an XSSI guard line
+        const json = mapText.replace(/^\)\]\}'[^\n]*\n/, '');
+        const parsed: ParsedSourceMap = {
+          sources: [],
+          names: [],
+          lines: [],
+          generatedLines: scriptText ? scriptText.split(/\r\n?|\n/) : []
+        };
+        this.parseSourceMap(JSON.parse(json) as RawSourceMap, mapUrl.startsWith('data:') ? scriptUrl : mapUrl, parsed, 0, 0);
+        return parsed;
+      } catch {
+        // Malformed map, try the next candidate
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds the last sourceMappingURL comment in a script
+   * @param scriptText - Script source
+   * @returns Source map URL or null
+   */
+  private findSourceMappingUrl(scriptText: string): string | null {
+    const matches = scriptText.match(/\/\/[#@]\s*sourceMappingURL=(\S+)/g);
+    const last = matches?.[matches.length - 1];
+    return last ? last.replace(/^\/\/[#@]\s*sourceMappingURL=/, '') : null;
+  }
+
+  /**
+   * Decodes an inline data: URL
+   * @param url - Data URL
+   * @returns Decoded text or null
+   */
+  private decodeDataUrl(url: string): string | null {
+    const match = /^data:[^,]*?(;base64)?,(.*)$/s.exec(url);
+    if (!match || match[2] === undefined) {
+      return null;
+    }
+
+    try {
+      if (!match[1]) {
+        return decodeURIComponent(match[2]);
+      }
+
+      const binary = atob(match[2]);
+      const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+      return new TextDecoder().decode(bytes);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Parses a raw source map into the lookup structure
+   * @param raw - Raw source map JSON
+   * @param mapUrl - URL the map was loaded from, used to resolve sources
+   * @param target - Parsed map to append to
+   * @param lineOffset - Generated line offset (index map sections)
+   * @param columnOffset - Generated column offset on the first line (index map sections)
+   */
+  private parseSourceMap(
+    raw: RawSourceMap,
+    mapUrl: string,
+    target: ParsedSourceMap,
+    lineOffset: number,
+    columnOffset: number
+  ): void {
+    if (raw.version !== 3) {
+      throw new Error(`Unsupported source map version: ${raw.version}`);
+    }
+
+    if (raw.sections) {
+      for (const section of raw.sections) {
+        if (section.map) {
+          this.parseSourceMap(
+            section.map,
+            mapUrl,
+            target,
+            lineOffset + section.offset.line,
+            section.offset.line === 0 ? columnOffset + section.offset.column : section.offset.column
+          );
+        }
+      }
+      return;
+    }
+
+    const sourceBase = target.sources.length;
+    const nameBase = target.names.length;
+    const sourceRoot = raw.sourceRoot ? (raw.sourceRoot.endsWith('/') ? raw.sourceRoot : `${raw.sourceRoot}/`) : '';
+
+    for (const source of raw.sources ?? []) {
+      target.sources.push(this.resolveSourceUrl(`${sourceRoot}${source}`, mapUrl));
+    }
+    target.names.push(...(raw.names ?? []));
+
+    const state = { sourceIndex: 0, originalLine: 0, originalColumn: 0, nameIndex: 0 };
+    const generatedLines = (raw.mappings ?? '').split(';');
+
+    for (let lineIndex = 0; lineIndex < generatedLines.length; lineIndex++) {
+      const lineText = generatedLines[lineIndex];
+      if (!lineText) {
+        continue;
+      }
+
+      const targetLine = lineIndex + lineOffset;
+      const segments = target.lines[targetLine] ?? (target.lines[targetLine] = []);
+      let generatedColumn = 0;
+
+      for (const segmentText of lineText.split(',')) {
+        const values = this.decodeVLQ(segmentText);
+        if (values.length === 0) {
+          continue;
+        }
+
+        generatedColumn += values[0] ?? 0;
+
+        // Single-field segments have no original position
+        if (values.length < 4) {
+          continue;
+        }
+
+        state.sourceIndex += values[1] ?? 0;
+        state.originalLine += values[2] ?? 0;
+        state.originalColumn += values[3] ?? 0;
+
+        const segment: MappingSegment = {
+          generatedColumn: generatedColumn + (lineIndex === 0 ? columnOffset : 0),
+          sourceIndex: sourceBase + state.sourceIndex,
+          originalLine: state.originalLine,
+          originalColumn: state.originalColumn
+        };
+
+        if (values.length >= 5) {
+          state.nameIndex += values[4] ?? 0;
+          segment.nameIndex = nameBase + state.nameIndex;
+        }
+
+        segments.push(segment);
+      }
+
+      segments.sort((a, b) => a.generatedColumn - b.generatedColumn);
+    }
+  }
+
+  /**
+   * Resolves a source path against the map URL
+   * @param source - Source path from the map
+   * @param mapUrl - URL the map was loaded from
+   * @returns Absolute source URL, or the path unchanged if it cannot be resolved
+   */
+  private resolveSourceUrl(source: string, mapUrl: string): string {
+    try {
+      return new URL(source, mapUrl).href;
+    } catch {
+      return source;
+    }
+  }
+
+  /**
+   * Decodes a base64 VLQ segment
+   * @param segment - Encoded segment
+   * @returns Decoded values
+   */
+  private decodeVLQ(segment: string): number[] {
+    const values: number[] = [];
+    let result = 0;
+    let shift = 0;
+
+    for (const char of segment) {
+      const digit = BASE64_VALUES.get(char);
+      if (digit === undefined) {
+        throw new Error(`Invalid VLQ character: ${char}`);
+      }
+
+      result += (digit & 31) << shift;
+
+      if (digit & 32) {
+        shift += 5;
+        continue;
+      }
+
+      const negative = (result & 1) === 1;
+      const value = result >>> 1;
+      values.push(negative ? -value : value);
+      result = 0;
+      shift = 0;
+    }
+
+    return values;
+  }
+
+  /**
+   * Finds the mapping segment covering a generated position
+   * @param sourceMap - Parsed source map
+   * @param line - 0-based generated line
+   * @param column - 0-based generated column
+   * @returns Closest segment at or before the column, or null
+   */
+  private findSegment(sourceMap: ParsedSourceMap, line: number, column: number): MappingSegment | null {
+    const segments = sourceMap.lines[line];
+    if (!segments || segments.length === 0) {
+      return null;
+    }
+
+    let low = 0;
+    let high = segments.length - 1;
+    let match: MappingSegment | null = null;
+
+    while (low <= high) {
+      const middle = (low + high) >> 1;
+      const segment = segments[middle]!;
+
+      if (segment.generatedColumn <= column) {
+        match = segment;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return match;
+  }
+
+  /**
+   * Finds the original name of the function enclosing a generated position
+   * Walks back to the nearest definition of the generated name and takes the name
+   * mapped at it; the name mapped at the position itself belongs to the callee
+   * @param sourceMap - Parsed source map
+   * @param line - 0-based generated line
+   * @param column - 0-based generated column
+   * @param generatedName - Function name reported by the engine, without receiver
+   * @returns Original function name, or undefined if no definition was found
+   */
+  private findFunctionName(
+    sourceMap: ParsedSourceMap,
+    line: number,
+    column: number,
+    generatedName: string
+  ): string | undefined {
+    for (let lineIndex = line; lineIndex >= 0; lineIndex--) {
+      const text = sourceMap.generatedLines[lineIndex];
+      const segments = sourceMap.lines[lineIndex];
+      if (!text || !segments) {
+        continue;
+      }
+
+      for (let index = segments.length - 1; index >= 0; index--) {
+        const segment = segments[index]!;
+        if (segment.nameIndex === undefined || (lineIndex === line && segment.generatedColumn > column)) {
+          continue;
+        }
+
+        if (this.isFunctionDefinition(text, segment.generatedColumn, generatedName)) {
+          return sourceMap.names[segment.nameIndex];
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether a generated identifier names a function definition
+   * Covers declarations, function and arrow assignments, and method shorthand
+   * @param text - Generated line
+   * @param start - 0-based column of the identifier
+   * @param name - Identifier expected at the column
+   * @returns Whether the identifier is the name of a function being defined
+   */
+  private isFunctionDefinition(text: string, start: number, name: string): boolean {
+    if (!text.startsWith(name, start) || /[\w$]/.test(text.charAt(start + name.length))) {
+      return false;
+    }
+
+    const before = text.slice(Math.max(0, start - 20), start);
+    if (/[\w$]$/.test(before)) {
+      return false;
+    }
+
+    const after = text.slice(start + name.length, start + name.length + 200);
+    return /\bfunction\s*\*?\s*$/.test(before) ||
+      /^\s*[=:]\s*(?:async\b\s*)?(?:function\b|\([^)]*\)\s*=>|[\w$]+\s*=>)/.test(after) ||
+      /^\s*\([^)]*\)\s*\{/.test(after);
+  }
+
+  /**
+   * Rewrites a frame line to its original location and function name, keeping the engine's format
+   * Receivers such as `Object.` are kept; names that could not be traced stay as reported
+   * @param line - Original stack trace line
+   * @param frame - Parsed frame
+   * @param position - Resolved original position
+   * @returns Rewritten stack trace line
+   */
+  private rewriteFrame(line: string, frame: StackFrame, position: ResolvedPosition): string {
+    const generated = `${frame.file}:${frame.line}${frame.column !== undefined ? `:${frame.column}` : ''}`;
+    const locationIndex = line.lastIndexOf(generated);
+    if (locationIndex === -1) {
+      return line;
+    }
+
+    let head = line.slice(0, locationIndex);
+    const tail = line.slice(locationIndex + generated.length);
+
+    const originalName = position.functionName;
+    const nameIndex = frame.functionName ? head.lastIndexOf(frame.functionName) : -1;
+    if (frame.functionName && originalName && nameIndex !== -1) {
+      const renamed = frame.functionName.replace(/[A-Za-z_$][\w$]*$/, () => originalName);
+      head = `${head.slice(0, nameIndex)}${renamed}${head.slice(nameIndex + frame.functionName.length)}`;
+    }
+
+    return `${head}${position.file}:${position.line}:${position.column}${tail}`;
+  }
+
+  /**
+   * Fetches a text resource with a timeout
+   * @param url - Resource URL
+   * @returns Response text, or null on failure
+   */
+  private async defaultFetch(url: string): Promise<string | null> {
+    if (typeof fetch === 'undefined') {
+      return null;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.config.fetchTimeoutMs);
+
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      return response.ok ? await response.text() : null;
+    } catch {
+      return null;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,259 @@
+/**
+ * StackTraceParser - Parses stack traces from V8, SpiderMonkey and JavaScriptCore
+ * Produces structured frames and picks the frame that best represents a log's source
+ */
+
+import type { StackFrame } from '../types/index.js';
+
+/**
+ * Stack trace parser configuration
+ */
+interface StackTraceParserConfig {
+  /** Maximum number of frames kept per stack trace */
+  maxFrames: number;
+  /** URL patterns of third-party library code skipped when choosing a source frame */
+  libraryPatterns: RegExp[];
+}
+
+/**
+ * Location parsed from the location part of a frame
+ */
+interface FrameLocation {
+  file: string;
+  line?: number;
+  column?: number;
+}
+
+/**
+ * Parses stack trace strings into structured frames
+ */
+export class StackTraceParser {
+  // Configuration
+  private config: StackTraceParserConfig = {
+    maxFrames: 50,
+    libraryPatterns: [
+      /\/node_modules\//,
+      /\/(?:vendors?|chunk-vendors)[.~-]/i,
+      /\/\/(?:cdn\.jsdelivr\.net|unpkg\.com|cdnjs\.cloudflare\.com|ajax\.googleapis\.com|code\.jquery\.com)\//,
+      /\/(?:react-dom|jquery|zone|polyfills?)(?:[.-][\w-]+)*\.js(?:[?#]|$)/i
+    ]
+  };
+
+  /** Schemes used by browser extension scripts, including this one */
+  private readonly extensionUrlPattern = /^(?:chrome|moz|safari-web|ms-browser)-extension:\/\//;
+
+  /**
+   * Updates the parser configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<StackTraceParserConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Parses a stack trace into frames, skipping header and unrecognized lines
+   * @param stackTrace - Stack trace string
+   * @returns Parsed frames in stack order
+   */
+  parse(stackTrace: string): StackFrame[] {
+    const frames: StackFrame[] = [];
+
+    for (const line of stackTrace.split('\n')) {
+      const frame = this.parseLine(line);
+      if (frame) {
+        frames.push(frame);
+        if (frames.length >= this.config.maxFrames) {
+          break;
+        }
+      }
+    }
+
+    return frames;
+  }
+
+  /**
+   * Parses a single stack trace line
+   * @param line - Stack trace line
+   * @returns Parsed frame, or null if the line is not a frame
+   */
+  parseLine(line: string): StackFrame | null {
+    const trimmed = line.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    // V8 (Chrome, Edge, Node): "at fn (file:1:2)", "at file:1:2", "at async fn (...)"
+    if (trimmed.startsWith('at ')) {
+      return this.parseV8Line(trimmed.slice(3));
+    }
+
+    // SpiderMonkey and JavaScriptCore: "fn@file:1:2", "@file:1:2", "async*fn@file:1:2"
+    const separator = trimmed.indexOf('@');
+    if (separator !== -1) {
+      return this.parseGeckoLine(trimmed.slice(0, separator), trimmed.slice(separator + 1));
+    }
+
+    // JavaScriptCore anonymous frames: "file:1:2" or "[native code]"
+    if (trimmed === '[native code]') {
+      return { file: '[native code]', isAsync: false, isNative: true, isEval: false };
+    }
+
+    if (/^[a-z][\w+.-]*:\/\//i.test(trimmed)) {
+      const location = this.parseLocation(trimmed);
+      return location ? { ...location, isAsync: false, isNative: false, isEval: false } : null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Chooses the frame that best represents where a log came from: the first
+   * frame outside browser extensions and third-party libraries
+   * @param frames - Parsed frames
+   * @returns Source frame, or undefined if no frame has a location
+   */
+  selectSourceFrame(frames: StackFrame[]): StackFrame | undefined {
+    const located = frames.filter(frame => !frame.isNative && frame.line !== undefined);
+    const outsideExtensions = located.filter(frame => !this.extensionUrlPattern.test(frame.file));
+
+    return outsideExtensions.find(frame => !this.isLibraryFrame(frame))
+      ?? outsideExtensions[0]
+      ?? located[0];
+  }
+
+  /**
+   * Checks whether a frame belongs to third-party library code
+   * @param frame - Frame to check
+   * @returns True if the frame's file matches a library pattern
+   */
+  isLibraryFrame(frame: StackFrame): boolean {
+    return this.config.libraryPatterns.some(pattern => pattern.test(frame.file));
+  }
+
+  /**
+   * Parses the body of a V8 frame line (after "at ")
+   * @param body - Frame text without the leading "at "
+   * @returns Parsed frame or null
+   */
+  private parseV8Line(body: string): StackFrame | null {
+    let text = body;
+    let isAsync = false;
+
+    if (text.startsWith('async ')) {
+      isAsync = true;
+      text = text.slice(6);
+    }
+
+    const withName = /^(.*?) \((.*)\)$/.exec(text);
+    const functionName = withName ? withName[1] : undefined;
+    const locationText = withName ? withName[2] ?? '' : text;
+
+    // "at Array.map (native)" and "at Promise.all (index 0)"
+    if (locationText === 'native' || /^index \d+$/.test(locationText)) {
+      return this.createFrame(functionName, { file: locationText }, { isAsync: isAsync || locationText !== 'native', isNative: true });
+    }
+
+    // "at eval (eval at fn (file:1:2), <anonymous>:3:4)" points at the eval call site
+    if (locationText.startsWith('eval at ')) {
+      const origin = /\(([^\s()]+:\d+:\d+)\)/.exec(locationText);
+      const location = origin?.[1] ? this.parseLocation(origin[1]) : null;
+      return this.createFrame(functionName, location ?? { file: '<anonymous>' }, { isAsync, isEval: true });
+    }
+
+    if (locationText === '<anonymous>') {
+      return this.createFrame(functionName, { file: locationText }, { isAsync });
+    }
+
+    const location = this.parseLocation(locationText);
+    return location ? this.createFrame(functionName, location, { isAsync }) : null;
+  }
+
+  /**
+   * Parses a SpiderMonkey or JavaScriptCore frame
+   * @param namePart - Text before the "@"
+   * @param locationText - Text after the "@"
+   * @returns Parsed frame or null
+   */
+  private parseGeckoLine(namePart: string, locationText: string): StackFrame | null {
+    let functionName = namePart;
+    let isAsync = false;
+
+    // SpiderMonkey marks frames after an await with "async*"
+    if (functionName.startsWith('async*')) {
+      isAsync = true;
+      functionName = functionName.slice(6);
+    }
+
+    const isEvalName = functionName === 'eval' || functionName === 'eval code';
+
+    if (locationText === '[native code]') {
+      return this.createFrame(functionName, { file: locationText }, { isAsync, isNative: true, isEval: isEvalName });
+    }
+
+    // SpiderMonkey eval: "file line 12 > eval:1:5" or "file line 12 > Function:1:1"
+    const evalOrigin = /^(.*) line (\d+) > (?:eval|Function)/.exec(locationText);
+    if (evalOrigin?.[1] && evalOrigin[2]) {
+      return this.createFrame(
+        functionName,
+        { file: evalOrigin[1], line: parseInt(evalOrigin[2], 10) },
+        { isAsync, isEval: true }
+      );
+    }
+
+    const location = this.parseLocation(locationText);
+    return location ? this.createFrame(functionName, location, { isAsync, isEval: isEvalName }) : null;
+  }
+
+  /**
+   * Parses "file:line:column" or "file:line"
+   * @param text - Location text
+   * @returns Location or null
+   */
+  private parseLocation(text: string): FrameLocation | null {
+    const full = /^(.*):(\d+):(\d+)$/.exec(text);
+    if (full?.[1] && full[2] && full[3]) {
+      return { file: full[1], line: parseInt(full[2], 10), column: parseInt(full[3], 10) };
+    }
+
+    const lineOnly = /^(.*):(\d+)$/.exec(text);
+    if (lineOnly?.[1] && lineOnly[2]) {
+      return { file: lineOnly[1], line: parseInt(lineOnly[2], 10) };
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds a frame from its parts
+   * @param functionName - Function name, if any
+   * @param location - Frame location
+   * @param flags - Frame flags
+   * @returns Stack frame
+   */
+  private createFrame(
+    functionName: string | undefined,
+    location: FrameLocation,
+    flags: { isAsync?: boolean; isNative?: boolean; isEval?: boolean }
+  ): StackFrame {
+    const frame: StackFrame = {
+      file: location.file,
+      isAsync: flags.isAsync ?? false,
+      isNative: flags.isNative ?? false,
+      isEval: flags.isEval ?? false
+    };
+
+    if (functionName) {
+      frame.functionName = functionName;
+    }
+
+    if (location.line !== undefined) {
+      frame.line = location.line;
+    }
+
+    if (location.column !== undefined) {
+      frame.column = location.column;
+    }
+
+    return frame;
+  }
+}
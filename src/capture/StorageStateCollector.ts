@@ -0,0 +1,384 @@
+/**
+ * StorageStateCollector - Records web storage, cookie and IndexedDB state at the start and end of a session
+ * Changes are computed on what was read, before sanitization, so a masked value that
+ * changed still shows up as changed. Values are cut at a configured length but compared
+ * by a fingerprint of the full value. Only cookie names are read; HttpOnly cookies are
+ * invisible to the page and therefore missing.
+ */
+
+import type {
+  NameListDiff,
+  SessionStorageState,
+  StorageAreaDiff,
+  StorageState,
+  StorageStateDiff
+} from '../types/index.js';
+import { DataSanitizer } from '../security/DataSanitizer.js';
+
+/**
+ * Storage state configuration
+ */
+export interface StorageStateConfig {
+  /** Record the state and its changes */
+  enabled: boolean;
+  /** Maximum number of entries kept per storage area */
+  maxEntries: number;
+  /** Values are cut after this many characters */
+  maxValueLength: number;
+}
+
+/**
+ * Minimal Storage surface the collector reads
+ */
+type StorageArea = Pick<Storage, 'length' | 'key' | 'getItem'>;
+
+/**
+ * Where the state is read from; the page's globals unless given
+ */
+export interface StorageSource {
+  /** Returns localStorage; may throw when storage is blocked */
+  localStorage(): StorageArea | undefined;
+  /** Returns sessionStorage; may throw when storage is blocked */
+  sessionStorage(): StorageArea | undefined;
+  /** Returns document.cookie */
+  cookie(): string;
+  /** Lists IndexedDB databases, when the browser supports it */
+  databases?(): Promise<Array<{ name?: string }>>;
+}
+
+/**
+ * Storage entry as read, before sanitization
+ */
+interface ReadEntry {
+  /** Value, cut at the configured length */
+  value: string;
+  /** Fingerprint of the full value */
+  fingerprint: number;
+}
+
+/**
+ * State as read, before sanitization
+ */
+interface ReadState {
+  /** When the state was read */
+  timestamp: Date;
+  /** localStorage entries by key */
+  localStorage: Map<string, ReadEntry>;
+  /** sessionStorage entries by key */
+  sessionStorage: Map<string, ReadEntry>;
+  /** Cookie names */
+  cookieNames: string[];
+  /** IndexedDB database names */
+  indexedDbNames: string[];
+  /** Whether entries beyond the cap were left out */
+  truncated: boolean;
+}
+
+/**
+ * Reads the state of the page the script runs in
+ * @returns Source backed by window and document
+ */
+function getPageSource(): StorageSource {
+  const source: StorageSource = {
+    localStorage: () => window.localStorage,
+    sessionStorage: () => window.sessionStorage,
+    cookie: () => document.cookie
+  };
+
+  // indexedDB.databases() is missing in older Firefox versions
+  if (typeof indexedDB !== 'undefined' && typeof indexedDB.databases === 'function') {
+    source.databases = () => indexedDB.databases();
+  }
+
+  return source;
+}
+
+/**
+ * Computes a 32-bit FNV-1a fingerprint
+ * @param value - Full value
+ * @returns Fingerprint
+ */
+function fingerprint(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Compares two name lists
+ * @param before - Names at the start
+ * @param after - Names at the end
+ * @returns Names added and removed
+ */
+function diffNames(before: string[], after: string[]): NameListDiff {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+
+  return {
+    added: after.filter(name => !beforeSet.has(name)),
+    removed: before.filter(name => !afterSet.has(name))
+  };
+}
+
+/**
+ * Records the storage state of the page and the changes made during a session
+ */
+export class StorageStateCollector {
+  private config: StorageStateConfig = {
+    enabled: true,
+    maxEntries: 100,
+    maxValueLength: 200
+  };
+
+  private readonly sanitizer: DataSanitizer;
+  private initial: ReadState | null = null;
+
+  /**
+   * Creates a new StorageStateCollector instance
+   * @param sanitizer - Sanitizer applied to everything recorded
+   */
+  constructor(sanitizer: DataSanitizer = new DataSanitizer()) {
+    this.sanitizer = sanitizer;
+  }
+
+  /**
+   * Updates the storage state configuration
+   * @param config - Partial configuration updates
+   */
+  updateConfig(config: Partial<StorageStateConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * Reads the state at the start of a session
+   * @param source - Where to read from
+   * @returns Sanitized state, or null when disabled
+   */
+  async captureInitial(source: StorageSource = getPageSource()): Promise<StorageState | null> {
+    if (!this.config.enabled) {
+      this.initial = null;
+      return null;
+    }
+
+    this.initial = await this.read(source);
+    return this.sanitizeState(this.initial);
+  }
+
+  /**
+   * Reads the state at the end of a session and compares it to the start
+   * @param source - Where to read from
+   * @returns Sanitized states and their differences, or null when no initial state was read
+   */
+  async captureFinal(source: StorageSource = getPageSource()): Promise<SessionStorageState | null> {
+    if (!this.config.enabled || !this.initial) {
+      return null;
+    }
+
+    const final = await this.read(source);
+
+    return {
+      initial: this.sanitizeState(this.initial),
+      final: this.sanitizeState(final),
+      diff: this.sanitizeDiff(this.diff(this.initial, final))
+    };
+  }
+
+  /**
+   * Forgets the initial state
+   */
+  reset(): void {
+    this.initial = null;
+  }
+
+  /**
+   * Reads storage, cookie names and database names
+   * @param source - Where to read from
+   * @returns State as read
+   */
+  private async read(source: StorageSource): Promise<ReadState> {
+    const local = this.readArea(() => source.localStorage());
+    const session = this.readArea(() => source.sessionStorage());
+
+    let cookieNames: string[] = [];
+    try {
+      cookieNames = [...new Set(source.cookie()
+        .split(';')
+        .map(part => part.split('=')[0]?.trim() ?? '')
+        .filter(Boolean))];
+    } catch {
+      // document.cookie throws in sandboxed frames
+    }
+
+    let indexedDbNames: string[] = [];
+    try {
+      const databases = await source.databases?.() ?? [];
+      indexedDbNames = databases.map(database => database.name).filter((name): name is string => Boolean(name));
+    } catch {
+      // Listing fails in private windows and on opaque origins
+    }
+
+    return {
+      timestamp: new Date(),
+      localStorage: local.entries,
+      sessionStorage: session.entries,
+      cookieNames,
+      indexedDbNames,
+      truncated: local.truncated || session.truncated
+    };
+  }
+
+  /**
+   * Reads one storage area, keys sorted so the entry cap keeps the same keys each time
+   * @param getArea - Returns the area; may throw when storage is blocked
+   * @returns Entries and whether some were left out
+   */
+  private readArea(getArea: () => StorageArea | undefined): { entries: Map<string, ReadEntry>; truncated: boolean } {
+    const entries = new Map<string, ReadEntry>();
+
+    try {
+      const area = getArea();
+      if (!area) {
+        return { entries, truncated: false };
+      }
+
+      const keys: string[] = [];
+      for (let i = 0; i < area.length; i++) {
+        const key = area.key(i);
+        if (key !== null) {
+          keys.push(key);
+        }
+      }
+      keys.sort();
+
+      for (const key of keys.slice(0, this.config.maxEntries)) {
+        const value = area.getItem(key) ?? '';
+        entries.set(key, {
+          value: value.length > this.config.maxValueLength
+            ? `${value.substring(0, this.config.maxValueLength)}…`
+            : value,
+          fingerprint: fingerprint(value)
+        });
+      }
+
+      return { entries, truncated: keys.length > this.config.maxEntries };
+    } catch {
+      // Access throws a SecurityError when the user blocks site data
+      return { entries, truncated: false };
+    }
+  }
+
+  /**
+   * Compares two states as read
+   * @param before - State at the start
+   * @param after - State at the end
+   * @returns Unsanitized differences
+   */
+  private diff(before: ReadState, after: ReadState): StorageStateDiff {
+    return {
+      localStorage: this.diffArea(before.localStorage, after.localStorage),
+      sessionStorage: this.diffArea(before.sessionStorage, after.sessionStorage),
+      cookieNames: diffNames(before.cookieNames, after.cookieNames),
+      indexedDbNames: diffNames(before.indexedDbNames, after.indexedDbNames)
+    };
+  }
+
+  /**
+   * Compares one storage area
+   * @param before - Entries at the start
+   * @param after - Entries at the end
+   * @returns Added, removed and changed entries
+   */
+  private diffArea(before: Map<string, ReadEntry>, after: Map<string, ReadEntry>): StorageAreaDiff {
+    const diff: StorageAreaDiff = { added: {}, removed: [], changed: {} };
+
+    for (const [key, entry] of after) {
+      const previous = before.get(key);
+      if (!previous) {
+        diff.added[key] = entry.value;
+      } else if (previous.fingerprint !== entry.fingerprint) {
+        diff.changed[key] = { before: previous.value, after: entry.value };
+      }
+    }
+
+    for (const key of before.keys()) {
+      if (!after.has(key)) {
+        diff.removed.push(key);
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Runs a state through the sanitizer
+   * @param state - State as read
+   * @returns Sanitized state
+   */
+  private sanitizeState(state: ReadState): StorageState {
+    const valuesOf = (entries: Map<string, ReadEntry>): Record<string, string> =>
+      Object.fromEntries([...entries].map(([key, entry]) => [key, entry.value]));
+
+    return {
+      timestamp: state.timestamp,
+      localStorage: this.sanitizeRecord(valuesOf(state.localStorage)),
+      sessionStorage: this.sanitizeRecord(valuesOf(state.sessionStorage)),
+      cookieNames: this.sanitizeNames(state.cookieNames),
+      indexedDbNames: this.sanitizeNames(state.indexedDbNames),
+      truncated: state.truncated
+    };
+  }
+
+  /**
+   * Runs differences through the sanitizer
+   * @param diff - Unsanitized differences
+   * @returns Sanitized differences
+   */
+  private sanitizeDiff(diff: StorageStateDiff): StorageStateDiff {
+    return {
+      localStorage: this.sanitizeAreaDiff(diff.localStorage),
+      sessionStorage: this.sanitizeAreaDiff(diff.sessionStorage),
+      cookieNames: { added: this.sanitizeNames(diff.cookieNames.added), removed: this.sanitizeNames(diff.cookieNames.removed) },
+      indexedDbNames: { added: this.sanitizeNames(diff.indexedDbNames.added), removed: this.sanitizeNames(diff.indexedDbNames.removed) }
+    };
+  }
+
+  /**
+   * Sanitizes the changes to one storage area
+   * Before and after values are sanitized as separate records, so the key decides the
+   * treatment of both the same way
+   * @param diff - Unsanitized area changes
+   * @returns Sanitized area changes
+   */
+  private sanitizeAreaDiff(diff: StorageAreaDiff): StorageAreaDiff {
+    const keys = Object.keys(diff.changed);
+    const before = this.sanitizeRecord(Object.fromEntries(keys.map(key => [key, diff.changed[key]?.before ?? ''])));
+    const after = this.sanitizeRecord(Object.fromEntries(keys.map(key => [key, diff.changed[key]?.after ?? ''])));
+
+    return {
+      added: this.sanitizeRecord(diff.added),
+      removed: this.sanitizeNames(diff.removed),
+      changed: Object.fromEntries(keys.map(key => [key, { before: before[key] ?? '', after: after[key] ?? '' }]))
+    };
+  }
+
+  /**
+   * Sanitizes key-value entries; values of sensitive-looking keys are masked
+   * @param record - Entries
+   * @returns Sanitized entries
+   */
+  private sanitizeRecord(record: Record<string, string>): Record<string, string> {
+    return this.sanitizer.sanitizeObject(record).sanitizedData as Record<string, string>;
+  }
+
+  /**
+   * Sanitizes a list of names
+   * @param names - Names
+   * @returns Sanitized names
+   */
+  private sanitizeNames(names: string[]): string[] {
+    return this.sanitizer.sanitizeObject(names).sanitizedData as string[];
+  }
+}
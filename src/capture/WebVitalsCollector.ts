@@ -0,0 +1,435 @@
+/**
+ * WebVitalsCollector - Computes INP, CLS, TTFB and FID from performance entries and keeps
+ * a timeline of long tasks, long animation frames, layout shifts and slow interactions
+ * Follows the web-vitals library definitions: INP ignores one outlier per 50 interactions,
+ * CLS is the largest session window of shifts without recent input. Entry types the
+ * browser does not support simply never arrive.
+ */
+
+import type {
+  InteractionAttribution,
+  PerformanceEvent,
+  PerformanceMetrics,
+  ResourceTimingSummary
+} from '../types/index.js';
+import { getSelectorPath } from './ElementSelector.js';
+
+/**
+ * Event Timing entry ('event' and 'first-input')
+ */
+interface EventTimingEntry extends PerformanceEntry {
+  processingStart: number;
+  processingEnd: number;
+  interactionId?: number;
+  target?: Node | null;
+}
+
+/**
+ * Layout Instability entry
+ */
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+  sources?: Array<{ node?: Node | null }>;
+}
+
+/**
+ * Long Tasks entry
+ */
+interface LongTaskEntry extends PerformanceEntry {
+  attribution?: Array<{ containerSrc?: string; containerName?: string }>;
+}
+
+/**
+ * Long Animation Frames entry
+ */
+interface LongAnimationFrameEntry extends PerformanceEntry {
+  blockingDuration: number;
+  scripts?: Array<{ invoker?: string; sourceURL?: string; duration: number }>;
+}
+
+/**
+ * Navigation Timing fields used for TTFB
+ */
+interface NavigationEntry extends PerformanceEntry {
+  responseStart: number;
+  activationStart?: number;
+}
+
+/**
+ * Resource Timing fields used for the summaries
+ */
+interface ResourceEntry extends PerformanceEntry {
+  initiatorType: string;
+  transferSize?: number;
+}
+
+/**
+ * Interaction kept as an INP candidate
+ */
+interface InteractionCandidate {
+  /** Interaction identifier shared by the events of one interaction */
+  id: number;
+  /** Longest event duration of the interaction */
+  duration: number;
+  /** Breakdown of the longest event */
+  attribution: InteractionAttribution;
+}
+
+/**
+ * Number of longest interactions kept; enough for INP up to 500 interactions
+ */
+const MAX_INP_CANDIDATES = 10;
+
+/**
+ * Maximum number of timeline events kept; the oldest are dropped first
+ */
+const MAX_TIMELINE_EVENTS = 300;
+
+/**
+ * Interactions at least this slow are put on the timeline, the INP "needs improvement" threshold
+ */
+const SLOW_INTERACTION_MS = 200;
+
+/**
+ * Layout shifts below this score are counted in CLS but left off the timeline
+ */
+const MIN_TIMELINE_SHIFT = 0.01;
+
+/**
+ * Describes the node a performance entry points at
+ * @param node - Entry target or shift source
+ * @returns Selector path for elements still available, otherwise undefined
+ */
+function describeNode(node: Node | null | undefined): string | undefined {
+  if (!node || !('tagName' in node)) {
+    return undefined;
+  }
+
+  return getSelectorPath(node as Element);
+}
+
+/**
+ * Collects Web Vitals and performance problems reported by PerformanceObserver
+ */
+export class WebVitalsCollector {
+  private readonly timeOrigin: number;
+
+  private ttfb: number | undefined;
+  private fid: number | undefined;
+  private interactionIds: Set<number> = new Set();
+  private slowInteractionIds: Set<number> = new Set();
+  private inpCandidates: InteractionCandidate[] = [];
+  private cls: number = 0;
+  private clsWindow: { value: number; firstStart: number; lastStart: number } | null = null;
+  private hasLayoutShifts: boolean = false;
+  private timeline: PerformanceEvent[] = [];
+  private resources: Map<string, ResourceTimingSummary> = new Map();
+
+  /**
+   * Creates a new WebVitalsCollector instance
+   * @param timeOrigin - Epoch milliseconds that entry start times are relative to
+   */
+  constructor(timeOrigin: number = typeof performance !== 'undefined' ? performance.timeOrigin : 0) {
+    this.timeOrigin = timeOrigin;
+  }
+
+  /**
+   * Processes performance entries
+   * @param entries - Entries reported by PerformanceObserver
+   */
+  addEntries(entries: PerformanceEntry[]): void {
+    for (const entry of entries) {
+      switch (entry.entryType) {
+        case 'navigation':
+          this.handleNavigation(entry as NavigationEntry);
+          break;
+        case 'first-input':
+          this.fid ??= Math.max(0, (entry as EventTimingEntry).processingStart - entry.startTime);
+          this.handleInteraction(entry as EventTimingEntry);
+          break;
+        case 'event':
+          this.handleInteraction(entry as EventTimingEntry);
+          break;
+        case 'layout-shift':
+          this.handleLayoutShift(entry as LayoutShiftEntry);
+          break;
+        case 'longtask':
+          this.handleLongTask(entry as LongTaskEntry);
+          break;
+        case 'long-animation-frame':
+          this.handleLongAnimationFrame(entry as LongAnimationFrameEntry);
+          break;
+        case 'resource':
+          this.handleResource(entry as ResourceEntry);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Gets the metrics computed so far
+   * @returns Metrics; values that have not been observed are absent
+   */
+  getMetrics(): Pick<PerformanceMetrics, 'cls' | 'fid' | 'inp' | 'inpAttribution' | 'ttfb' | 'timeline' | 'resources'> {
+    const metrics: Pick<PerformanceMetrics, 'cls' | 'fid' | 'inp' | 'inpAttribution' | 'ttfb' | 'timeline' | 'resources'> = {};
+
+    if (this.ttfb !== undefined) {
+      metrics.ttfb = this.ttfb;
+    }
+
+    if (this.fid !== undefined) {
+      metrics.fid = this.fid;
+    }
+
+    if (this.hasLayoutShifts) {
+      metrics.cls = this.cls;
+    }
+
+    // One interaction is ignored per 50, so a single outlier does not define INP
+    const inp = this.inpCandidates[Math.min(
+      Math.floor(this.interactionIds.size / 50),
+      this.inpCandidates.length - 1
+    )];
+    if (inp) {
+      metrics.inp = inp.duration;
+      metrics.inpAttribution = { ...inp.attribution };
+    }
+
+    if (this.timeline.length > 0) {
+      // Observers for different entry types deliver out of order
+      metrics.timeline = this.timeline
+        .map(event => ({ ...event }))
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    }
+
+    if (this.resources.size > 0) {
+      metrics.resources = [...this.resources.values()]
+        .map(summary => ({ ...summary, slowest: { ...summary.slowest } }))
+        .sort((a, b) => b.totalDuration - a.totalDuration);
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Drops the timeline, so a new session only shows its own events
+   * Page-lifetime metrics such as INP and CLS are kept
+   */
+  resetTimeline(): void {
+    this.timeline = [];
+  }
+
+  /**
+   * Forgets everything collected
+   */
+  clear(): void {
+    this.ttfb = undefined;
+    this.fid = undefined;
+    this.interactionIds.clear();
+    this.slowInteractionIds.clear();
+    this.inpCandidates = [];
+    this.cls = 0;
+    this.clsWindow = null;
+    this.hasLayoutShifts = false;
+    this.timeline = [];
+    this.resources.clear();
+  }
+
+  /**
+   * Records TTFB from the navigation entry
+   * @param entry - Navigation entry
+   */
+  private handleNavigation(entry: NavigationEntry): void {
+    if (entry.responseStart > 0) {
+      // Prerendered pages count from activation
+      this.ttfb = Math.max(0, entry.responseStart - (entry.activationStart ?? 0));
+    }
+  }
+
+  /**
+   * Records an event belonging to a user interaction
+   * @param entry - Event or first-input entry
+   */
+  private handleInteraction(entry: EventTimingEntry): void {
+    const id = entry.interactionId;
+    if (!id) {
+      // Hovers and scrolls are not interactions
+      return;
+    }
+
+    this.interactionIds.add(id);
+
+    if (entry.duration >= SLOW_INTERACTION_MS && !this.slowInteractionIds.has(id)) {
+      this.slowInteractionIds.add(id);
+      const event: PerformanceEvent = {
+        type: 'interaction',
+        timestamp: this.toDate(entry.startTime),
+        duration: entry.duration,
+        name: entry.name
+      };
+      const target = describeNode(entry.target);
+      if (target) {
+        event.attribution = target;
+      }
+      this.addTimelineEvent(event);
+    }
+
+    const existing = this.inpCandidates.find(candidate => candidate.id === id);
+    if (existing && existing.duration >= entry.duration) {
+      return;
+    }
+
+    const weakest = this.inpCandidates[this.inpCandidates.length - 1];
+    if (!existing && this.inpCandidates.length >= MAX_INP_CANDIDATES && weakest && weakest.duration >= entry.duration) {
+      return;
+    }
+
+    const candidate: InteractionCandidate = { id, duration: entry.duration, attribution: this.attributeInteraction(entry) };
+    this.inpCandidates = [...this.inpCandidates.filter(other => other.id !== id), candidate]
+      .sort((a, b) => b.duration - a.duration)
+      .slice(0, MAX_INP_CANDIDATES);
+  }
+
+  /**
+   * Breaks an interaction's duration down into its phases
+   * @param entry - Longest event of the interaction
+   * @returns Attribution
+   */
+  private attributeInteraction(entry: EventTimingEntry): InteractionAttribution {
+    const attribution: InteractionAttribution = {
+      eventType: entry.name,
+      timestamp: this.toDate(entry.startTime),
+      inputDelay: Math.max(0, entry.processingStart - entry.startTime),
+      processingDuration: Math.max(0, entry.processingEnd - entry.processingStart),
+      presentationDelay: Math.max(0, entry.startTime + entry.duration - entry.processingEnd)
+    };
+
+    const target = describeNode(entry.target);
+    if (target) {
+      attribution.target = target;
+    }
+
+    return attribution;
+  }
+
+  /**
+   * Adds a layout shift to CLS and the timeline
+   * @param entry - Layout shift entry
+   */
+  private handleLayoutShift(entry: LayoutShiftEntry): void {
+    // Shifts right after user input are expected
+    if (entry.hadRecentInput) {
+      return;
+    }
+
+    this.hasLayoutShifts = true;
+
+    // Session windows close after a 1s gap or once they span 5s
+    const current = this.clsWindow;
+    if (current && entry.startTime - current.lastStart < 1000 && entry.startTime - current.firstStart < 5000) {
+      current.value += entry.value;
+      current.lastStart = entry.startTime;
+    } else {
+      this.clsWindow = { value: entry.value, firstStart: entry.startTime, lastStart: entry.startTime };
+    }
+    this.cls = Math.max(this.cls, this.clsWindow?.value ?? 0);
+
+    if (entry.value >= MIN_TIMELINE_SHIFT) {
+      const event: PerformanceEvent = {
+        type: 'layout-shift',
+        timestamp: this.toDate(entry.startTime),
+        duration: 0,
+        value: entry.value
+      };
+      const source = describeNode(entry.sources?.find(candidate => candidate.node)?.node);
+      if (source) {
+        event.attribution = source;
+      }
+      this.addTimelineEvent(event);
+    }
+  }
+
+  /**
+   * Puts a long task on the timeline
+   * @param entry - Long task entry
+   */
+  private handleLongTask(entry: LongTaskEntry): void {
+    const container = entry.attribution?.[0];
+    this.addTimelineEvent({
+      type: 'long-task',
+      timestamp: this.toDate(entry.startTime),
+      duration: entry.duration,
+      // 'self' for the page's own work, or the frame that ran the task
+      attribution: container?.containerSrc || container?.containerName || entry.name
+    });
+  }
+
+  /**
+   * Puts a long animation frame on the timeline, attributed to its longest script
+   * @param entry - Long animation frame entry
+   */
+  private handleLongAnimationFrame(entry: LongAnimationFrameEntry): void {
+    const event: PerformanceEvent = {
+      type: 'long-animation-frame',
+      timestamp: this.toDate(entry.startTime),
+      duration: entry.duration,
+      blockingDuration: entry.blockingDuration
+    };
+
+    const script = [...(entry.scripts ?? [])].sort((a, b) => b.duration - a.duration)[0];
+    const source = script ? [script.invoker, script.sourceURL].filter(Boolean).join(' @ ') : '';
+    if (source) {
+      event.attribution = source;
+    }
+
+    this.addTimelineEvent(event);
+  }
+
+  /**
+   * Adds a resource to its initiator type's totals
+   * @param entry - Resource entry
+   */
+  private handleResource(entry: ResourceEntry): void {
+    const initiatorType = entry.initiatorType || 'other';
+    const summary = this.resources.get(initiatorType);
+
+    if (!summary) {
+      this.resources.set(initiatorType, {
+        initiatorType,
+        count: 1,
+        transferSize: entry.transferSize ?? 0,
+        totalDuration: entry.duration,
+        slowest: { url: entry.name, duration: entry.duration }
+      });
+      return;
+    }
+
+    summary.count++;
+    summary.transferSize += entry.transferSize ?? 0;
+    summary.totalDuration += entry.duration;
+    if (entry.duration > summary.slowest.duration) {
+      summary.slowest = { url: entry.name, duration: entry.duration };
+    }
+  }
+
+  /**
+   * Appends an event, dropping the oldest beyond the cap
+   * @param event - Timeline event
+   */
+  private addTimelineEvent(event: PerformanceEvent): void {
+    this.timeline.push(event);
+    if (this.timeline.length > MAX_TIMELINE_EVENTS) {
+      this.timeline.shift();
+    }
+  }
+
+  /**
+   * Converts an entry start time to a date
+   * @param startTime - Milliseconds since the time origin
+   * @returns Date
+   */
+  private toDate(startTime: number): Date {
+    return new Date(this.timeOrigin + startTime);
+  }
+}
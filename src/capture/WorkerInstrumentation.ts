@@ -0,0 +1,219 @@
+/**
+ * WorkerInstrumentation - Extends the main-world console hook into dedicated workers
+ * Replaces the page's Worker constructor so new workers start from a bootstrap
+ * script that loads the hook before the worker's own code
+ */
+
+import type { PageBridgeMessage } from './PageConsoleHook.js';
+
+/**
+ * Global through which the bootstrap hands its configuration to the hook script
+ */
+export const WORKER_HOOK_GLOBAL = '__consoleCaptureProWorker';
+
+/**
+ * Configuration read by the hook script when it runs inside a worker
+ */
+export interface WorkerHookConfig {
+  /** BroadcastChannel the worker posts its console calls to */
+  channelName: string;
+  /** Script URL the page passed to the Worker constructor, resolved */
+  workerUrl: string;
+  /** URL of the document that created the worker */
+  frameUrl: string;
+  /** Maximum async causality depth recorded per call; 0 disables it */
+  asyncStackDepth: number;
+}
+
+/**
+ * Handler for console calls relayed from instrumented workers
+ */
+export type WorkerMessageHandler = (message: PageBridgeMessage) => void;
+
+/**
+ * Instruments dedicated workers created by the page
+ * Runs inside the page, so it must not depend on any extension API
+ *
+ * Workers are started from a blob: bootstrap, which restores the original
+ * script's location and resolves relative URLs passed to importScripts, fetch
+ * and the other URL-taking APIs against it before the worker's own code runs.
+ * Cross-origin and data: workers are left alone.
+ */
+export class WorkerInstrumentation {
+  private readonly hookScriptUrl: string;
+  private readonly handler: WorkerMessageHandler;
+  private readonly channelName: string;
+  private readonly asyncStackDepth: number;
+  private channel: BroadcastChannel | null = null;
+  private originalWorker: typeof Worker | null = null;
+
+  /**
+   * Creates a new WorkerInstrumentation instance
+   * @param hookScriptUrl - URL of the hook script loaded into each worker
+   * @param handler - Function receiving console calls made in workers
+   * @param asyncStackDepth - Async causality depth the worker hooks record, 0 to disable
+   */
+  constructor(hookScriptUrl: string, handler: WorkerMessageHandler, asyncStackDepth: number = 0) {
+    this.hookScriptUrl = hookScriptUrl;
+    this.handler = handler;
+    this.asyncStackDepth = asyncStackDepth;
+    this.channelName = `console-capture-pro:${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`;
+  }
+
+  /**
+   * Replaces the Worker constructor and starts listening for worker messages
+   */
+  install(): void {
+    if (this.originalWorker || typeof Worker !== 'function' || typeof BroadcastChannel !== 'function') {
+      return;
+    }
+
+    const original = Worker;
+    const createBootstrapUrl = (scriptUrl: string | URL, options?: WorkerOptions): string | null =>
+      this.createBootstrapUrl(scriptUrl, options);
+
+    function InstrumentedWorker(scriptUrl: string | URL, options?: WorkerOptions): Worker {
+      if (!new.target) {
+        throw new TypeError("Failed to construct 'Worker': Please use the 'new' operator.");
+      }
+
+      const bootstrapUrl = createBootstrapUrl(scriptUrl, options);
+      if (bootstrapUrl) {
+        try {
+          return new original(bootstrapUrl, options);
+        } catch {
+          // Page CSP or Trusted Types may reject blob workers; start the worker untouched
+          URL.revokeObjectURL(bootstrapUrl);
+        }
+      }
+
+      return new original(scriptUrl, options);
+    }
+
+    InstrumentedWorker.prototype = original.prototype;
+    Object.defineProperty(InstrumentedWorker, 'name', { value: 'Worker' });
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+
+    this.originalWorker = original;
+    (globalThis as unknown as { Worker: unknown }).Worker = InstrumentedWorker;
+  }
+
+  /**
+   * Restores the Worker constructor and stops relaying worker messages
+   * Workers that are already running keep their hook
+   */
+  uninstall(): void {
+    if (!this.originalWorker) {
+      return;
+    }
+
+    (globalThis as unknown as { Worker: unknown }).Worker = this.originalWorker;
+    this.originalWorker = null;
+
+    this.channel?.close();
+    this.channel = null;
+  }
+
+  /**
+   * Builds the bootstrap script that loads the hook, then the worker's own script
+   * @param scriptUrl - Script URL passed to the Worker constructor
+   * @param options - Worker options passed to the constructor
+   * @returns Blob URL of the bootstrap, or null if the worker cannot be instrumented
+   */
+  private createBootstrapUrl(scriptUrl: string | URL, options?: WorkerOptions): string | null {
+    let resolved: URL;
+    try {
+      resolved = new URL(String(scriptUrl), document.baseURI);
+    } catch {
+      return null;
+    }
+
+    // Only same-origin and blob: scripts can share a BroadcastChannel with the page
+    if (resolved.protocol !== 'blob:' && resolved.origin !== window.location.origin) {
+      return null;
+    }
+
+    const config: WorkerHookConfig = {
+      channelName: this.channelName,
+      workerUrl: resolved.href,
+      frameUrl: window.location.href,
+      asyncStackDepth: this.asyncStackDepth
+    };
+
+    const setup = `self[${JSON.stringify(WORKER_HOOK_GLOBAL)}] = ${JSON.stringify(config)};\n${this.createBaseShim(resolved.href)}`;
+    const hookUrl = JSON.stringify(this.hookScriptUrl);
+    const workerUrl = JSON.stringify(resolved.href);
+
+    // Hook failures must never stop the worker's own script from loading
+    const source = options?.type === 'module'
+      ? `${setup}\ntry { await import(${hookUrl}); } catch {}\nawait import(${workerUrl});\n`
+      : `${setup}\ntry { importScripts(${hookUrl}); } catch (e) {}\nimportScripts(${workerUrl});\n`;
+
+    return URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  }
+
+  /**
+   * Builds the bootstrap prelude that makes the worker behave as if it had been
+   * started from its own script URL rather than the blob: bootstrap
+   * @param workerUrl - Resolved URL of the worker's script
+   * @returns Script source to run before the hook and the worker's script
+   */
+  private createBaseShim(workerUrl: string): string {
+    return `(() => {
+  const base = ${JSON.stringify(workerUrl)};
+  const resolve = url => {
+    if (typeof url !== 'string') return url;
+    try { return new URL(url, base).href; } catch (e) { return url; }
+  };
+  const workerLocation = new URL(base);
+  Object.defineProperty(self, 'location', { configurable: true, enumerable: true, get: () => workerLocation });
+  if (typeof self.importScripts === 'function') {
+    const importScripts = self.importScripts;
+    self.importScripts = function (...urls) { return importScripts.apply(this, urls.map(resolve)); };
+  }
+  if (typeof self.fetch === 'function') {
+    const fetch = self.fetch;
+    self.fetch = function (input, init) { return fetch.call(this, resolve(input), init); };
+  }
+  if (typeof XMLHttpRequest === 'function') {
+    const open = XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.open = function (method, url, ...rest) { return open.call(this, method, resolve(url), ...rest); };
+  }
+  for (const name of ['Request', 'EventSource', 'WebSocket', 'Worker', 'SharedWorker']) {
+    const Original = self[name];
+    if (typeof Original !== 'function') continue;
+    const Wrapped = function (url, ...rest) {
+      if (!new.target) return Original(url, ...rest);
+      return Reflect.construct(Original, [resolve(url), ...rest], new.target === Wrapped ? Original : new.target);
+    };
+    Wrapped.prototype = Original.prototype;
+    Object.setPrototypeOf(Wrapped, Original);
+    Object.defineProperty(Wrapped, 'name', { value: name });
+    self[name] = Wrapped;
+  }
+})();`;
+  }
+
+  /**
+   * Validates a message received from a worker and passes it to the handler
+   * @param data - Message data posted by a worker hook
+   */
+  private handleMessage(data: unknown): void {
+    const message = data as Partial<PageBridgeMessage> | null;
+    if (!message || typeof message !== 'object' || message.context?.type !== 'dedicated-worker') {
+      return;
+    }
+
+    if (!message.level || !Array.isArray(message.args) || typeof message.timestamp !== 'number') {
+      return;
+    }
+
+    try {
+      this.handler(message as PageBridgeMessage);
+    } catch {
+      // Never let capture failures surface in the page
+    }
+  }
+}
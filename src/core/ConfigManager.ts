@@ -16,7 +16,35 @@ const LogLevelSchema = z.enum(['log', 'info', 'warn', 'error', 'debug']);
 /**
  * Zod schema for ExportFormat validation
  */
-const ExportFormatSchema = z.enum(['json', 'markdown', 'csv', 'github-issue', 'slack-message', 'plain-text']);
+const ExportFormatSchema = z.enum(['json', 'markdown', 'har', 'csv', 'github-issue', 'slack-message', 'plain-text']);
+
+/**
+ * Checks that a trigger or filter pattern compiles as a regular expression
+ * @param pattern - Regular expression source
+ * @returns True if the pattern is valid
+ */
+function isValidRegExp(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Zod schema for capture filter rule validation
+ */
+const CaptureFilterRuleSchema = z.object({
+  id: z.string().min(1),
+  action: z.enum(['include', 'exclude']),
+  enabled: z.boolean(),
+  levels: z.array(LogLevelSchema).optional(),
+  messagePattern: z.string().refine(isValidRegExp, 'Invalid regular expression').optional(),
+  sourceGlob: z.string().min(1).optional(),
+  frameUrlGlob: z.string().min(1).optional(),
+  origins: z.array(z.enum(['console', 'uncaught-error', 'unhandled-rejection', 'resource-error', 'browser'])).optional()
+});
 
 /**
  * Comprehensive Zod schema for ExtensionConfig validation
@@ -25,6 +53,9 @@ const ExtensionConfigSchema = z.object({
   captureEnabled: z.boolean(),
   capturedLevels: z.array(LogLevelSchema),
   maxLogsRetained: z.number().min(1).max(100000),
+  filterRules: z.array(CaptureFilterRuleSchema)
+    .refine(rules => new Set(rules.map(rule => rule.id)).size === rules.length, 'Filter rule ids must be unique')
+    .default([]),
   autoCaptureOnLoad: z.boolean(),
   privacy: z.object({
     enablePIIDetection: z.boolean(),
@@ -40,6 +71,86 @@ const ExtensionConfigSchema = z.object({
   export: z.object({
     defaultFormat: ExportFormatSchema,
     includeMetadata: z.boolean()
+  }),
+  // Defaulted so configurations stored before this section existed stay valid
+  sourceMaps: z.object({
+    enabled: z.boolean(),
+    localDirectories: z.array(z.string().url())
+  }).default({ enabled: true, localDirectories: [] }),
+  captureMode: z.enum(['patch', 'devtools-protocol', 'auto']).default('patch'),
+  contexts: z.object({
+    frames: z.boolean(),
+    workers: z.boolean()
+  }).default({ frames: true, workers: false }),
+  networkCapture: z.object({
+    captureHeaders: z.boolean(),
+    captureBodies: z.boolean(),
+    maxBodyBytes: z.number().int().min(0).max(1048576),
+    allowOrigins: z.array(z.string()),
+    denyOrigins: z.array(z.string()),
+    captureFrames: z.boolean().default(false)
+  }).default({ captureHeaders: false, captureBodies: false, maxBodyBytes: 16384, allowOrigins: [], denyOrigins: [], captureFrames: false }),
+  requestCorrelation: z.object({
+    enabled: z.boolean(),
+    windowMs: z.number().int().min(0).max(60000),
+    injectTraceparent: z.boolean()
+  }).default({ enabled: true, windowMs: 1000, injectTraceparent: false }),
+  domSnapshots: z.object({
+    enabled: z.boolean(),
+    maxPerSession: z.number().int().min(1).max(20),
+    maxBytes: z.number().int().min(10240).max(5242880)
+  }).default({ enabled: false, maxPerSession: 3, maxBytes: 524288 }),
+  screenshots: z.object({
+    enabled: z.boolean(),
+    onError: z.boolean(),
+    maxPerSession: z.number().int().min(1).max(50),
+    format: z.enum(['png', 'jpeg']),
+    redactSelectors: z.array(z.string())
+  }).default({
+    enabled: false,
+    onError: true,
+    maxPerSession: 5,
+    format: 'png',
+    redactSelectors: ['input[type="password"]', '[data-redact]']
+  }),
+  storageState: z.object({
+    enabled: z.boolean(),
+    maxEntries: z.number().int().min(1).max(1000),
+    maxValueLength: z.number().int().min(0).max(10000)
+  }).default({ enabled: true, maxEntries: 100, maxValueLength: 200 }),
+  asyncStacks: z.object({
+    enabled: z.boolean(),
+    maxDepth: z.number().int().min(1).max(20)
+  }).default({ enabled: false, maxDepth: 5 }),
+  preRoll: z.object({
+    enabled: z.boolean(),
+    maxEntries: z.number().int().min(0).max(10000),
+    maxAgeSeconds: z.number().min(1).max(3600)
+  }).default({ enabled: true, maxEntries: 500, maxAgeSeconds: 60 }),
+  deduplication: z.object({
+    enabled: z.boolean(),
+    mode: z.enum(['consecutive', 'window']),
+    windowMs: z.number().min(0).max(600000)
+  }).default({ enabled: true, mode: 'consecutive', windowMs: 5000 }),
+  rateLimit: z.object({
+    enabled: z.boolean(),
+    ratePerSecond: z.number().min(1).max(10000),
+    burst: z.number().min(1).max(100000)
+  }).default({ enabled: true, ratePerSecond: 50, burst: 200 }),
+  triggers: z.object({
+    startOnError: z.boolean(),
+    startOnUrlPatterns: z.array(z.string().refine(isValidRegExp, 'Invalid regular expression')),
+    startOnLogPatterns: z.array(z.string().refine(isValidRegExp, 'Invalid regular expression')),
+    stopAfterQuietSeconds: z.number().min(0).max(3600),
+    stopAfterEntries: z.number().int().min(0),
+    stopOnNavigation: z.boolean()
+  }).default({
+    startOnError: false,
+    startOnUrlPatterns: [],
+    startOnLogPatterns: [],
+    stopAfterQuietSeconds: 0,
+    stopAfterEntries: 0,
+    stopOnNavigation: false
   })
 });
 
@@ -50,6 +161,7 @@ const DEFAULT_CONFIG: ExtensionConfig = {
   captureEnabled: true,
   capturedLevels: ['error', 'warn', 'info', 'log'],
   maxLogsRetained: 1000,
+  filterRules: [],
   autoCaptureOnLoad: false,
   privacy: {
     enablePIIDetection: true,
@@ -65,6 +177,81 @@ const DEFAULT_CONFIG: ExtensionConfig = {
   export: {
     defaultFormat: 'json',
     includeMetadata: true
+  },
+  sourceMaps: {
+    enabled: true,
+    localDirectories: []
+  },
+  // The DevTools Protocol backend shows the browser's "is debugging this tab" banner
+  captureMode: 'patch',
+  contexts: {
+    frames: true,
+    // Instrumented classic workers run from a blob: URL, which changes how relative URLs resolve
+    workers: false
+  },
+  // Payloads can hold personal data even after sanitization, so they are opt-in
+  networkCapture: {
+    captureHeaders: false,
+    captureBodies: false,
+    maxBodyBytes: 16384,
+    allowOrigins: [],
+    denyOrigins: [],
+    captureFrames: false
+  },
+  // Injected headers reach the page's own backend, so injection is opt-in
+  requestCorrelation: {
+    enabled: true,
+    windowMs: 1000,
+    injectTraceparent: false
+  },
+  // Snapshots copy whatever text the page shows, so they are opt-in
+  domSnapshots: {
+    enabled: false,
+    maxPerSession: 3,
+    maxBytes: 524288
+  },
+  // Screenshots show everything on screen, so they are opt-in
+  screenshots: {
+    enabled: false,
+    onError: true,
+    maxPerSession: 5,
+    format: 'png',
+    redactSelectors: ['input[type="password"]', '[data-redact]']
+  },
+  // Values are sanitized and cut short; cookie values are never read
+  storageState: {
+    enabled: true,
+    maxEntries: 100,
+    maxValueLength: 200
+  },
+  // Wrapping timers, promises and listeners costs a stack capture per scheduling call
+  asyncStacks: {
+    enabled: false,
+    maxDepth: 5
+  },
+  // Buffered entries also share performance.maxMemoryMB
+  preRoll: {
+    enabled: true,
+    maxEntries: 500,
+    maxAgeSeconds: 60
+  },
+  deduplication: {
+    enabled: true,
+    mode: 'consecutive',
+    windowMs: 5000
+  },
+  rateLimit: {
+    enabled: true,
+    ratePerSecond: 50,
+    burst: 200
+  },
+  triggers: {
+    startOnError: false,
+    startOnUrlPatterns: [],
+    startOnLogPatterns: [],
+    stopAfterQuietSeconds: 0,
+    stopAfterEntries: 0,
+    stopOnNavigation: false
   }
 };
 
@@ -4,7 +4,7 @@
  * implements error handling for event listeners, and provides debugging/logging for events in development
  */
 
-import type { ExtensionError, CaptureSession, ExtensionConfig } from '../types';
+import type { ExtensionError, CaptureMode, CaptureSession, CaptureTrigger, ExtensionConfig, ScreenshotTrigger } from '../types';
 
 /**
  * Event payload type definitions for type safety
@@ -28,16 +28,20 @@ export interface EventPayloads {
   'storage:session-retrieved': { sessionId: string; logCount: number };
   'storage:session-deleted': { sessionId: string };
   'storage:all-sessions-cleared': { timestamp: Date };
+  'storage:screenshot-saved': { sessionId: string; screenshotId: string; sizeBytes: number };
   'storage:cleanup-completed': { deletedCount: number; reason: string; cutoffTime?: Date; targetSizeBytes?: number };
   'storage:cleanup-failed': { error: string };
   'storage:cleanup': {};
   'storage:shutdown': { timestamp: Date };
 
   // Capture events
-  'capture:started': { sessionId: string };
-  'capture:stopped': { sessionId: string };
+  'capture:started': { sessionId: string; trigger: CaptureTrigger };
+  'capture:stopped': { sessionId: string; trigger: CaptureTrigger };
   'capture:log-captured': { sessionId: string; logLevel: string; containsPII: boolean };
+  'capture:log-repeated': { sessionId: string; logId: string; repeatCount: number };
   'capture:session-ended': { session: CaptureSession };
+  'capture:mode-changed': { sessionId: string; captureMode: Exclude<CaptureMode, 'auto'> };
+  'capture:screenshot-taken': { sessionId: string; screenshotId: string; trigger: ScreenshotTrigger };
 
   // Security events
   'security:pii-detected': { sessionId: string; count: number };
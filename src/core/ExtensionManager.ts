@@ -33,6 +33,9 @@ export class ExtensionManager {
     this.securityEngine = new SecurityEngine();
     this.captureEngine = new CaptureEngine(this.eventBus, this.securityEngine);
     this.exportManager = new ExportManager();
+
+    // Exports embed screenshots, which only storage holds
+    this.exportManager.setScreenshotLoader(id => this.storageManager.getScreenshot(id));
   }
 
   /**
@@ -78,7 +81,10 @@ export class ExtensionManager {
     
     try {
       const session = await this.captureEngine.startSession();
-      this.eventBus.emit('capture:started', { sessionId: session.id });
+      this.eventBus.emit('capture:started', {
+        sessionId: session.id,
+        trigger: session.metadata.startTrigger ?? { reason: 'manual', timestamp: session.startTime }
+      });
       return session;
     } catch (error) {
       const extensionError: ExtensionError = {
@@ -106,7 +112,10 @@ export class ExtensionManager {
     try {
       const session = await this.captureEngine.stopSession();
       if (session) {
-        this.eventBus.emit('capture:stopped', { sessionId: session.id });
+        this.eventBus.emit('capture:stopped', {
+          sessionId: session.id,
+          trigger: session.metadata.stopTrigger ?? { reason: 'manual', timestamp: session.endTime ?? new Date() }
+        });
         await this.storageManager.saveSession(session);
       }
       return session;
@@ -242,6 +251,11 @@ export class ExtensionManager {
       this.storageManager.updateConfig(payload.config);
     });
 
+    // Sessions stopped by a capture trigger do not pass through stopCapture
+    this.eventBus.on('capture:session-ended', async (payload: { session: CaptureSession }) => {
+      await this.storageManager.saveSession(payload.session);
+    });
+
     // Handle storage cleanup events
     this.eventBus.on('storage:cleanup', async () => {
       await this.storageManager.cleanup();
@@ -8,6 +8,8 @@ import type {
   CaptureSession, 
   ExtensionConfig, 
   ExtensionError,
+  Screenshot,
+  ScreenshotReference,
   SessionMetadata 
 } from '../types';
 import type { EventBus } from './EventBus';
@@ -15,7 +17,7 @@ import type { EventBus } from './EventBus';
 /**
  * Database schema version for migration tracking
  */
-const CURRENT_SCHEMA_VERSION = 1;
+const CURRENT_SCHEMA_VERSION = 2;
 
 /**
  * IndexedDB database configuration
@@ -25,7 +27,8 @@ const DATABASE_CONFIG = {
   version: CURRENT_SCHEMA_VERSION,
   stores: {
     sessions: 'sessions',
-    metadata: 'metadata'
+    metadata: 'metadata',
+    screenshots: 'screenshots'
   }
 } as const;
 
@@ -52,6 +55,20 @@ interface EncryptedSessionData {
   schemaVersion: number;
 }
 
+/**
+ * Encrypted screenshot record for storage
+ */
+interface EncryptedScreenshotData {
+  id: string;
+  sessionId: string;
+  timestamp: Date;
+  reference: ScreenshotReference;
+  /** AES-GCM ciphertext of the image */
+  encryptedData: Blob;
+  iv: string;
+  schemaVersion: number;
+}
+
 /**
  * Storage manager that handles all session persistence operations
  */
@@ -251,6 +268,7 @@ export class StorageManager {
       const store = transaction.objectStore(DATABASE_CONFIG.stores.sessions);
       
       await this.promisifyRequest(store.delete(sessionId));
+      await this.deleteScreenshots(IDBKeyRange.only(sessionId), 'sessionId');
       
       // Update storage statistics
       await this.updateStorageStats();
@@ -273,6 +291,97 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Saves a screenshot image encrypted with the session key
+   * @param screenshot - Screenshot reference and the session it belongs to
+   * @param image - Image to store
+   * @returns Promise that resolves when the screenshot is saved
+   * @throws {ExtensionError} When saving fails
+   */
+  async saveScreenshot(screenshot: ScreenshotReference & { sessionId: string }, image: Blob): Promise<void> {
+    this.ensureInitialized();
+    
+    try {
+      if (!this.encryptionKey) {
+        throw new Error('Encryption key not available');
+      }
+      
+      const { sessionId, ...reference } = screenshot;
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      const encryptedBuffer = await crypto.subtle.encrypt(
+        { name: 'AES-GCM', iv },
+        this.encryptionKey,
+        await image.arrayBuffer()
+      );
+      
+      const record: EncryptedScreenshotData = {
+        id: reference.id,
+        sessionId,
+        timestamp: reference.timestamp,
+        reference,
+        encryptedData: new Blob([encryptedBuffer]),
+        iv: Array.from(iv).map(b => b.toString(16).padStart(2, '0')).join(''),
+        schemaVersion: CURRENT_SCHEMA_VERSION
+      };
+      
+      const transaction = this.db!.transaction([DATABASE_CONFIG.stores.screenshots], 'readwrite');
+      await this.promisifyRequest(transaction.objectStore(DATABASE_CONFIG.stores.screenshots).put(record));
+      
+      this.eventBus.emit('storage:screenshot-saved', {
+        sessionId,
+        screenshotId: reference.id,
+        sizeBytes: image.size
+      });
+      
+    } catch (error) {
+      const extensionError: ExtensionError = {
+        name: 'ScreenshotSaveError',
+        message: `Failed to save screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        code: 'SCREENSHOT_SAVE_FAILED',
+        severity: 'medium',
+        reportable: true,
+        context: { 
+          originalError: error,
+          screenshotId: screenshot.id
+        }
+      };
+      throw extensionError;
+    }
+  }
+
+  /**
+   * Retrieves and decrypts a screenshot
+   * @param screenshotId - ID of the screenshot
+   * @returns Promise that resolves to the screenshot or null if not found
+   * @throws {ExtensionError} When retrieval fails
+   */
+  async getScreenshot(screenshotId: string): Promise<Screenshot | null> {
+    this.ensureInitialized();
+    
+    try {
+      const transaction = this.db!.transaction([DATABASE_CONFIG.stores.screenshots], 'readonly');
+      const result = await this.promisifyRequest(
+        transaction.objectStore(DATABASE_CONFIG.stores.screenshots).get(screenshotId)
+      );
+      
+      return result ? await this.decryptScreenshot(result as EncryptedScreenshotData) : null;
+      
+    } catch (error) {
+      const extensionError: ExtensionError = {
+        name: 'ScreenshotRetrievalError',
+        message: `Failed to retrieve screenshot: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        code: 'SCREENSHOT_RETRIEVAL_FAILED',
+        severity: 'medium',
+        reportable: true,
+        context: { 
+          originalError: error,
+          screenshotId
+        }
+      };
+      throw extensionError;
+    }
+  }
+
   /**
    * Updates storage configuration based on extension config
    * @param config - Updated extension configuration
@@ -398,6 +507,9 @@ export class StorageManager {
       
       await this.promisifyRequest(store.clear());
       
+      const screenshotTransaction = this.db!.transaction([DATABASE_CONFIG.stores.screenshots], 'readwrite');
+      await this.promisifyRequest(screenshotTransaction.objectStore(DATABASE_CONFIG.stores.screenshots).clear());
+      
       this.eventBus.emit('storage:all-sessions-cleared', { timestamp: new Date() });
       
     } catch (error) {
@@ -473,6 +585,15 @@ export class StorageManager {
             keyPath: 'key' 
           });
         }
+        
+        // Screenshots are stored apart from sessions so session reads stay small (version 2)
+        if (!db.objectStoreNames.contains(DATABASE_CONFIG.stores.screenshots)) {
+          const screenshotsStore = db.createObjectStore(DATABASE_CONFIG.stores.screenshots, { 
+            keyPath: 'id' 
+          });
+          screenshotsStore.createIndex('sessionId', 'sessionId', { unique: false });
+          screenshotsStore.createIndex('timestamp', 'timestamp', { unique: false });
+        }
       };
     });
   }
@@ -560,6 +681,61 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Decrypts a stored screenshot
+   * @param encryptedData - Encrypted screenshot record
+   * @returns Screenshot with its image as a data URL
+   * @private
+   */
+  private async decryptScreenshot(encryptedData: EncryptedScreenshotData): Promise<Screenshot> {
+    if (!this.encryptionKey) {
+      throw new Error('Encryption key not available');
+    }
+
+    const iv = new Uint8Array(
+      encryptedData.iv.match(/.{2}/g)!.map(byte => parseInt(byte, 16))
+    );
+    
+    const decryptedBuffer = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv },
+      this.encryptionKey,
+      await encryptedData.encryptedData.arrayBuffer()
+    );
+    
+    // btoa takes a binary string; build it in chunks to stay within argument limits
+    const bytes = new Uint8Array(decryptedBuffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+      binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    
+    return {
+      ...encryptedData.reference,
+      timestamp: new Date(encryptedData.reference.timestamp),
+      sessionId: encryptedData.sessionId,
+      dataUrl: `data:${encryptedData.reference.mimeType};base64,${btoa(binary)}`
+    };
+  }
+
+  /**
+   * Deletes screenshots matching a key range on one of the screenshot indexes
+   * @param range - Key range
+   * @param indexName - Index the range applies to
+   * @returns Number of deleted screenshots
+   * @private
+   */
+  private async deleteScreenshots(range: IDBKeyRange, indexName: 'sessionId' | 'timestamp'): Promise<number> {
+    const transaction = this.db!.transaction([DATABASE_CONFIG.stores.screenshots], 'readwrite');
+    const store = transaction.objectStore(DATABASE_CONFIG.stores.screenshots);
+    const keys = await this.promisifyRequest(store.index(indexName).getAllKeys(range));
+    
+    for (const key of keys) {
+      await this.promisifyRequest(store.delete(key));
+    }
+    
+    return keys.length;
+  }
+
   /**
    * Decrypts session data from storage
    * @param encryptedData - Encrypted session data
@@ -629,6 +805,8 @@ export class StorageManager {
         deletedCount++;
       }
       
+      await this.deleteScreenshots(range, 'timestamp');
+      
       // Check storage size limits
       const stats = await this.getStorageStats();
       if (stats.totalSizeBytes > this.maxStorageBytes) {
@@ -11,13 +11,20 @@ import type {
   ExportFormat,
   ExtensionError,
   ProcessingPurpose,
-  ConsentPreferences
+  ConsentPreferences,
+  Screenshot,
+  SessionStorageState,
+  StorageAreaDiff,
+  StorageState
 } from '../types/index.js';
 
 import { EventBus, type EventPayloads } from '../core/EventBus.js';
 import { SecurityEngine } from '../security/SecurityEngine.js';
 import { JsonFormatter } from './formatters/JsonFormatter.js';
 import { MarkdownFormatter } from './formatters/MarkdownFormatter.js';
+import { HarFormatter } from './formatters/HarFormatter.js';
+import { getSnapshotFileName } from '../capture/DomSnapshotter.js';
+import { getScreenshotFileName } from '../capture/ScreenshotCapture.js';
 // import { GitHubIssueFormatter } from './formatters/GitHubIssueFormatter.js';
 
 /**
@@ -42,8 +49,33 @@ export interface ExportResult {
   sessionId: string;
   /** Any warnings generated during export */
   warnings: string[];
+  /** Files exported alongside the data, such as DOM snapshots and screenshots */
+  attachments?: ExportAttachment[];
 }
 
+/**
+ * File exported alongside the formatted data
+ */
+export interface ExportAttachment {
+  /** File name, referenced from the formatted data */
+  name: string;
+  /** MIME type */
+  mimeType: string;
+  /** File content */
+  data: string;
+  /** Set when the content is base64-encoded binary data */
+  encoding?: 'base64';
+  /** Size of the content in bytes */
+  size: number;
+}
+
+/**
+ * Loads a stored screenshot for export
+ * @param screenshotId - Screenshot identifier
+ * @returns Decrypted screenshot, or null if it no longer exists
+ */
+export type ScreenshotLoader = (screenshotId: string) => Promise<Screenshot | null>;
+
 /**
  * Export progress information for long-running exports
  */
@@ -117,7 +149,7 @@ export interface ExportStatistics {
  */
 export interface ExportFormatter {
   /** Supported export format */
-  readonly format: ExportFormat;
+  readonly supportedFormat: ExportFormat;
   
   /**
    * Formats a capture session for export
@@ -164,6 +196,7 @@ export class ExportManager {
   private readonly customTemplates: Map<string, ExportTemplate> = new Map();
   private readonly maxConcurrentExports: number = 3;
   private readonly maxHistorySize: number = 1000;
+  private screenshotLoader: ScreenshotLoader | null = null;
 
   /**
    * Creates a new ExportManager instance
@@ -262,6 +295,7 @@ export class ExportManager {
       // Format the session data
       this.updateProgress(exportId, { ...progress, stage: 'formatting', progress: 70, currentOperation: 'Formatting data' });
       const formattedData = await formatter.format(processedSession, config, template);
+      const attachments = await this.createAttachments(processedSession);
       
       // Create export result
       const exportResult: ExportResult = {
@@ -276,6 +310,10 @@ export class ExportManager {
         warnings: []
       };
 
+      if (attachments.length > 0) {
+        exportResult.attachments = attachments;
+      }
+
       // Finalize export
       this.updateProgress(exportId, { 
         ...progress, 
@@ -363,6 +401,14 @@ export class ExportManager {
     return false;
   }
 
+  /**
+   * Sets how screenshot images are loaded; without a loader exports only reference them
+   * @param loader - Screenshot loader, typically backed by StorageManager.getScreenshot
+   */
+  public setScreenshotLoader(loader: ScreenshotLoader): void {
+    this.screenshotLoader = loader;
+  }
+
   /**
    * Registers a custom export template
    * @param template - Template configuration
@@ -482,11 +528,13 @@ export class ExportManager {
     // Initialize built-in formatters
     const jsonFormatter = new JsonFormatter();
     const markdownFormatter = new MarkdownFormatter();
+    const harFormatter = new HarFormatter();
     // const githubIssueFormatter = new GitHubIssueFormatter();
     
-    this.formatters.set(jsonFormatter.format, jsonFormatter);
-    this.formatters.set(markdownFormatter.format, markdownFormatter);
-    // this.formatters.set(githubIssueFormatter.format, githubIssueFormatter);
+    this.formatters.set(jsonFormatter.supportedFormat, jsonFormatter);
+    this.formatters.set(markdownFormatter.supportedFormat, markdownFormatter);
+    this.formatters.set(harFormatter.supportedFormat, harFormatter);
+    // this.formatters.set(githubIssueFormatter.supportedFormat, githubIssueFormatter);
     
     // Initialize format statistics
     for (const format of this.formatters.keys()) {
@@ -506,6 +554,83 @@ export class ExportManager {
     });
   }
 
+  /**
+   * Creates the files exported alongside the formatted data
+   * @param session - Processed session
+   * @returns DOM snapshots as HTML files and screenshots as base64 images
+   * @private
+   */
+  private async createAttachments(session: CaptureSession): Promise<ExportAttachment[]> {
+    const attachments: ExportAttachment[] = (session.context.domSnapshots ?? []).map(snapshot => ({
+      name: getSnapshotFileName(snapshot.id),
+      mimeType: 'text/html',
+      data: snapshot.html,
+      size: new Blob([snapshot.html]).size
+    }));
+
+    if (!this.screenshotLoader) {
+      return attachments;
+    }
+
+    for (const reference of session.context.screenshots ?? []) {
+      const screenshot = await this.screenshotLoader(reference.id).catch(() => null);
+      if (!screenshot) {
+        continue;
+      }
+
+      const data = screenshot.dataUrl.substring(screenshot.dataUrl.indexOf(',') + 1);
+      attachments.push({
+        name: getScreenshotFileName(screenshot),
+        mimeType: screenshot.mimeType,
+        data,
+        encoding: 'base64',
+        size: Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0)
+      });
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Scans recorded storage values for PII
+   * @param storageState - Storage state recorded for the session
+   * @returns Copy with storage values sanitized
+   * @private
+   */
+  private sanitizeStorageState(storageState: SessionStorageState): SessionStorageState {
+    const sanitizeValues = (values: Record<string, string>): Record<string, string> =>
+      Object.fromEntries(Object.entries(values).map(([key, value]) => [key, this.securityEngine.sanitizeText(value)]));
+    const sanitizeState = (state: StorageState): StorageState => ({
+      ...state,
+      localStorage: sanitizeValues(state.localStorage),
+      sessionStorage: sanitizeValues(state.sessionStorage)
+    });
+    const sanitizeArea = (area: StorageAreaDiff): StorageAreaDiff => ({
+      ...area,
+      added: sanitizeValues(area.added),
+      changed: Object.fromEntries(Object.entries(area.changed).map(([key, change]) => [key, {
+        before: this.securityEngine.sanitizeText(change.before),
+        after: this.securityEngine.sanitizeText(change.after)
+      }]))
+    });
+
+    const sanitized: SessionStorageState = { initial: sanitizeState(storageState.initial) };
+
+    if (storageState.final) {
+      sanitized.final = sanitizeState(storageState.final);
+    }
+
+    if (storageState.diff) {
+      sanitized.diff = {
+        ...storageState.diff,
+        localStorage: sanitizeArea(storageState.diff.localStorage),
+        sessionStorage: sanitizeArea(storageState.diff.sessionStorage)
+      };
+    }
+
+    return sanitized;
+  }
+
   /**
    * Processes a session for export with security scanning and sanitization
    * @param session - Original session
@@ -524,7 +649,8 @@ export class ExportManager {
     // Create a copy of the session to avoid modifying the original
     const processedSession: CaptureSession = {
       ...session,
-      logs: [...session.logs]
+      logs: [...session.logs],
+      context: { ...session.context }
     };
 
     // Security processing if sensitive data handling is enabled
@@ -577,6 +703,73 @@ export class ExportManager {
         // Yield control to prevent blocking
         await new Promise(resolve => setTimeout(resolve, 1));
       }
+
+      // Request URLs often carry tokens and identifiers in their query strings
+      if (processedSession.context.networkRequests) {
+        processedSession.context.networkRequests = processedSession.context.networkRequests.map(request => ({
+          ...request,
+          url: this.securityEngine.sanitizeText(request.url, 0.7)
+        }));
+      }
+
+      if (processedSession.context.connections) {
+        processedSession.context.connections = processedSession.context.connections.map(connection => ({
+          ...connection,
+          url: this.securityEngine.sanitizeText(connection.url, 0.7)
+        }));
+      }
+
+      if (processedSession.context.navigation) {
+        processedSession.context.navigation = processedSession.context.navigation.map(visit => ({
+          ...visit,
+          url: this.securityEngine.sanitizeText(visit.url, 0.7),
+          title: this.securityEngine.sanitizeText(visit.title)
+        }));
+      }
+
+      // Slowest resource URLs and script sources can carry the same query strings
+      if (processedSession.context.performance) {
+        const performance = { ...processedSession.context.performance };
+        if (performance.resources) {
+          performance.resources = performance.resources.map(summary => ({
+            ...summary,
+            slowest: { ...summary.slowest, url: this.securityEngine.sanitizeText(summary.slowest.url, 0.7) }
+          }));
+        }
+        if (performance.timeline) {
+          performance.timeline = performance.timeline.map(event => event.attribution
+            ? { ...event, attribution: this.securityEngine.sanitizeText(event.attribution, 0.7) }
+            : event);
+        }
+        processedSession.context.performance = performance;
+      }
+
+      if (processedSession.context.domSnapshots) {
+        processedSession.context.domSnapshots = processedSession.context.domSnapshots.map(snapshot => ({
+          ...snapshot,
+          url: this.securityEngine.sanitizeText(snapshot.url, 0.7),
+          html: this.securityEngine.sanitizeText(snapshot.html)
+        }));
+      }
+
+      // Storage values only went through the key-based sanitizer at capture
+      if (processedSession.context.storageState) {
+        processedSession.context.storageState = this.sanitizeStorageState(processedSession.context.storageState);
+      }
+
+      // Breadcrumb text is scanned at capture only when PII detection is on
+      if (processedSession.context.breadcrumbs) {
+        processedSession.context.breadcrumbs = processedSession.context.breadcrumbs.map(breadcrumb => {
+          const sanitized = { ...breadcrumb };
+          if (sanitized.text) {
+            sanitized.text = this.securityEngine.sanitizeText(sanitized.text);
+          }
+          if (sanitized.data?.['url'] !== undefined) {
+            sanitized.data = { ...sanitized.data, url: this.securityEngine.sanitizeText(String(sanitized.data['url']), 0.7) };
+          }
+          return sanitized;
+        });
+      }
     }
 
     // Filter out stack traces if not included
@@ -589,6 +782,12 @@ export class ExportManager {
     // Filter out context if not included
     if (!config.includeContext) {
       delete processedSession.context.networkRequests;
+      delete processedSession.context.connections;
+      delete processedSession.context.breadcrumbs;
+      delete processedSession.context.domSnapshots;
+      delete processedSession.context.screenshots;
+      delete processedSession.context.storageState;
+      delete processedSession.context.navigation;
       delete processedSession.context.performance;
     }
 
@@ -0,0 +1,755 @@
+/**
+ * HarFormatter.ts
+ * Export formatter for HAR 1.2 - exports the session's network activity as an HTTP Archive
+ * that loads in browser DevTools and HAR viewers. Console entries travel in custom
+ * `_consoleLogs` fields so the network/console correlation survives the export
+ */
+
+import type {
+  CaptureSession,
+  ExportConfig,
+  ExtensionError,
+  LogEntry,
+  NetworkConnection,
+  NetworkPayload,
+  NetworkRequest,
+  NetworkTraceContext
+} from '../../types/index.js';
+
+import type { ExportFormatter, ExportTemplate } from '../ExportManager.js';
+
+/**
+ * HAR specification version produced by this formatter
+ */
+const HAR_VERSION = '1.2';
+
+/**
+ * Identifier of the single page a session covers
+ */
+const HAR_PAGE_ID = 'page_1';
+
+/**
+ * Name/value pair used for headers and query parameters
+ */
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Console entry carried in the custom `_consoleLogs` field
+ */
+interface HarConsoleLog {
+  id: string;
+  timestamp: string;
+  level: string;
+  message: string;
+  source?: string;
+  stackTrace?: string;
+  /** `_requestId` of the entry whose response the log followed */
+  relatedRequestId?: string;
+}
+
+/**
+ * WebSocket message in Chrome's `_webSocketMessages` extension
+ */
+interface HarWebSocketMessage {
+  type: 'send' | 'receive';
+  /** Epoch seconds */
+  time: number;
+  /** 1 for text, 2 for binary */
+  opcode: number;
+  data: string;
+}
+
+/**
+ * EventSource message carried in the custom `_eventSourceMessages` field
+ */
+interface HarEventSourceMessage {
+  /** Epoch seconds */
+  time: number;
+  eventName: string;
+  data: string;
+}
+
+/**
+ * HAR request object
+ */
+interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: {
+    mimeType: string;
+    text: string;
+    comment?: string;
+  };
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+/**
+ * HAR response object
+ */
+interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    comment?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  comment?: string;
+}
+
+/**
+ * HAR entry for a single request
+ */
+interface HarEntry {
+  pageref: string;
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  comment?: string;
+  /** Capture id of the request, referenced by console entries */
+  _requestId?: string;
+  /** traceparent and x-request-id headers seen on the request */
+  _trace?: NetworkTraceContext;
+  /** Ids of console entries logged while the request was in flight */
+  _consoleLogs?: string[];
+  /** Chrome resource type, set for connections */
+  _resourceType?: string;
+  /** WebSocket frames */
+  _webSocketMessages?: HarWebSocketMessage[];
+  /** EventSource messages */
+  _eventSourceMessages?: HarEventSourceMessage[];
+}
+
+/**
+ * Complete HAR document
+ */
+interface HarDocument {
+  log: {
+    version: string;
+    creator: {
+      name: string;
+      version: string;
+    };
+    pages: Array<{
+      startedDateTime: string;
+      id: string;
+      title: string;
+      pageTimings: {
+        onContentLoad: number;
+        onLoad: number;
+      };
+    }>;
+    entries: HarEntry[];
+    comment?: string;
+    /** Every console entry of the session */
+    _consoleLogs: HarConsoleLog[];
+  };
+}
+
+/**
+ * Chrome resource types for connection entries
+ */
+const CONNECTION_RESOURCE_TYPES: Record<NetworkConnection['type'], string> = {
+  websocket: 'websocket',
+  eventsource: 'eventsource',
+  beacon: 'ping'
+};
+
+/**
+ * HAR export formatter implementation
+ * Maps captured network requests to HAR entries; headers and bodies are included when
+ * network payload capture recorded them, and are already sanitized at that point
+ */
+export class HarFormatter implements ExportFormatter {
+  /** Supported export format */
+  public readonly supportedFormat = 'har' as const;
+
+  /**
+   * Formats a capture session as a HAR document
+   * @param session - Session to format
+   * @param config - Export configuration
+   * @param template - Unused; HAR has a fixed schema
+   * @returns Promise resolving to formatted HAR JSON string
+   */
+  public async format(
+    session: CaptureSession,
+    config: ExportConfig,
+    template?: ExportTemplate
+  ): Promise<string> {
+    try {
+      return JSON.stringify(this.buildDocument(session, config), null, 2);
+    } catch (error) {
+      throw this.createHarError(
+        'HAR_FORMAT_ERROR',
+        `Failed to format session as HAR: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'high',
+        { sessionId: session.id, error }
+      );
+    }
+  }
+
+  /**
+   * Validates export configuration for HAR format
+   * @param config - Configuration to validate
+   * @returns Array of validation errors (empty if valid)
+   */
+  public validateConfig(config: ExportConfig): string[] {
+    const errors: string[] = [];
+
+    if (config.format !== 'har') {
+      errors.push('Configuration format must be "har"');
+    }
+
+    // Network requests are part of the session context
+    if (!config.includeContext) {
+      errors.push('HAR export requires includeContext to include network requests');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Gets default configuration for HAR format
+   * @returns Default export configuration
+   */
+  public getDefaultConfig(): Partial<ExportConfig> {
+    return {
+      format: 'har',
+      includeSensitiveData: false,
+      includeStackTraces: false,
+      includeContext: true,
+      includePerformance: false,
+      formatting: {
+        timestamps: true,
+        logLevels: true,
+        sourceInfo: true
+      }
+    };
+  }
+
+  /**
+   * Estimates output size for a session
+   * @param session - Session to estimate
+   * @param config - Export configuration
+   * @returns Estimated size in bytes
+   */
+  public estimateSize(session: CaptureSession, config: ExportConfig): number {
+    let estimatedSize = 600; // log, creator and page
+
+    for (const request of session.context.networkRequests ?? []) {
+      estimatedSize += 700 + request.url.length * 2; // entry structure plus query string
+      estimatedSize += this.estimatePayloadSize(request.request) + this.estimatePayloadSize(request.response);
+    }
+
+    for (const connection of session.context.connections ?? []) {
+      estimatedSize += 700 + connection.url.length * 2;
+      for (const frame of connection.frames ?? []) {
+        estimatedSize += 80 + this.estimatePayloadSize(frame.payload);
+      }
+    }
+
+    for (const log of session.logs) {
+      estimatedSize += 150 + log.message.length * 1.2;
+
+      if (config.includeStackTraces && log.stackTrace) {
+        estimatedSize += log.stackTrace.length * 1.2;
+      }
+    }
+
+    return Math.round(estimatedSize);
+  }
+
+  /**
+   * Builds the HAR document for a session
+   * @param session - Session to export
+   * @param config - Export configuration
+   * @returns HAR document
+   * @private
+   */
+  private buildDocument(session: CaptureSession, config: ExportConfig): HarDocument {
+    const exportedAt = new Date();
+    const entries = [
+      ...(session.context.networkRequests ?? []).map(request => this.createEntry(request, session.logs)),
+      ...(session.context.connections ?? []).map(connection => this.createConnectionEntry(connection, session.logs, exportedAt))
+    ].sort((a, b) => Date.parse(a.startedDateTime) - Date.parse(b.startedDateTime));
+
+    const document: HarDocument = {
+      log: {
+        version: HAR_VERSION,
+        creator: {
+          name: 'ConsoleCapture Pro',
+          version: session.context.versions.extension
+        },
+        pages: [{
+          startedDateTime: session.startTime.toISOString(),
+          id: HAR_PAGE_ID,
+          title: session.context.title || session.context.url,
+          pageTimings: {
+            onContentLoad: -1,
+            onLoad: -1
+          }
+        }],
+        entries,
+        _consoleLogs: session.logs.map(log => this.createConsoleLog(log, config))
+      }
+    };
+
+    if (!session.context.networkRequests && !session.context.connections) {
+      document.log.comment = 'No network requests were captured for this session';
+    }
+
+    return document;
+  }
+
+  /**
+   * Creates the HAR entry for a captured request
+   * Only the total duration is known, so it is reported as waiting time
+   * @param request - Captured request
+   * @param logs - Session log entries, for correlation
+   * @returns HAR entry
+   * @private
+   */
+  private createEntry(request: NetworkRequest, logs: LogEntry[]): HarEntry {
+    const startedAt = new Date(request.timestamp);
+    const time = Math.max(0, request.responseTime);
+
+    const entry: HarEntry = {
+      pageref: HAR_PAGE_ID,
+      startedDateTime: startedAt.toISOString(),
+      time,
+      request: this.createRequest(request),
+      response: this.createResponse(request),
+      cache: {},
+      timings: {
+        blocked: -1,
+        dns: -1,
+        connect: -1,
+        send: 0,
+        wait: time,
+        receive: 0,
+        ssl: -1
+      }
+    };
+
+    if (request.failed) {
+      entry.comment = 'Request failed';
+    }
+
+    if (request.id) {
+      entry._requestId = request.id;
+    }
+
+    if (request.trace) {
+      entry._trace = request.trace;
+    }
+
+    const inFlightLogs = this.findConsoleLogs(logs, startedAt.getTime(), startedAt.getTime() + time);
+    if (inFlightLogs.length > 0) {
+      entry._consoleLogs = inFlightLogs;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Creates the HAR entry for a WebSocket, EventSource or beacon
+   * Open connections last until the export; their frames follow Chrome's HAR extensions
+   * @param connection - Recorded connection
+   * @param logs - Session log entries, for correlation
+   * @param exportedAt - Export time, the end of connections still open
+   * @returns HAR entry
+   * @private
+   */
+  private createConnectionEntry(connection: NetworkConnection, logs: LogEntry[], exportedAt: Date): HarEntry {
+    const openedAt = new Date(connection.openedAt);
+    const endedAt = connection.closedAt ? new Date(connection.closedAt) : exportedAt;
+    const time = Math.max(0, endedAt.getTime() - openedAt.getTime());
+    const frames = connection.frames ?? [];
+    const isBeacon = connection.type === 'beacon';
+
+    // Reaching the open state implies the handshake succeeded
+    const connected = !isBeacon && connection.state !== 'failed' && connection.state !== 'connecting';
+
+    const request: HarRequest = {
+      method: isBeacon ? 'POST' : 'GET',
+      url: connection.url,
+      httpVersion: '',
+      cookies: [],
+      headers: [],
+      queryString: this.parseQueryString(connection.url),
+      headersSize: -1,
+      bodySize: isBeacon ? connection.bytesSent : 0
+    };
+
+    const beaconPayload = isBeacon ? frames[0]?.payload : undefined;
+    const beaconText = this.getBodyText(beaconPayload);
+    if (beaconText !== undefined) {
+      request.postData = {
+        mimeType: beaconPayload?.contentType ?? '',
+        text: beaconText
+      };
+    }
+
+    const entry: HarEntry = {
+      pageref: HAR_PAGE_ID,
+      startedDateTime: openedAt.toISOString(),
+      time,
+      request,
+      response: {
+        status: connected ? (connection.type === 'websocket' ? 101 : 200) : 0,
+        statusText: '',
+        httpVersion: '',
+        cookies: [],
+        headers: [],
+        content: {
+          size: connection.bytesReceived,
+          mimeType: connection.type === 'eventsource' ? 'text/event-stream' : 'x-unknown'
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1
+      },
+      cache: {},
+      timings: {
+        blocked: -1,
+        dns: -1,
+        connect: -1,
+        send: 0,
+        wait: time,
+        receive: 0,
+        ssl: -1
+      },
+      _resourceType: CONNECTION_RESOURCE_TYPES[connection.type]
+    };
+
+    const comment = this.describeConnection(connection);
+    if (comment) {
+      entry.comment = comment;
+    }
+
+    if (connection.type === 'websocket') {
+      entry._webSocketMessages = frames.map(frame => ({
+        type: frame.direction === 'sent' ? 'send' : 'receive',
+        time: new Date(frame.timestamp).getTime() / 1000,
+        opcode: frame.binary ? 2 : 1,
+        data: this.getBodyText(frame.payload) ?? ''
+      }));
+    } else if (connection.type === 'eventsource') {
+      entry._eventSourceMessages = frames.map(frame => ({
+        time: new Date(frame.timestamp).getTime() / 1000,
+        eventName: frame.event ?? 'message',
+        data: this.getBodyText(frame.payload) ?? ''
+      }));
+    }
+
+    const inFlightLogs = this.findConsoleLogs(logs, openedAt.getTime(), openedAt.getTime() + time);
+    if (inFlightLogs.length > 0) {
+      entry._consoleLogs = inFlightLogs;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Creates the HAR request object
+   * @param request - Captured request
+   * @returns HAR request
+   * @private
+   */
+  private createRequest(request: NetworkRequest): HarRequest {
+    const payload = request.request;
+
+    const harRequest: HarRequest = {
+      method: request.method.toUpperCase(),
+      url: request.url,
+      httpVersion: '',
+      cookies: [],
+      headers: this.toNameValues(payload?.headers),
+      queryString: this.parseQueryString(request.url),
+      headersSize: -1,
+      bodySize: payload?.bodySize ?? -1
+    };
+
+    const text = this.getBodyText(payload);
+    if (text !== undefined) {
+      harRequest.postData = {
+        mimeType: payload?.contentType ?? '',
+        text
+      };
+
+      const bodyComment = this.describeBody(payload);
+      if (bodyComment) {
+        harRequest.postData.comment = bodyComment;
+      }
+    }
+
+    const headerComment = this.describeStrippedHeaders(payload);
+    if (headerComment) {
+      harRequest.comment = headerComment;
+    }
+
+    return harRequest;
+  }
+
+  /**
+   * Creates the HAR response object
+   * @param request - Captured request
+   * @returns HAR response
+   * @private
+   */
+  private createResponse(request: NetworkRequest): HarResponse {
+    const payload = request.response;
+    const text = this.getBodyText(payload);
+
+    const response: HarResponse = {
+      status: request.status,
+      statusText: '',
+      httpVersion: '',
+      cookies: [],
+      headers: this.toNameValues(payload?.headers),
+      content: {
+        size: payload?.bodySize ?? text?.length ?? 0,
+        mimeType: payload?.contentType ?? 'x-unknown'
+      },
+      redirectURL: payload?.headers?.['location'] ?? '',
+      headersSize: -1,
+      bodySize: payload?.bodySize ?? -1
+    };
+
+    if (text !== undefined) {
+      response.content.text = text;
+    }
+
+    const bodyComment = this.describeBody(payload);
+    if (bodyComment) {
+      response.content.comment = bodyComment;
+    }
+
+    const headerComment = this.describeStrippedHeaders(payload);
+    if (headerComment) {
+      response.comment = headerComment;
+    }
+
+    return response;
+  }
+
+  /**
+   * Creates the `_consoleLogs` record for a log entry
+   * @param log - Log entry
+   * @param config - Export configuration
+   * @returns Console record
+   * @private
+   */
+  private createConsoleLog(log: LogEntry, config: ExportConfig): HarConsoleLog {
+    const record: HarConsoleLog = {
+      id: log.id,
+      timestamp: new Date(log.timestamp).toISOString(),
+      level: log.level,
+      message: !config.includeSensitiveData && log.sanitizedMessage ? log.sanitizedMessage : log.message
+    };
+
+    if (config.formatting?.sourceInfo !== false && log.source) {
+      record.source = `${log.source.file}:${log.source.line}:${log.source.column}`;
+    }
+
+    if (config.includeStackTraces && log.stackTrace) {
+      record.stackTrace = log.stackTrace;
+    }
+
+    if (log.relatedRequestId) {
+      record.relatedRequestId = log.relatedRequestId;
+    }
+
+    return record;
+  }
+
+  /**
+   * Describes how a connection ended and what was not kept
+   * @param connection - Recorded connection
+   * @returns Comment, or undefined when there is nothing to note
+   * @private
+   */
+  private describeConnection(connection: NetworkConnection): string | undefined {
+    const notes: string[] = [];
+
+    if (connection.type === 'beacon') {
+      notes.push(connection.state === 'failed' ? 'Beacon refused by the browser' : 'Beacon queued; the response is not observable');
+    } else if (connection.state === 'failed') {
+      notes.push('Connection failed');
+    } else if (connection.closeCode !== undefined) {
+      notes.push(`Closed with code ${connection.closeCode}${connection.closeReason ? ` (${connection.closeReason})` : ''}`);
+    } else if (!connection.closedAt) {
+      notes.push('Still open when exported');
+    }
+
+    if (connection.errorCount > 0) {
+      notes.push(`${connection.errorCount} error events`);
+    }
+
+    if (connection.droppedFrames) {
+      notes.push(`${connection.droppedFrames} earlier frames not kept`);
+    }
+
+    return notes.length > 0 ? notes.join('; ') : undefined;
+  }
+
+  /**
+   * Finds console entries logged within a time window
+   * @param logs - Session log entries
+   * @param start - Window start, epoch milliseconds
+   * @param end - Window end, epoch milliseconds
+   * @returns Ids of the entries in the window
+   * @private
+   */
+  private findConsoleLogs(logs: LogEntry[], start: number, end: number): string[] {
+    return logs
+      .filter(log => {
+        const logTime = new Date(log.timestamp).getTime();
+        return logTime >= start && logTime <= end;
+      })
+      .map(log => log.id);
+  }
+
+  /**
+   * Converts captured headers to HAR name/value pairs
+   * @param headers - Headers by name
+   * @returns HAR headers
+   * @private
+   */
+  private toNameValues(headers: Record<string, string> | undefined): HarNameValue[] {
+    return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }));
+  }
+
+  /**
+   * Parses the query string of a request URL
+   * @param url - Request URL
+   * @returns HAR query parameters
+   * @private
+   */
+  private parseQueryString(url: string): HarNameValue[] {
+    try {
+      return Array.from(new URL(url).searchParams.entries()).map(([name, value]) => ({ name, value }));
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Gets a captured body as text
+   * @param payload - Captured payload
+   * @returns Body text, or undefined when no body was captured
+   * @private
+   */
+  private getBodyText(payload: NetworkPayload | undefined): string | undefined {
+    if (payload?.body === undefined) {
+      return undefined;
+    }
+
+    return typeof payload.body === 'string' ? payload.body : JSON.stringify(payload.body);
+  }
+
+  /**
+   * Describes why a body is incomplete or missing
+   * @param payload - Captured payload
+   * @returns Comment, or undefined when the body is complete
+   * @private
+   */
+  private describeBody(payload: NetworkPayload | undefined): string | undefined {
+    if (payload?.bodyOmitted) {
+      return `Body not captured: ${payload.bodyOmitted}`;
+    }
+
+    if (payload?.truncated) {
+      return 'Body truncated to the configured capture size';
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Lists the headers removed before storage
+   * @param payload - Captured payload
+   * @returns Comment, or undefined when no headers were removed
+   * @private
+   */
+  private describeStrippedHeaders(payload: NetworkPayload | undefined): string | undefined {
+    if (!payload?.strippedHeaders?.length) {
+      return undefined;
+    }
+
+    return `Headers removed before storage: ${payload.strippedHeaders.join(', ')}`;
+  }
+
+  /**
+   * Estimates the exported size of a captured payload
+   * @param payload - Captured payload
+   * @returns Estimated size in bytes
+   * @private
+   */
+  private estimatePayloadSize(payload: NetworkPayload | undefined): number {
+    if (!payload) {
+      return 0;
+    }
+
+    const headerSize = Object.entries(payload.headers ?? {})
+      .reduce((sum, [name, value]) => sum + name.length + value.length + 30, 0);
+
+    return headerSize + (this.getBodyText(payload)?.length ?? 0) * 1.2;
+  }
+
+  /**
+   * Creates a standardized HAR formatting error
+   * @param code - Error code
+   * @param message - Error message
+   * @param severity - Error severity
+   * @param context - Additional context
+   * @returns ExtensionError instance
+   * @private
+   */
+  private createHarError(
+    code: string,
+    message: string,
+    severity: 'low' | 'medium' | 'high' | 'critical',
+    context?: Record<string, unknown>
+  ): ExtensionError {
+    return {
+      name: 'HarFormatterError',
+      message,
+      code,
+      severity,
+      reportable: true,
+      context: {
+        component: 'HarFormatter',
+        timestamp: new Date().toISOString(),
+        ...context
+      }
+    } as ExtensionError;
+  }
+}
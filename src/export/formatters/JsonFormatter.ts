@@ -6,17 +6,25 @@
  */
 
 import type {
+  Breadcrumb,
   CaptureSession,
+  DomSnapshot,
+  ScreenshotReference,
   ExportConfig,
   ExtensionError,
   LogEntry,
   SessionContext,
   SessionMetadata,
   PerformanceMetrics,
-  NetworkRequest
+  PerformanceEvent,
+  NetworkRequest,
+  NetworkConnection
 } from '../../types/index.js';
 
 import type { ExportFormatter, ExportTemplate } from '../ExportManager.js';
+import { describeRequest } from '../../capture/RequestCorrelator.js';
+import { getSnapshotFileName } from '../../capture/DomSnapshotter.js';
+import { getScreenshotFileName } from '../../capture/ScreenshotCapture.js';
 
 /**
  * JSON export schema version for compatibility tracking
@@ -42,6 +50,56 @@ interface JsonExportMetadata {
   processingNotes: string[];
 }
 
+/**
+ * Exported log entry
+ */
+type JsonLogEntry = Partial<LogEntry> & {
+  /** Summary of the request the log followed, e.g. "POST /api/orders → 500" */
+  followedRequest?: string;
+};
+
+/**
+ * Log, user action or performance problem on the session timeline
+ */
+type JsonTimelineEntry =
+  | {
+      /** Event time, ISO 8601 */
+      timestamp: string;
+      kind: 'log';
+      /** ID of the entry in `logs` */
+      logId: string;
+      /** Log level */
+      level: string;
+    }
+  | (Omit<Breadcrumb, 'timestamp'> & {
+      /** Event time, ISO 8601 */
+      timestamp: string;
+      kind: 'action';
+    })
+  | (Omit<PerformanceEvent, 'timestamp' | 'type'> & {
+      /** Event time, ISO 8601 */
+      timestamp: string;
+      kind: 'performance';
+      /** Kind of performance event */
+      event: PerformanceEvent['type'];
+    });
+
+/**
+ * DOM snapshot reference; the HTML itself is exported as an attachment
+ */
+type JsonDomSnapshot = Omit<DomSnapshot, 'html'> & {
+  /** Name of the attachment holding the HTML */
+  attachment: string;
+};
+
+/**
+ * Screenshot reference; the image itself is exported as an attachment
+ */
+type JsonScreenshot = ScreenshotReference & {
+  /** Name of the attachment holding the image */
+  attachment: string;
+};
+
 /**
  * Complete JSON export structure
  */
@@ -59,16 +117,28 @@ interface JsonExportData {
   /** Session context (filtered based on config) */
   context?: Partial<SessionContext>;
   /** Log entries (sanitized based on config) */
-  logs: Array<Partial<LogEntry>>;
+  logs: JsonLogEntry[];
   /** Performance metrics (if included) */
   performance?: PerformanceMetrics;
   /** Network requests (if included) */
   networkRequests?: NetworkRequest[];
+  /** WebSocket, EventSource and beacon connections (if included) */
+  connections?: NetworkConnection[];
+  /** Logs interleaved with user action breadcrumbs (if breadcrumbs were recorded) */
+  timeline?: JsonTimelineEntry[];
+  /** Page snapshots taken for errors (if included) */
+  domSnapshots?: JsonDomSnapshot[];
+  /** Screenshots taken for errors or with the keyboard shortcut (if included) */
+  screenshots?: JsonScreenshot[];
   /** Export statistics */
   statistics: {
     totalLogs: number;
     logsByLevel: Record<string, number>;
     sanitizedLogs: number;
+    /** Occurrences collapsed into earlier entries as repeats */
+    collapsedRepeats: number;
+    /** Entries dropped by rate limiting */
+    sampledOutLogs: number;
     dataSize: {
       originalBytes: number;
       exportedBytes: number;
@@ -101,7 +171,7 @@ interface JsonFormattingOptions {
  */
 export class JsonFormatter implements ExportFormatter {
   /** Supported export format */
-  public readonly format = 'json' as const;
+  public readonly supportedFormat = 'json' as const;
   
   /** Default formatting options */
   private readonly defaultOptions: JsonFormattingOptions = {
@@ -234,6 +304,15 @@ export class JsonFormatter implements ExportFormatter {
       if (session.context.networkRequests) {
         estimatedSize += session.context.networkRequests.length * 150;
       }
+      
+      for (const connection of session.context.connections ?? []) {
+        estimatedSize += 250 + (connection.frames?.length ?? 0) * 100;
+      }
+      
+      // Breadcrumbs appear in the context and again on the timeline, next to a line per log
+      if (session.context.breadcrumbs?.length) {
+        estimatedSize += session.context.breadcrumbs.length * 300 + session.logs.length * 80;
+      }
     }
     
     // Performance metrics if included
@@ -300,17 +379,50 @@ export class JsonFormatter implements ExportFormatter {
         contextData.networkRequests = session.context.networkRequests;
       }
       
+      if (session.context.connections) {
+        contextData.connections = session.context.connections;
+      }
+      
+      if (session.context.breadcrumbs) {
+        contextData.breadcrumbs = session.context.breadcrumbs;
+      }
+      
+      if (session.context.storageState) {
+        contextData.storageState = session.context.storageState;
+      }
+      
+      if (session.context.navigation) {
+        contextData.navigation = session.context.navigation;
+      }
+      
       if (config.includePerformance && session.context.performance) {
         contextData.performance = session.context.performance;
       }
     }
 
     // Process log entries based on configuration
-    const processedLogs = this.processLogEntries(session.logs, config, processingNotes);
+    const processedLogs = this.processLogEntries(session.logs, session.context, config, processingNotes);
     
     // Extract performance metrics
     const performanceData = config.includePerformance ? session.context.performance : undefined;
     const networkRequests = config.includeContext ? session.context.networkRequests : undefined;
+    const connections = config.includeContext ? session.context.connections : undefined;
+    const domSnapshots = config.includeContext
+      ? session.context.domSnapshots?.map(({ html, ...snapshot }) => ({
+          ...snapshot,
+          attachment: getSnapshotFileName(snapshot.id)
+        }))
+      : undefined;
+    const screenshots = config.includeContext
+      ? session.context.screenshots?.map(screenshot => ({
+          ...screenshot,
+          attachment: getScreenshotFileName(screenshot)
+        }))
+      : undefined;
+    const performanceEvents = config.includePerformance ? session.context.performance?.timeline ?? [] : [];
+    const timeline = config.includeContext && (session.context.breadcrumbs?.length || performanceEvents.length)
+      ? this.buildTimeline(session.logs, session.context.breadcrumbs ?? [], performanceEvents)
+      : undefined;
 
     // Calculate statistics
     const statistics = this.calculateExportStatistics(session, processedLogs, config);
@@ -323,6 +435,10 @@ export class JsonFormatter implements ExportFormatter {
       logs: processedLogs,
       performance: performanceData,
       networkRequests: networkRequests,
+      connections: connections,
+      timeline: timeline,
+      domSnapshots: domSnapshots,
+      screenshots: screenshots,
       statistics: options.includeStatistics ? statistics : {} as any
     };
 
@@ -337,6 +453,7 @@ export class JsonFormatter implements ExportFormatter {
   /**
    * Processes log entries based on export configuration
    * @param logs - Original log entries
+   * @param context - Session context, used to resolve related requests
    * @param config - Export configuration
    * @param processingNotes - Notes about processing actions
    * @returns Processed log entries
@@ -344,11 +461,16 @@ export class JsonFormatter implements ExportFormatter {
    */
   private processLogEntries(
     logs: LogEntry[],
+    context: SessionContext,
     config: ExportConfig,
     processingNotes: string[]
-  ): Array<Partial<LogEntry>> {
+  ): JsonLogEntry[] {
+    const requestsById = new Map(
+      (context.networkRequests ?? []).flatMap(request => request.id ? [[request.id, request] as const] : [])
+    );
+
     return logs.map(log => {
-      const processedLog: Partial<LogEntry> = {
+      const processedLog: JsonLogEntry = {
         id: log.id,
         level: log.level
       };
@@ -356,6 +478,21 @@ export class JsonFormatter implements ExportFormatter {
       // Add timestamp if configured
       if (config.formatting?.timestamps !== false) {
         processedLog.timestamp = log.timestamp;
+        if (log.hrTimestamp !== undefined) {
+          processedLog.hrTimestamp = log.hrTimestamp;
+        }
+      }
+
+      if (log.sequence !== undefined) {
+        processedLog.sequence = log.sequence;
+      }
+
+      // Collapsed repeats keep their count even when timestamps are omitted
+      if (log.repeatCount) {
+        processedLog.repeatCount = log.repeatCount;
+        if (config.formatting?.timestamps !== false && log.lastRepeatTimestamp) {
+          processedLog.lastRepeatTimestamp = log.lastRepeatTimestamp;
+        }
       }
 
       // Handle message content and sanitization
@@ -371,20 +508,155 @@ export class JsonFormatter implements ExportFormatter {
         processedLog.stackTrace = log.stackTrace;
       }
 
+      if (config.includeStackTraces && log.frames) {
+        processedLog.frames = log.frames;
+      }
+
+      if (config.includeStackTraces && log.resolvedStackTrace) {
+        processedLog.resolvedStackTrace = log.resolvedStackTrace;
+      }
+
+      if (config.includeStackTraces && log.asyncStack) {
+        processedLog.asyncStack = log.asyncStack;
+      }
+
       // Include source information if configured
       if (config.formatting?.sourceInfo !== false && log.source) {
         processedLog.source = log.source;
       }
 
+      if (config.formatting?.sourceInfo !== false && log.resolvedSource) {
+        processedLog.resolvedSource = log.resolvedSource;
+      }
+
+      // Include capture source and error details for non-console captures
+      if (log.origin) {
+        processedLog.origin = log.origin;
+      }
+
+      if (log.browserSource) {
+        processedLog.browserSource = log.browserSource;
+      }
+
+      if (log.preSession) {
+        processedLog.preSession = true;
+      }
+
+      if (log.error) {
+        const { reason, stack, filename, resourceUrl, ...error } = log.error;
+        processedLog.error = error;
+
+        // The raw error text and URLs are not sanitized; the message summarizes them, so
+        // use its sanitized form and drop the rest with the raw message
+        if (config.includeSensitiveData || !log.sanitizedMessage) {
+          if (reason !== undefined) {
+            processedLog.error.reason = reason;
+          }
+          if (filename !== undefined) {
+            processedLog.error.filename = filename;
+          }
+          if (resourceUrl !== undefined) {
+            processedLog.error.resourceUrl = resourceUrl;
+          }
+        } else {
+          processedLog.error.message = log.sanitizedMessage;
+        }
+
+        if (config.includeStackTraces && stack) {
+          processedLog.error.stack = stack;
+        }
+      }
+
+      // Include typed argument previews; they hold raw values, so drop them with the message
+      if (log.args && (config.includeSensitiveData || !log.sanitizedMessage)) {
+        processedLog.args = log.args;
+      }
+
+      // Include console API semantics (groups, tables, timers, counters, assertions)
+      if (log.console) {
+        const { table, ...consoleDetails } = log.console;
+        processedLog.console = consoleDetails;
+
+        // Table cells hold raw values, so drop them with the message
+        if (table && (config.includeSensitiveData || !log.sanitizedMessage)) {
+          processedLog.console.table = table;
+        }
+      }
+
+      // Include the frame or worker the log came from
+      if (log.executionContext) {
+        processedLog.executionContext = log.executionContext;
+      }
+
       // Include classification information
       if (log.classification) {
         processedLog.classification = log.classification;
       }
 
+      if (config.includeContext && log.domSnapshotId) {
+        processedLog.domSnapshotId = log.domSnapshotId;
+      }
+
+      if (config.includeContext && log.screenshotId) {
+        processedLog.screenshotId = log.screenshotId;
+      }
+
+      if (config.includeContext && log.route) {
+        processedLog.route = log.route;
+      }
+
+      // Link the log to the request it followed
+      if (config.includeContext && log.relatedRequestId) {
+        processedLog.relatedRequestId = log.relatedRequestId;
+
+        const request = requestsById.get(log.relatedRequestId);
+        if (request) {
+          processedLog.followedRequest = describeRequest(request, context.url);
+        }
+      }
+
       return processedLog;
     });
   }
 
+  /**
+   * Interleaves logs, user action breadcrumbs and performance events in time order
+   * @param logs - Session log entries
+   * @param breadcrumbs - Recorded user actions
+   * @param performanceEvents - Long tasks, long frames, layout shifts and slow interactions
+   * @returns Timeline entries; an action and a log at the same instant list the action first
+   * @private
+   */
+  private buildTimeline(
+    logs: LogEntry[],
+    breadcrumbs: Breadcrumb[],
+    performanceEvents: PerformanceEvent[]
+  ): JsonTimelineEntry[] {
+    const entries: Array<{ time: number; entry: JsonTimelineEntry }> = [
+      ...breadcrumbs.map(({ timestamp, ...breadcrumb }) => ({
+        time: new Date(timestamp).getTime(),
+        entry: { ...breadcrumb, timestamp: new Date(timestamp).toISOString(), kind: 'action' as const }
+      })),
+      ...logs.map(log => ({
+        time: new Date(log.timestamp).getTime(),
+        entry: {
+          timestamp: new Date(log.timestamp).toISOString(),
+          kind: 'log' as const,
+          logId: log.id,
+          level: log.level
+        }
+      })),
+      ...performanceEvents.map(({ timestamp, type, ...event }) => ({
+        time: new Date(timestamp).getTime(),
+        entry: { ...event, timestamp: new Date(timestamp).toISOString(), kind: 'performance' as const, event: type }
+      }))
+    ];
+
+    // Array.prototype.sort is stable, so actions stay ahead of logs on ties
+    entries.sort((a, b) => a.time - b.time);
+    return entries.map(({ entry }) => entry);
+  }
+
   /**
    * Calculates export statistics
    * @param session - Original session
@@ -407,6 +679,12 @@ export class JsonFormatter implements ExportFormatter {
     // Count sanitized logs
     const sanitizedLogs = session.logs.filter(log => log.sanitizedMessage !== undefined).length;
 
+    // Count occurrences collapsed into repeat counts
+    const collapsedRepeats = session.logs.reduce((sum, log) => sum + (log.repeatCount ?? 1) - 1, 0);
+
+    // Count entries dropped by rate limiting
+    const sampledOutLogs = (session.metadata.sampledOut ?? []).reduce((sum, entry) => sum + entry.count, 0);
+
     // Calculate data sizes (approximate)
     const originalSize = JSON.stringify(session).length;
     const exportedSize = JSON.stringify({ logs: processedLogs }).length;
@@ -416,6 +694,8 @@ export class JsonFormatter implements ExportFormatter {
       totalLogs: session.logs.length,
       logsByLevel,
       sanitizedLogs,
+      collapsedRepeats,
+      sampledOutLogs,
       dataSize: {
         originalBytes: originalSize,
         exportedBytes: exportedSize,
@@ -6,18 +6,40 @@
  */
 
 import type {
+  AsyncStackSegment,
+  Breadcrumb,
+  BreadcrumbType,
   CaptureSession,
+  CaptureTrigger,
+  CaptureTriggerReason,
+  ConsoleTableData,
+  ExecutionContextType,
   ExportConfig,
   ExtensionError,
   LogEntry,
   LogLevel,
+  LogOrigin,
+  NetworkPayload,
+  SampledOutCount,
   SessionContext,
   SessionMetadata,
+  SessionStorageState,
+  RouteVisit,
+  NavigationType,
   PerformanceMetrics,
-  NetworkRequest
+  PerformanceEvent,
+  PerformanceEventType,
+  NetworkRequest,
+  NetworkConnection,
+  ConnectionFrame,
+  ConnectionType
 } from '../../types/index.js';
 
 import type { ExportFormatter, ExportTemplate } from '../ExportManager.js';
+import { ArgumentSerializer } from '../../capture/ArgumentSerializer.js';
+import { describeRequest } from '../../capture/RequestCorrelator.js';
+import { getSnapshotFileName } from '../../capture/DomSnapshotter.js';
+import { getScreenshotFileName } from '../../capture/ScreenshotCapture.js';
 
 /**
  * Markdown formatting theme options
@@ -85,7 +107,7 @@ interface LogLevelStyle {
  */
 export class MarkdownFormatter implements ExportFormatter {
   /** Supported export format */
-  public readonly format = 'markdown' as const;
+  public readonly supportedFormat = 'markdown' as const;
 
   /** Default theme configuration */
   private readonly defaultTheme: MarkdownTheme = {
@@ -117,9 +139,10 @@ export class MarkdownFormatter implements ExportFormatter {
     { id: 'summary', title: 'Summary', enabled: true, order: 2 },
     { id: 'context', title: 'Session Context', enabled: true, order: 3 },
     { id: 'performance', title: 'Performance Metrics', enabled: true, order: 4 },
-    { id: 'logs', title: 'Console Logs', enabled: true, order: 5 },
-    { id: 'network', title: 'Network Activity', enabled: true, order: 6 },
-    { id: 'appendix', title: 'Technical Details', enabled: true, order: 7 }
+    { id: 'timeline', title: 'Timeline', enabled: true, order: 5 },
+    { id: 'logs', title: 'Console Logs', enabled: true, order: 6 },
+    { id: 'network', title: 'Network Activity', enabled: true, order: 7 },
+    { id: 'appendix', title: 'Technical Details', enabled: true, order: 8 }
   ];
 
   /** Log level styling */
@@ -131,6 +154,71 @@ export class MarkdownFormatter implements ExportFormatter {
     debug: { symbol: '🔍', bold: false, color: 'gray' }
   };
 
+  /** Renders expandable console arguments */
+  private readonly argumentSerializer = new ArgumentSerializer();
+
+  /** Labels for logs that did not come from a console call */
+  private readonly originLabels: Record<Exclude<LogOrigin, 'console'>, string> = {
+    'uncaught-error': 'Uncaught error',
+    'unhandled-rejection': 'Unhandled rejection',
+    'resource-error': 'Resource error',
+    'browser': 'Browser'
+  };
+
+  /** Labels for logs produced outside the top document */
+  private readonly contextLabels: Record<Exclude<ExecutionContextType, 'top-frame'>, string> = {
+    'iframe': 'iframe',
+    'dedicated-worker': 'Worker',
+    'shared-worker': 'Shared worker',
+    'service-worker': 'Service worker'
+  };
+
+  /** Labels for the triggers that start and stop sessions automatically */
+  private readonly triggerLabels: Record<Exclude<CaptureTriggerReason, 'manual'>, string> = {
+    'page-load': 'Page load',
+    'url-match': 'URL match',
+    'first-error': 'First error',
+    'log-match': 'Log match',
+    'quiet-period': 'Quiet period',
+    'entry-limit': 'Entry limit',
+    'navigation': 'Navigation'
+  };
+
+  /** Breadcrumb labels */
+  private readonly breadcrumbLabels: Record<BreadcrumbType, string> = {
+    click: '👆 Click',
+    scroll: '↕️ Scroll',
+    keypress: '⌨️ Key',
+    submit: '📨 Submit',
+    'visibility-change': '👁️ Visibility',
+    navigation: '🧭 Navigation'
+  };
+
+  /** Navigation type labels */
+  private readonly navigationLabels: Record<NavigationType, string> = {
+    load: 'Page load',
+    reload: 'Reload',
+    push: 'pushState',
+    replace: 'replaceState',
+    pop: 'Back/forward',
+    hash: 'Hash change'
+  };
+
+  /** Performance timeline event labels */
+  private readonly performanceEventLabels: Record<PerformanceEventType, string> = {
+    'long-task': '🐢 Long task',
+    'long-animation-frame': '🎞️ Long frame',
+    'layout-shift': '📐 Layout shift',
+    interaction: '🖱️ Slow interaction'
+  };
+
+  /** Connection type labels */
+  private readonly connectionLabels: Record<ConnectionType, string> = {
+    websocket: 'WebSocket',
+    eventsource: 'EventSource',
+    beacon: 'Beacon'
+  };
+
   /**
    * Formats a capture session as Markdown
    * @param session - Session to format
@@ -175,12 +263,33 @@ export class MarkdownFormatter implements ExportFormatter {
               content = this.generatePerformance(session.context.performance, theme);
             }
             break;
+          case 'timeline':
+            if (config.includeContext && (
+              session.context.breadcrumbs?.length ||
+              session.context.screenshots?.some(s => !s.logId) ||
+              (config.includePerformance && session.context.performance?.timeline?.length)
+            )) {
+              content = this.generateTimeline(session, session.context.breadcrumbs ?? [], config, theme);
+            }
+            break;
           case 'logs':
-            content = this.generateLogs(session.logs, config, theme);
+            content = this.generateLogs(
+              session.logs,
+              config,
+              theme,
+              config.includeContext ? this.describeRequestsById(session.context) : new Map(),
+              config.includeContext ? this.nameScreenshotsById(session.context) : new Map(),
+              config.includeContext ? session.context.navigation ?? [] : []
+            );
             break;
           case 'network':
-            if (config.includeContext && session.context.networkRequests) {
-              content = this.generateNetworkActivity(session.context.networkRequests, theme);
+            if (config.includeContext && (session.context.networkRequests || session.context.connections)) {
+              content = this.generateNetworkActivity(
+                session.context.networkRequests ?? [],
+                session.context.connections ?? [],
+                session.startTime,
+                theme
+              );
             }
             break;
           case 'appendix':
@@ -314,6 +423,14 @@ export class MarkdownFormatter implements ExportFormatter {
       `**User Agent:** ${this.truncateText(session.context.userAgent, 80)}`
     ];
     
+    const { startTrigger, stopTrigger } = session.metadata;
+    if (startTrigger && startTrigger.reason !== 'manual') {
+      metadata.push(`**Started by:** ${this.formatTrigger(startTrigger)}`);
+    }
+    if (stopTrigger && stopTrigger.reason !== 'manual') {
+      metadata.push(`**Stopped by:** ${this.formatTrigger(stopTrigger)}`);
+    }
+    
     if (!config.includeSensitiveData) {
       metadata.push('**Note:** Sensitive data has been sanitized for privacy');
     }
@@ -342,6 +459,17 @@ export class MarkdownFormatter implements ExportFormatter {
       `🔵 **Info/Debug:** ${stats.totalLogs - stats.errorCount - stats.warningCount}`
     ];
     
+    const collapsedRepeats = session.logs.reduce((sum, log) => sum + (log.repeatCount ?? 1) - 1, 0);
+    if (collapsedRepeats > 0) {
+      summaryItems.push(`🔁 **Collapsed Repeats:** ${collapsedRepeats}`);
+    }
+    
+    const sampledOut = stats.sampledOut ?? [];
+    if (sampledOut.length > 0) {
+      const sampledOutTotal = sampledOut.reduce((sum, entry) => sum + entry.count, 0);
+      summaryItems.push(`📉 **Sampled Out (rate limited):** ${sampledOutTotal}`);
+    }
+    
     if (stats.containsSensitiveData) {
       summaryItems.push('🔒 **Contains Sensitive Data:** Yes');
     }
@@ -362,6 +490,10 @@ export class MarkdownFormatter implements ExportFormatter {
       content += '\n\n' + this.createLogLevelTable(logsByLevel, theme);
     }
     
+    if (sampledOut.length > 0) {
+      content += '\n\n' + this.createSampledOutTable(sampledOut, theme);
+    }
+    
     if (stats.notes) {
       content += `\n\n**Notes:** ${stats.notes}`;
     }
@@ -395,9 +527,86 @@ export class MarkdownFormatter implements ExportFormatter {
     content += '\n\n' + this.createSubHeader('User Agent', theme.headerLevels.subsection);
     content += '\n\n' + this.createCodeBlock(context.userAgent, 'text', theme);
     
+    if (context.navigation && context.navigation.length > 1) {
+      content += '\n\n' + this.generateNavigation(context.navigation, session.startTime, theme);
+    }
+    
+    if (context.storageState) {
+      content += '\n\n' + this.generateStorageChanges(context.storageState, theme);
+    }
+    
     return content;
   }
 
+  /**
+   * Generates the route timeline subsection
+   * @param navigation - Routes visited, oldest first
+   * @param sessionStart - Session start time
+   * @param theme - Markdown theme
+   * @returns Navigation markdown content
+   * @private
+   */
+  private generateNavigation(navigation: RouteVisit[], sessionStart: Date, theme: MarkdownTheme): string {
+    const header = this.createSubHeader('Navigation', theme.headerLevels.subsection);
+    
+    const rows = navigation.map(visit => [
+      `+${this.formatOffset(visit.startTime, sessionStart)}`,
+      this.navigationLabels[visit.type],
+      `\`${this.escapeTableCell(visit.route)}\``,
+      this.escapeTableCell(this.truncateText(visit.title, 60)),
+      visit.duration !== undefined ? `${(visit.duration / 1000).toFixed(1)}s` : ''
+    ]);
+    
+    return `${header}\n\n${this.createTable(['Time', 'Type', 'Route', 'Title', 'Duration'], rows, theme)}`;
+  }
+
+  /**
+   * Generates the storage changes subsection
+   * @param storageState - Storage state recorded for the session
+   * @param theme - Markdown theme
+   * @returns Storage markdown content
+   * @private
+   */
+  private generateStorageChanges(storageState: SessionStorageState, theme: MarkdownTheme): string {
+    const header = this.createSubHeader('Storage Changes', theme.headerLevels.subsection);
+    const { initial, diff } = storageState;
+    
+    const summary = `**At start:** ${Object.keys(initial.localStorage).length} localStorage, ` +
+      `${Object.keys(initial.sessionStorage).length} sessionStorage, ` +
+      `${initial.cookieNames.length} cookies, ${initial.indexedDbNames.length} IndexedDB databases` +
+      (initial.truncated ? ' (entries beyond the limit left out)' : '');
+    
+    if (!diff) {
+      return `${header}\n\n${summary}`;
+    }
+    
+    const rows: string[][] = [];
+    const value = (text: string): string => `\`${this.escapeTableCell(this.truncateText(text, 80))}\``;
+    
+    for (const [area, areaDiff] of [['localStorage', diff.localStorage], ['sessionStorage', diff.sessionStorage]] as const) {
+      for (const [key, added] of Object.entries(areaDiff.added)) {
+        rows.push([area, '➕ Added', this.escapeTableCell(key), value(added)]);
+      }
+      for (const [key, change] of Object.entries(areaDiff.changed)) {
+        rows.push([area, '✏️ Changed', this.escapeTableCell(key), `${value(change.before)} → ${value(change.after)}`]);
+      }
+      for (const key of areaDiff.removed) {
+        rows.push([area, '➖ Removed', this.escapeTableCell(key), '']);
+      }
+    }
+    
+    for (const [area, names] of [['Cookie', diff.cookieNames], ['IndexedDB', diff.indexedDbNames]] as const) {
+      rows.push(...names.added.map(name => [area, '➕ Added', this.escapeTableCell(name), '']));
+      rows.push(...names.removed.map(name => [area, '➖ Removed', this.escapeTableCell(name), '']));
+    }
+    
+    if (rows.length === 0) {
+      return `${header}\n\n${summary}\n\n*The page did not change its storage during the session.*`;
+    }
+    
+    return `${header}\n\n${summary}\n\n${this.createTable(['Area', 'Change', 'Name', 'Value'], rows, theme)}`;
+  }
+
   /**
    * Generates the performance metrics section
    * @param performance - Performance metrics
@@ -414,7 +623,9 @@ export class MarkdownFormatter implements ExportFormatter {
         ['First Contentful Paint', this.formatMs(performance.fcp), 'Time to first content render'],
         ['Largest Contentful Paint', this.formatMs(performance.lcp), 'Time to largest content render'],
         ['Cumulative Layout Shift', this.formatNumber(performance.cls, 3), 'Visual stability score'],
-        ['First Input Delay', this.formatMs(performance.fid), 'Input responsiveness'],
+        ['Interaction to Next Paint', this.formatMs(performance.inp), 'Responsiveness across all interactions'],
+        ['Time to First Byte', this.formatMs(performance.ttfb), 'Time until the first response byte'],
+        ['First Input Delay', this.formatMs(performance.fid), 'Input responsiveness (deprecated, see INP)'],
         ['Time to Interactive', this.formatMs(performance.tti), 'Time until page is interactive']
       ].filter(row => row[1] !== 'N/A'),
       theme
@@ -422,6 +633,50 @@ export class MarkdownFormatter implements ExportFormatter {
     
     let content = `${header}\n\n${performanceTable}`;
     
+    // Break the slowest interaction down so it is clear where the time went
+    if (performance.inpAttribution) {
+      const attribution = performance.inpAttribution;
+      const target = attribution.target ? ` on \`${attribution.target}\`` : '';
+      content += `\n\n🖱️ **Slowest interaction:** ${attribution.eventType}${target} at ${new Date(attribution.timestamp).toISOString()}`;
+      content += ` — input delay ${this.formatMs(attribution.inputDelay)}, processing ${this.formatMs(attribution.processingDuration)}, presentation ${this.formatMs(attribution.presentationDelay)}`;
+    }
+    
+    if (performance.timeline?.length) {
+      const counts = new Map<PerformanceEventType, { count: number; duration: number }>();
+      for (const event of performance.timeline) {
+        const total = counts.get(event.type) ?? { count: 0, duration: 0 };
+        total.count++;
+        total.duration += event.duration;
+        counts.set(event.type, total);
+      }
+      
+      content += '\n\n' + this.createSubHeader('Main Thread and Stability', theme.headerLevels.subsection);
+      content += '\n\n' + this.createTable(
+        ['Event', 'Count', 'Total Duration'],
+        [...counts].map(([type, total]) => [
+          this.performanceEventLabels[type],
+          total.count.toString(),
+          type === 'layout-shift' ? '-' : this.formatMs(total.duration)
+        ]),
+        theme
+      );
+    }
+    
+    if (performance.resources?.length) {
+      content += '\n\n' + this.createSubHeader('Resources', theme.headerLevels.subsection);
+      content += '\n\n' + this.createTable(
+        ['Type', 'Count', 'Transferred', 'Total Duration', 'Slowest'],
+        performance.resources.map(summary => [
+          summary.initiatorType,
+          summary.count.toString(),
+          this.formatBytes(summary.transferSize),
+          this.formatMs(summary.totalDuration),
+          `${this.escapeTableCell(this.truncateText(summary.slowest.url, 80))} (${this.formatMs(summary.slowest.duration)})`
+        ]),
+        theme
+      );
+    }
+    
     // Add memory information if available
     if (performance.memory) {
       content += '\n\n' + this.createSubHeader('Memory Usage', theme.headerLevels.subsection);
@@ -434,23 +689,242 @@ export class MarkdownFormatter implements ExportFormatter {
     return content;
   }
 
+  /**
+   * Generates the timeline section, interleaving user actions, logs and performance problems
+   * @param session - Session to format
+   * @param breadcrumbs - Recorded user actions
+   * @param config - Export configuration
+   * @param theme - Markdown theme
+   * @returns Timeline markdown content
+   * @private
+   */
+  private generateTimeline(
+    session: CaptureSession,
+    breadcrumbs: Breadcrumb[],
+    config: ExportConfig,
+    theme: MarkdownTheme
+  ): string {
+    const header = this.createHeader('Timeline', theme.headerLevels.section);
+    
+    const events: Array<{ time: number; row: string[] }> = [
+      ...breadcrumbs.map(breadcrumb => ({
+        time: new Date(breadcrumb.timestamp).getTime(),
+        row: [
+          `+${this.formatOffset(breadcrumb.timestamp, session.startTime)}`,
+          this.breadcrumbLabels[breadcrumb.type],
+          this.formatBreadcrumb(breadcrumb)
+        ]
+      })),
+      ...session.logs.map(log => {
+        const message = !config.includeSensitiveData && log.sanitizedMessage ? log.sanitizedMessage : log.message;
+        return {
+          time: new Date(log.timestamp).getTime(),
+          row: [
+            `+${this.formatOffset(log.timestamp, session.startTime)}`,
+            `${this.logLevelStyles[log.level].symbol} ${this.capitalizeFirst(log.level)}`,
+            this.escapeTableCell(this.truncateText(message, 100))
+          ]
+        };
+      }),
+      // Screenshots taken with the keyboard shortcut; error screenshots are shown with their entry
+      ...(session.context.screenshots ?? []).filter(screenshot => !screenshot.logId).map(screenshot => {
+        const fileName = getScreenshotFileName(screenshot);
+        return {
+          time: new Date(screenshot.timestamp).getTime(),
+          row: [
+            `+${this.formatOffset(screenshot.timestamp, session.startTime)}`,
+            '🖼️ Screenshot',
+            `[${fileName}](${fileName})`
+          ]
+        };
+      }),
+      ...(config.includePerformance ? session.context.performance?.timeline ?? [] : []).map(event => ({
+        time: new Date(event.timestamp).getTime(),
+        row: [
+          `+${this.formatOffset(event.timestamp, session.startTime)}`,
+          this.performanceEventLabels[event.type],
+          this.formatPerformanceEvent(event)
+        ]
+      }))
+    ];
+    
+    // Stable sort keeps an action ahead of a log logged at the same instant
+    events.sort((a, b) => a.time - b.time);
+    
+    const table = this.createTable(['Time', 'Event', 'Details'], events.map(event => event.row), theme);
+    return `${header}\n\n${table}`;
+  }
+
+  /**
+   * Describes a performance event's size and cause for the timeline
+   * @param event - Performance timeline event
+   * @returns Table cell content
+   * @private
+   */
+  private formatPerformanceEvent(event: PerformanceEvent): string {
+    const parts: string[] = [];
+    
+    if (event.type === 'layout-shift') {
+      parts.push(`score ${this.formatNumber(event.value, 3)}`);
+    } else {
+      parts.push(event.type === 'interaction' && event.name ? `${event.name} ${this.formatMs(event.duration)}` : this.formatMs(event.duration));
+    }
+    
+    if (event.blockingDuration !== undefined) {
+      parts.push(`(blocking ${this.formatMs(event.blockingDuration)})`);
+    }
+    
+    if (event.attribution) {
+      parts.push(`\`${this.escapeTableCell(this.truncateText(event.attribution, 80))}\``);
+    }
+    
+    return parts.join(' ');
+  }
+
+  /**
+   * Describes a breadcrumb's target and data for the timeline
+   * @param breadcrumb - User action
+   * @returns Table cell content
+   * @private
+   */
+  private formatBreadcrumb(breadcrumb: Breadcrumb): string {
+    const parts: string[] = [];
+    
+    if (breadcrumb.selector) {
+      parts.push(`\`${breadcrumb.selector}\``);
+    }
+    
+    if (breadcrumb.text) {
+      parts.push(`"${breadcrumb.text}"`);
+    }
+    
+    for (const [key, value] of Object.entries(breadcrumb.data ?? {})) {
+      parts.push(`${key}: ${value}`);
+    }
+    
+    if (breadcrumb.sanitized) {
+      parts.push('🔒');
+    }
+    
+    return this.escapeTableCell(parts.join(' '));
+  }
+
+  /**
+   * Summarizes the session's requests for linking logs to them
+   * @param context - Session context
+   * @returns Request summaries by request ID
+   * @private
+   */
+  private describeRequestsById(context: SessionContext): Map<string, string> {
+    const descriptions = new Map<string, string>();
+    
+    for (const request of context.networkRequests ?? []) {
+      if (request.id) {
+        descriptions.set(request.id, describeRequest(request, context.url));
+      }
+    }
+    
+    return descriptions;
+  }
+
+  /**
+   * Names the exported screenshot files by screenshot ID
+   * @param context - Session context holding the screenshots
+   * @returns Attachment file names by screenshot ID
+   * @private
+   */
+  private nameScreenshotsById(context: SessionContext): Map<string, string> {
+    return new Map((context.screenshots ?? []).map(screenshot => [screenshot.id, getScreenshotFileName(screenshot)]));
+  }
+
+  /**
+   * Formats the trace identifiers of a request for the requests table
+   * @param request - Network request
+   * @returns Request ID and shortened trace ID, or empty when untraced
+   * @private
+   */
+  private formatTrace(request: NetworkRequest): string {
+    const parts = [
+      request.trace?.requestId && `\`${request.trace.requestId}\``,
+      request.trace?.traceId && `trace \`${request.trace.traceId.substring(0, 8)}…\``
+    ].filter(Boolean);
+    
+    return parts.join(' ');
+  }
+
   /**
    * Generates the logs section
    * @param logs - Log entries
    * @param config - Export configuration
    * @param theme - Markdown theme
+   * @param requestDescriptions - Request summaries by request ID, for logs linked to a request
+   * @param screenshotFiles - Screenshot file names by screenshot ID
+   * @param navigation - Route timeline, used to order and describe route groups
    * @returns Logs markdown content
    * @private
    */
-  private generateLogs(logs: LogEntry[], config: ExportConfig, theme: MarkdownTheme): string {
+  private generateLogs(
+    logs: LogEntry[],
+    config: ExportConfig,
+    theme: MarkdownTheme,
+    requestDescriptions: Map<string, string>,
+    screenshotFiles: Map<string, string>,
+    navigation: RouteVisit[]
+  ): string {
     const header = this.createHeader('Console Logs', theme.headerLevels.section);
     
     if (logs.length === 0) {
       return `${header}\n\n*No logs captured during this session.*`;
     }
     
+    // Routes are only known when context was included
+    const routes = new Set(navigation.length > 0 ? logs.map(log => log.route) : []);
+    if (routes.size <= 1) {
+      return `${header}\n\n${this.generateLogLevels(logs, config, theme, requestDescriptions, screenshotFiles, theme.headerLevels.subsection)}`;
+    }
+    
+    // Routes in the order they were first visited, then any the timeline does not cover
+    const orderedRoutes = [...new Set([...navigation.map(visit => visit.route), ...routes])].filter(route => routes.has(route));
+    
     let content = header + '\n\n';
     
+    for (const route of orderedRoutes) {
+      const routeLogs = logs.filter(log => log.route === route);
+      const visits = navigation.filter(visit => visit.route === route);
+      const timeOnRoute = visits.reduce((total, visit) => total + (visit.duration ?? 0), 0);
+      
+      content += this.createSubHeader(`📍 ${route ?? 'Unknown route'} (${routeLogs.length})`, theme.headerLevels.subsection) + '\n\n';
+      if (visits.length > 0) {
+        content += `*${visits.length === 1 ? '1 visit' : `${visits.length} visits`}, ${(timeOnRoute / 1000).toFixed(1)}s on route*\n\n`;
+      }
+      content += this.generateLogLevels(routeLogs, config, theme, requestDescriptions, screenshotFiles, theme.headerLevels.subsection + 1);
+      content += '\n\n';
+    }
+    
+    return content.trim();
+  }
+
+  /**
+   * Generates log entries grouped by level
+   * @param logs - Log entries
+   * @param config - Export configuration
+   * @param theme - Markdown theme
+   * @param requestDescriptions - Request summaries by request ID, for logs linked to a request
+   * @param screenshotFiles - Screenshot file names by screenshot ID
+   * @param headerLevel - Header level of the level groups
+   * @returns Log entries markdown content
+   * @private
+   */
+  private generateLogLevels(
+    logs: LogEntry[],
+    config: ExportConfig,
+    theme: MarkdownTheme,
+    requestDescriptions: Map<string, string>,
+    screenshotFiles: Map<string, string>,
+    headerLevel: number
+  ): string {
+    let content = '';
+    
     // Group logs by level for better organization
     const logsByLevel = this.groupLogsByLevel(logs);
     const levels: LogLevel[] = ['error', 'warn', 'info', 'log', 'debug'];
@@ -462,14 +936,16 @@ export class MarkdownFormatter implements ExportFormatter {
       const style = this.logLevelStyles[level];
       const levelHeader = this.createSubHeader(
         `${style.symbol} ${this.capitalizeFirst(level)} Messages (${levelLogs.length})`,
-        theme.headerLevels.subsection
+        headerLevel
       );
       
       content += levelHeader + '\n\n';
       
       for (let i = 0; i < levelLogs.length; i++) {
         const log = levelLogs[i];
-        content += this.formatLogEntry(log, config, theme, i + 1);
+        const followedRequest = log?.relatedRequestId ? requestDescriptions.get(log.relatedRequestId) : undefined;
+        const screenshotFile = log?.screenshotId ? screenshotFiles.get(log.screenshotId) : undefined;
+        content += this.formatLogEntry(log, config, theme, i + 1, followedRequest, screenshotFile);
         
         if (i < levelLogs.length - 1) {
           content += '\n\n';
@@ -489,13 +965,26 @@ export class MarkdownFormatter implements ExportFormatter {
    * @returns Network activity markdown content
    * @private
    */
-  private generateNetworkActivity(requests: NetworkRequest[], theme: MarkdownTheme): string {
+  private generateNetworkActivity(
+    requests: NetworkRequest[],
+    connections: NetworkConnection[],
+    sessionStart: Date,
+    theme: MarkdownTheme
+  ): string {
     const header = this.createHeader('Network Activity', theme.headerLevels.section);
     
-    if (requests.length === 0) {
+    if (requests.length === 0 && connections.length === 0) {
       return `${header}\n\n*No network requests captured during this session.*`;
     }
     
+    const connectionActivity = connections.length > 0
+      ? `\n\n${this.generateConnectionActivity(connections, sessionStart, theme)}`
+      : '';
+    
+    if (requests.length === 0) {
+      return `${header}${connectionActivity}`;
+    }
+    
     // Create summary statistics
     const totalRequests = requests.length;
     const failedRequests = requests.filter(req => req.failed).length;
@@ -507,19 +996,165 @@ export class MarkdownFormatter implements ExportFormatter {
       `⏱️ **Average Response Time:** ${avgResponseTime.toFixed(0)}ms`
     ].join('\n');
     
-    // Create requests table
+    // Create requests table, with a trace column when any request carried trace headers
+    const showTrace = requests.some(req => req.trace);
     const tableHeaders = ['Method', 'URL', 'Status', 'Response Time', 'Result'];
-    const tableRows = requests.map(req => [
-      req.method,
-      this.truncateText(req.url, 50),
-      req.status.toString(),
-      `${req.responseTime}ms`,
-      req.failed ? '❌ Failed' : '✅ Success'
-    ]);
+    if (showTrace) {
+      tableHeaders.push('Trace');
+    }
+    
+    const tableRows = requests.map(req => {
+      const row = [
+        req.method,
+        this.truncateText(req.url, 50),
+        req.status.toString(),
+        `${req.responseTime}ms`,
+        req.failed ? '❌ Failed' : '✅ Success'
+      ];
+      if (showTrace) {
+        row.push(this.formatTrace(req));
+      }
+      return row;
+    });
     
     const requestsTable = this.createTable(tableHeaders, tableRows, theme);
     
-    return `${header}\n\n${summary}\n\n${requestsTable}`;
+    // Headers and bodies, for requests captured with payloads
+    const payloadDetails = requests
+      .filter(req => req.request || req.response)
+      .map(req => {
+        const title = `${req.method} ${this.truncateText(req.url, 80)} → ${req.status}`;
+        const sections = [
+          req.request ? this.formatNetworkPayload('Request', req.request, theme) : '',
+          req.response ? this.formatNetworkPayload('Response', req.response, theme) : ''
+        ].filter(Boolean).join('\n\n');
+        return `<details>\n<summary>${title}</summary>\n\n${sections}\n</details>`;
+      });
+    
+    const details = payloadDetails.length > 0 ? `\n\n${payloadDetails.join('\n\n')}` : '';
+    
+    return `${header}\n\n${summary}\n\n${requestsTable}${details}${connectionActivity}`;
+  }
+
+  /**
+   * Generates the WebSocket, EventSource and beacon part of the network section
+   * @param connections - Recorded connections
+   * @param sessionStart - Session start, for relative frame times
+   * @param theme - Markdown theme
+   * @returns Markdown content
+   * @private
+   */
+  private generateConnectionActivity(connections: NetworkConnection[], sessionStart: Date, theme: MarkdownTheme): string {
+    const header = this.createSubHeader('Realtime Connections', theme.headerLevels.subsection);
+    
+    const tableHeaders = ['Type', 'URL', 'Opened', 'Duration', 'Frames ↑/↓', 'Bytes ↑/↓', 'Result'];
+    const tableRows = connections.map(connection => [
+      this.connectionLabels[connection.type],
+      this.truncateText(connection.url, 50),
+      `+${this.formatOffset(connection.openedAt, sessionStart)}`,
+      connection.type === 'beacon' ? '-' : connection.closedAt
+        ? this.formatDuration(new Date(connection.openedAt), new Date(connection.closedAt))
+        : 'Still open',
+      `${connection.framesSent}/${connection.framesReceived}`,
+      `${this.formatBytes(connection.bytesSent)}/${this.formatBytes(connection.bytesReceived)}`,
+      this.formatConnectionResult(connection)
+    ]);
+    
+    // Frame timelines, for connections with recorded frames
+    const frameDetails = connections
+      .filter(connection => connection.frames && connection.frames.length > 0)
+      .map(connection => {
+        const title = `${this.connectionLabels[connection.type]} ${this.truncateText(connection.url, 80)}`;
+        const frames = (connection.frames ?? []).map(frame => this.formatConnectionFrame(frame, sessionStart, theme));
+        const dropped = connection.droppedFrames
+          ? `\n\n*${connection.droppedFrames} earlier frames not kept*`
+          : '';
+        return `<details>\n<summary>${title}</summary>\n\n${frames.join('\n\n')}${dropped}\n</details>`;
+      });
+    
+    const details = frameDetails.length > 0 ? `\n\n${frameDetails.join('\n\n')}` : '';
+    
+    return `${header}\n\n${this.createTable(tableHeaders, tableRows, theme)}${details}`;
+  }
+
+  /**
+   * Formats a single connection frame as a timeline line, followed by its data if captured
+   * @param frame - Connection frame
+   * @param sessionStart - Session start, for the relative time
+   * @param theme - Markdown theme
+   * @returns Markdown content
+   * @private
+   */
+  private formatConnectionFrame(frame: ConnectionFrame, sessionStart: Date, theme: MarkdownTheme): string {
+    const arrow = frame.direction === 'sent' ? '↑' : '↓';
+    const kind = frame.event ? ` \`${frame.event}\`` : '';
+    const line = `${arrow} +${this.formatOffset(frame.timestamp, sessionStart)}${kind} ${this.formatBytes(frame.size)}${frame.binary ? ' (binary)' : ''}`;
+    
+    if (!frame.payload || (frame.payload.body === undefined && !frame.payload.bodyOmitted)) {
+      return line;
+    }
+    
+    return `${line}\n\n${this.formatNetworkPayload('Data', frame.payload, theme)}`;
+  }
+
+  /**
+   * Describes how a connection ended
+   * @param connection - Recorded connection
+   * @returns Result label
+   * @private
+   */
+  private formatConnectionResult(connection: NetworkConnection): string {
+    if (connection.type === 'beacon') {
+      return connection.state === 'failed' ? '❌ Refused' : '✅ Queued';
+    }
+    
+    switch (connection.state) {
+      case 'failed':
+        return '❌ Failed';
+      case 'closed':
+        return connection.closeCode !== undefined
+          ? `⏹️ Closed (${connection.closeCode}${connection.closeReason ? `: ${connection.closeReason}` : ''})`
+          : '⏹️ Closed';
+      case 'open':
+        return '🟢 Open';
+      default:
+        return connection.errorCount > 0 ? '🔄 Reconnecting' : '⏳ Connecting';
+    }
+  }
+
+  /**
+   * Formats the headers and body of a request or response
+   * @param label - 'Request' or 'Response'
+   * @param payload - Sanitized payload
+   * @param theme - Markdown theme
+   * @returns Markdown content
+   * @private
+   */
+  private formatNetworkPayload(label: string, payload: NetworkPayload, theme: MarkdownTheme): string {
+    const parts = [`**${label}**${payload.contentType ? ` (\`${payload.contentType}\`)` : ''}`];
+    
+    if (payload.headers && Object.keys(payload.headers).length > 0) {
+      const headerLines = Object.entries(payload.headers).map(([name, value]) => `${name}: ${value}`);
+      parts.push(this.createCodeBlock(headerLines.join('\n'), 'http', theme));
+    }
+    
+    if (payload.strippedHeaders) {
+      parts.push(`*Stripped headers:* ${payload.strippedHeaders.map(name => `\`${name}\``).join(', ')}`);
+    }
+    
+    if (payload.bodyOmitted) {
+      parts.push(`*Body not captured:* ${payload.bodyOmitted}`);
+    } else if (payload.body !== undefined) {
+      const isText = typeof payload.body === 'string';
+      const body = isText ? payload.body as string : JSON.stringify(payload.body, null, 2);
+      parts.push(this.createCodeBlock(body, isText ? 'text' : 'json', theme));
+      
+      if (payload.truncated) {
+        parts.push(`*Body truncated${payload.bodySize !== undefined ? ` (${payload.bodySize} bytes in total)` : ''}*`);
+      }
+    }
+    
+    return parts.join('\n\n');
   }
 
   /**
@@ -559,24 +1194,54 @@ export class MarkdownFormatter implements ExportFormatter {
    * @param config - Export configuration
    * @param theme - Markdown theme
    * @param index - Entry index
+   * @param followedRequest - Summary of the request the log followed
+   * @param screenshotFile - File name of the screenshot taken for the entry
    * @returns Formatted log entry markdown
    * @private
    */
-  private formatLogEntry(log: LogEntry, config: ExportConfig, theme: MarkdownTheme, index: number): string {
+  private formatLogEntry(
+    log: LogEntry,
+    config: ExportConfig,
+    theme: MarkdownTheme,
+    index: number,
+    followedRequest?: string,
+    screenshotFile?: string
+  ): string {
     const style = this.logLevelStyles[log.level];
     let content = '';
     
     // Entry header with timestamp and source
     const timestamp = config.formatting?.timestamps !== false 
-      ? log.timestamp.toISOString() 
+      ? log.timestamp.toISOString() + (log.lastRepeatTimestamp ? ` → ${log.lastRepeatTimestamp.toISOString()}` : '')
       : '';
     
-    const source = config.formatting?.sourceInfo !== false && log.source
-      ? `${log.source.file}:${log.source.line}:${log.source.column}`
+    // Prefer the source-mapped location when one was resolved
+    const sourceLocation = log.resolvedSource ?? log.source;
+    const source = config.formatting?.sourceInfo !== false && sourceLocation
+      ? `${sourceLocation.file}:${sourceLocation.line}:${sourceLocation.column}`
+      : '';
+    
+    const originLabel = log.origin && log.origin !== 'console'
+      ? `${this.originLabels[log.origin]}${log.browserSource ? ` (${log.browserSource})` : ''}`
+      : '';
+    
+    const context = log.executionContext;
+    const contextUrl = context?.workerUrl ?? context?.frameUrl;
+    const contextLabel = context && context.type !== 'top-frame'
+      ? `${this.contextLabels[context.type]}${contextUrl ? ` \`${contextUrl}\`` : ''}`
+      : '';
+    
+    const consoleMethod = log.console && !(log.console.method in this.logLevelStyles)
+      ? `console.${log.console.method}`
       : '';
     
     const entryHeader = [
       `**Entry ${index}**`,
+      log.preSession && '⏮ Pre-session',
+      log.repeatCount && `🔁 ×${log.repeatCount}`,
+      originLabel && `⚡ ${originLabel}`,
+      contextLabel && `🧵 ${contextLabel}`,
+      consoleMethod && `🧰 \`${consoleMethod}\``,
       timestamp && `⏰ ${timestamp}`,
       source && `📍 \`${source}\``
     ].filter(Boolean).join(' | ');
@@ -588,16 +1253,67 @@ export class MarkdownFormatter implements ExportFormatter {
       ? log.sanitizedMessage 
       : log.message;
     
-    if (style.bold) {
-      content += `**${messageToUse}**\n`;
+    const table = log.console?.table;
+    const isSanitized = messageToUse !== log.message;
+    
+    if (table && !isSanitized) {
+      // Table cells are raw data, so they are only rendered when the message was not sanitized
+      content += this.formatConsoleTable(table, theme);
     } else {
-      content += `${messageToUse}\n`;
+      const groupMarker = log.console?.method === 'group' || log.console?.method === 'groupCollapsed'
+        ? (log.console.groupCollapsed ? '▸ ' : '▾ ')
+        : '';
+      
+      if (style.bold) {
+        content += `**${groupMarker}${messageToUse}**\n`;
+      } else {
+        content += `${groupMarker}${messageToUse}\n`;
+      }
+    }
+    
+    // Expandable objects passed to the console, skipped when they could hold unsanitized data
+    const expandableArgs = (log.args ?? []).filter(arg => arg.properties || arg.entries);
+    if (!table && !isSanitized && expandableArgs.length > 0) {
+      content += '\n<details>\n<summary>Arguments</summary>\n\n';
+      content += this.createCodeBlock(
+        expandableArgs.map(arg => this.argumentSerializer.inspect(arg)).join('\n'),
+        'text',
+        theme
+      );
+      content += '\n</details>\n';
+    }
+    
+    // Failed resource URL for resource load errors; the sanitized message already names it
+    if (log.error?.resourceUrl && !isSanitized) {
+      content += `\n🔗 **Resource:** \`${log.error.resourceUrl}\`\n`;
+    }
+    
+    // Request whose response the log was emitted after
+    if (followedRequest) {
+      content += `\n↪️ **Followed:** \`${followedRequest}\`\n`;
+    }
+    
+    // Page snapshot exported as a separate file
+    if (config.includeContext && log.domSnapshotId) {
+      content += `\n📸 **DOM Snapshot:** \`${getSnapshotFileName(log.domSnapshotId)}\`\n`;
+    }
+    
+    // Screenshot exported as a separate image, embedded when viewed next to it
+    if (screenshotFile) {
+      content += `\n🖼️ **Screenshot:**\n\n![Screenshot](${screenshotFile})\n`;
     }
     
     // Stack trace if available and included
     if (config.includeStackTraces && log.stackTrace) {
       content += '\n<details>\n<summary>Stack Trace</summary>\n\n';
+      if (log.resolvedStackTrace) {
+        content += this.createCodeBlock(log.resolvedStackTrace, 'text', theme);
+        content += '\n\n*Generated (minified) frames:*\n\n';
+      }
       content += this.createCodeBlock(log.stackTrace, 'text', theme);
+      if (log.asyncStack) {
+        content += this.formatAsyncStack(log.asyncStack, theme);
+      }
       content += '\n</details>';
     }
     
@@ -610,6 +1326,41 @@ export class MarkdownFormatter implements ExportFormatter {
       }
     }
     
+    // Entries logged inside console.group are indented one blockquote level per group
+    const groupDepth = log.console?.groupDepth ?? 0;
+    if (groupDepth > 0) {
+      const prefix = '> '.repeat(groupDepth);
+      content = content
+        .split('\n')
+        .map(line => (line ? `${prefix}${line}` : prefix.trimEnd()))
+        .join('\n');
+    }
+    
+    return content;
+  }
+
+  /**
+   * Formats console.table data as a markdown table
+   * @param table - Captured table data
+   * @param theme - Markdown theme
+   * @returns Markdown table
+   * @private
+   */
+  private formatConsoleTable(table: ConsoleTableData, theme: MarkdownTheme): string {
+    const escapeCell = (value: string): string => value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    
+    const headers = ['(index)', ...table.columns].map(escapeCell);
+    const rows = table.rows.map(row => [
+      escapeCell(row.index),
+      ...table.columns.map(column => escapeCell(row.values[column] ?? ''))
+    ]);
+    
+    let content = this.createTable(headers, rows, theme);
+    
+    if (table.truncated) {
+      content += '\n*Table truncated.*\n';
+    }
+    
     return content;
   }
 
@@ -697,6 +1448,45 @@ export class MarkdownFormatter implements ExportFormatter {
     return this.createTable(headers, rows, theme);
   }
 
+  /**
+   * Formats the async scheduling sites below a stack trace, innermost first
+   * @param asyncStack - Scheduling sites
+   * @param theme - Markdown theme
+   * @returns Markdown content
+   * @private
+   */
+  private formatAsyncStack(asyncStack: AsyncStackSegment[], theme: MarkdownTheme): string {
+    return asyncStack.map(segment => {
+      const label = segment.detail ? `${segment.kind} (\`${segment.detail}\`)` : segment.kind;
+      const trace = segment.stackTrace ? `\n\n${this.createCodeBlock(segment.stackTrace, 'text', theme)}` : '';
+      return `\n\n*Scheduled by ${label}:*${trace}`;
+    }).join('');
+  }
+
+  /**
+   * Creates a table of entries dropped by rate limiting
+   * @param sampledOut - Dropped entry counts by level and source
+   * @param theme - Markdown theme
+   * @returns Markdown table string
+   * @private
+   */
+  private createSampledOutTable(sampledOut: SampledOutCount[], theme: MarkdownTheme): string {
+    const headers = ['Level', 'Source', 'Sampled Out'];
+    
+    const rows = [...sampledOut]
+      .sort((a, b) => b.count - a.count)
+      .map(entry => {
+        const style = this.logLevelStyles[entry.level];
+        return [
+          `${style?.symbol || '⚪'} ${this.capitalizeFirst(entry.level)}`,
+          `\`${entry.source}\``,
+          entry.count.toString()
+        ];
+      });
+    
+    return this.createTable(headers, rows, theme);
+  }
+
   /**
    * Creates a markdown code block
    * @param code - Code content
@@ -823,6 +1613,17 @@ export class MarkdownFormatter implements ExportFormatter {
     return sections;
   }
 
+  /**
+   * Formats an automatic capture trigger
+   * @param trigger - Trigger that started or stopped the session
+   * @returns Trigger label with its detail
+   * @private
+   */
+  private formatTrigger(trigger: CaptureTrigger): string {
+    const label = trigger.reason === 'manual' ? 'Manual' : this.triggerLabels[trigger.reason];
+    return trigger.detail ? `${label} (\`${this.truncateText(trigger.detail, 80)}\`)` : label;
+  }
+
   /**
    * Utility functions
    * @private
@@ -845,6 +1646,10 @@ export class MarkdownFormatter implements ExportFormatter {
     }
   }
 
+  private formatOffset(time: Date, start: Date): string {
+    return `${((new Date(time).getTime() - start.getTime()) / 1000).toFixed(3)}s`;
+  }
+
   private formatMs(value?: number): string {
     return value !== undefined ? `${value.toFixed(1)}ms` : 'N/A';
   }
@@ -863,6 +1668,10 @@ export class MarkdownFormatter implements ExportFormatter {
     return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
   }
 
+  private escapeTableCell(text: string): string {
+    return text.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+  }
+
   private truncateText(text: string, maxLength: number): string {
     return text.length > maxLength ? text.substring(0, maxLength - 3) + '...' : text;
   }
@@ -253,6 +253,26 @@ export class SecurityEngine {
     return results;
   }
 
+  /**
+   * Sanitizes free text that is not part of a log entry, such as request URLs
+   * Applies the same policy filtering and auto-sanitization rules as log scanning
+   * @param text - Text to sanitize
+   * @param minConfidence - Minimum detection confidence
+   * @returns Sanitized text, or the original text when nothing needed masking
+   */
+  public sanitizeText(text: string, minConfidence?: number): string {
+    const detections = this.applySecurityPolicyFiltering(
+      this.piiDetector.scanText(text, minConfidence || this.securityPolicy.minConfidenceThreshold)
+    );
+
+    if (!this.shouldAutoSanitize(detections)) {
+      return text;
+    }
+
+    const sanitizationResult = this.dataSanitizer.sanitizeText(text, detections);
+    return sanitizationResult.wasModified ? sanitizationResult.sanitizedText : text;
+  }
+
   /**
    * Updates security policy configuration
    * @param policyUpdates - Partial policy updates
@@ -27,6 +27,313 @@ export type PIIType =
   | 'phone'
   | 'custom';
 
+/**
+ * Capture source that produced a log entry
+ */
+export type LogOrigin =
+  | 'console'
+  | 'uncaught-error'
+  | 'unhandled-rejection'
+  | 'resource-error'
+  | 'browser';
+
+/**
+ * User-defined rule deciding whether a log entry is captured
+ * A rule matches when all of its criteria match; a rule without criteria matches every entry.
+ * Criteria may be explicitly undefined, as produced by schema validation of optional fields
+ */
+export interface CaptureFilterRule {
+  /** Unique rule identifier, used for hit counts */
+  id: string;
+  /** Whether matching entries are captured or dropped */
+  action: 'include' | 'exclude';
+  /** Whether the rule is evaluated */
+  enabled: boolean;
+  /** Levels the rule applies to */
+  levels?: LogLevel[] | undefined;
+  /** Regular expression matched against the formatted message */
+  messagePattern?: string | undefined;
+  /** Glob matched against the source file URL ('*' within a path segment, '**' across segments) */
+  sourceGlob?: string | undefined;
+  /** Glob matched against the URL of the frame the entry was logged in */
+  frameUrlGlob?: string | undefined;
+  /** Capture sources the rule applies to */
+  origins?: LogOrigin[] | undefined;
+}
+
+/**
+ * Capture backend: console patching, or the DevTools Protocol via chrome.debugger
+ * 'auto' uses patching unless the page's Content Security Policy blocks the page hook
+ */
+export type CaptureMode = 'patch' | 'devtools-protocol' | 'auto';
+
+/**
+ * How repeated log entries are collapsed
+ * 'consecutive' collapses a repeat into the entry right before it; 'window' collapses
+ * into any matching entry last seen within the configured window
+ */
+export type DeduplicationMode = 'consecutive' | 'window';
+
+/**
+ * Why a capture session started or stopped
+ */
+export type CaptureTriggerReason =
+  | 'manual'
+  | 'page-load'
+  | 'url-match'
+  | 'first-error'
+  | 'log-match'
+  | 'quiet-period'
+  | 'entry-limit'
+  | 'navigation';
+
+/**
+ * Event that started or stopped a capture session
+ */
+export interface CaptureTrigger {
+  /** Trigger type */
+  reason: CaptureTriggerReason;
+  /** Pattern, URL or limit that fired the trigger */
+  detail?: string;
+  /** When the trigger fired */
+  timestamp: Date;
+}
+
+/**
+ * Details of an uncaught error, rejected promise or failed resource load
+ */
+export interface ErrorDetails {
+  /** Error name (TypeError, SyntaxError, etc.) */
+  name?: string;
+  /** Error message */
+  message: string;
+  /** Real Error.stack when the thrown value was an Error */
+  stack?: string;
+  /** Stringified rejection reason for unhandled rejections */
+  reason?: string;
+  /** URL of the resource that failed to load */
+  resourceUrl?: string;
+  /** Tag name of the element whose resource failed to load */
+  resourceType?: string;
+  /** Script URL reported by the error event */
+  filename?: string;
+  /** Line number reported by the error event */
+  lineno?: number;
+  /** Column number reported by the error event */
+  colno?: number;
+}
+
+/**
+ * Console API methods captured in addition to the basic log levels
+ */
+export type ConsoleMethod =
+  | LogLevel
+  | 'table'
+  | 'group'
+  | 'groupCollapsed'
+  | 'groupEnd'
+  | 'time'
+  | 'timeLog'
+  | 'timeEnd'
+  | 'count'
+  | 'countReset'
+  | 'assert'
+  | 'trace'
+  | 'dir'
+  | 'dirxml';
+
+/**
+ * Tabular data passed to console.table
+ */
+export interface ConsoleTableData {
+  /** Column names, excluding the index column */
+  columns: string[];
+  /** Table rows in display order */
+  rows: Array<{
+    /** Row index (array index or object key) */
+    index: string;
+    /** Cell values keyed by column name */
+    values: Record<string, string>;
+  }>;
+  /** Whether rows or columns were dropped to stay within limits */
+  truncated: boolean;
+}
+
+/**
+ * Console API semantics preserved for a captured call
+ */
+export interface ConsoleCallDetails {
+  /** Console method that was called */
+  method: ConsoleMethod;
+  /** Nesting depth of console.group at the time of the call */
+  groupDepth: number;
+  /** Whether a group was opened collapsed (group calls only) */
+  groupCollapsed?: boolean;
+  /** Structured table data (table calls only) */
+  table?: ConsoleTableData;
+  /** Timer state (timeLog and timeEnd calls only) */
+  timer?: {
+    label: string;
+    durationMs: number;
+    ended: boolean;
+  };
+  /** Counter state (count calls only) */
+  counter?: {
+    label: string;
+    count: number;
+  };
+  /** Assertion result (failed assert calls only) */
+  assertion?: {
+    passed: boolean;
+  };
+}
+
+/**
+ * Type tag of a serialized console argument
+ */
+export type SerializedValueType =
+  | 'string'
+  | 'number'
+  | 'boolean'
+  | 'undefined'
+  | 'null'
+  | 'bigint'
+  | 'symbol'
+  | 'function'
+  | 'object'
+  | 'array'
+  | 'error'
+  | 'date'
+  | 'regexp'
+  | 'map'
+  | 'set'
+  | 'node'
+  | 'promise'
+  | 'circular';
+
+/**
+ * Named property of a serialized object
+ */
+export interface SerializedProperty {
+  /** Property name, or array index */
+  name: string;
+  /** Serialized property value */
+  value: SerializedValue;
+}
+
+/**
+ * Typed preview of a console argument, modeled on the DevTools RemoteObject
+ */
+export interface SerializedValue {
+  /** Value type */
+  type: SerializedValueType;
+  /** Constructor name for objects (e.g. 'Map', 'HTMLDivElement') */
+  className?: string;
+  /** Short human-readable description */
+  description: string;
+  /** JSON-safe primitive value for strings, numbers and booleans */
+  value?: string | number | boolean;
+  /** Own properties, array items or set members */
+  properties?: SerializedProperty[];
+  /** Map entries */
+  entries?: Array<{ key: SerializedValue; value: SerializedValue }>;
+  /** Number of items for arrays, maps and sets */
+  size?: number;
+  /** Stack trace for errors */
+  stack?: string;
+  /** Whether children were omitted because of depth or size limits */
+  overflow?: boolean;
+}
+
+/**
+ * Additional information supplied by a capture source alongside console arguments
+ */
+export interface LogCaptureDetails {
+  /** Capture source, defaults to 'console' */
+  origin?: LogOrigin;
+  /** Error details for error-event sources */
+  error?: ErrorDetails;
+  /** Console API semantics for non-basic console methods */
+  console?: ConsoleCallDetails;
+  /** Arguments already serialized by the capture source */
+  serializedArgs?: SerializedValue[];
+  /** Execution context of the call when it differs from the capturing document */
+  executionContext?: ExecutionContext;
+  /** Epoch milliseconds when the call was made, if the source knows it */
+  timestamp?: number;
+  /** High-resolution epoch milliseconds when the call was made, if the source knows it */
+  hrTimestamp?: number;
+  /** Sequence number assigned by the producing context */
+  sequence?: number;
+  /** Scheduling sites the call descends from, innermost first */
+  asyncStack?: AsyncStackSegment[];
+  /** Browser subsystem that generated a 'browser' origin message */
+  browserSource?: string;
+}
+
+/**
+ * Kind of JavaScript environment a log was produced in
+ */
+export type ExecutionContextType = 'top-frame' | 'iframe' | 'dedicated-worker' | 'shared-worker' | 'service-worker';
+
+/**
+ * JavaScript environment a log was produced in
+ */
+export interface ExecutionContext {
+  /** Environment kind */
+  type: ExecutionContextType;
+  /** URL of the document (or the worker's owning document) */
+  frameUrl?: string;
+  /** Browser frame ID, 0 for the top frame */
+  frameId?: number;
+  /** Script URL for worker contexts */
+  workerUrl?: string;
+}
+
+/**
+ * Single parsed stack frame
+ */
+export interface StackFrame {
+  /** Function name, if the engine reported one */
+  functionName?: string;
+  /** Script URL, or a placeholder such as '<anonymous>' or '[native code]' */
+  file: string;
+  /** 1-based line number */
+  line?: number;
+  /** 1-based column number */
+  column?: number;
+  /** Whether the frame was resumed after an await */
+  isAsync: boolean;
+  /** Whether the frame is native (built-in) code */
+  isNative: boolean;
+  /** Whether the frame runs eval'd code; the location is the eval call site */
+  isEval: boolean;
+}
+
+/**
+ * Kind of scheduling call that started asynchronous work
+ */
+export type AsyncOriginKind =
+  | 'setTimeout'
+  | 'setInterval'
+  | 'requestAnimationFrame'
+  | 'queueMicrotask'
+  | 'promise'
+  | 'event-listener'
+  | 'fetch';
+
+/**
+ * Site where the asynchronous work that led to a log was scheduled
+ */
+export interface AsyncStackSegment {
+  /** Scheduling call */
+  kind: AsyncOriginKind;
+  /** Event type for listeners, request URL without its query for fetch */
+  detail?: string;
+  /** Stack trace at the scheduling site */
+  stackTrace?: string;
+}
+
 /**
  * Console log entry captured from the browser
  */
@@ -35,6 +342,10 @@ export interface LogEntry {
   id: string;
   /** Timestamp when the log was captured */
   timestamp: Date;
+  /** Epoch milliseconds with sub-millisecond precision, monotonic within the producing context */
+  hrTimestamp?: number;
+  /** Position among the logs produced by the same context */
+  sequence?: number;
   /** Log level (error, warn, info, etc.) */
   level: LogLevel;
   /** Original log message content */
@@ -43,14 +354,56 @@ export interface LogEntry {
   sanitizedMessage?: string;
   /** Stack trace if available */
   stackTrace?: string;
+  /** Parsed stack frames */
+  frames?: StackFrame[];
+  /** Scheduling sites the log's callback descends from, innermost first */
+  asyncStack?: AsyncStackSegment[];
   /** Source location information */
   source?: {
     file: string;
     line: number;
     column: number;
+    /** Function name reported by the engine for the frame */
+    functionName?: string;
   };
   /** Data classification result */
   classification?: DataClassification;
+  /** Capture source that produced the entry */
+  origin?: LogOrigin;
+  /** Error details for uncaught errors, rejections and resource failures */
+  error?: ErrorDetails;
+  /** Console API semantics (groups, tables, timers, counters, assertions) */
+  console?: ConsoleCallDetails;
+  /** Typed previews of the console arguments */
+  args?: SerializedValue[];
+  /** Stack trace rewritten to original sources via source maps */
+  resolvedStackTrace?: string;
+  /** Original source location of the top frame, resolved via source maps */
+  resolvedSource?: {
+    file: string;
+    line: number;
+    column: number;
+    /** Original name of the enclosing function, when it could be traced */
+    functionName?: string;
+  };
+  /** Frame or worker the log was produced in */
+  executionContext?: ExecutionContext;
+  /** Browser subsystem that generated a 'browser' origin message (network, deprecation, violation, ...) */
+  browserSource?: string;
+  /** Captured before the session started and seeded from the pre-roll buffer */
+  preSession?: boolean;
+  /** Number of occurrences collapsed into this entry, including the first; absent when it occurred once */
+  repeatCount?: number;
+  /** Time of the last collapsed occurrence; `timestamp` is the first */
+  lastRepeatTimestamp?: Date;
+  /** Id of the network request whose response the log most likely followed */
+  relatedRequestId?: string;
+  /** Id of the DOM snapshot taken when the error was captured */
+  domSnapshotId?: string;
+  /** Id of the screenshot taken when the error was captured */
+  screenshotId?: string;
+  /** Route of the page when the log was captured, such as `/orders/42` or `/#/settings` */
+  route?: string;
 }
 
 /**
@@ -109,6 +462,18 @@ export interface SessionContext {
   };
   /** Network requests correlation */
   networkRequests?: NetworkRequest[];
+  /** WebSocket and EventSource connections and beacons */
+  connections?: NetworkConnection[];
+  /** User actions leading up to the end of the session */
+  breadcrumbs?: Breadcrumb[];
+  /** Page snapshots taken when errors were captured */
+  domSnapshots?: DomSnapshot[];
+  /** Screenshots taken during the session; the images are kept in storage */
+  screenshots?: ScreenshotReference[];
+  /** Web storage, cookie and IndexedDB state at the start and end of the session */
+  storageState?: SessionStorageState;
+  /** Routes the page went through during the session, oldest first */
+  navigation?: RouteVisit[];
   /** Performance metrics */
   performance?: PerformanceMetrics;
 }
@@ -129,24 +494,331 @@ export interface SessionMetadata {
   tags: string[];
   /** User notes */
   notes?: string;
+  /** What started the session */
+  startTrigger?: CaptureTrigger;
+  /** What stopped the session */
+  stopTrigger?: CaptureTrigger;
+  /** Entries dropped by rate limiting, by level and source */
+  sampledOut?: SampledOutCount[];
+}
+
+/**
+ * Number of entries of one level and source dropped by rate limiting
+ */
+export interface SampledOutCount {
+  /** Level of the dropped entries */
+  level: LogLevel;
+  /** Script URL the entries came from, or their origin when unknown */
+  source: string;
+  /** Number of entries dropped */
+  count: number;
 }
 
 /**
  * Network request information for context correlation
  */
 export interface NetworkRequest {
+  /** Request identifier, assigned when the request completes */
+  id?: string;
   /** Request URL */
   url: string;
   /** HTTP method */
   method: string;
   /** Response status code */
   status: number;
-  /** Request timestamp */
+  /** When the request was sent; the HAR startedDateTime */
   timestamp: Date;
   /** Response time in milliseconds */
   responseTime: number;
   /** Whether request failed */
   failed: boolean;
+  /** Sanitized request headers and body, when network payload capture is enabled */
+  request?: NetworkPayload;
+  /** Sanitized response headers and body, when network payload capture is enabled */
+  response?: NetworkPayload;
+  /** Trace headers sent with the request or returned by the server */
+  trace?: NetworkTraceContext;
+}
+
+/**
+ * Trace identifiers linking a request to backend logs
+ */
+export interface NetworkTraceContext {
+  /** W3C traceparent header sent with the request */
+  traceparent?: string;
+  /** Trace id from the traceparent header */
+  traceId?: string;
+  /** x-request-id sent with the request or returned by the server */
+  requestId?: string;
+  /** Whether the extension added the traceparent header */
+  injected?: boolean;
+}
+
+/**
+ * Headers and body of a request or response, sanitized before storage
+ */
+export interface NetworkPayload {
+  /** Headers by lower-cased name, with credentials stripped */
+  headers?: Record<string, string>;
+  /** Names of headers removed because they carry credentials or cookies */
+  strippedHeaders?: string[];
+  /** Media type from the Content-Type header, without parameters */
+  contentType?: string;
+  /** Parsed JSON or form data for structured bodies, text otherwise */
+  body?: unknown;
+  /** Body size in bytes, when known */
+  bodySize?: number;
+  /** Whether the body was cut at the configured size */
+  truncated?: boolean;
+  /** Why the body was not captured, such as binary or streamed content */
+  bodyOmitted?: string;
+}
+
+/**
+ * Kind of long-lived connection or fire-and-forget request
+ */
+export type ConnectionType = 'websocket' | 'eventsource' | 'beacon';
+
+/**
+ * Lifecycle state of a monitored connection
+ */
+export type ConnectionState = 'connecting' | 'open' | 'closed' | 'failed';
+
+/**
+ * WebSocket or EventSource connection, or a sendBeacon call
+ */
+export interface NetworkConnection {
+  /** Unique connection identifier */
+  id: string;
+  /** Connection type */
+  type: ConnectionType;
+  /** Connection URL */
+  url: string;
+  /** When the connection was created or the beacon was sent */
+  openedAt: Date;
+  /** When the connection closed or failed */
+  closedAt?: Date;
+  /** Current state; beacons are closed once queued and failed if the browser refused them */
+  state: ConnectionState;
+  /** WebSocket subprotocol selected by the server */
+  protocol?: string;
+  /** WebSocket close code */
+  closeCode?: number;
+  /** WebSocket close reason */
+  closeReason?: string;
+  /** Number of error events */
+  errorCount: number;
+  /** Number of frames, messages or beacon bodies sent */
+  framesSent: number;
+  /** Number of frames or messages received */
+  framesReceived: number;
+  /** Bytes sent */
+  bytesSent: number;
+  /** Bytes received */
+  bytesReceived: number;
+  /** Most recent frames, capped per connection */
+  frames?: ConnectionFrame[];
+  /** Frames counted but no longer kept because of the cap */
+  droppedFrames?: number;
+}
+
+/**
+ * Single frame, message or beacon body on a monitored connection
+ */
+export interface ConnectionFrame {
+  /** Whether the page sent or received the frame */
+  direction: 'sent' | 'received';
+  /** Frame timestamp */
+  timestamp: Date;
+  /** Frame size in bytes */
+  size: number;
+  /** Whether the frame held binary data */
+  binary?: boolean;
+  /** EventSource event type, when not 'message' */
+  event?: string;
+  /** Sanitized frame data, when frame payload capture is enabled */
+  payload?: NetworkPayload;
+}
+
+/**
+ * Kind of user action recorded as a breadcrumb
+ */
+export type BreadcrumbType = 'click' | 'scroll' | 'keypress' | 'submit' | 'visibility-change' | 'navigation';
+
+/**
+ * User action recorded during a session
+ */
+export interface Breadcrumb {
+  /** Action type */
+  type: BreadcrumbType;
+  /** Action timestamp */
+  timestamp: Date;
+  /** CSS selector path of the target element */
+  selector?: string;
+  /** Start of the target element's text, PII-scanned when detection is enabled */
+  text?: string;
+  /** Whether PII was masked in the text or data */
+  sanitized?: boolean;
+  /** Pointer position, for clicks */
+  coordinates?: { x: number; y: number };
+  /** Action-specific data such as scroll position, key or URL */
+  data?: Record<string, string | number | boolean>;
+}
+
+/**
+ * Sanitized serialization of the page taken when an error was captured
+ */
+export interface DomSnapshot {
+  /** Snapshot identifier */
+  id: string;
+  /** Id of the error entry that triggered the snapshot */
+  logId: string;
+  /** Snapshot timestamp */
+  timestamp: Date;
+  /** Page URL at the time of the snapshot */
+  url: string;
+  /** Serialized document, with scripts removed and form values masked */
+  html: string;
+  /** Size of the serialized document in bytes, before truncation */
+  size: number;
+  /** Whether the HTML was cut at the size limit */
+  truncated: boolean;
+  /** Absolute URLs of the external stylesheets the page used */
+  stylesheets: string[];
+  /** Number of form field values that were masked */
+  maskedFields: number;
+}
+
+/**
+ * What caused a screenshot to be taken
+ */
+export type ScreenshotTrigger = 'error' | 'hotkey';
+
+/**
+ * Area blacked out in a screenshot, in CSS pixels relative to the viewport
+ */
+export interface RedactionBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Screenshot recorded in a session
+ */
+export interface ScreenshotReference {
+  /** Screenshot identifier, the key of the stored image */
+  id: string;
+  /** Capture timestamp */
+  timestamp: Date;
+  /** What caused the screenshot */
+  trigger: ScreenshotTrigger;
+  /** Id of the error entry the screenshot belongs to */
+  logId?: string;
+  /** Image MIME type */
+  mimeType: string;
+  /** Image width in device pixels */
+  width: number;
+  /** Image height in device pixels */
+  height: number;
+  /** Number of areas blacked out before the image was stored */
+  redactedRegions: number;
+}
+
+/**
+ * Stored screenshot with its decrypted image
+ */
+export interface Screenshot extends ScreenshotReference {
+  /** Session the screenshot was taken in */
+  sessionId: string;
+  /** Image as a data URL */
+  dataUrl: string;
+}
+
+/**
+ * How the page arrived at a route
+ */
+export type NavigationType = 'load' | 'reload' | 'push' | 'replace' | 'pop' | 'hash';
+
+/**
+ * Time spent on one route of a single-page application
+ */
+export interface RouteVisit {
+  /** Visit identifier */
+  id: string;
+  /** How the page arrived at the route */
+  type: NavigationType;
+  /** Full URL */
+  url: string;
+  /** Path, plus the fragment for hash-based routers */
+  route: string;
+  /** Document title when the route was entered */
+  title: string;
+  /** When the route was entered */
+  startTime: Date;
+  /** Time spent on the route in milliseconds; for the last route, until the session ended */
+  duration?: number;
+}
+
+/**
+ * Sanitized web storage, cookie and IndexedDB state of the page
+ */
+export interface StorageState {
+  /** When the state was read */
+  timestamp: Date;
+  /** localStorage entries, values cut at the configured length */
+  localStorage: Record<string, string>;
+  /** sessionStorage entries, values cut at the configured length */
+  sessionStorage: Record<string, string>;
+  /** Names of the cookies visible to the page; HttpOnly cookies are not */
+  cookieNames: string[];
+  /** Names of the page's IndexedDB databases */
+  indexedDbNames: string[];
+  /** Whether entries beyond the configured limit were left out */
+  truncated: boolean;
+}
+
+/**
+ * Changes to a localStorage or sessionStorage area
+ */
+export interface StorageAreaDiff {
+  /** Entries set during the session */
+  added: Record<string, string>;
+  /** Keys removed during the session */
+  removed: string[];
+  /** Entries whose value changed */
+  changed: Record<string, { before: string; after: string }>;
+}
+
+/**
+ * Names that appeared or disappeared during the session
+ */
+export interface NameListDiff {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Changes the page made to its storage during the session
+ */
+export interface StorageStateDiff {
+  localStorage: StorageAreaDiff;
+  sessionStorage: StorageAreaDiff;
+  cookieNames: NameListDiff;
+  indexedDbNames: NameListDiff;
+}
+
+/**
+ * Storage state recorded for a session
+ */
+export interface SessionStorageState {
+  /** State when the session started */
+  initial: StorageState;
+  /** State when the session ended */
+  final?: StorageState;
+  /** Changes between the two, computed before sanitization */
+  diff?: StorageStateDiff;
 }
 
 /**
@@ -157,10 +829,16 @@ export interface PerformanceMetrics {
   fcp?: number;
   /** Largest Contentful Paint */
   lcp?: number;
-  /** Cumulative Layout Shift */
+  /** Cumulative Layout Shift, largest session window */
   cls?: number;
-  /** First Input Delay */
+  /** First Input Delay; deprecated as a Core Web Vital in favour of `inp` */
   fid?: number;
+  /** Interaction to Next Paint, in milliseconds */
+  inp?: number;
+  /** Interaction that determined `inp` */
+  inpAttribution?: InteractionAttribution;
+  /** Time to First Byte, in milliseconds */
+  ttfb?: number;
   /** Time to Interactive */
   tti?: number;
   /** Memory usage information */
@@ -168,6 +846,72 @@ export interface PerformanceMetrics {
     used: number;
     total: number;
   };
+  /** Long tasks, long animation frames, layout shifts and slow interactions, oldest first */
+  timeline?: PerformanceEvent[];
+  /** Resource timing totals per initiator type */
+  resources?: ResourceTimingSummary[];
+}
+
+/**
+ * Kind of event on the performance timeline
+ */
+export type PerformanceEventType = 'long-task' | 'long-animation-frame' | 'layout-shift' | 'interaction';
+
+/**
+ * Performance problem at a point in the session
+ */
+export interface PerformanceEvent {
+  /** Kind of event */
+  type: PerformanceEventType;
+  /** When the event started */
+  timestamp: Date;
+  /** Duration in milliseconds; 0 for layout shifts */
+  duration: number;
+  /** Layout shift score */
+  value?: number;
+  /** Time the frame blocked input, for long animation frames */
+  blockingDuration?: number;
+  /** Event type for interactions, such as 'click' */
+  name?: string;
+  /** Element, script or frame the event is attributed to */
+  attribution?: string;
+}
+
+/**
+ * Breakdown of the interaction that determined INP
+ */
+export interface InteractionAttribution {
+  /** Event type, such as 'click' or 'keydown' */
+  eventType: string;
+  /** Selector of the element interacted with, when still in the document */
+  target?: string;
+  /** When the interaction started */
+  timestamp: Date;
+  /** Time from input until handlers started, in milliseconds */
+  inputDelay: number;
+  /** Time spent running handlers, in milliseconds */
+  processingDuration: number;
+  /** Time from handlers finishing until the next paint, in milliseconds */
+  presentationDelay: number;
+}
+
+/**
+ * Resource timing totals for one initiator type
+ */
+export interface ResourceTimingSummary {
+  /** Initiator type, such as 'script', 'img' or 'fetch' */
+  initiatorType: string;
+  /** Number of resources loaded */
+  count: number;
+  /** Bytes transferred, 0 for cached and cross-origin resources without Timing-Allow-Origin */
+  transferSize: number;
+  /** Sum of the load durations, in milliseconds */
+  totalDuration: number;
+  /** Slowest resource of the type */
+  slowest: {
+    url: string;
+    duration: number;
+  };
 }
 
 /**
@@ -198,6 +942,7 @@ export interface ConsentRecord {
 export type ExportFormat = 
   | 'json'
   | 'markdown' 
+  | 'har'
   | 'csv'
   | 'github-issue'
   | 'slack-message'
@@ -238,6 +983,11 @@ export interface ExtensionConfig {
   capturedLevels: LogLevel[];
   /** Maximum number of logs to retain */
   maxLogsRetained: number;
+  /**
+   * Filter rules evaluated in order before PII scanning and storage; the first matching
+   * rule decides. Entries no rule matches are captured unless an include rule is enabled
+   */
+  filterRules: CaptureFilterRule[];
   /** Whether to auto-capture on page load */
   autoCaptureOnLoad: boolean;
   /** Privacy settings */
@@ -257,7 +1007,7 @@ export interface ExtensionConfig {
     enableMonitoring: boolean;
     /** Maximum memory usage in MB */
     maxMemoryMB: number;
-    /** Capture throttling in ms */
+    /** Capture throttling in ms; superseded by rateLimit and no longer applied */
     throttleMs: number;
   };
   /** Export preferences */
@@ -267,6 +1017,130 @@ export interface ExtensionConfig {
     /** Whether to include metadata by default */
     includeMetadata: boolean;
   };
+  /** Source map resolution settings */
+  sourceMaps: {
+    /** Resolve captured stack traces through source maps */
+    enabled: boolean;
+    /** Base URLs searched for `<script name>.map` files, e.g. https://example.com/maps/; only the page's and the script's origins are fetched */
+    localDirectories: string[];
+  };
+  /** Capture backend */
+  captureMode: CaptureMode;
+  /** Which execution contexts besides the top document are captured */
+  contexts: {
+    /** Capture iframes and merge their logs into the top frame's session */
+    frames: boolean;
+    /** Instrument dedicated workers created by the page */
+    workers: boolean;
+  };
+  /** Capture of request and response headers and bodies */
+  networkCapture: {
+    /** Record request and response headers; credentials and cookies are always stripped */
+    captureHeaders: boolean;
+    /** Record text request and response bodies */
+    captureBodies: boolean;
+    /** Bodies are cut after this many characters */
+    maxBodyBytes: number;
+    /** Only capture payloads for these origins when non-empty; '*' matches within a host name */
+    allowOrigins: string[];
+    /** Never capture payloads for these origins; takes precedence over allowOrigins */
+    denyOrigins: string[];
+    /** Record WebSocket, EventSource and beacon data, subject to the same size limit and origin lists */
+    captureFrames: boolean;
+  };
+  /** Linking of logs to the network requests they follow */
+  requestCorrelation: {
+    /** Link each log to a request that completed shortly before it */
+    enabled: boolean;
+    /** Maximum time between a response and a log linked to it */
+    windowMs: number;
+    /**
+     * Add a W3C traceparent header to same-origin requests that lack one
+     * Done by the page hook in the main world; the DevTools protocol backend only reads
+     * the headers reported in its Network events and never adds one
+     */
+    injectTraceparent: boolean;
+  };
+  /** Page snapshots taken when errors are captured */
+  domSnapshots: {
+    /** Snapshot the page for error-level entries */
+    enabled: boolean;
+    /** Maximum number of snapshots per session */
+    maxPerSession: number;
+    /** Serialized HTML beyond this size is cut off, in bytes */
+    maxBytes: number;
+  };
+  /** Screenshots of the visible tab */
+  screenshots: {
+    /** Allow screenshots; the keyboard shortcut only works while this is on */
+    enabled: boolean;
+    /** Take a screenshot when an error-level entry is captured */
+    onError: boolean;
+    /** Maximum number of screenshots per session */
+    maxPerSession: number;
+    /** Image format */
+    format: 'png' | 'jpeg';
+    /** Elements matching these selectors are blacked out */
+    redactSelectors: string[];
+  };
+  /** Web storage, cookie and IndexedDB state at the start and end of sessions */
+  storageState: {
+    /** Record the state and its changes */
+    enabled: boolean;
+    /** Maximum number of entries kept per storage area */
+    maxEntries: number;
+    /** Values are cut after this many characters */
+    maxValueLength: number;
+  };
+  /** Recording of where the asynchronous work behind each log was scheduled */
+  asyncStacks: {
+    /** Wrap the page's scheduling APIs; page-bridge capture only, read when the hook is injected */
+    enabled: boolean;
+    /** Maximum number of scheduling sites kept per log */
+    maxDepth: number;
+  };
+  /** Buffering of logs captured while no session is active */
+  preRoll: {
+    /** Keep recent logs so a new session can include them */
+    enabled: boolean;
+    /** Maximum number of buffered entries */
+    maxEntries: number;
+    /** Buffered entries older than this are dropped, in seconds */
+    maxAgeSeconds: number;
+  };
+  /** Collapsing of repeated log entries */
+  deduplication: {
+    /** Collapse repeats into one entry with a repeat count */
+    enabled: boolean;
+    /** Which earlier entries a repeat can be collapsed into */
+    mode: DeduplicationMode;
+    /** How long after its last repeat an entry can absorb more, in ms ('window' mode) */
+    windowMs: number;
+  };
+  /** Token-bucket limiting per level and source; errors are never dropped */
+  rateLimit: {
+    /** Limit capture volume on high-volume pages */
+    enabled: boolean;
+    /** Sustained entries per second captured for each level and source */
+    ratePerSecond: number;
+    /** Entries a quiet level and source can capture at once before limiting starts */
+    burst: number;
+  };
+  /** Rules that start and stop sessions automatically; autoCaptureOnLoad also starts one */
+  triggers: {
+    /** Start a session on the first error */
+    startOnError: boolean;
+    /** Start a session when the page URL matches one of these regular expressions */
+    startOnUrlPatterns: string[];
+    /** Start a session when a log message matches one of these regular expressions */
+    startOnLogPatterns: string[];
+    /** Stop after this many seconds without a new entry; 0 disables */
+    stopAfterQuietSeconds: number;
+    /** Stop once the session holds this many entries; 0 disables */
+    stopAfterEntries: number;
+    /** Stop when the page navigates, including same-document history changes */
+    stopOnNavigation: boolean;
+  };
 }
 
 /**
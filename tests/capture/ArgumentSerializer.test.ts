@@ -0,0 +1,144 @@
+/**
+ * ArgumentSerializer.test.ts
+ * Test suite for console argument serialization
+ * Tests typed previews, cycle, depth and size limits, and printf-style message rendering
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ArgumentSerializer } from '../../src/capture/ArgumentSerializer.js';
+import type { SerializedValue } from '../../src/types/index.js';
+
+describe('ArgumentSerializer', () => {
+  let serializer: ArgumentSerializer;
+
+  beforeEach(() => {
+    serializer = new ArgumentSerializer();
+  });
+
+  describe('Value Serialization', () => {
+    it('should serialize primitives with their type', () => {
+      expect(serializer.serialize('text')).toMatchObject({ type: 'string', value: 'text' });
+      expect(serializer.serialize(42)).toMatchObject({ type: 'number', value: 42 });
+      expect(serializer.serialize(10n)).toMatchObject({ type: 'bigint', description: '10n' });
+      expect(serializer.serialize(Symbol('id'))).toMatchObject({ type: 'symbol', description: 'Symbol(id)' });
+      expect(serializer.serialize(undefined)).toMatchObject({ type: 'undefined' });
+      expect(serializer.serialize(null)).toMatchObject({ type: 'null' });
+    });
+
+    it('should keep non-finite numbers out of the JSON value', () => {
+      const result = serializer.serialize(NaN);
+
+      expect(result.description).toBe('NaN');
+      expect(result.value).toBeUndefined();
+    });
+
+    it('should mark circular references instead of throwing', () => {
+      const object: Record<string, unknown> = { name: 'root' };
+      object['self'] = object;
+
+      const result = serializer.serialize(object);
+      const self = result.properties?.find(property => property.name === 'self');
+
+      expect(self?.value.type).toBe('circular');
+    });
+
+    it('should preserve errors with their stack', () => {
+      const error = new TypeError('bad input');
+      const result = serializer.serialize(error);
+
+      expect(result.type).toBe('error');
+      expect(result.className).toBe('TypeError');
+      expect(result.description).toBe('TypeError: bad input');
+      expect(result.stack).toBe(error.stack);
+    });
+
+    it('should serialize maps and sets with their entries', () => {
+      const map = serializer.serialize(new Map([['key', 1]]));
+      const set = serializer.serialize(new Set(['a', 'b']));
+
+      expect(map).toMatchObject({ type: 'map', size: 1, description: 'Map(1)' });
+      expect(map.entries?.[0]?.key.value).toBe('key');
+      expect(set).toMatchObject({ type: 'set', size: 2 });
+      expect(set.properties).toHaveLength(2);
+    });
+
+    it('should stop at the configured depth', () => {
+      const shallow = new ArgumentSerializer({ maxDepth: 1 });
+      const result = shallow.serialize({ outer: { inner: { value: 1 } } });
+      const outer = result.properties?.[0]?.value;
+
+      expect(outer?.properties).toBeUndefined();
+      expect(outer?.overflow).toBe(true);
+    });
+
+    it('should cut wide, deeply nested objects at the node budget', () => {
+      // 50 properties per level, three levels deep: over 125,000 values unbounded
+      const build = (level: number): unknown => level === 0
+        ? 'leaf'
+        : Object.fromEntries(Array.from({ length: 50 }, (_, index) => [`key${index}`, build(level - 1)]));
+      const wide = build(3);
+
+      const result = serializer.serialize(wide);
+
+      const countNodes = (value: SerializedValue): number => 1
+        + (value.properties ?? []).reduce((total, property) => total + countNodes(property.value), 0)
+        + (value.entries ?? []).reduce((total, entry) => total + countNodes(entry.key) + countNodes(entry.value), 0);
+      const hasOverflow = (value: SerializedValue): boolean => Boolean(value.overflow)
+        || (value.properties ?? []).some(property => hasOverflow(property.value));
+
+      expect(countNodes(result)).toBeLessThanOrEqual(1000);
+      expect(result.overflow).toBe(true);
+      expect(hasOverflow(result.properties![0]!.value)).toBe(true);
+      expect(serializer.inspect(result)).toContain('…');
+    });
+
+    it('should share the node budget across the arguments of one call', () => {
+      const limited = new ArgumentSerializer({ maxNodes: 5 });
+
+      const [first, second] = limited.serializeAll([[1, 2, 3], [4, 5, 6]]);
+
+      expect(first?.properties).toHaveLength(3);
+      expect(first?.overflow).toBeUndefined();
+      expect(second?.properties).toHaveLength(0);
+      expect(second?.overflow).toBe(true);
+    });
+
+    it('should record throwing getters without failing', () => {
+      const object = {
+        get broken(): string {
+          throw new Error('getter failed');
+        }
+      };
+
+      const result = serializer.serialize(object);
+
+      expect(result.properties?.[0]?.value.description).toContain('getter failed');
+    });
+  });
+
+  describe('Message Formatting', () => {
+    it('should apply printf-style substitutions', () => {
+      const args = serializer.serializeAll(['%s is %d years, %f%%', 'Ada', '36.5', 1.5]);
+
+      expect(serializer.formatMessage(args)).toBe('Ada is 36 years, 1.5%');
+    });
+
+    it('should drop %c styling arguments', () => {
+      const args = serializer.serializeAll(['%cStyled', 'color: red']);
+
+      expect(serializer.formatMessage(args)).toBe('Styled');
+    });
+
+    it('should append arguments without placeholders as previews', () => {
+      const args = serializer.serializeAll(['User', { id: 1, tags: ['a'] }, [1, 2]]);
+
+      expect(serializer.formatMessage(args)).toBe('User {id: 1, tags: Array(1)} [1, 2]');
+    });
+
+    it('should leave unmatched placeholders in place', () => {
+      const args = serializer.serializeAll(['Missing %s']);
+
+      expect(serializer.formatMessage(args)).toBe('Missing %s');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * AsyncStackTracker.test.ts
+ * Test suite for async causality tracking
+ * Tests timer, promise and listener chains, depth limits and uninstalling
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AsyncStackTracker, type AsyncScope } from '../../src/capture/AsyncStackTracker.js';
+import type { AsyncStackSegment } from '../../src/types/index.js';
+
+describe('AsyncStackTracker', () => {
+  let tracker: AsyncStackTracker;
+  let scope: AsyncScope & {
+    setTimeout: typeof setTimeout;
+    queueMicrotask: typeof queueMicrotask;
+    Promise: typeof Promise;
+    EventTarget: typeof EventTarget;
+  };
+
+  // Subclasses keep the patches away from the test runner's own globals
+  class ScopedPromise<T> extends Promise<T> {}
+  class ScopedTarget extends EventTarget {}
+
+  const kinds = (chain: AsyncStackSegment[] | undefined): string[] => (chain ?? []).map(segment => segment.kind);
+
+  beforeEach(() => {
+    scope = {
+      setTimeout: ((callback: () => void, delay?: number) => setTimeout(callback, delay)) as typeof setTimeout,
+      queueMicrotask: (callback: () => void) => queueMicrotask(callback),
+      Promise: ScopedPromise,
+      EventTarget: ScopedTarget
+    };
+    tracker = new AsyncStackTracker(3);
+    tracker.install(scope);
+  });
+
+  afterEach(() => {
+    tracker.uninstall();
+  });
+
+  it('should record the scheduling site of a timer callback', async () => {
+    const chain = await new Promise<AsyncStackSegment[] | undefined>(resolve => {
+      scope.setTimeout(() => resolve(tracker.getCurrentChain()), 0);
+    });
+
+    expect(kinds(chain)).toEqual(['setTimeout']);
+    expect(chain?.[0]?.stackTrace).toContain('AsyncStackTracker.test');
+    expect(tracker.getCurrentChain()).toBeUndefined();
+  });
+
+  it('should chain promise reactions to the promise they were attached to', async () => {
+    const chain = await new Promise<AsyncStackSegment[] | undefined>(resolve => {
+      scope.queueMicrotask(() => {
+        scope.Promise.resolve(1)
+          .then(value => value + 1)
+          .then(() => resolve(tracker.getCurrentChain()));
+      });
+    });
+
+    expect(kinds(chain)).toEqual(['promise', 'promise', 'queueMicrotask']);
+  });
+
+  it('should keep chains within the maximum depth', async () => {
+    const chain = await new Promise<AsyncStackSegment[] | undefined>(resolve => {
+      scope.setTimeout(() => scope.setTimeout(() => scope.setTimeout(() => scope.setTimeout(() => {
+        resolve(tracker.getCurrentChain());
+      }, 0), 0), 0), 0);
+    });
+
+    expect(chain).toHaveLength(3);
+  });
+
+  it('should track listeners and still remove them', () => {
+    const target = new ScopedTarget();
+    const chains: Array<AsyncStackSegment[] | undefined> = [];
+    const listener = (): void => {
+      chains.push(tracker.getCurrentChain());
+    };
+
+    target.addEventListener('ping', listener);
+    target.addEventListener('ping', listener);
+    target.dispatchEvent(new Event('ping'));
+
+    target.removeEventListener('ping', listener);
+    target.dispatchEvent(new Event('ping'));
+
+    expect(chains).toHaveLength(1);
+    expect(chains[0]?.[0]).toMatchObject({ kind: 'event-listener', detail: 'ping' });
+  });
+
+  it('should restore the original APIs when uninstalled', () => {
+    const original = scope.setTimeout;
+    const fresh = { setTimeout: original };
+    const other = new AsyncStackTracker(3);
+
+    other.install(fresh);
+    expect(fresh.setTimeout).not.toBe(original);
+
+    other.uninstall();
+    expect(fresh.setTimeout).toBe(original);
+  });
+});
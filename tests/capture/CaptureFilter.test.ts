@@ -0,0 +1,86 @@
+/**
+ * CaptureFilter.test.ts
+ * Test suite for include/exclude capture filter rules
+ * Tests rule criteria, first-match ordering, include-only mode and glob matching
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CaptureFilter } from '../../src/capture/CaptureFilter.js';
+import type { CaptureFilterRule, LogEntry } from '../../src/types/index.js';
+
+describe('CaptureFilter', () => {
+  let filter: CaptureFilter;
+
+  const entry = (overrides: Partial<LogEntry> = {}): LogEntry => ({
+    id: 'log_1',
+    timestamp: new Date(),
+    level: 'log',
+    message: 'hello',
+    ...overrides
+  });
+
+  const rule = (overrides: Partial<CaptureFilterRule>): CaptureFilterRule => ({
+    id: 'rule',
+    action: 'exclude',
+    enabled: true,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    filter = new CaptureFilter();
+  });
+
+  describe('Exclude Rules', () => {
+    it('should drop entries matching all criteria', () => {
+      filter.setRules([rule({ id: 'hmr', levels: ['log', 'debug'], messagePattern: '^\\[(vite|HMR)\\]' })]);
+
+      expect(filter.evaluate(entry({ message: '[vite] hot updated: /src/App.tsx' }))).toEqual({ captured: false, ruleId: 'hmr' });
+      expect(filter.evaluate(entry({ level: 'error', message: '[vite] failed to reload' }))).toEqual({ captured: true });
+    });
+
+    it('should match source files and frame URLs with globs', () => {
+      filter.setRules([
+        rule({ id: 'sdk', sourceGlob: 'https://js.stripe.com/**' }),
+        rule({ id: 'ads', frameUrlGlob: 'https://*.doubleclick.net/**' })
+      ]);
+
+      const sdkEntry = entry({ source: { file: 'https://js.stripe.com/v3/m-outer.js', line: 1, column: 1 } });
+      const adEntry = entry({ executionContext: { type: 'iframe', frameUrl: 'https://ad.doubleclick.net/frame?id=1' } });
+      const appEntry = entry({ source: { file: 'https://app.test/js.stripe.com/shim.js', line: 1, column: 1 } });
+
+      expect(filter.evaluate(sdkEntry).ruleId).toBe('sdk');
+      expect(filter.evaluate(adEntry).ruleId).toBe('ads');
+      expect(filter.evaluate(appEntry).captured).toBe(true);
+    });
+
+    it('should match origins and skip disabled rules', () => {
+      filter.setRules([
+        rule({ id: 'off', enabled: false }),
+        rule({ id: 'browser', origins: ['browser'] })
+      ]);
+
+      expect(filter.evaluate(entry()).captured).toBe(true);
+      expect(filter.evaluate(entry({ origin: 'browser' })).ruleId).toBe('browser');
+    });
+  });
+
+  describe('Include Rules', () => {
+    it('should let the first matching rule decide', () => {
+      filter.setRules([
+        rule({ id: 'keep-errors', action: 'include', levels: ['error'] }),
+        rule({ id: 'drop-sdk', sourceGlob: '**/vendor/**' })
+      ]);
+
+      const source = { file: 'https://app.test/vendor/sdk.js', line: 1, column: 1 };
+      expect(filter.evaluate(entry({ level: 'error', source }))).toEqual({ captured: true, ruleId: 'keep-errors' });
+      expect(filter.evaluate(entry({ source }))).toEqual({ captured: false, ruleId: 'drop-sdk' });
+    });
+
+    it('should drop unmatched entries when an include rule is enabled', () => {
+      filter.setRules([rule({ id: 'checkout', action: 'include', messagePattern: 'checkout' })]);
+
+      expect(filter.evaluate(entry({ message: 'checkout started' })).captured).toBe(true);
+      expect(filter.evaluate(entry({ message: 'unrelated' }))).toEqual({ captured: false });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * CaptureTriggers.test.ts
+ * Test suite for automatic session start and stop rules
+ * Tests page load, error and pattern start rules and the quiet, entry and navigation stop rules
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CaptureTriggers } from '../../src/capture/CaptureTriggers.js';
+import type { CaptureTrigger, LogEntry, LogLevel } from '../../src/types/index.js';
+
+describe('CaptureTriggers', () => {
+  let triggers: CaptureTriggers;
+  let stops: CaptureTrigger[];
+
+  const entry = (level: LogLevel, message: string): LogEntry => ({
+    id: 'log_1',
+    timestamp: new Date(),
+    level,
+    message
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    stops = [];
+    triggers = new CaptureTriggers();
+    triggers.setStopHandler(trigger => stops.push(trigger));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Start Rules', () => {
+    it('should start on page load before checking URL patterns', () => {
+      triggers.updateConfig({ startOnLoad: true, startOnUrlPatterns: ['/checkout'] });
+
+      expect(triggers.checkPageLoad('https://shop.test/checkout')?.reason).toBe('page-load');
+    });
+
+    it('should start when the URL matches a pattern', () => {
+      triggers.updateConfig({ startOnUrlPatterns: ['^https://shop\\.test/checkout'] });
+
+      expect(triggers.checkPageLoad('https://shop.test/checkout/pay')).toMatchObject({
+        reason: 'url-match',
+        detail: '^https://shop\\.test/checkout'
+      });
+      expect(triggers.checkPageLoad('https://shop.test/cart')).toBeNull();
+    });
+
+    it('should start on the first error or a matching log message', () => {
+      triggers.updateConfig({ startOnError: true, startOnLogPatterns: ['payment (failed|declined)'] });
+
+      expect(triggers.hasLogStartTriggers()).toBe(true);
+      expect(triggers.checkLog(entry('error', 'boom'))?.reason).toBe('first-error');
+      expect(triggers.checkLog(entry('warn', 'payment declined'))?.reason).toBe('log-match');
+      expect(triggers.checkLog(entry('log', 'ok'))).toBeNull();
+    });
+
+    it('should skip invalid patterns', () => {
+      triggers.updateConfig({ startOnLogPatterns: ['(unclosed'] });
+
+      expect(triggers.hasLogStartTriggers()).toBe(false);
+    });
+  });
+
+  describe('Stop Rules', () => {
+    it('should stop after the quiet period, restarting it on each entry', () => {
+      triggers.updateConfig({ stopAfterQuietSeconds: 5 });
+      triggers.watchSession('https://app.test/');
+
+      vi.advanceTimersByTime(4000);
+      triggers.recordSessionLog(1);
+      vi.advanceTimersByTime(4000);
+      expect(stops).toHaveLength(0);
+
+      vi.advanceTimersByTime(1000);
+      expect(stops.map(stop => stop.reason)).toEqual(['quiet-period']);
+    });
+
+    it('should stop once at the entry limit', () => {
+      triggers.updateConfig({ stopAfterEntries: 2 });
+      triggers.watchSession('https://app.test/');
+
+      triggers.recordSessionLog(1);
+      triggers.recordSessionLog(2);
+      triggers.recordSessionLog(3);
+
+      expect(stops).toEqual([expect.objectContaining({ reason: 'entry-limit', detail: '2' })]);
+    });
+
+    it('should stop when the URL changes', () => {
+      triggers.updateConfig({ stopOnNavigation: true });
+      triggers.watchSession('https://app.test/');
+
+      triggers.recordNavigation('https://app.test/');
+      expect(stops).toHaveLength(0);
+
+      triggers.recordNavigation('https://app.test/settings');
+      expect(stops[0]).toMatchObject({ reason: 'navigation', detail: 'https://app.test/settings' });
+    });
+
+    it('should not fire after the session is unwatched', () => {
+      triggers.updateConfig({ stopAfterQuietSeconds: 1, stopOnNavigation: true });
+      triggers.watchSession('https://app.test/');
+      triggers.unwatchSession();
+
+      vi.advanceTimersByTime(2000);
+      triggers.recordNavigation('https://app.test/other');
+
+      expect(stops).toHaveLength(0);
+    });
+  });
+});
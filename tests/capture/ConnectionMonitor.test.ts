@@ -0,0 +1,209 @@
+/**
+ * ConnectionMonitor.test.ts
+ * Test suite for WebSocket, EventSource and sendBeacon monitoring
+ * Tests connection lifecycles, frame accounting, frame caps, payload capture, uninstalling
+ * and keeping records reported from another world
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ConnectionMonitor } from '../../src/capture/ConnectionMonitor.js';
+import { NetworkPayloadCapture } from '../../src/capture/NetworkPayloadCapture.js';
+
+/**
+ * Minimal WebSocket stand-in driven by the tests
+ */
+class FakeWebSocket extends EventTarget {
+  static readonly OPEN = 1;
+  readonly url: string;
+  protocol = '';
+  sent: unknown[] = [];
+
+  constructor(url: string | URL) {
+    super();
+    this.url = String(url);
+  }
+
+  send(data: unknown): void {
+    this.sent.push(data);
+  }
+
+  receive(data: unknown): void {
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+
+  finish(code: number, reason: string): void {
+    this.dispatchEvent(Object.assign(new Event('close'), { code, reason }));
+  }
+}
+
+/**
+ * Minimal EventSource stand-in driven by the tests
+ */
+class FakeEventSource extends EventTarget {
+  readonly url: string;
+  readyState = 0;
+
+  constructor(url: string | URL) {
+    super();
+    this.url = String(url);
+  }
+
+  close(): void {
+    this.readyState = 2;
+  }
+
+  emit(type: string, data: string): void {
+    this.dispatchEvent(new MessageEvent(type, { data }));
+  }
+}
+
+describe('ConnectionMonitor', () => {
+  let payloadCapture: NetworkPayloadCapture;
+  let monitor: ConnectionMonitor;
+  let beacons: Array<[unknown, unknown]>;
+  let scope: {
+    WebSocket: unknown;
+    EventSource: unknown;
+    navigator: { sendBeacon: (url: unknown, data?: unknown) => boolean };
+  };
+
+  beforeEach(() => {
+    beacons = [];
+    scope = {
+      WebSocket: FakeWebSocket,
+      EventSource: FakeEventSource,
+      navigator: {
+        sendBeacon: (url: unknown, data?: unknown) => {
+          beacons.push([url, data]);
+          return url !== 'https://refused.test/';
+        }
+      }
+    };
+    payloadCapture = new NetworkPayloadCapture();
+    monitor = new ConnectionMonitor(payloadCapture);
+    monitor.install(scope);
+  });
+
+  afterEach(() => {
+    monitor.uninstall();
+  });
+
+  it('should record a WebSocket lifecycle and frame sizes', () => {
+    const Socket = scope.WebSocket as typeof FakeWebSocket;
+    const socket = new Socket('wss://live.example.com/feed');
+
+    expect(socket).toBeInstanceOf(FakeWebSocket);
+    expect(Socket.OPEN).toBe(1);
+
+    socket.protocol = 'chat';
+    socket.dispatchEvent(new Event('open'));
+    socket.send('hello');
+    socket.receive(new ArrayBuffer(16));
+    socket.finish(1000, 'done');
+
+    const [connection] = monitor.getConnections();
+    expect(socket.sent).toEqual(['hello']);
+    expect(connection).toMatchObject({
+      type: 'websocket',
+      url: 'wss://live.example.com/feed',
+      state: 'closed',
+      protocol: 'chat',
+      closeCode: 1000,
+      closeReason: 'done',
+      framesSent: 1,
+      framesReceived: 1,
+      bytesSent: 5,
+      bytesReceived: 16
+    });
+    expect(connection?.frames?.map(frame => frame.binary ?? false)).toEqual([false, true]);
+    expect(connection?.frames?.[0]?.payload).toBeUndefined();
+  });
+
+  it('should mark sockets that close before opening as failed', () => {
+    const Socket = scope.WebSocket as typeof FakeWebSocket;
+    new Socket('wss://down.example.com/').finish(1006, '');
+
+    expect(monitor.getConnections()[0]).toMatchObject({ state: 'failed', closeCode: 1006 });
+    expect(monitor.getConnections()[0]?.closeReason).toBeUndefined();
+  });
+
+  it('should keep only the most recent frames', () => {
+    monitor.updateConfig({ maxFramesPerConnection: 2 });
+    const Socket = scope.WebSocket as typeof FakeWebSocket;
+    const socket = new Socket('wss://live.example.com/feed');
+
+    socket.receive('a');
+    socket.receive('b');
+    socket.receive('c');
+
+    const [connection] = monitor.getConnections();
+    expect(connection?.framesReceived).toBe(3);
+    expect(connection?.frames).toHaveLength(2);
+    expect(connection?.droppedFrames).toBe(1);
+  });
+
+  it('should record named EventSource events the page listens for', () => {
+    const Source = scope.EventSource as typeof FakeEventSource;
+    const source = new Source('https://api.example.com/stream');
+    const received: string[] = [];
+
+    source.addEventListener('price', event => received.push((event as MessageEvent).data));
+    source.dispatchEvent(new Event('open'));
+    source.emit('message', 'tick');
+    source.emit('price', '42');
+    source.close();
+
+    const [connection] = monitor.getConnections();
+    expect(received).toEqual(['42']);
+    expect(connection).toMatchObject({ type: 'eventsource', state: 'closed', framesReceived: 2 });
+    expect(connection?.frames?.map(frame => frame.event)).toEqual([undefined, 'price']);
+  });
+
+  it('should record beacons and sanitized frame data when enabled', () => {
+    payloadCapture.updateConfig({ captureFrames: true, denyOrigins: ['refused.test'] });
+
+    expect(scope.navigator.sendBeacon('https://metrics.example.com/collect', '{"event":"view","password":"x"}')).toBe(true);
+    expect(scope.navigator.sendBeacon('https://refused.test/', 'data')).toBe(false);
+
+    const [queued, refused] = monitor.getConnections();
+    expect(beacons).toHaveLength(2);
+    expect(queued).toMatchObject({ type: 'beacon', state: 'closed', framesSent: 1 });
+    expect(queued?.frames?.[0]?.payload?.body).toEqual({ event: 'view', password: '[REDACTED]' });
+    expect(refused).toMatchObject({ state: 'failed' });
+    expect(refused?.frames?.[0]?.payload).toBeUndefined();
+  });
+
+  it('should notify about changes and replace reported records by id', () => {
+    const changes: string[] = [];
+    monitor.setChangeHandler(connection => changes.push(connection.state));
+    const Socket = scope.WebSocket as typeof FakeWebSocket;
+    const socket = new Socket('wss://live.example.com/feed');
+    socket.dispatchEvent(new Event('open'));
+
+    const receiver = new ConnectionMonitor(payloadCapture);
+    receiver.updateConfig({ maxConnections: 1 });
+    const [connection] = monitor.getConnections();
+    receiver.recordConnection({ ...connection!, state: 'connecting' });
+    receiver.recordConnection(connection!);
+
+    expect(changes).toEqual(['connecting', 'open']);
+    expect(receiver.getConnections()).toEqual([connection]);
+
+    receiver.recordConnection({ ...connection!, id: 'other' });
+    expect(receiver.getConnections().map(recorded => recorded.id)).toEqual(['other']);
+  });
+
+  it('should restore the original APIs when uninstalled', () => {
+    const sendBeacon = (): boolean => true;
+    const fresh = { WebSocket: FakeWebSocket, navigator: { sendBeacon } };
+    const other = new ConnectionMonitor(payloadCapture);
+
+    other.install(fresh);
+    expect(fresh.WebSocket).not.toBe(FakeWebSocket);
+    expect(fresh.navigator.sendBeacon).not.toBe(sendBeacon);
+
+    other.uninstall();
+    expect(fresh.WebSocket).toBe(FakeWebSocket);
+    expect(fresh.navigator.sendBeacon).toBe(sendBeacon);
+  });
+});
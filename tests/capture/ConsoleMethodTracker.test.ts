@@ -0,0 +1,149 @@
+/**
+ * ConsoleMethodTracker.test.ts
+ * Test suite for console API semantics
+ * Tests group depth, timers, counters, assertions and console.table conversion limits
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConsoleMethodTracker } from '../../src/capture/ConsoleMethodTracker.js';
+
+describe('ConsoleMethodTracker', () => {
+  let now: number;
+  let tracker: ConsoleMethodTracker;
+
+  beforeEach(() => {
+    now = 1000;
+    tracker = new ConsoleMethodTracker(() => now);
+  });
+
+  describe('Groups', () => {
+    it('should record the depth a call was made at', () => {
+      expect(tracker.track('group', ['Checkout'])).toEqual({
+        level: 'log',
+        args: ['Checkout'],
+        console: { method: 'group', groupDepth: 0, groupCollapsed: false }
+      });
+      expect(tracker.track('groupCollapsed', [])).toEqual({
+        level: 'log',
+        args: ['console.groupCollapsed'],
+        console: { method: 'groupCollapsed', groupDepth: 1, groupCollapsed: true }
+      });
+      expect(tracker.track('warn', ['nested'])?.console).toEqual({ method: 'warn', groupDepth: 2 });
+
+      expect(tracker.track('groupEnd', [])).toBeNull();
+      expect(tracker.track('groupEnd', [])).toBeNull();
+      expect(tracker.track('log', ['outside'])).toEqual({ level: 'log', args: ['outside'] });
+    });
+
+    it('should not go below the top level on extra groupEnd calls', () => {
+      tracker.track('groupEnd', []);
+      tracker.track('group', []);
+
+      expect(tracker.track('info', ['inside'])?.console?.groupDepth).toBe(1);
+    });
+  });
+
+  describe('Timers', () => {
+    it('should report elapsed time and forget the timer on timeEnd', () => {
+      expect(tracker.track('time', ['load'])).toBeNull();
+      now = 1012.5;
+      expect(tracker.track('timeLog', ['load', 'images'])).toEqual({
+        level: 'log',
+        args: ['load: 12.500 ms', 'images'],
+        console: { method: 'timeLog', groupDepth: 0, timer: { label: 'load', durationMs: 12.5, ended: false } }
+      });
+      now = 1100;
+      expect(tracker.track('timeEnd', ['load'])?.console?.timer).toEqual({ label: 'load', durationMs: 100, ended: true });
+
+      expect(tracker.track('timeEnd', ['load'])).toMatchObject({ level: 'warn', args: ["Timer 'load' does not exist"] });
+    });
+
+    it('should warn about timers started twice and use the default label', () => {
+      tracker.track('time', []);
+
+      expect(tracker.track('time', [undefined])).toMatchObject({ level: 'warn', args: ["Timer 'default' already exists"] });
+    });
+  });
+
+  describe('Counters', () => {
+    it('should count per label and restart after countReset', () => {
+      expect(tracker.track('count', [])?.args).toEqual(['default: 1']);
+      expect(tracker.track('count', ['clicks'])?.args).toEqual(['clicks: 1']);
+      expect(tracker.track('count', ['clicks'])?.console?.counter).toEqual({ label: 'clicks', count: 2 });
+
+      expect(tracker.track('countReset', ['clicks'])).toBeNull();
+      expect(tracker.track('count', ['clicks'])?.args).toEqual(['clicks: 1']);
+      expect(tracker.track('countReset', ['views'])).toMatchObject({ level: 'warn', args: ["Count for 'views' does not exist"] });
+    });
+  });
+
+  describe('Assertions', () => {
+    it('should log failed assertions as errors and ignore passing ones', () => {
+      expect(tracker.track('assert', [true, 'never shown'])).toBeNull();
+      expect(tracker.track('assert', [0, 'Cart total is %d', -1])).toEqual({
+        level: 'error',
+        args: ['Assertion failed: Cart total is %d', -1],
+        console: { method: 'assert', groupDepth: 0, assertion: { passed: false } }
+      });
+      expect(tracker.track('assert', [false, { total: -1 }])?.args).toEqual(['Assertion failed', { total: -1 }]);
+    });
+  });
+
+  describe('Tables', () => {
+    it('should convert arrays of objects with a column filter', () => {
+      const table = tracker.track('table', [[{ sku: 'A1', qty: 2, price: 9.5 }, { sku: 'B2', qty: 1 }], ['sku', 'qty']])?.console?.table;
+
+      expect(table).toEqual({
+        columns: ['sku', 'qty'],
+        rows: [
+          { index: '0', values: { sku: 'A1', qty: '2' } },
+          { index: '1', values: { sku: 'B2', qty: '1' } }
+        ],
+        truncated: false
+      });
+    });
+
+    it('should put primitive rows in a Value column', () => {
+      const table = tracker.track('table', [{ first: 'ada', nested: { id: 1 }, list: [1, 2] }])?.console?.table;
+
+      expect(table?.columns).toEqual(['id', '0', '1', 'Value']);
+      expect(table?.rows).toEqual([
+        { index: 'first', values: { Value: 'ada' } },
+        { index: 'nested', values: { id: '1' } },
+        { index: 'list', values: { 0: '1', 1: '2' } }
+      ]);
+    });
+
+    it('should cap rows, columns and cell length', () => {
+      const wide = Object.fromEntries(Array.from({ length: 25 }, (_, index) => [`c${index}`, index]));
+      const rows = Array.from({ length: 150 }, () => ({ ...wide, note: 'x'.repeat(300) }));
+
+      const table = tracker.track('table', [rows])?.console?.table;
+
+      expect(table?.rows).toHaveLength(100);
+      expect(table?.columns).toHaveLength(20);
+      expect(table?.truncated).toBe(true);
+      expect(Object.keys(table?.rows[0]?.values ?? {})).toHaveLength(20);
+
+      const long = tracker.track('table', [[{ note: 'x'.repeat(300) }]])?.console?.table;
+      expect(long?.rows[0]?.values['note']).toBe(`${'x'.repeat(200)}…`);
+      expect(long?.truncated).toBe(false);
+    });
+
+    it('should log non-tabular data like console.log', () => {
+      expect(tracker.track('table', ['plain'])).toEqual({ level: 'log', args: ['plain'], console: { method: 'table', groupDepth: 0 } });
+    });
+  });
+
+  it('should clear groups, timers and counters on reset', () => {
+    tracker.track('group', []);
+    tracker.track('time', ['load']);
+    tracker.track('count', ['clicks']);
+
+    tracker.reset();
+
+    expect(tracker.track('log', ['top'])).toEqual({ level: 'log', args: ['top'] });
+    expect(tracker.track('timeEnd', ['load'])?.level).toBe('warn');
+    expect(tracker.track('count', ['clicks'])?.args).toEqual(['clicks: 1']);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * ContextCollector.test.ts
+ * Test suite for session context collection
+ * Tests linking logs to network requests reported by the page hook and keeping
+ * each session's records apart
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ContextCollector } from '../../src/capture/ContextCollector.js';
+import type { NetworkConnection, NetworkRequest } from '../../src/types/index.js';
+
+/**
+ * Records a request, a connection and a click for the current session
+ */
+function recordActivity(collector: ContextCollector): void {
+  collector.recordNetworkRequest({
+    id: 'req_1',
+    url: 'https://shop.test/api/cart',
+    method: 'GET',
+    status: 200,
+    timestamp: new Date(),
+    responseTime: 40,
+    failed: false
+  });
+  const connection: NetworkConnection = {
+    id: 'conn_1',
+    type: 'websocket',
+    url: 'wss://shop.test/live',
+    openedAt: new Date(),
+    state: 'open',
+    errorCount: 0,
+    framesSent: 0,
+    framesReceived: 0,
+    bytesSent: 0,
+    bytesReceived: 0
+  };
+  collector.recordConnection(connection);
+  document.body.dispatchEvent(new MouseEvent('click', { bubbles: true }));
+}
+
+describe('ContextCollector', () => {
+  let collector: ContextCollector;
+
+  beforeEach(async () => {
+    collector = new ContextCollector();
+    await collector.initialize();
+    await collector.collectInitialContext();
+  });
+
+  afterEach(async () => {
+    await collector.shutdown();
+  });
+
+  describe('Network Requests', () => {
+    it('should link a log to a request whose payloads are still being read', async () => {
+      collector.startMonitoring('session_1');
+      const sentAt = new Date(Date.now() - 200);
+      const completion: NetworkRequest = {
+        id: 'req_1',
+        url: 'https://shop.test/api/orders',
+        method: 'POST',
+        status: 500,
+        timestamp: sentAt,
+        responseTime: 150,
+        failed: true
+      };
+
+      // The page hook reports the completion first; the page then logs the failure
+      collector.recordNetworkRequest({ ...completion });
+      const related = collector.findRelatedRequest(new Date(sentAt.getTime() + 160));
+
+      // Payloads follow as a second report of the same request
+      collector.recordNetworkRequest({ ...completion, response: { body: { error: 'out of stock' } } });
+      const { networkRequests } = await collector.getFinalContext();
+
+      expect(related?.id).toBe('req_1');
+      expect(networkRequests).toHaveLength(1);
+      expect(networkRequests?.[0]).toMatchObject({ id: 'req_1', status: 500, response: { body: { error: 'out of stock' } } });
+    });
+  });
+
+  describe('Sessions', () => {
+    it('should not carry records into the next session', async () => {
+      collector.startMonitoring('session_1');
+      recordActivity(collector);
+      collector.stopMonitoring();
+
+      collector.startMonitoring('session_2');
+      const context = await collector.getFinalContext();
+
+      expect(context.networkRequests).toEqual([]);
+      expect(context.connections).toEqual([]);
+      expect(context.breadcrumbs).toEqual([]);
+      expect(collector.findRelatedRequest(new Date())).toBeUndefined();
+    });
+
+    it('should keep records when monitoring restarts for a config change', async () => {
+      collector.startMonitoring('session_1');
+      recordActivity(collector);
+
+      collector.updateConfig({ enablePerformanceMonitoring: false });
+      const context = await collector.getFinalContext();
+
+      expect(context.networkRequests).toHaveLength(1);
+      expect(context.connections).toHaveLength(1);
+      expect(context.breadcrumbs?.map(action => action.type)).toContain('click');
+    });
+  });
+});
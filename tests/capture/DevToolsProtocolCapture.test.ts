@@ -0,0 +1,192 @@
+/**
+ * DevToolsProtocolCapture.test.ts
+ * Test suite for the chrome.debugger capture backend
+ * Tests conversion of protocol console, exception, log and network events
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DevToolsProtocolCapture, type ProtocolLogRecord } from '../../src/capture/DevToolsProtocolCapture.js';
+import type { NetworkRequest } from '../../src/types/index.js';
+
+type EventListener = (source: { tabId?: number; sessionId?: string }, method: string, params?: object) => void;
+
+describe('DevToolsProtocolCapture', () => {
+  let capture: DevToolsProtocolCapture;
+  let emit: EventListener;
+  let records: ProtocolLogRecord[];
+  let requests: NetworkRequest[];
+
+  beforeEach(async () => {
+    vi.stubGlobal('chrome', {
+      debugger: {
+        onEvent: { addListener: (listener: EventListener) => { emit = listener; } },
+        onDetach: { addListener: () => undefined },
+        attach: async () => undefined,
+        detach: async () => undefined,
+        sendCommand: async (_target: unknown, method: string) =>
+          method === 'Page.getFrameTree' ? { frameTree: { frame: { id: 'main', url: 'https://app.test/' } } } : {}
+      }
+    });
+
+    records = [];
+    requests = [];
+    capture = new DevToolsProtocolCapture();
+    capture.initialize();
+    capture.setLogHandler((_tabId, record) => records.push(record));
+    capture.setNetworkHandler((_tabId, request) => requests.push(request));
+    await capture.attach(1);
+
+    emit({ tabId: 1 }, 'Runtime.executionContextCreated', {
+      context: { id: 7, origin: 'https://app.test', auxData: { frameId: 'main', isDefault: true } }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Console Events', () => {
+    it('should convert console calls with previews and stack frames', () => {
+      emit({ tabId: 1 }, 'Runtime.consoleAPICalled', {
+        type: 'warning',
+        executionContextId: 7,
+        timestamp: 1700000000000,
+        args: [
+          { type: 'string', value: 'User %o' },
+          {
+            type: 'object',
+            className: 'Object',
+            description: 'Object',
+            preview: {
+              type: 'object',
+              description: 'Object',
+              overflow: false,
+              properties: [{ name: 'id', type: 'number', value: '1' }]
+            }
+          }
+        ],
+        stackTrace: { callFrames: [{ functionName: 'save', url: 'https://app.test/app.js', lineNumber: 9, columnNumber: 4 }] }
+      });
+
+      const record = records[0];
+      expect(record?.level).toBe('warn');
+      expect(record?.stackTrace).toBe('    at save (https://app.test/app.js:10:5)');
+      expect(record?.details.executionContext).toEqual({ type: 'top-frame', frameUrl: 'https://app.test/' });
+      expect(record?.details.serializedArgs?.[1]?.properties?.[0]).toEqual({
+        name: 'id',
+        value: { type: 'number', value: 1, description: '1' }
+      });
+    });
+
+    it('should ignore calls from isolated worlds', () => {
+      emit({ tabId: 1 }, 'Runtime.executionContextCreated', {
+        context: { id: 8, origin: '', auxData: { frameId: 'main', isDefault: false, type: 'isolated' } }
+      });
+      emit({ tabId: 1 }, 'Runtime.consoleAPICalled', {
+        type: 'log',
+        executionContextId: 8,
+        timestamp: 1700000000000,
+        args: [{ type: 'string', value: 'extension output' }]
+      });
+
+      expect(records).toHaveLength(0);
+    });
+
+    it('should track group depth per context', () => {
+      const call = (type: string): void => emit({ tabId: 1 }, 'Runtime.consoleAPICalled', {
+        type,
+        executionContextId: 7,
+        timestamp: 1700000000000,
+        args: type === 'endGroup' ? [] : [{ type: 'string', value: type }]
+      });
+
+      call('startGroupCollapsed');
+      call('log');
+      call('endGroup');
+      call('log');
+
+      expect(records.map(record => record.details.console?.groupDepth)).toEqual([0, 1, undefined]);
+      expect(records[0]?.details.console?.groupCollapsed).toBe(true);
+    });
+  });
+
+  describe('Exceptions and Browser Messages', () => {
+    it('should convert uncaught exceptions into error records', () => {
+      emit({ tabId: 1 }, 'Runtime.exceptionThrown', {
+        timestamp: 1700000000000,
+        exceptionDetails: {
+          text: 'Uncaught',
+          lineNumber: 0,
+          columnNumber: 10,
+          url: 'https://app.test/app.js',
+          executionContextId: 7,
+          exception: {
+            type: 'object',
+            subtype: 'error',
+            className: 'TypeError',
+            description: 'TypeError: x is undefined\n    at https://app.test/app.js:1:11'
+          }
+        }
+      });
+
+      const record = records[0];
+      expect(record?.level).toBe('error');
+      expect(record?.details.origin).toBe('uncaught-error');
+      expect(record?.details.error).toMatchObject({ name: 'TypeError', message: 'x is undefined', lineno: 1, colno: 11 });
+      expect(record?.details.serializedArgs?.[0]?.value).toBe('Uncaught TypeError: x is undefined');
+    });
+
+    it('should ignore exceptions from isolated worlds', () => {
+      emit({ tabId: 1 }, 'Runtime.executionContextCreated', {
+        context: { id: 8, origin: '', auxData: { frameId: 'main', isDefault: false, type: 'isolated' } }
+      });
+      emit({ tabId: 1 }, 'Runtime.exceptionThrown', {
+        timestamp: 1700000000000,
+        exceptionDetails: {
+          text: 'Uncaught',
+          lineNumber: 0,
+          columnNumber: 0,
+          executionContextId: 8,
+          exception: { type: 'object', subtype: 'error', className: 'Error', description: 'Error: content script failed' }
+        }
+      });
+
+      expect(records).toHaveLength(0);
+    });
+
+    it('should capture browser-generated messages', () => {
+      emit({ tabId: 1 }, 'Log.entryAdded', {
+        entry: {
+          source: 'network',
+          level: 'error',
+          text: 'Access to fetch blocked by CORS policy',
+          timestamp: 1700000000000,
+          url: 'https://api.test/data'
+        }
+      });
+
+      expect(records[0]?.details).toMatchObject({
+        origin: 'browser',
+        browserSource: 'network',
+        error: { resourceUrl: 'https://api.test/data' }
+      });
+    });
+  });
+
+  describe('Network Events', () => {
+    it('should report completed requests with status and timing', () => {
+      emit({ tabId: 1 }, 'Network.requestWillBeSent', {
+        requestId: 'r1',
+        request: { url: 'https://api.test/data', method: 'post' },
+        timestamp: 100,
+        wallTime: 1700000000
+      });
+      emit({ tabId: 1 }, 'Network.responseReceived', { requestId: 'r1', response: { status: 503 } });
+      emit({ tabId: 1 }, 'Network.loadingFinished', { requestId: 'r1', timestamp: 100.25 });
+
+      expect(requests[0]).toMatchObject({ url: 'https://api.test/data', method: 'POST', status: 503, failed: true });
+      expect(requests[0]?.responseTime).toBeCloseTo(250);
+      expect(requests[0]?.timestamp.getTime()).toBe(1700000000000);
+    });
+  });
+});
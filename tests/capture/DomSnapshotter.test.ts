@@ -0,0 +1,143 @@
+/**
+ * DomSnapshotter.test.ts
+ * Test suite for sanitized DOM snapshots of error entries
+ * Tests masking of form values and data attributes, PII redaction, removal of
+ * active content, the size cap and the per-session cap
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DomSnapshotter } from '../../src/capture/DomSnapshotter.js';
+
+/**
+ * Creates a document with the given body markup
+ */
+function createDocument(body: string): Document {
+  const root = document.implementation.createHTMLDocument('Snapshot test');
+  root.body.innerHTML = body;
+  return root;
+}
+
+describe('DomSnapshotter', () => {
+  let snapshotter: DomSnapshotter;
+
+  beforeEach(() => {
+    snapshotter = new DomSnapshotter();
+    snapshotter.updateConfig({ enabled: true });
+  });
+
+  describe('Redaction', () => {
+    it('should mask typed input values that are not reflected in attributes', () => {
+      const root = createDocument('<input id="name" type="text"><textarea id="notes"></textarea>');
+      (root.getElementById('name') as HTMLInputElement).value = 'Ada Lovelace';
+      (root.getElementById('notes') as HTMLTextAreaElement).value = 'private notes';
+
+      const snapshot = snapshotter.capture('log_1', root);
+
+      expect(snapshot?.html).not.toContain('Ada Lovelace');
+      expect(snapshot?.html).not.toContain('private notes');
+      expect(snapshot?.maskedFields).toBe(2);
+    });
+
+    it('should mask password fields', () => {
+      const root = createDocument('<input id="secret" type="password" value="hunter2">');
+      (root.getElementById('secret') as HTMLInputElement).value = 'correct horse battery staple';
+
+      const html = snapshotter.capture('log_1', root)?.html ?? '';
+
+      expect(html).not.toContain('hunter2');
+      expect(html).not.toContain('correct horse');
+      expect(html).toContain('type="password" value="••••••"');
+    });
+
+    it('should keep button labels', () => {
+      const root = createDocument('<input type="submit" value="Save changes">');
+
+      expect(snapshotter.capture('log_1', root)?.html).toContain('value="Save changes"');
+    });
+
+    it('should mask data attributes', () => {
+      const root = createDocument('<div data-user-id="u_48213" data-email="ada@example.com" data-empty="">Profile</div>');
+
+      const html = snapshotter.capture('log_1', root)?.html ?? '';
+
+      expect(html).not.toContain('u_48213');
+      expect(html).not.toContain('ada@example.com');
+      expect(html).toContain('data-user-id="••••••"');
+      expect(html).toContain('data-empty=""');
+    });
+
+    it('should sanitize PII in text and text attributes', () => {
+      const root = createDocument(
+        '<p>Contact ada.lovelace@example.com for access</p><img alt="Card 4111 1111 1111 1111" src="/card.png">'
+      );
+
+      const html = snapshotter.capture('log_1', root)?.html ?? '';
+
+      expect(html).not.toContain('ada.lovelace@example.com');
+      expect(html).not.toContain('4111 1111 1111 1111');
+      expect(html).toContain('Contact ');
+      expect(html).toContain(' for access');
+    });
+
+    it('should remove scripts and inline handlers', () => {
+      const root = createDocument('<script>steal()</script><a href="javascript:run()" onclick="run()">Link</a>');
+
+      const html = snapshotter.capture('log_1', root)?.html ?? '';
+
+      expect(html).not.toContain('steal()');
+      expect(html).not.toContain('onclick');
+      expect(html).not.toContain('javascript:');
+      expect(html).toContain('>Link</a>');
+    });
+
+    it('should leave the page untouched', () => {
+      const root = createDocument('<div data-id="42">ada@example.com</div><script>run()</script>');
+      const before = root.documentElement.outerHTML;
+
+      snapshotter.capture('log_1', root);
+
+      expect(root.documentElement.outerHTML).toBe(before);
+    });
+  });
+
+  describe('Limits', () => {
+    it('should cut snapshots at the size cap', () => {
+      snapshotter.updateConfig({ maxBytes: 1024 });
+      const root = createDocument(`<p>${'Lorem ipsum dolor sit amet. '.repeat(200)}</p>`);
+
+      const snapshot = snapshotter.capture('log_1', root);
+      const body = snapshot?.html.replace(/\n<!-- snapshot truncated -->$/, '') ?? '';
+
+      expect(snapshot?.truncated).toBe(true);
+      expect(snapshot?.size).toBeGreaterThan(1024);
+      expect(new TextEncoder().encode(body).length).toBeLessThanOrEqual(1024);
+      expect(snapshot?.html.endsWith('<!-- snapshot truncated -->')).toBe(true);
+    });
+
+    it('should keep snapshots under the cap whole', () => {
+      const snapshot = snapshotter.capture('log_1', createDocument('<p>Small page</p>'));
+
+      expect(snapshot?.truncated).toBe(false);
+      expect(snapshot?.html).toContain('<p>Small page</p>');
+    });
+
+    it('should stop at the per-session cap until cleared', () => {
+      snapshotter.updateConfig({ maxPerSession: 2 });
+      const root = createDocument('<p>Page</p>');
+
+      expect(snapshotter.capture('log_1', root)).not.toBeNull();
+      expect(snapshotter.capture('log_2', root)).not.toBeNull();
+      expect(snapshotter.capture('log_3', root)).toBeNull();
+
+      snapshotter.clear();
+
+      expect(snapshotter.capture('log_4', root)).not.toBeNull();
+    });
+
+    it('should not snapshot when disabled', () => {
+      snapshotter.updateConfig({ enabled: false });
+
+      expect(snapshotter.capture('log_1', createDocument('<p>Page</p>'))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * ElementSelector.test.ts
+ * Test suite for breadcrumb element descriptions
+ * Tests selector paths, anchoring on ids and test ids, sibling positions and label text
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getSelectorPath, getElementText } from '../../src/capture/ElementSelector.js';
+
+/**
+ * Minimal element stand-in with the properties the selector builder reads
+ */
+class FakeElement {
+  readonly tagName: string;
+  id = '';
+  textContent: string | null = '';
+  parentElement: FakeElement | null = null;
+  children: FakeElement[] = [];
+  private attributes = new Map<string, string>();
+
+  constructor(tagName: string, attributes: Record<string, string> = {}) {
+    this.tagName = tagName.toUpperCase();
+    for (const [name, value] of Object.entries(attributes)) {
+      this.attributes.set(name, value);
+    }
+  }
+
+  getAttribute(name: string): string | null {
+    return this.attributes.get(name) ?? null;
+  }
+
+  append(...children: FakeElement[]): this {
+    for (const child of children) {
+      child.parentElement = this;
+      this.children.push(child);
+    }
+    return this;
+  }
+}
+
+/**
+ * Casts a fake element to the DOM type the functions accept
+ * @param element - Fake element
+ */
+function asElement(element: FakeElement): Element {
+  return element as unknown as Element;
+}
+
+describe('ElementSelector', () => {
+  it('should anchor the path on the nearest ancestor id', () => {
+    const form = new FakeElement('form');
+    form.id = 'checkout';
+    const row = new FakeElement('div');
+    const button = new FakeElement('button');
+    form.append(new FakeElement('div'), row.append(button));
+
+    expect(getSelectorPath(asElement(button))).toBe('form#checkout > div:nth-of-type(2) > button');
+  });
+
+  it('should prefer test ids and escape unusual id characters', () => {
+    const list = new FakeElement('ul', { 'data-testid': 'cart-items' });
+    const item = new FakeElement('li');
+    list.append(item);
+
+    const odd = new FakeElement('span');
+    odd.id = 'price:total';
+
+    expect(getSelectorPath(asElement(item))).toBe('ul[data-testid="cart-items"] > li');
+    expect(getSelectorPath(asElement(odd))).toBe('span#price\\:total');
+  });
+
+  it('should stop at the body or the depth limit', () => {
+    const body = new FakeElement('body');
+    let leaf = new FakeElement('span');
+    body.append(leaf);
+    expect(getSelectorPath(asElement(leaf))).toBe('body > span');
+
+    for (let i = 0; i < 6; i++) {
+      const parent = new FakeElement('div');
+      parent.append(leaf);
+      leaf = parent;
+    }
+    const nested = leaf.children[0]?.children[0] as FakeElement;
+    expect(getSelectorPath(asElement(nested), 3).split(' > ')).toHaveLength(3);
+  });
+
+  it('should read collapsed text, falling back to labelling attributes', () => {
+    const button = new FakeElement('button');
+    button.textContent = '\n  Place   order \n';
+    const icon = new FakeElement('button', { 'aria-label': 'Close dialog' });
+    const long = new FakeElement('p');
+    long.textContent = 'x'.repeat(80);
+
+    expect(getElementText(asElement(button))).toBe('Place order');
+    expect(getElementText(asElement(icon))).toBe('Close dialog');
+    expect(getElementText(asElement(long))).toBe(`${'x'.repeat(50)}…`);
+    expect(getElementText(asElement(new FakeElement('input')))).toBeUndefined();
+  });
+});
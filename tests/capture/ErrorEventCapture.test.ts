@@ -0,0 +1,159 @@
+/**
+ * ErrorEventCapture.test.ts
+ * Test suite for uncaught error, unhandled rejection and resource failure capture
+ * Tests capture-phase registration, thrown Errors and values, rejection reasons and failed resources
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ErrorEventCapture, type CapturedErrorEvent } from '../../src/capture/ErrorEventCapture.js';
+
+/**
+ * ErrorEvent stand-in; Node has no DOM events
+ */
+class FakeErrorEvent extends Event {
+  readonly message: string;
+  readonly error: unknown;
+  readonly filename: string;
+  readonly lineno: number;
+  readonly colno: number;
+
+  constructor(type: string, init: { message?: string; error?: unknown; filename?: string; lineno?: number; colno?: number }) {
+    super(type);
+    this.message = init.message ?? '';
+    this.error = init.error;
+    this.filename = init.filename ?? '';
+    this.lineno = init.lineno ?? 0;
+    this.colno = init.colno ?? 0;
+  }
+}
+
+/**
+ * Element stand-in carrying the attributes resource errors read
+ */
+class FakeElement {
+  constructor(readonly tagName: string, readonly src: string = '', readonly href: string = '') {}
+}
+
+describe('ErrorEventCapture', () => {
+  let page: EventTarget;
+  let capture: ErrorEventCapture;
+  let captured: CapturedErrorEvent[];
+
+  beforeEach(() => {
+    vi.stubGlobal('ErrorEvent', FakeErrorEvent);
+    vi.stubGlobal('Element', FakeElement);
+    page = new EventTarget();
+    captured = [];
+    capture = new ErrorEventCapture();
+    capture.setHandler(event => captured.push(event));
+  });
+
+  afterEach(() => {
+    capture.uninstall();
+    vi.unstubAllGlobals();
+  });
+
+  it('should listen for errors in the capture phase so resource failures are seen', () => {
+    const addEventListener = vi.spyOn(page, 'addEventListener');
+
+    capture.install(page as Window);
+    capture.install(page as Window);
+
+    expect(addEventListener).toHaveBeenCalledTimes(2);
+    expect(addEventListener).toHaveBeenCalledWith('error', expect.any(Function), true);
+    expect(addEventListener).toHaveBeenCalledWith('unhandledrejection', expect.any(Function));
+  });
+
+  it('should capture uncaught Errors with their location and stack', () => {
+    capture.install(page as Window);
+    const thrown = new TypeError("Cannot read properties of undefined (reading 'total')");
+
+    page.dispatchEvent(new FakeErrorEvent('error', {
+      message: `Uncaught ${thrown.message}`,
+      error: thrown,
+      filename: 'https://shop.test/app.js',
+      lineno: 12,
+      colno: 5
+    }));
+
+    expect(captured).toEqual([{
+      origin: 'uncaught-error',
+      message: "Uncaught TypeError: Cannot read properties of undefined (reading 'total')",
+      error: {
+        name: 'TypeError',
+        message: "Cannot read properties of undefined (reading 'total')",
+        stack: thrown.stack,
+        filename: 'https://shop.test/app.js',
+        lineno: 12,
+        colno: 5
+      }
+    }]);
+  });
+
+  it('should describe thrown values that are not Errors', () => {
+    capture.install(page as Window);
+
+    page.dispatchEvent(new FakeErrorEvent('error', { message: 'Uncaught [object Object]', error: { code: 42 } }));
+    page.dispatchEvent(new FakeErrorEvent('error', { message: 'Script error.' }));
+
+    expect(captured.map(event => event.error)).toEqual([
+      { message: 'Uncaught [object Object]', reason: '{"code":42}' },
+      { message: 'Script error.' }
+    ]);
+  });
+
+  it('should capture unhandled rejections with their reason', () => {
+    capture.install(page as Window);
+    const rejected = new RangeError('Invalid page size');
+
+    page.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: rejected }));
+    page.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: 'x'.repeat(3000) }));
+
+    expect(captured[0]).toMatchObject({
+      origin: 'unhandled-rejection',
+      message: 'Uncaught (in promise) RangeError: Invalid page size',
+      error: { name: 'RangeError', message: 'Invalid page size', reason: 'RangeError: Invalid page size' }
+    });
+    expect(captured[1]?.message).toBe(`Uncaught (in promise) ${'x'.repeat(2000)}…`);
+    expect(captured[1]?.error).toEqual({ message: 'Unhandled promise rejection', reason: `${'x'.repeat(2000)}…` });
+  });
+
+  it('should capture failed resources from the element that failed', () => {
+    const addEventListener = vi.spyOn(page, 'addEventListener');
+    capture.install(page as Window);
+    const errorListener = addEventListener.mock.calls.find(([type]) => type === 'error')?.[1] as (event: Event) => void;
+
+    // Resource errors reach the window only while capturing down to the element
+    errorListener({ type: 'error', target: new FakeElement('IMG', 'https://cdn.shop.test/logo.png') } as unknown as Event);
+    errorListener({ type: 'error', target: new FakeElement('LINK', '', 'https://cdn.shop.test/site.css') } as unknown as Event);
+    errorListener({ type: 'error', target: page } as unknown as Event);
+
+    expect(captured).toEqual([
+      {
+        origin: 'resource-error',
+        message: 'Failed to load img: https://cdn.shop.test/logo.png',
+        error: { name: 'ResourceError', message: 'Failed to load resource: https://cdn.shop.test/logo.png', resourceUrl: 'https://cdn.shop.test/logo.png', resourceType: 'img' }
+      },
+      {
+        origin: 'resource-error',
+        message: 'Failed to load link: https://cdn.shop.test/site.css',
+        error: { name: 'ResourceError', message: 'Failed to load resource: https://cdn.shop.test/site.css', resourceUrl: 'https://cdn.shop.test/site.css', resourceType: 'link' }
+      }
+    ]);
+  });
+
+  it('should stop capturing once uninstalled and keep handler failures inside', () => {
+    capture.install(page as Window);
+    capture.setHandler(() => {
+      throw new Error('handler failed');
+    });
+
+    expect(() => page.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: 'late' }))).not.toThrow();
+
+    capture.setHandler(event => captured.push(event));
+    capture.uninstall();
+    page.dispatchEvent(Object.assign(new Event('unhandledrejection'), { reason: 'after' }));
+
+    expect(captured).toEqual([]);
+  });
+});
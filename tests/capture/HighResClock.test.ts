@@ -0,0 +1,50 @@
+/**
+ * HighResClock.test.ts
+ * Test suite for high-resolution timestamps and log ordering
+ * Tests monotonic stamping, sequence numbers and cross-context ordering
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HighResClock, compareLogOrder } from '../../src/capture/HighResClock.js';
+
+describe('HighResClock', () => {
+  let clock: HighResClock;
+
+  beforeEach(() => {
+    clock = new HighResClock();
+  });
+
+  it('should stamp epoch times that never go backwards', () => {
+    const first = clock.stamp();
+    const second = clock.stamp();
+
+    expect(Math.abs(first.hrTimestamp - Date.now())).toBeLessThan(1000);
+    expect(second.hrTimestamp).toBeGreaterThanOrEqual(first.hrTimestamp);
+  });
+
+  it('should number stamps in order', () => {
+    expect(clock.stamp().sequence).toBe(1);
+    expect(clock.stamp().sequence).toBe(2);
+    expect(new HighResClock().stamp().sequence).toBe(1);
+  });
+
+  describe('compareLogOrder', () => {
+    const timestamp = new Date(1000);
+
+    it('should order by high-resolution time within the same millisecond', () => {
+      const worker = { timestamp, hrTimestamp: 1000.75, sequence: 1 };
+      const page = { timestamp, hrTimestamp: 1000.25, sequence: 9 };
+
+      expect(compareLogOrder(page, worker)).toBeLessThan(0);
+      expect([worker, page].sort(compareLogOrder)).toEqual([page, worker]);
+    });
+
+    it('should fall back to wall-clock time and then sequence', () => {
+      const early = { timestamp: new Date(999) };
+      const first = { timestamp, sequence: 1 };
+      const second = { timestamp, sequence: 2 };
+
+      expect([second, first, early].sort(compareLogOrder)).toEqual([early, first, second]);
+    });
+  });
+});
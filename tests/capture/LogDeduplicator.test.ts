@@ -0,0 +1,102 @@
+/**
+ * LogDeduplicator.test.ts
+ * Test suite for repeat collapsing
+ * Tests message normalization, including the numbers kept for warnings and errors,
+ * and consecutive and windowed collapsing
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LogDeduplicator } from '../../src/capture/LogDeduplicator.js';
+import type { LogEntry, LogLevel } from '../../src/types/index.js';
+
+describe('LogDeduplicator', () => {
+  let deduplicator: LogDeduplicator;
+  let nextId: number;
+
+  const entry = (message: string, time: number, level: LogLevel = 'log'): LogEntry => ({
+    id: `log_${nextId++}`,
+    timestamp: new Date(time),
+    level,
+    message,
+    source: { file: 'https://app.test/app.js', line: 10, column: 5 }
+  });
+
+  beforeEach(() => {
+    nextId = 1;
+    deduplicator = new LogDeduplicator();
+  });
+
+  describe('Consecutive Mode', () => {
+    it('should collapse repeats that differ only in numbers and ids', () => {
+      const first = entry('render frame 1 id=0x1f', 1000);
+
+      expect(deduplicator.collapse(first)).toBeNull();
+      expect(deduplicator.collapse(entry('render frame 2 id=0x2a', 1010))).toBe(first);
+      expect(deduplicator.collapse(entry('render frame 3 id=0x3b', 1020))).toBe(first);
+
+      expect(first.repeatCount).toBe(3);
+      expect(first.lastRepeatTimestamp?.getTime()).toBe(1020);
+    });
+
+    it('should keep warnings and errors with different numbers apart', () => {
+      const notFound = entry('Request failed: 404', 1000, 'error');
+      deduplicator.collapse(notFound);
+
+      expect(deduplicator.collapse(entry('Request failed: 500', 1010, 'error'))).toBeNull();
+      expect(deduplicator.collapse(entry('Retrying in 2s', 1020, 'warn'))).toBeNull();
+      expect(deduplicator.collapse(entry('Retrying in 4s', 1030, 'warn'))).toBeNull();
+      expect(notFound.repeatCount).toBeUndefined();
+    });
+
+    it('should still collapse identical errors that differ only in ids', () => {
+      const first = entry('Order 3f2a9c1e-0b7d-4e5f-8a6b-1c2d3e4f5a6b failed: 500', 1000, 'error');
+      deduplicator.collapse(first);
+
+      expect(deduplicator.collapse(entry('Order 9b8a7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d failed: 500', 1010, 'error'))).toBe(first);
+    });
+
+    it('should not collapse across a different entry', () => {
+      deduplicator.collapse(entry('tick', 1000));
+      deduplicator.collapse(entry('other', 1001));
+
+      expect(deduplicator.collapse(entry('tick', 1002))).toBeNull();
+    });
+
+    it('should keep levels and sources apart', () => {
+      deduplicator.collapse(entry('tick', 1000));
+
+      expect(deduplicator.collapse(entry('tick', 1001, 'warn'))).toBeNull();
+      expect(deduplicator.collapse({ ...entry('tick', 1002, 'warn'), source: { file: 'b.js', line: 1, column: 1 } })).toBeNull();
+    });
+  });
+
+  describe('Window Mode', () => {
+    beforeEach(() => {
+      deduplicator.updateConfig({ mode: 'window', windowMs: 1000 });
+    });
+
+    it('should collapse interleaved repeats within the window', () => {
+      const first = entry('poll', 1000);
+      deduplicator.collapse(first);
+      deduplicator.collapse(entry('other', 1100));
+
+      expect(deduplicator.collapse(entry('poll', 1900))).toBe(first);
+      // The window is measured from the last repeat
+      expect(deduplicator.collapse(entry('poll', 2800))).toBe(first);
+      expect(first.repeatCount).toBe(3);
+    });
+
+    it('should start a new entry once the window has passed', () => {
+      deduplicator.collapse(entry('poll', 1000));
+
+      expect(deduplicator.collapse(entry('poll', 2500))).toBeNull();
+    });
+  });
+
+  it('should do nothing when disabled', () => {
+    deduplicator.updateConfig({ enabled: false });
+    deduplicator.collapse(entry('tick', 1000));
+
+    expect(deduplicator.collapse(entry('tick', 1001))).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * NetworkPayloadCapture.test.ts
+ * Test suite for network header and body capture
+ * Tests credential stripping, origin lists, content-type handling, truncation and sanitization
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { NetworkPayloadCapture } from '../../src/capture/NetworkPayloadCapture.js';
+
+describe('NetworkPayloadCapture', () => {
+  let capture: NetworkPayloadCapture;
+
+  beforeEach(() => {
+    capture = new NetworkPayloadCapture();
+    capture.updateConfig({ captureHeaders: true, captureBodies: true, maxBodyBytes: 64 });
+  });
+
+  describe('Headers', () => {
+    it('should always strip credentials and cookies', () => {
+      const payload = capture.fromParts(
+        'Content-Type: application/json\r\nAuthorization: Bearer abc\r\nSet-Cookie: sid=1\r\nX-Auth-Token: t\r\nX-Request-Id: 42',
+        undefined
+      );
+
+      expect(payload.headers).toEqual({ 'content-type': 'application/json', 'x-request-id': '42' });
+      expect(payload.strippedHeaders).toEqual(['authorization', 'set-cookie', 'x-auth-token']);
+      expect(payload.contentType).toBe('application/json');
+    });
+  });
+
+  describe('Origin Lists', () => {
+    it('should let deny lists win over allow lists', () => {
+      capture.updateConfig({ allowOrigins: ['https://*.example.com'], denyOrigins: ['auth.example.com'] });
+
+      expect(capture.shouldCapture('https://api.example.com/v1/items')).toBe(true);
+      expect(capture.shouldCapture('https://auth.example.com/login')).toBe(false);
+      expect(capture.shouldCapture('https://tracker.test/collect')).toBe(false);
+    });
+
+    it('should capture nothing when headers and bodies are both off', () => {
+      capture.updateConfig({ captureHeaders: false, captureBodies: false });
+
+      expect(capture.shouldCapture('https://api.example.com/')).toBe(false);
+    });
+  });
+
+  describe('Bodies', () => {
+    it('should parse and sanitize JSON bodies', () => {
+      const payload = capture.fromParts({ 'content-type': 'application/json' }, '{"user":"ada","password":"hunter2"}');
+
+      expect(payload.body).toEqual({ user: 'ada', password: '[REDACTED]' });
+      expect(payload.bodySize).toBe(35);
+    });
+
+    it('should truncate long bodies and keep them as text', () => {
+      const payload = capture.fromParts({ 'content-type': 'application/json' }, JSON.stringify({ items: 'x'.repeat(100) }));
+
+      expect(payload.truncated).toBe(true);
+      expect(typeof payload.body).toBe('string');
+      expect((payload.body as string).length).toBe(64);
+    });
+
+    it('should omit binary and streamed bodies', () => {
+      expect(capture.fromParts({ 'content-type': 'image/png' }, 'PNG').bodyOmitted).toBe('Binary content (image/png)');
+      expect(capture.fromParts(undefined, new ArrayBuffer(8)).bodyOmitted).toBe('Binary or streamed body');
+    });
+
+    it('should read fetch responses up to the size limit', async () => {
+      const response = new Response('a'.repeat(200), { headers: { 'content-type': 'text/plain' } });
+      const payload = await capture.fromMessage(response);
+
+      expect(payload.truncated).toBe(true);
+      expect(payload.body).toBe('a'.repeat(64));
+    });
+  });
+});
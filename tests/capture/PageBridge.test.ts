@@ -0,0 +1,317 @@
+/**
+ * PageBridge.test.ts
+ * Test suite for the main-world bridge between PageConsoleHook and the content script
+ * Tests the port handshake, forged and repeated handshakes, message-to-log mapping and the
+ * network settings and records exchanged with the hook
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PageBridge } from '../../src/capture/PageBridge.js';
+import { BRIDGE_MESSAGE_SOURCE, PageConsoleHook, type PageBridgeMessage } from '../../src/capture/PageConsoleHook.js';
+import type { LogCaptureDetails, LogLevel, NetworkRequest } from '../../src/types/index.js';
+
+/**
+ * Log handler call recorded by the tests
+ */
+interface HandledLog {
+  args: unknown[];
+  level: LogLevel;
+  stackTrace: string | undefined;
+  details: LogCaptureDetails | undefined;
+}
+
+/**
+ * Window stand-in delivering posted messages to its own listeners, like a real window
+ */
+class FakeWindow extends EventTarget {
+  readonly location = { origin: 'https://shop.test', href: 'https://shop.test/cart' };
+  posted: unknown[] = [];
+
+  postMessage(data: unknown, _targetOrigin: string, transfer: MessagePort[] = []): void {
+    this.posted.push(data);
+    setTimeout(() => this.dispatchEvent(Object.assign(new Event('message'), { data, source: this, ports: transfer })));
+  }
+}
+
+describe('PageBridge', () => {
+  let page: FakeWindow;
+  let injected: Array<{ dataset: Record<string, string>; src: string }>;
+  let bridge: PageBridge;
+  let handled: HandledLog[];
+  let channels: MessageChannel[];
+
+  /**
+   * Posts a handshake to the page window the way the hook does
+   * @param nonce - Nonce to present
+   * @returns The sending end of the handed-over channel
+   */
+  function handshake(nonce: string): MessagePort {
+    const channel = new MessageChannel();
+    channels.push(channel);
+    page.postMessage({ source: BRIDGE_MESSAGE_SOURCE, type: 'handshake', nonce }, '*', [channel.port2]);
+    return channel.port1;
+  }
+
+  /**
+   * Builds a console message as the hook posts it
+   * @param fields - Fields to override
+   */
+  function consoleMessage(fields: Partial<PageBridgeMessage> = {}): PageBridgeMessage {
+    return {
+      source: BRIDGE_MESSAGE_SOURCE,
+      type: 'console',
+      level: 'log',
+      args: [{ type: 'string', value: 'hello', description: 'hello' }],
+      timestamp: 1767225600000,
+      hrTimestamp: 1767225600000.25,
+      sequence: 1,
+      ...fields
+    };
+  }
+
+  /**
+   * Waits long enough for window and port messages to be delivered
+   */
+  function settle(): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, 20));
+  }
+
+  beforeEach(async () => {
+    page = new FakeWindow();
+    injected = [];
+    handled = [];
+    channels = [];
+
+    vi.stubGlobal('window', page);
+    vi.stubGlobal('document', {
+      createElement: () => {
+        const script = { dataset: {}, src: '', remove: () => undefined };
+        injected.push(script);
+        return script;
+      },
+      head: { appendChild: () => undefined }
+    });
+    vi.stubGlobal('chrome', { runtime: { getURL: (path: string) => `chrome-extension://capture${path}` } });
+
+    bridge = new PageBridge();
+    await bridge.initialize();
+    bridge.setLogHandler((args, level, stackTrace, details) => {
+      handled.push({ args, level, stackTrace, details });
+    });
+    bridge.startCapture();
+  });
+
+  afterEach(async () => {
+    await bridge.shutdown();
+    for (const channel of channels) {
+      channel.port1.close();
+    }
+    vi.unstubAllGlobals();
+  });
+
+  it('should hand the nonce to the injected script only', () => {
+    expect(injected).toHaveLength(1);
+    expect(injected[0]?.src).toBe('chrome-extension://capture/page-bridge.js');
+    expect(injected[0]?.dataset['nonce']).toMatch(/^[0-9a-f]{32}$/);
+  });
+
+  it('should receive console calls from the hook over the port, never through the window', async () => {
+    const nonce = injected[0]?.dataset['nonce'] ?? '';
+    vi.stubGlobal('addEventListener', () => undefined);
+    vi.stubGlobal('removeEventListener', () => undefined);
+
+    // The hook calls the console it wrapped; keep the test output quiet
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const hook = new PageConsoleHook(nonce);
+    hook.install();
+    try {
+      await settle();
+      console.warn('Low stock', { sku: 'A1' });
+    } finally {
+      hook.uninstall();
+      warn.mockRestore();
+    }
+    await settle();
+
+    expect(page.posted).toEqual([{ source: BRIDGE_MESSAGE_SOURCE, type: 'handshake', nonce }]);
+    expect(handled).toHaveLength(1);
+    expect(handled[0]?.level).toBe('warn');
+    expect(handled[0]?.details?.serializedArgs?.[0]).toMatchObject({ type: 'string', value: 'Low stock' });
+    expect(handled[0]?.details?.serializedArgs?.[1]).toMatchObject({ type: 'object' });
+    expect(handled[0]?.details?.sequence).toBe(1);
+    expect(typeof handled[0]?.details?.timestamp).toBe('number');
+    expect(bridge.getStats()).toMatchObject({ receivedMessages: 1, rejectedMessages: 0 });
+  });
+
+  it('should reject handshakes without the nonce', async () => {
+    const forged = handshake('0'.repeat(32));
+    await settle();
+    forged.postMessage(consoleMessage());
+    await settle();
+
+    expect(handled).toEqual([]);
+    expect(bridge.getStats().rejectedMessages).toBe(1);
+  });
+
+  it('should accept only the first handshake, so a nonce read from it cannot be replayed', async () => {
+    const nonce = injected[0]?.dataset['nonce'] ?? '';
+    const hook = handshake(nonce);
+    await settle();
+    const replayed = handshake(nonce);
+    await settle();
+
+    replayed.postMessage(consoleMessage({ args: [{ type: 'string', value: 'forged', description: 'forged' }] }));
+    hook.postMessage(consoleMessage());
+    await settle();
+
+    expect(handled.map(log => log.details?.serializedArgs?.[0])).toEqual([{ type: 'string', value: 'hello', description: 'hello' }]);
+  });
+
+  it('should ignore bridge-shaped messages posted to the window', async () => {
+    handshake(injected[0]?.dataset['nonce'] ?? '');
+    await settle();
+
+    page.postMessage(consoleMessage(), '*');
+    await settle();
+
+    expect(handled).toEqual([]);
+  });
+
+  it('should map error events, worker contexts and navigations', async () => {
+    const navigations: Array<[string, string]> = [];
+    bridge.setNavigationHandler((type, url) => navigations.push([type, url]));
+    const port = handshake(injected[0]?.dataset['nonce'] ?? '');
+
+    port.postMessage(consoleMessage({
+      type: 'error-event',
+      level: 'error',
+      origin: 'unhandled-rejection',
+      error: { message: 'Unhandled promise rejection', reason: 'timeout' },
+      stackTrace: 'at load (https://shop.test/app.js:1:2)'
+    }));
+    port.postMessage(consoleMessage({
+      level: 'info',
+      context: { type: 'dedicated-worker', frameUrl: 'https://shop.test/cart', workerUrl: 'https://shop.test/worker.js' },
+      asyncStack: [{ kind: 'setTimeout', stackTrace: 'at tick (https://shop.test/worker.js:3:4)' }]
+    }));
+    port.postMessage({ source: BRIDGE_MESSAGE_SOURCE, type: 'navigation', navigation: 'push', url: 'https://shop.test/checkout', timestamp: 1 });
+    await settle();
+
+    expect(handled[0]).toMatchObject({
+      level: 'error',
+      stackTrace: 'at load (https://shop.test/app.js:1:2)',
+      details: { origin: 'unhandled-rejection', error: { reason: 'timeout' }, timestamp: 1767225600000 }
+    });
+    expect(handled[1]?.details).toMatchObject({
+      executionContext: { type: 'dedicated-worker', workerUrl: 'https://shop.test/worker.js' },
+      asyncStack: [{ kind: 'setTimeout' }],
+      hrTimestamp: 1767225600000.25,
+      sequence: 1
+    });
+    expect(navigations).toEqual([['push', 'https://shop.test/checkout']]);
+  });
+
+  it('should send network settings once connected and relay connection records', async () => {
+    const connections: string[] = [];
+    bridge.setConnectionHandler(connection => connections.push(connection.url));
+    bridge.sendNetworkConfig({ enabled: true, maxConnections: 5, maxConnectionFrames: 5 });
+
+    const port = handshake(injected[0]?.dataset['nonce'] ?? '');
+    const settings: unknown[] = [];
+    port.addEventListener('message', event => settings.push(event.data));
+    port.start();
+    await settle();
+
+    port.postMessage({
+      source: BRIDGE_MESSAGE_SOURCE,
+      type: 'connection',
+      connection: {
+        id: 'websocket_1',
+        type: 'websocket',
+        url: 'wss://live.shop.test/',
+        openedAt: new Date(),
+        state: 'open',
+        errorCount: 0,
+        framesSent: 0,
+        framesReceived: 0,
+        bytesSent: 0,
+        bytesReceived: 0
+      }
+    });
+    await settle();
+
+    expect(settings).toEqual([{
+      source: BRIDGE_MESSAGE_SOURCE,
+      type: 'network-config',
+      config: { enabled: true, maxConnections: 5, maxConnectionFrames: 5 }
+    }]);
+    expect(connections).toEqual(['wss://live.shop.test/']);
+  });
+
+  it('should receive page fetch calls with sanitized payloads from the hook', async () => {
+    const nonce = injected[0]?.dataset['nonce'] ?? '';
+    const requests: NetworkRequest[] = [];
+    bridge.setRequestHandler(request => requests.push(request));
+    vi.stubGlobal('addEventListener', () => undefined);
+    vi.stubGlobal('removeEventListener', () => undefined);
+    vi.stubGlobal('fetch', async () => new Response('{"cartId":"c1","sessionToken":"s3cr3t"}', {
+      status: 200,
+      headers: { 'content-type': 'application/json' }
+    }));
+
+    const hook = new PageConsoleHook(nonce);
+    hook.install();
+    try {
+      bridge.sendNetworkConfig({
+        enabled: true,
+        payloads: {
+          captureHeaders: true,
+          captureBodies: true,
+          maxBodyBytes: 1024,
+          allowOrigins: [],
+          denyOrigins: [],
+          captureFrames: false
+        },
+        maxConnections: 5,
+        maxConnectionFrames: 5
+      });
+      await settle();
+
+      // The page's own fetch, as wrapped by the hook in the main world
+      await fetch('https://shop.test/api/cart', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{"sku":"A1","password":"hunter2"}'
+      });
+      // The completion, then the same request with its payloads
+      await vi.waitFor(() => expect(requests).toHaveLength(2));
+    } finally {
+      hook.uninstall();
+    }
+
+    expect(requests[1]?.id).toBe(requests[0]?.id);
+    expect(requests[1]).toMatchObject({
+      url: 'https://shop.test/api/cart',
+      method: 'POST',
+      status: 200,
+      failed: false,
+      request: { body: { sku: 'A1', password: '[REDACTED]' } },
+      response: { body: { cartId: 'c1', sessionToken: '[REDACTED]' } }
+    });
+    expect(requests[1]?.timestamp).toBeInstanceOf(Date);
+  });
+
+  it('should drop console levels that are not captured and everything while stopped', async () => {
+    bridge.updateConfig({ capturedLevels: ['error'] });
+    const port = handshake(injected[0]?.dataset['nonce'] ?? '');
+
+    port.postMessage(consoleMessage({ level: 'debug' }));
+    port.postMessage(consoleMessage({ level: 'error' }));
+    await settle();
+    bridge.stopCapture();
+    port.postMessage(consoleMessage({ level: 'error' }));
+    await settle();
+
+    expect(handled.map(log => log.level)).toEqual(['error']);
+  });
+});
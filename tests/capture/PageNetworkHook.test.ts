@@ -0,0 +1,308 @@
+/**
+ * PageNetworkHook.test.ts
+ * Test suite for the main-world network instrumentation
+ * Tests installing from the content script's settings, batched connection reports, fetch and
+ * XMLHttpRequest payloads, early fetch completion reports, trace headers and restoring the page
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PageNetworkHook, type PageNetworkConfig, type PageNetworkReport, type PageNetworkScope } from '../../src/capture/PageNetworkHook.js';
+import type { NetworkConnection, NetworkRequest } from '../../src/types/index.js';
+import type { NetworkPayloadConfig } from '../../src/capture/NetworkPayloadCapture.js';
+
+/**
+ * Minimal WebSocket stand-in driven by the tests
+ */
+class FakeWebSocket extends EventTarget {
+  readonly url: string;
+  protocol = '';
+
+  constructor(url: string | URL) {
+    super();
+    this.url = String(url);
+  }
+
+  send(): void {
+    // Nothing is sent anywhere
+  }
+
+  receive(data: unknown): void {
+    this.dispatchEvent(new MessageEvent('message', { data }));
+  }
+}
+
+/**
+ * Minimal XMLHttpRequest stand-in answered by the tests
+ */
+class FakeXMLHttpRequest extends EventTarget {
+  status = 0;
+  responseType: XMLHttpRequestResponseType = '';
+  responseText = '';
+  sentHeaders: Record<string, string> = {};
+  private responseHeaders: Record<string, string> = {};
+
+  open(_method: string, _url: string): void {
+    // Nothing is opened anywhere
+  }
+
+  setRequestHeader(name: string, value: string): void {
+    this.sentHeaders[name] = value;
+  }
+
+  send(_body?: string): void {
+    // Answered through respond
+  }
+
+  get response(): string {
+    return this.responseText;
+  }
+
+  getAllResponseHeaders(): string {
+    return Object.entries(this.responseHeaders).map(([name, value]) => `${name}: ${value}`).join('\r\n');
+  }
+
+  getResponseHeader(name: string): string | null {
+    return this.responseHeaders[name] ?? null;
+  }
+
+  respond(status: number, headers: Record<string, string>, body: string): void {
+    this.status = status;
+    this.responseHeaders = headers;
+    this.responseText = body;
+    this.dispatchEvent(new Event('loadend'));
+  }
+}
+
+/**
+ * Payload settings capturing headers and bodies everywhere
+ */
+const capturePayloads: NetworkPayloadConfig = {
+  captureHeaders: true,
+  captureBodies: true,
+  maxBodyBytes: 1024,
+  allowOrigins: [],
+  denyOrigins: [],
+  captureFrames: false
+};
+
+describe('PageNetworkHook', () => {
+  let reports: PageNetworkReport[];
+  let scope: {
+    WebSocket: unknown;
+    navigator: { sendBeacon: (url: unknown, data?: unknown) => boolean };
+    fetch: typeof fetch;
+    XMLHttpRequest: unknown;
+    location: { origin: string };
+  };
+  let pageFetch: typeof fetch;
+  let hook: PageNetworkHook;
+  const enabled: PageNetworkConfig = { enabled: true, maxConnections: 10, maxConnectionFrames: 10 };
+  const xhrMethods = { ...Object.getOwnPropertyDescriptors(FakeXMLHttpRequest.prototype) };
+
+  /**
+   * Connection records reported so far
+   */
+  function connections(): NetworkConnection[] {
+    return reports.flatMap(report => report.type === 'connection' ? [report.connection] : []);
+  }
+
+  /**
+   * Requests reported so far
+   */
+  function requests(): NetworkRequest[] {
+    return reports.flatMap(report => report.type === 'request' ? [report.request] : []);
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    reports = [];
+    pageFetch = async () => new Response('{"id":7,"token":"abc"}', {
+      status: 201,
+      headers: { 'content-type': 'application/json', 'x-request-id': 'req-1' }
+    });
+    scope = {
+      WebSocket: FakeWebSocket,
+      navigator: { sendBeacon: () => true },
+      fetch: pageFetch,
+      XMLHttpRequest: FakeXMLHttpRequest,
+      location: { origin: 'https://api.shop.test' }
+    };
+    hook = new PageNetworkHook(report => reports.push(structuredClone(report)), scope as unknown as PageNetworkScope);
+  });
+
+  afterEach(() => {
+    hook.uninstall();
+    Object.defineProperties(FakeXMLHttpRequest.prototype, xhrMethods);
+    vi.useRealTimers();
+  });
+
+  it('should leave the page alone until enabled and restore it when disabled', () => {
+    const send = FakeXMLHttpRequest.prototype.send;
+    expect(scope.WebSocket).toBe(FakeWebSocket);
+
+    hook.applyConfig(enabled);
+    expect(scope.WebSocket).not.toBe(FakeWebSocket);
+    expect(scope.fetch).not.toBe(pageFetch);
+    expect(FakeXMLHttpRequest.prototype.send).not.toBe(send);
+
+    hook.applyConfig({ ...enabled, enabled: false });
+    expect(scope.WebSocket).toBe(FakeWebSocket);
+    expect(scope.fetch).toBe(pageFetch);
+    expect(FakeXMLHttpRequest.prototype.send).toBe(send);
+  });
+
+  it('should report a burst of changes to a connection once', () => {
+    hook.applyConfig(enabled);
+    const Socket = scope.WebSocket as typeof FakeWebSocket;
+    const socket = new Socket('wss://live.example.com/feed');
+
+    socket.dispatchEvent(new Event('open'));
+    socket.receive('a');
+    socket.receive('b');
+    expect(reports).toEqual([]);
+
+    vi.advanceTimersByTime(100);
+
+    expect(reports).toHaveLength(1);
+    expect(connections()[0]).toMatchObject({ type: 'websocket', state: 'open', framesReceived: 2 });
+  });
+
+  it('should report pending changes when disabled', () => {
+    hook.applyConfig(enabled);
+    scope.navigator.sendBeacon('https://metrics.example.com/collect', 'view');
+
+    hook.applyConfig({ ...enabled, enabled: false });
+
+    expect(connections().map(connection => connection.type)).toEqual(['beacon']);
+  });
+
+  it('should apply payload settings from the content script', () => {
+    hook.applyConfig({
+      ...enabled,
+      payloads: {
+        captureHeaders: false,
+        captureBodies: false,
+        maxBodyBytes: 1024,
+        allowOrigins: [],
+        denyOrigins: [],
+        captureFrames: true
+      }
+    });
+    scope.navigator.sendBeacon('https://metrics.example.com/collect', '{"event":"view"}');
+    vi.advanceTimersByTime(100);
+
+    expect(connections()[0]?.frames?.[0]?.payload?.body).toEqual({ event: 'view' });
+  });
+
+  it('should report page fetch calls with sanitized payloads', async () => {
+    hook.applyConfig({ ...enabled, payloads: capturePayloads });
+
+    const response = await scope.fetch('https://api.shop.test/login', {
+      method: 'post',
+      headers: { 'content-type': 'application/json', authorization: 'Bearer abc' },
+      body: '{"user":"ada","password":"hunter2"}'
+    });
+    await vi.waitFor(() => expect(requests()).toHaveLength(2));
+
+    // The page still reads the body it asked for
+    expect(await response.json()).toEqual({ id: 7, token: 'abc' });
+    expect(requests()[1]?.id).toBe(requests()[0]?.id);
+    expect(requests()[1]).toMatchObject({
+      url: 'https://api.shop.test/login',
+      method: 'POST',
+      status: 201,
+      failed: false,
+      request: {
+        headers: { 'content-type': 'application/json' },
+        strippedHeaders: ['authorization'],
+        body: { user: 'ada', password: '[REDACTED]' }
+      },
+      response: { body: { id: 7, token: '[REDACTED]' } }
+    });
+  });
+
+  it('should report fetch completions before the page handles the response', async () => {
+    scope.fetch = async () => new Response('{"error":"out of stock"}', {
+      status: 500,
+      headers: { 'content-type': 'application/json' }
+    });
+    hook.applyConfig({ ...enabled, payloads: capturePayloads });
+
+    await scope.fetch('https://api.shop.test/api/orders', { method: 'POST', body: '{"sku":"A1"}' });
+
+    // Reported before the bodies are read, so the page's console.error can be linked to it
+    expect(requests()).toHaveLength(1);
+    expect(requests()[0]).toMatchObject({ method: 'POST', status: 500, failed: true });
+    expect(requests()[0]?.id).toMatch(/^req_/);
+    expect(requests()[0]?.response).toBeUndefined();
+
+    await vi.waitFor(() => expect(requests()).toHaveLength(2));
+    expect(requests()[1]).toMatchObject({ id: requests()[0]?.id, response: { body: { error: 'out of stock' } } });
+  });
+
+  it('should report failed fetch calls and rethrow to the page', async () => {
+    scope.fetch = async () => {
+      throw new TypeError('Failed to fetch');
+    };
+    hook.applyConfig(enabled);
+
+    await expect(scope.fetch('https://api.shop.test/items')).rejects.toThrow('Failed to fetch');
+    await vi.waitFor(() => expect(requests()).toHaveLength(1));
+
+    expect(requests()[0]).toMatchObject({ method: 'GET', status: 0, failed: true });
+    expect(requests()[0]?.response).toBeUndefined();
+  });
+
+  it('should report page XMLHttpRequests with sanitized payloads', () => {
+    hook.applyConfig({ ...enabled, payloads: capturePayloads });
+    const XHR = scope.XMLHttpRequest as typeof FakeXMLHttpRequest;
+    const xhr = new XHR();
+    vi.setSystemTime(Date.UTC(2026, 0, 1));
+
+    xhr.open('put', 'https://api.shop.test/profile');
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    vi.advanceTimersByTime(50);
+    xhr.send('{"email":"ada@example.com","password":"hunter2"}');
+    vi.advanceTimersByTime(200);
+    xhr.respond(404, { 'content-type': 'application/json' }, '{"error":"missing"}');
+
+    expect(xhr.sentHeaders).toEqual({ 'Content-Type': 'application/json' });
+    expect(requests()).toEqual([expect.objectContaining({
+      url: 'https://api.shop.test/profile',
+      method: 'PUT',
+      status: 404,
+      // Started when sent, like fetch
+      timestamp: new Date(Date.UTC(2026, 0, 1) + 50),
+      failed: true,
+      request: expect.objectContaining({ body: expect.objectContaining({ password: '[REDACTED]' }) }),
+      response: expect.objectContaining({ body: { error: 'missing' } })
+    })]);
+  });
+
+  it('should add traceparent headers to same-origin requests and read request ids', async () => {
+    const sent: Headers[] = [];
+    scope.fetch = async (_input, init) => {
+      sent.push(new Headers(init?.headers));
+      return new Response('', { headers: { 'x-request-id': 'req-9' } });
+    };
+    hook.applyConfig({ ...enabled, injectTraceparent: true });
+
+    await scope.fetch('/orders');
+    await scope.fetch('https://cdn.shop.test/app.js');
+    const xhr = new (scope.XMLHttpRequest as typeof FakeXMLHttpRequest)();
+    xhr.open('GET', 'https://api.shop.test/stock');
+    xhr.send();
+    xhr.respond(200, { 'x-request-id': 'req-10' }, '');
+    await vi.waitFor(() => expect(requests()).toHaveLength(3));
+
+    // Cross-origin requests would need a CORS preflight for the extra header
+    expect(sent[0]?.get('traceparent')).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(sent[1]?.has('traceparent')).toBe(false);
+    expect(xhr.sentHeaders['traceparent']).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+
+    const traces = Object.fromEntries(requests().map(request => [request.url, request.trace]));
+    expect(traces['/orders']).toMatchObject({ injected: true, requestId: 'req-9', traceparent: sent[0]?.get('traceparent') });
+    expect(traces['https://cdn.shop.test/app.js']).toEqual({ requestId: 'req-9' });
+    expect(traces['https://api.shop.test/stock']).toMatchObject({ injected: true, requestId: 'req-10' });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * PreRollBuffer.test.ts
+ * Test suite for the pre-session ring buffer
+ * Tests eviction by entry count, age and memory budget
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PreRollBuffer } from '../../src/capture/PreRollBuffer.js';
+import type { LogEntry } from '../../src/types/index.js';
+
+describe('PreRollBuffer', () => {
+  let now: number;
+  let buffer: PreRollBuffer;
+
+  const entry = (id: string, message: string = id): LogEntry => ({
+    id,
+    timestamp: new Date(now),
+    level: 'log',
+    message
+  });
+
+  beforeEach(() => {
+    now = 1700000000000;
+    buffer = new PreRollBuffer({ maxEntries: 3, maxAgeMs: 10000, maxBytes: 1024 * 1024 }, () => now);
+  });
+
+  describe('Eviction', () => {
+    it('should keep the newest entries when the entry limit is reached', () => {
+      ['a', 'b', 'c', 'd', 'e'].forEach(id => buffer.add(entry(id)));
+
+      expect(buffer.getEntries().map(log => log.id)).toEqual(['c', 'd', 'e']);
+    });
+
+    it('should drop entries older than the age limit', () => {
+      buffer.add(entry('old'));
+      now += 8000;
+      buffer.add(entry('recent'));
+      now += 4000;
+
+      expect(buffer.getEntries().map(log => log.id)).toEqual(['recent']);
+    });
+
+    it('should stay within the memory budget', () => {
+      const size = JSON.stringify(entry('a', 'x'.repeat(100))).length * 2;
+      buffer.updateConfig({ maxBytes: size * 2 });
+
+      ['a', 'b', 'c'].forEach(id => buffer.add(entry(id, 'x'.repeat(100))));
+
+      expect(buffer.getEntries().map(log => log.id)).toEqual(['b', 'c']);
+      expect(buffer.getStats().estimatedBytes).toBeLessThanOrEqual(size * 2);
+    });
+
+    it('should ignore a single entry larger than the budget', () => {
+      buffer.add(entry('small'));
+      buffer.updateConfig({ maxBytes: 1000 });
+      buffer.add(entry('large', 'x'.repeat(1000)));
+
+      expect(buffer.getEntries().map(log => log.id)).toEqual(['small']);
+    });
+  });
+
+  describe('Draining', () => {
+    it('should return entries oldest first and empty the buffer', () => {
+      buffer.add(entry('a'));
+      buffer.add(entry('b'));
+
+      expect(buffer.drain().map(log => log.id)).toEqual(['a', 'b']);
+      expect(buffer.getStats()).toEqual({ entries: 0, estimatedBytes: 0, oldestTimestamp: null });
+    });
+
+    it('should keep the newest entries when the limit shrinks', () => {
+      ['a', 'b', 'c'].forEach(id => buffer.add(entry(id)));
+      buffer.updateConfig({ maxEntries: 2 });
+
+      expect(buffer.getEntries().map(log => log.id)).toEqual(['b', 'c']);
+    });
+  });
+});
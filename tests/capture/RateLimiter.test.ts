@@ -0,0 +1,74 @@
+/**
+ * RateLimiter.test.ts
+ * Test suite for token-bucket rate limiting
+ * Tests burst allowance, refill, per-source buckets, error exemption and adaptive sampling
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RateLimiter } from '../../src/capture/RateLimiter.js';
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+  let now: number;
+
+  const admitMany = (count: number, level: 'log' | 'error' = 'log', source = 'app.js'): number => {
+    let admitted = 0;
+    for (let index = 0; index < count; index++) {
+      if (limiter.admit(level, source).admitted) {
+        admitted++;
+      }
+    }
+    return admitted;
+  };
+
+  beforeEach(() => {
+    now = 0;
+    limiter = new RateLimiter(() => now);
+    limiter.updateConfig({ ratePerSecond: 10, burst: 20 });
+  });
+
+  describe('Token Bucket', () => {
+    it('should admit a burst and then start limiting', () => {
+      expect(admitMany(20)).toBe(20);
+      expect(limiter.admit('log', 'app.js')).toEqual({ admitted: false, sampleEvery: 3 });
+    });
+
+    it('should refill at the sustained rate', () => {
+      admitMany(20);
+      now = 500;
+
+      expect(admitMany(5)).toBe(5);
+      expect(limiter.admit('log', 'app.js').sampleEvery).toBeDefined();
+    });
+
+    it('should keep a bucket per level and source', () => {
+      admitMany(20);
+
+      expect(limiter.admit('log', 'vendor.js').admitted).toBe(true);
+      expect(limiter.admit('warn', 'app.js').admitted).toBe(true);
+    });
+  });
+
+  it('should never drop errors', () => {
+    expect(admitMany(1000, 'error')).toBe(1000);
+  });
+
+  it('should sample more sparsely as the overload grows', () => {
+    admitMany(20);
+    // 100 more arrivals in the same second: 120/s against 10/s keeps one in 12
+    const admitted = admitMany(100);
+    expect(admitted).toBeGreaterThan(0);
+    expect(admitted).toBeLessThan(20);
+
+    // The next second refills ten tokens, then samples at the measured rate
+    now = 1000;
+    expect(admitMany(10)).toBe(10);
+    expect(limiter.admit('log', 'app.js').sampleEvery).toBe(12);
+  });
+
+  it('should admit everything when disabled', () => {
+    limiter.updateConfig({ enabled: false });
+
+    expect(admitMany(100)).toBe(100);
+  });
+});
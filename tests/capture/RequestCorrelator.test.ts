@@ -0,0 +1,99 @@
+/**
+ * RequestCorrelator.test.ts
+ * Test suite for linking logs to network requests
+ * Tests the correlation window, traceparent creation, trace header parsing and request summaries
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RequestCorrelator,
+  readTraceHeaders,
+  lowerCaseHeaders,
+  describeRequest
+} from '../../src/capture/RequestCorrelator.js';
+import type { NetworkRequest } from '../../src/types/index.js';
+
+/**
+ * Builds a completed request
+ * @param url - Request URL
+ * @param startedAt - Epoch milliseconds when the request started
+ * @param responseTime - Duration in milliseconds
+ * @param status - Response status
+ */
+function makeRequest(url: string, startedAt: number, responseTime: number, status = 200): NetworkRequest {
+  return {
+    url,
+    method: 'POST',
+    status,
+    timestamp: new Date(startedAt),
+    responseTime,
+    failed: status === 0 || status >= 400
+  };
+}
+
+describe('RequestCorrelator', () => {
+  let correlator: RequestCorrelator;
+
+  beforeEach(() => {
+    correlator = new RequestCorrelator();
+  });
+
+  it('should link a log to the most recent request completed within the window', () => {
+    const orders = makeRequest('https://shop.test/api/orders', 1000, 200, 500);
+    const cart = makeRequest('https://shop.test/api/cart', 1100, 50);
+
+    correlator.recordCompletion(orders);
+    correlator.recordCompletion(cart);
+
+    expect(orders.id).toMatch(/^req_/);
+    expect(correlator.findRelated(1300)).toBe(orders);
+    expect(correlator.findRelated(1180)).toBe(cart);
+  });
+
+  it('should not link logs outside the window or before any completion', () => {
+    correlator.updateConfig({ windowMs: 100 });
+    correlator.recordCompletion(makeRequest('https://shop.test/api/orders', 1000, 200));
+
+    expect(correlator.findRelated(1150)).toBeUndefined();
+    expect(correlator.findRelated(1250)).toBeDefined();
+    expect(correlator.findRelated(1350)).toBeUndefined();
+  });
+
+  it('should not link logs when disabled', () => {
+    correlator.recordCompletion(makeRequest('https://shop.test/api/orders', 1000, 200));
+    correlator.updateConfig({ enabled: false });
+
+    expect(correlator.findRelated(1250)).toBeUndefined();
+  });
+
+  it('should only create traceparent headers for same-origin requests when enabled', () => {
+    expect(correlator.createTraceparent('/api/orders', 'https://shop.test')).toBeUndefined();
+
+    correlator.updateConfig({ injectTraceparent: true });
+    const traceparent = correlator.createTraceparent('/api/orders', 'https://shop.test');
+
+    expect(traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(correlator.createTraceparent('https://cdn.test/app.js', 'https://shop.test')).toBeUndefined();
+  });
+
+  it('should read trace headers, preferring the response request id', () => {
+    const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+    const requestHeaders = lowerCaseHeaders({ Traceparent: traceparent, 'X-Request-Id': 'client-1' });
+
+    expect(readTraceHeaders(requestHeaders, { 'x-request-id': 'server-1' })).toEqual({
+      traceparent,
+      traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+      requestId: 'server-1'
+    });
+    expect(readTraceHeaders({ traceparent: 'not-a-trace' })).toBeUndefined();
+    expect(readTraceHeaders(undefined, { 'x-request-id': 'server-2' })).toEqual({ requestId: 'server-2' });
+  });
+
+  it('should summarize requests by path when same-origin with the page', () => {
+    const request = makeRequest('https://shop.test/api/orders?page=2', 1000, 200, 500);
+
+    expect(describeRequest(request, 'https://shop.test/checkout')).toBe('POST /api/orders?page=2 → 500');
+    expect(describeRequest(request, 'https://other.test/')).toBe('POST https://shop.test/api/orders?page=2 → 500');
+    expect(describeRequest({ ...request, status: 0 })).toBe('POST https://shop.test/api/orders?page=2 → failed');
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * RouteTracker.test.ts
+ * Test suite for the single-page application route timeline
+ * Tests route derivation, visit durations, duplicate events and fragment navigations
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RouteTracker, getRoute } from '../../src/capture/RouteTracker.js';
+
+describe('getRoute', () => {
+  it('should use the path and keep only hash-router fragments', () => {
+    expect(getRoute('https://shop.test/orders/42?tab=items#summary')).toBe('/orders/42');
+    expect(getRoute('https://shop.test/#/settings?tab=2')).toBe('/#/settings');
+    expect(getRoute('https://shop.test/app#!/profile')).toBe('/app#!/profile');
+    expect(getRoute('https://shop.test/callback#access_token=secret')).toBe('/callback');
+  });
+});
+
+describe('RouteTracker', () => {
+  let tracker: RouteTracker;
+  const start = new Date('2026-01-01T00:00:00Z');
+
+  /**
+   * Returns a time relative to the session start
+   * @param ms - Milliseconds after the start
+   */
+  function at(ms: number): Date {
+    return new Date(start.getTime() + ms);
+  }
+
+  beforeEach(() => {
+    tracker = new RouteTracker();
+    tracker.start('https://shop.test/', 'Home', 'load', start);
+  });
+
+  it('should close each visit when the next route is entered', () => {
+    tracker.record('push', 'https://shop.test/cart', 'Cart', at(2000));
+    tracker.record('pop', 'https://shop.test/', 'Home', at(5000));
+
+    const timeline = tracker.getTimeline(at(6500));
+
+    expect(timeline.map(visit => [visit.type, visit.route, visit.duration])).toEqual([
+      ['load', '/', 2000],
+      ['push', '/cart', 3000],
+      ['pop', '/', 1500]
+    ]);
+    expect(tracker.getCurrentRoute()).toBe('/');
+  });
+
+  it('should ignore navigations that keep the URL', () => {
+    expect(tracker.record('replace', 'https://shop.test/', 'Home', at(100))).toBeNull();
+    expect(tracker.getTimeline(at(200))).toHaveLength(1);
+  });
+
+  it('should name fragment navigations after the hashchange that follows popstate', () => {
+    tracker.record('pop', 'https://shop.test/#/settings', 'Settings', at(1000));
+    tracker.record('hash', 'https://shop.test/#/settings', 'Settings', at(1000));
+
+    const timeline = tracker.getTimeline(at(1500));
+
+    expect(timeline).toHaveLength(2);
+    expect(timeline[1]).toMatchObject({ type: 'hash', route: '/#/settings' });
+  });
+
+  it('should return copies and forget the timeline on clear', () => {
+    const timeline = tracker.getTimeline(at(100));
+    timeline[0]!.route = '/changed';
+
+    expect(tracker.getCurrentRoute()).toBe('/');
+
+    tracker.clear();
+    expect(tracker.getCurrentRoute()).toBeUndefined();
+    expect(tracker.getTimeline()).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * ScreenshotCapture.test.ts
+ * Test suite for screenshot requests
+ * Tests redaction boxes, the session cap, the error trigger setting and the rate limit
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  ScreenshotCapture,
+  collectRedactionBoxes,
+  getScreenshotFileName,
+  type RedactionRoot,
+  type ScreenshotRequest
+} from '../../src/capture/ScreenshotCapture.js';
+import type { ScreenshotReference } from '../../src/types/index.js';
+
+/**
+ * Builds a document stand-in that returns fixed rectangles per selector
+ * @param rects - Element rectangles by selector
+ */
+function makeRoot(rects: Record<string, Array<{ left: number; top: number; width: number; height: number }>>): RedactionRoot {
+  return {
+    querySelectorAll(selector: string) {
+      const matches = rects[selector];
+      if (!matches) {
+        throw new SyntaxError(`'${selector}' is not a valid selector`);
+      }
+      return matches.map(rect => ({ getBoundingClientRect: () => rect }));
+    }
+  };
+}
+
+describe('collectRedactionBoxes', () => {
+  it('should clip boxes to the viewport and skip off-screen elements', () => {
+    const root = makeRoot({
+      '[data-redact]': [
+        { left: -10, top: 20, width: 60, height: 30 },
+        { left: 780, top: 580, width: 100, height: 100 },
+        { left: 0, top: 900, width: 100, height: 40 }
+      ]
+    });
+
+    expect(collectRedactionBoxes(['[data-redact]'], root, { width: 800, height: 600 })).toEqual([
+      { x: 0, y: 20, width: 50, height: 30 },
+      { x: 780, y: 580, width: 20, height: 20 }
+    ]);
+  });
+
+  it('should skip invalid selectors and unrendered elements', () => {
+    const root = makeRoot({
+      'input[type="password"]': [{ left: 10, top: 10, width: 0, height: 0 }]
+    });
+
+    expect(collectRedactionBoxes(['input[type="password"]', '>>bad'], root, { width: 800, height: 600 })).toEqual([]);
+  });
+});
+
+describe('ScreenshotCapture', () => {
+  let capture: ScreenshotCapture;
+  let requests: ScreenshotRequest[];
+  const root = makeRoot({ 'input[type="password"]': [], '[data-redact]': [] });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+    requests = [];
+    capture = new ScreenshotCapture();
+    capture.updateConfig({ enabled: true, maxPerSession: 2 });
+    capture.setTaker(async request => {
+      requests.push(request);
+      const reference: ScreenshotReference = {
+        id: `screenshot_${requests.length}`,
+        timestamp: new Date(),
+        trigger: request.trigger,
+        mimeType: 'image/png',
+        width: 800,
+        height: 600,
+        redactedRegions: request.redactions.length
+      };
+      if (request.logId) {
+        reference.logId = request.logId;
+      }
+      return reference;
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should link error screenshots to their entry and stop at the session cap', async () => {
+    const first = await capture.capture('session_1', 'error', 'log_1', root);
+    vi.advanceTimersByTime(1000);
+    await capture.capture('session_1', 'hotkey', undefined, root);
+    vi.advanceTimersByTime(1000);
+
+    expect(first?.logId).toBe('log_1');
+    expect(requests[0]).toMatchObject({ sessionId: 'session_1', trigger: 'error', format: 'png' });
+    expect(await capture.capture('session_1', 'hotkey', undefined, root)).toBeNull();
+    expect(capture.getScreenshots()).toHaveLength(2);
+
+    capture.reset();
+    expect(capture.shouldCapture('hotkey')).toBe(true);
+  });
+
+  it('should rate limit requests to one per second', async () => {
+    await capture.capture('session_1', 'hotkey', undefined, root);
+
+    expect(await capture.capture('session_1', 'hotkey', undefined, root)).toBeNull();
+    vi.advanceTimersByTime(1000);
+    expect(await capture.capture('session_1', 'hotkey', undefined, root)).not.toBeNull();
+  });
+
+  it('should honour the enabled and on-error settings', async () => {
+    capture.updateConfig({ onError: false });
+    expect(capture.shouldCapture('error')).toBe(false);
+    expect(capture.shouldCapture('hotkey')).toBe(true);
+
+    capture.updateConfig({ enabled: false });
+    expect(await capture.capture('session_1', 'hotkey', undefined, root)).toBeNull();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should name exported files by image type', () => {
+    expect(getScreenshotFileName({ id: 'screenshot_1', mimeType: 'image/png' })).toBe('screenshot-screenshot_1.png');
+    expect(getScreenshotFileName({ id: 'screenshot_2', mimeType: 'image/jpeg' })).toBe('screenshot-screenshot_2.jpg');
+  });
+});
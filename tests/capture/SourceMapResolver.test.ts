@@ -0,0 +1,248 @@
+/**
+ * SourceMapResolver.test.ts
+ * Test suite for source map resolution of captured stack traces
+ * Tests map discovery, VLQ decoding, stack frame rewriting and function name resolution
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { SourceMapResolver } from '../../src/capture/SourceMapResolver.js';
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encodes mapping segments (relative values) as base64 VLQ
+ */
+function encodeMappings(lines: number[][][]): string {
+  const encodeValue = (value: number): string => {
+    let vlq = value < 0 ? (-value << 1) | 1 : value << 1;
+    let encoded = '';
+    do {
+      let digit = vlq & 31;
+      vlq >>>= 5;
+      if (vlq > 0) {
+        digit |= 32;
+      }
+      encoded += BASE64_CHARS[digit];
+    } while (vlq > 0);
+    return encoded;
+  };
+
+  return lines
+    .map(segments => segments.map(segment => segment.map(encodeValue).join('')).join(','))
+    .join(';');
+}
+
+const sourceMap = JSON.stringify({
+  version: 3,
+  sourceRoot: 'src',
+  sources: ['app.ts'],
+  names: ['handleClick'],
+  // Line 1: col 0 -> app.ts 1:1, col 10 -> app.ts 5:3 (handleClick)
+  // Line 2: col 5 -> app.ts 10:1
+  mappings: encodeMappings([
+    [[0, 0, 0, 0], [10, 0, 4, 2, 0]],
+    [[5, 0, 5, -2]]
+  ])
+});
+
+const namedScript = [
+  'function r(e){n(e)}',
+  'var t=()=>{throw new Error()};',
+  '//# sourceMappingURL=names.js.map'
+].join('\n');
+
+const namedSourceMap = JSON.stringify({
+  version: 3,
+  sources: ['cart.ts'],
+  names: ['checkout', 'notify', 'submitOrder'],
+  // Line 1: col 0 -> 1:1, col 9 `r` -> 1:10 (checkout), col 14 `n` call -> 2:3 (notify)
+  // Line 2: col 4 `t` -> 5:7 (submitOrder), col 10 `throw` -> 6:5
+  mappings: encodeMappings([
+    [[0, 0, 0, 0], [9, 0, 0, 9, 0], [5, 0, 1, -7, 1]],
+    [[4, 0, 3, 4, 1], [6, 0, 1, -2]]
+  ])
+});
+
+/**
+ * Creates a fetcher serving the given files
+ */
+function createFetcher(files: Record<string, string>): (url: string) => Promise<string | null> {
+  return async (url: string) => files[url] ?? null;
+}
+
+describe('SourceMapResolver', () => {
+  describe('Stack Trace Resolution', () => {
+    it('should resolve V8 frames through sourceMappingURL', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/assets/bundle.js': 'code();\n//# sourceMappingURL=bundle.js.map',
+        'https://example.com/assets/bundle.js.map': sourceMap
+      }));
+
+      const result = await resolver.resolveStackTrace(
+        '    at a (https://example.com/assets/bundle.js:1:15)\n    at https://example.com/assets/bundle.js:2:6'
+      );
+
+      expect(result?.resolvedFrames).toBe(2);
+      expect(result?.stackTrace).toBe(
+        '    at a (https://example.com/assets/src/app.ts:5:3)\n    at https://example.com/assets/src/app.ts:10:1'
+      );
+    });
+
+    it('should keep frame names rather than the callee named at the call position', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/bundle.js': '//# sourceMappingURL=bundle.js.map',
+        'https://example.com/bundle.js.map': sourceMap
+      }));
+
+      // Column 11 maps to the handleClick call inside the caller
+      const result = await resolver.resolveStackTrace('    at onLoad (https://example.com/bundle.js:1:11)');
+
+      expect(result?.stackTrace).toBe('    at onLoad (https://example.com/src/app.ts:5:3)');
+    });
+
+    it('should resolve Firefox frames', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/bundle.js': '//# sourceMappingURL=bundle.js.map',
+        'https://example.com/bundle.js.map': sourceMap
+      }));
+
+      const result = await resolver.resolveStackTrace('a@https://example.com/bundle.js:1:1');
+
+      expect(result?.stackTrace).toBe('a@https://example.com/src/app.ts:1:1');
+    });
+
+    it('should keep unresolvable frames unchanged', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/bundle.js': '//# sourceMappingURL=bundle.js.map',
+        'https://example.com/bundle.js.map': sourceMap
+      }));
+
+      const result = await resolver.resolveStackTrace(
+        '    at a (https://example.com/bundle.js:1:1)\n    at b (https://cdn.example.com/lib.js:3:4)'
+      );
+
+      expect(result?.resolvedFrames).toBe(1);
+      expect(result?.stackTrace.split('\n')[1]).toBe('    at b (https://cdn.example.com/lib.js:3:4)');
+    });
+
+    it('should return null when no frame resolves', async () => {
+      const resolver = new SourceMapResolver(createFetcher({}));
+
+      expect(await resolver.resolveStackTrace('    at a (https://example.com/bundle.js:1:1)')).toBeNull();
+    });
+  });
+
+  describe('Source Map Discovery', () => {
+    it('should decode inline data URL maps', async () => {
+      const inline = `data:application/json;base64,${btoa(sourceMap)}`;
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/bundle.js': `code();\n//# sourceMappingURL=${inline}`
+      }));
+
+      const position = await resolver.resolvePosition('https://example.com/bundle.js', 2, 8);
+
+      expect(position).toEqual({ file: 'https://example.com/src/app.ts', line: 10, column: 1 });
+    });
+
+    it('should fall back to configured local directories', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/maps/bundle.3f2a.js.map': sourceMap
+      }));
+      resolver.updateConfig({ localDirectories: ['https://example.com/maps'] });
+
+      const position = await resolver.resolvePosition('https://example.com/bundle.3f2a.js', 1, 11);
+
+      expect(position?.file).toBe('https://example.com/maps/src/app.ts');
+      expect(position?.line).toBe(5);
+    });
+
+    it('should pass the script URL with every fetch', async () => {
+      const requests: Array<[string, string]> = [];
+      const files: Record<string, string> = {
+        'https://cdn.example.com/bundle.js': '//# sourceMappingURL=bundle.js.map',
+        'https://cdn.example.com/bundle.js.map': sourceMap
+      };
+      const resolver = new SourceMapResolver(async (url, scriptUrl) => {
+        requests.push([url, scriptUrl]);
+        return files[url] ?? null;
+      });
+
+      await resolver.resolvePosition('https://cdn.example.com/bundle.js', 1, 1);
+
+      expect(requests).toEqual([
+        ['https://cdn.example.com/bundle.js', 'https://cdn.example.com/bundle.js'],
+        ['https://cdn.example.com/bundle.js.map', 'https://cdn.example.com/bundle.js']
+      ]);
+    });
+
+    it('should skip maps larger than the size limit without parsing them', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/bundle.js': '//# sourceMappingURL=bundle.js.map',
+        'https://example.com/bundle.js.map': sourceMap
+      }));
+      resolver.updateConfig({ maxMapSize: sourceMap.length - 1 });
+      const parse = vi.spyOn(JSON, 'parse');
+
+      try {
+        expect(await resolver.resolvePosition('https://example.com/bundle.js', 1, 1)).toBeNull();
+        expect(parse).not.toHaveBeenCalled();
+      } finally {
+        parse.mockRestore();
+      }
+    });
+
+    it('should not resolve when disabled', async () => {
+      const resolver = new SourceMapResolver(createFetcher({
+        'https://example.com/bundle.js': '//# sourceMappingURL=bundle.js.map',
+        'https://example.com/bundle.js.map': sourceMap
+      }));
+      resolver.updateConfig({ enabled: false });
+
+      expect(await resolver.resolvePosition('https://example.com/bundle.js', 1, 1)).toBeNull();
+    });
+  });
+
+  describe('Function Names', () => {
+    const files = {
+      'https://example.com/names.js': namedScript,
+      'https://example.com/names.js.map': namedSourceMap
+    };
+
+    it('should rewrite frames to the original name of the enclosing function', async () => {
+      const resolver = new SourceMapResolver(createFetcher(files));
+
+      const result = await resolver.resolveStackTrace(
+        '    at r (https://example.com/names.js:1:15)\n    at Object.t (https://example.com/names.js:2:11)'
+      );
+
+      expect(result?.stackTrace).toBe(
+        '    at checkout (https://example.com/cart.ts:2:3)\n    at Object.submitOrder (https://example.com/cart.ts:6:5)'
+      );
+    });
+
+    it('should rewrite Firefox frame names', async () => {
+      const resolver = new SourceMapResolver(createFetcher(files));
+
+      const result = await resolver.resolveStackTrace('t@https://example.com/names.js:2:11');
+
+      expect(result?.stackTrace).toBe('submitOrder@https://example.com/cart.ts:6:5');
+    });
+
+    it('should expose the original name on the resolved position', async () => {
+      const resolver = new SourceMapResolver(createFetcher(files));
+
+      const position = await resolver.resolvePosition('https://example.com/names.js', 1, 15, 'r');
+
+      expect(position).toEqual({ file: 'https://example.com/cart.ts', line: 2, column: 3, functionName: 'checkout' });
+    });
+
+    it('should not take names from calls', async () => {
+      const resolver = new SourceMapResolver(createFetcher(files));
+
+      // `n` is only called in the script, never defined
+      const position = await resolver.resolvePosition('https://example.com/names.js', 1, 15, 'n');
+
+      expect(position).toEqual({ file: 'https://example.com/cart.ts', line: 2, column: 3 });
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * StackTraceParser.test.ts
+ * Test suite for multi-engine stack trace parsing
+ * Tests V8, SpiderMonkey and JavaScriptCore formats and source frame selection
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StackTraceParser } from '../../src/capture/StackTraceParser.js';
+
+describe('StackTraceParser', () => {
+  let parser: StackTraceParser;
+
+  beforeEach(() => {
+    parser = new StackTraceParser();
+  });
+
+  describe('V8 Format', () => {
+    it('should parse named and anonymous frames', () => {
+      const frames = parser.parse([
+        'Error: boom',
+        '    at handleClick (https://example.com/app.js:10:5)',
+        '    at https://example.com/app.js:20:7'
+      ].join('\n'));
+
+      expect(frames).toHaveLength(2);
+      expect(frames[0]).toEqual({
+        functionName: 'handleClick',
+        file: 'https://example.com/app.js',
+        line: 10,
+        column: 5,
+        isAsync: false,
+        isNative: false,
+        isEval: false
+      });
+      expect(frames[1]?.functionName).toBeUndefined();
+      expect(frames[1]?.line).toBe(20);
+    });
+
+    it('should flag async, native and eval frames', () => {
+      const frames = parser.parse([
+        '    at async loadUser (https://example.com/app.js:3:9)',
+        '    at Array.map (native)',
+        '    at async Promise.all (index 0)',
+        '    at eval (eval at run (https://example.com/app.js:7:3), <anonymous>:1:1)'
+      ].join('\n'));
+
+      expect(frames[0]).toMatchObject({ functionName: 'loadUser', isAsync: true });
+      expect(frames[1]).toMatchObject({ functionName: 'Array.map', isNative: true });
+      expect(frames[2]).toMatchObject({ functionName: 'Promise.all', isAsync: true, isNative: true });
+      expect(frames[3]).toMatchObject({
+        functionName: 'eval',
+        file: 'https://example.com/app.js',
+        line: 7,
+        column: 3,
+        isEval: true
+      });
+    });
+  });
+
+  describe('SpiderMonkey Format', () => {
+    it('should parse named, anonymous and async frames', () => {
+      const frames = parser.parse([
+        'handleClick@https://example.com/app.js:10:5',
+        '@https://example.com/app.js:20:7',
+        'async*loadUser@https://example.com/app.js:3:9'
+      ].join('\n'));
+
+      expect(frames[0]).toMatchObject({ functionName: 'handleClick', line: 10, column: 5 });
+      expect(frames[1]?.functionName).toBeUndefined();
+      expect(frames[2]).toMatchObject({ functionName: 'loadUser', isAsync: true });
+    });
+
+    it('should use the eval call site for eval frames', () => {
+      const [frame] = parser.parse('run@https://example.com/app.js line 12 > eval:1:5');
+
+      expect(frame).toMatchObject({ file: 'https://example.com/app.js', line: 12, isEval: true });
+    });
+  });
+
+  describe('JavaScriptCore Format', () => {
+    it('should parse native, eval and location-only frames', () => {
+      const frames = parser.parse([
+        'map@[native code]',
+        'eval code@https://example.com/app.js:4:2',
+        'https://example.com/app.js:8:1'
+      ].join('\n'));
+
+      expect(frames[0]).toMatchObject({ functionName: 'map', isNative: true });
+      expect(frames[1]).toMatchObject({ isEval: true, line: 4 });
+      expect(frames[2]).toMatchObject({ file: 'https://example.com/app.js', line: 8, column: 1 });
+    });
+  });
+
+  describe('Source Frame Selection', () => {
+    it('should skip extension and library frames', () => {
+      const frames = parser.parse([
+        '    at log (chrome-extension://abcdef/page-bridge.js:1:100)',
+        '    at dispatch (https://example.com/node_modules/redux/dist/redux.js:5:1)',
+        '    at Array.forEach (native)',
+        '    at save (https://example.com/src/store.js:42:7)'
+      ].join('\n'));
+
+      expect(parser.selectSourceFrame(frames)).toMatchObject({ functionName: 'save', line: 42 });
+    });
+
+    it('should fall back to library frames when no application frame exists', () => {
+      const frames = parser.parse([
+        '    at log (moz-extension://abcdef/page-bridge.js:1:100)',
+        '    at render (https://cdn.jsdelivr.net/npm/lib/index.js:5:1)'
+      ].join('\n'));
+
+      expect(parser.selectSourceFrame(frames)).toMatchObject({ functionName: 'render' });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * StorageStateCollector.test.ts
+ * Test suite for storage state recording
+ * Tests the start/end comparison, value cutting, entry caps, sanitization and blocked storage
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { StorageStateCollector, type StorageSource } from '../../src/capture/StorageStateCollector.js';
+
+/**
+ * Builds a Storage stand-in over a map
+ * @param entries - Stored entries
+ */
+function makeArea(entries: Record<string, string>): Pick<Storage, 'length' | 'key' | 'getItem'> {
+  const keys = Object.keys(entries);
+  return {
+    length: keys.length,
+    key: (index: number) => keys[index] ?? null,
+    getItem: (key: string) => entries[key] ?? null
+  };
+}
+
+/**
+ * Builds a source with the given state
+ * @param state - Storage contents, cookie string and database names
+ */
+function makeSource(state: {
+  local?: Record<string, string>;
+  session?: Record<string, string>;
+  cookie?: string;
+  databases?: string[];
+}): StorageSource {
+  return {
+    localStorage: () => makeArea(state.local ?? {}),
+    sessionStorage: () => makeArea(state.session ?? {}),
+    cookie: () => state.cookie ?? '',
+    databases: async () => (state.databases ?? []).map(name => ({ name }))
+  };
+}
+
+describe('StorageStateCollector', () => {
+  let collector: StorageStateCollector;
+
+  beforeEach(() => {
+    collector = new StorageStateCollector();
+  });
+
+  it('should report entries and names added, removed and changed during the session', async () => {
+    await collector.captureInitial(makeSource({
+      local: { theme: 'dark', onboarding: 'step-1', legacy: 'x' },
+      cookie: 'consent=yes; _ga=GA1.2',
+      databases: ['app-cache']
+    }));
+
+    const result = await collector.captureFinal(makeSource({
+      local: { theme: 'dark', onboarding: 'done', feature: 'beta' },
+      session: { draft: '1' },
+      cookie: 'consent=yes; cart=3',
+      databases: ['app-cache', 'offline-queue']
+    }));
+
+    expect(result?.initial.cookieNames).toEqual(['consent', '_ga']);
+    expect(result?.diff).toEqual({
+      localStorage: {
+        added: { feature: 'beta' },
+        removed: ['legacy'],
+        changed: { onboarding: { before: 'step-1', after: 'done' } }
+      },
+      sessionStorage: { added: { draft: '1' }, removed: [], changed: {} },
+      cookieNames: { added: ['cart'], removed: ['_ga'] },
+      indexedDbNames: { added: ['offline-queue'], removed: [] }
+    });
+  });
+
+  it('should detect changes past the cut and cap entries per area', async () => {
+    collector.updateConfig({ maxEntries: 2, maxValueLength: 5 });
+    const long = 'a'.repeat(20);
+
+    const initial = await collector.captureInitial(makeSource({ local: { c: 'x', b: long, a: '1' } }));
+    const result = await collector.captureFinal(makeSource({ local: { c: 'x', b: `${long}b`, a: '1' } }));
+
+    expect(initial?.localStorage).toEqual({ a: '1', b: 'aaaaa…' });
+    expect(initial?.truncated).toBe(true);
+    expect(result?.diff?.localStorage.changed).toEqual({ b: { before: 'aaaaa…', after: 'aaaaa…' } });
+  });
+
+  it('should mask values of sensitive keys but still report their changes', async () => {
+    await collector.captureInitial(makeSource({ local: { authToken: 'abc123' } }));
+    const result = await collector.captureFinal(makeSource({ local: { authToken: 'def456' } }));
+
+    const change = result?.diff?.localStorage.changed['authToken'];
+    expect(change).toBeDefined();
+    expect(change?.before).not.toContain('abc123');
+    expect(change?.after).not.toContain('def456');
+    expect(result?.final?.localStorage['authToken']).not.toContain('def456');
+  });
+
+  it('should record empty areas when storage is blocked', async () => {
+    const blocked: StorageSource = {
+      localStorage: () => {
+        throw new DOMException('Access is denied', 'SecurityError');
+      },
+      sessionStorage: () => undefined,
+      cookie: () => {
+        throw new DOMException('Access is denied', 'SecurityError');
+      }
+    };
+
+    const initial = await collector.captureInitial(blocked);
+
+    expect(initial).toMatchObject({ localStorage: {}, sessionStorage: {}, cookieNames: [], indexedDbNames: [] });
+  });
+
+  it('should record nothing when disabled or without an initial state', async () => {
+    expect(await collector.captureFinal(makeSource({}))).toBeNull();
+
+    collector.updateConfig({ enabled: false });
+    expect(await collector.captureInitial(makeSource({ local: { theme: 'dark' } }))).toBeNull();
+    expect(await collector.captureFinal(makeSource({}))).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * WebVitalsCollector.test.ts
+ * Test suite for Web Vitals and the performance timeline
+ * Tests INP selection and attribution, CLS session windows, TTFB, long tasks, long frames and resource totals
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WebVitalsCollector } from '../../src/capture/WebVitalsCollector.js';
+
+const TIME_ORIGIN = Date.UTC(2026, 0, 1);
+
+/**
+ * Builds a performance entry stand-in
+ * @param entryType - Entry type
+ * @param fields - Remaining entry fields
+ */
+function entry(entryType: string, fields: Record<string, unknown>): PerformanceEntry {
+  return { name: '', startTime: 0, duration: 0, entryType, ...fields } as unknown as PerformanceEntry;
+}
+
+/**
+ * Builds an event timing entry
+ * @param interactionId - Interaction the event belongs to
+ * @param startTime - When the input happened
+ * @param duration - Input until next paint
+ * @param name - Event type
+ */
+function event(interactionId: number, startTime: number, duration: number, name: string = 'click'): PerformanceEntry {
+  return entry('event', {
+    name,
+    interactionId,
+    startTime,
+    duration,
+    processingStart: startTime + 10,
+    processingEnd: startTime + duration - 20
+  });
+}
+
+describe('WebVitalsCollector', () => {
+  let collector: WebVitalsCollector;
+
+  beforeEach(() => {
+    collector = new WebVitalsCollector(TIME_ORIGIN);
+  });
+
+  it('should report the longest interaction as INP with its phases', () => {
+    collector.addEntries([
+      event(1, 100, 80),
+      event(1, 100, 120, 'pointerup'),
+      event(2, 2000, 64),
+      entry('event', { name: 'mouseover', interactionId: 0, startTime: 3000, duration: 400 })
+    ]);
+
+    const metrics = collector.getMetrics();
+
+    expect(metrics.inp).toBe(120);
+    expect(metrics.inpAttribution).toEqual({
+      eventType: 'pointerup',
+      timestamp: new Date(TIME_ORIGIN + 100),
+      inputDelay: 10,
+      processingDuration: 90,
+      presentationDelay: 20
+    });
+  });
+
+  it('should skip one outlier per 50 interactions', () => {
+    const entries = Array.from({ length: 60 }, (_, index) => event(index + 1, index * 100, 50));
+    entries.push(event(100, 9000, 900), event(101, 9500, 300));
+
+    collector.addEntries(entries);
+
+    expect(collector.getMetrics().inp).toBe(300);
+  });
+
+  it('should take the largest window of layout shifts without recent input as CLS', () => {
+    collector.addEntries([
+      entry('layout-shift', { startTime: 100, value: 0.05, hadRecentInput: false }),
+      entry('layout-shift', { startTime: 600, value: 0.05, hadRecentInput: false }),
+      entry('layout-shift', { startTime: 800, value: 0.5, hadRecentInput: true }),
+      entry('layout-shift', { startTime: 3000, value: 0.08, hadRecentInput: false }),
+      entry('layout-shift', { startTime: 3200, value: 0.005, hadRecentInput: false })
+    ]);
+
+    const metrics = collector.getMetrics();
+
+    expect(metrics.cls).toBeCloseTo(0.1);
+    expect(metrics.timeline?.map(item => item.value)).toEqual([0.05, 0.05, 0.08]);
+  });
+
+  it('should compute TTFB from activation and the first input delay once', () => {
+    collector.addEntries([
+      entry('navigation', { responseStart: 350, activationStart: 100 }),
+      entry('first-input', { name: 'keydown', startTime: 500, duration: 40, processingStart: 530, processingEnd: 540, interactionId: 7 }),
+      entry('first-input', { name: 'click', startTime: 900, duration: 40, processingStart: 990, processingEnd: 995, interactionId: 8 })
+    ]);
+
+    const metrics = collector.getMetrics();
+
+    expect(metrics.ttfb).toBe(250);
+    expect(metrics.fid).toBe(30);
+  });
+
+  it('should put long tasks and long animation frames on the timeline in time order', () => {
+    collector.addEntries([
+      entry('long-animation-frame', {
+        startTime: 2000,
+        duration: 180,
+        blockingDuration: 95,
+        scripts: [
+          { invoker: 'BUTTON.onclick', sourceURL: 'https://shop.test/app.js', duration: 120 },
+          { invoker: 'TimerHandler:setTimeout', sourceURL: 'https://shop.test/ads.js', duration: 30 }
+        ]
+      }),
+      entry('longtask', { name: 'self', startTime: 500, duration: 75, attribution: [{ containerSrc: '' }] })
+    ]);
+
+    expect(collector.getMetrics().timeline).toEqual([
+      { type: 'long-task', timestamp: new Date(TIME_ORIGIN + 500), duration: 75, attribution: 'self' },
+      {
+        type: 'long-animation-frame',
+        timestamp: new Date(TIME_ORIGIN + 2000),
+        duration: 180,
+        blockingDuration: 95,
+        attribution: 'BUTTON.onclick @ https://shop.test/app.js'
+      }
+    ]);
+  });
+
+  it('should total resources per initiator type with the slowest first', () => {
+    collector.addEntries([
+      entry('resource', { name: 'https://shop.test/app.js', initiatorType: 'script', duration: 120, transferSize: 5000 }),
+      entry('resource', { name: 'https://cdn.test/lib.js', initiatorType: 'script', duration: 300, transferSize: 0 }),
+      entry('resource', { name: 'https://shop.test/logo.png', initiatorType: 'img', duration: 40, transferSize: 800 })
+    ]);
+
+    expect(collector.getMetrics().resources).toEqual([
+      { initiatorType: 'script', count: 2, transferSize: 5000, totalDuration: 420, slowest: { url: 'https://cdn.test/lib.js', duration: 300 } },
+      { initiatorType: 'img', count: 1, transferSize: 800, totalDuration: 40, slowest: { url: 'https://shop.test/logo.png', duration: 40 } }
+    ]);
+  });
+
+  it('should drop only the timeline on reset and everything on clear', () => {
+    collector.addEntries([
+      event(1, 100, 250),
+      entry('longtask', { name: 'self', startTime: 400, duration: 60 })
+    ]);
+
+    expect(collector.getMetrics().timeline?.map(item => item.type)).toEqual(['interaction', 'long-task']);
+
+    collector.resetTimeline();
+    expect(collector.getMetrics()).toMatchObject({ inp: 250 });
+    expect(collector.getMetrics().timeline).toBeUndefined();
+
+    collector.clear();
+    expect(collector.getMetrics()).toEqual({});
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * WorkerInstrumentation.test.ts
+ * Test suite for extending the console hook into dedicated workers
+ * Tests which workers are instrumented and that the bootstrap keeps the worker's
+ * location and relative URLs pointing at its original script
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import vm from 'node:vm';
+import { WorkerInstrumentation, WORKER_HOOK_GLOBAL } from '../../src/capture/WorkerInstrumentation.js';
+
+const HOOK_URL = 'chrome-extension://abc/page-bridge.js';
+
+/**
+ * Worker stand-in recording how it was constructed
+ */
+class FakeWorker {
+  static readonly created: FakeWorker[] = [];
+  readonly url: string;
+
+  constructor(url: string | URL, readonly options?: WorkerOptions) {
+    this.url = String(url);
+    FakeWorker.created.push(this);
+  }
+}
+
+/**
+ * Runs a bootstrap script in a worker-like global and records the URLs it uses
+ */
+function runBootstrap(source: string) {
+  const imported: string[] = [];
+  const fetched: unknown[] = [];
+  const opened: string[] = [];
+
+  class WorkerXMLHttpRequest {
+    open(_method: string, url: string): void {
+      opened.push(url);
+    }
+  }
+
+  class WorkerRequest {
+    static readonly kind = 'request';
+    constructor(readonly url: string) {}
+  }
+
+  const context = vm.createContext({
+    URL,
+    Reflect,
+    XMLHttpRequest: WorkerXMLHttpRequest,
+    Request: WorkerRequest,
+    location: new URL('blob:https://example.com/bootstrap'),
+    importScripts: (...urls: string[]) => imported.push(...urls),
+    fetch: (input: unknown) => fetched.push(input)
+  });
+  context['self'] = vm.runInContext('globalThis', context);
+  vm.runInContext(source, context);
+
+  return { context, imported, fetched, opened, WorkerRequest };
+}
+
+describe('WorkerInstrumentation', () => {
+  let instrumentation: WorkerInstrumentation;
+  let sources: string[];
+
+  beforeEach(() => {
+    FakeWorker.created.length = 0;
+    sources = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    vi.stubGlobal('window', { location: { origin: 'https://example.com', href: 'https://example.com/app/' } });
+    vi.stubGlobal('document', { baseURI: 'https://example.com/app/' });
+    // Blob URLs cannot be loaded here, so the bootstrap source is recorded instead
+    vi.stubGlobal('Blob', class {
+      constructor(readonly parts: string[]) {}
+    });
+    vi.stubGlobal('URL', Object.assign(class extends URL {}, {
+      createObjectURL: (blob: { parts: string[] }) => {
+        sources.push(blob.parts.join(''));
+        return 'blob:https://example.com/bootstrap';
+      },
+      revokeObjectURL: () => {}
+    }));
+
+    instrumentation = new WorkerInstrumentation(HOOK_URL, () => {});
+    instrumentation.install();
+  });
+
+  afterEach(() => {
+    instrumentation.uninstall();
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('Instrumented Workers', () => {
+    it('should start same-origin workers from a bootstrap that loads the hook first', () => {
+      new Worker('workers/task.js');
+
+      expect(FakeWorker.created[0]?.url).toBe('blob:https://example.com/bootstrap');
+
+      const { context, imported } = runBootstrap(sources[0]!);
+
+      expect(imported).toEqual([HOOK_URL, 'https://example.com/app/workers/task.js']);
+      expect(context[WORKER_HOOK_GLOBAL].workerUrl).toBe('https://example.com/app/workers/task.js');
+    });
+
+    it('should leave cross-origin workers untouched', () => {
+      new Worker('https://cdn.example.org/task.js');
+
+      expect(FakeWorker.created[0]?.url).toBe('https://cdn.example.org/task.js');
+      expect(sources).toHaveLength(0);
+    });
+  });
+
+  describe('Worker Base URL', () => {
+    it('should expose the original script location inside the worker', () => {
+      new Worker('workers/task.js?mode=fast');
+
+      const { context } = runBootstrap(sources[0]!);
+
+      expect(vm.runInContext('location.href', context)).toBe('https://example.com/app/workers/task.js?mode=fast');
+      expect(vm.runInContext('self.location.search', context)).toBe('?mode=fast');
+    });
+
+    it('should resolve relative URLs against the original script', () => {
+      new Worker('workers/task.js');
+
+      const { context, imported, fetched, opened } = runBootstrap(sources[0]!);
+      vm.runInContext(`
+        importScripts('lib/util.js');
+        fetch('../data.json');
+        new XMLHttpRequest().open('GET', 'status');
+        self.request = new Request('api/items');
+      `, context);
+
+      expect(imported.slice(2)).toEqual(['https://example.com/app/workers/lib/util.js']);
+      expect(fetched).toEqual(['https://example.com/app/data.json']);
+      expect(opened).toEqual(['https://example.com/app/workers/status']);
+      expect(context['request'].url).toBe('https://example.com/app/workers/api/items');
+    });
+
+    it('should keep wrapped constructors compatible with the originals', () => {
+      new Worker('workers/task.js');
+
+      const { context, WorkerRequest } = runBootstrap(sources[0]!);
+      vm.runInContext(`self.request = new Request('https://example.com/absolute');`, context);
+
+      expect(context['request']).toBeInstanceOf(WorkerRequest);
+      expect(vm.runInContext('Request.kind', context)).toBe('request');
+      expect(vm.runInContext('Request.name', context)).toBe('Request');
+      expect(() => vm.runInContext(`Request('x')`, context)).toThrow(TypeError);
+    });
+  });
+});
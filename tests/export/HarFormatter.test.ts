@@ -0,0 +1,168 @@
+/**
+ * HarFormatter.test.ts
+ * Test suite for HAR 1.2 export
+ * Tests entry shape and timing, sanitized URLs and payloads, failed requests and console correlation
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { HarFormatter } from '../../src/export/formatters/HarFormatter.js';
+import { SecurityEngine } from '../../src/security/SecurityEngine.js';
+import { ConsentManager } from '../../src/security/ConsentManager.js';
+import type { CaptureSession, ExportConfig, NetworkRequest, SecurityPolicy } from '../../src/types/index.js';
+
+const SESSION_START = Date.UTC(2026, 0, 1, 12);
+
+/**
+ * Builds a session holding the given requests
+ * @param networkRequests - Captured requests
+ */
+function createSession(networkRequests: NetworkRequest[]): CaptureSession {
+  return {
+    id: 'session_1',
+    startTime: new Date(SESSION_START),
+    logs: [{
+      id: 'log_1',
+      timestamp: new Date(SESSION_START + 150),
+      level: 'error',
+      message: 'Checkout failed for ada.lovelace@example.com',
+      sanitizedMessage: 'Checkout failed for a***@example.com',
+      relatedRequestId: 'req_1'
+    }],
+    context: {
+      url: 'https://shop.test/checkout',
+      title: 'Checkout',
+      userAgent: 'test',
+      viewport: { width: 1280, height: 720 },
+      versions: { browser: 'test', extension: '1.0.0' },
+      networkRequests
+    },
+    metadata: {
+      totalLogs: 1,
+      errorCount: 1,
+      warningCount: 0,
+      containsSensitiveData: true,
+      tags: []
+    }
+  };
+}
+
+/**
+ * Builds a completed request
+ * @param fields - Fields to override
+ */
+function createRequest(fields: Partial<NetworkRequest> = {}): NetworkRequest {
+  return {
+    id: 'req_1',
+    url: 'https://shop.test/api/orders?page=2',
+    method: 'post',
+    status: 201,
+    timestamp: new Date(SESSION_START + 100),
+    responseTime: 80,
+    failed: false,
+    ...fields
+  };
+}
+
+/**
+ * Formats a session and parses the resulting HAR
+ * @param formatter - Formatter under test
+ * @param session - Session to export
+ * @param config - Export configuration
+ */
+async function exportHar(formatter: HarFormatter, session: CaptureSession, config: ExportConfig) {
+  return JSON.parse(await formatter.format(session, config)).log;
+}
+
+describe('HarFormatter', () => {
+  let formatter: HarFormatter;
+  let config: ExportConfig;
+
+  beforeEach(() => {
+    formatter = new HarFormatter();
+    config = { ...formatter.getDefaultConfig() } as ExportConfig;
+  });
+
+  it('should map requests to HAR entries started when the request was sent', async () => {
+    const log = await exportHar(formatter, createSession([createRequest({
+      request: { headers: { 'content-type': 'application/json' }, body: { sku: 'A1' }, bodySize: 12, contentType: 'application/json' },
+      response: { headers: { 'content-type': 'application/json' }, body: { id: 7 }, bodySize: 8, contentType: 'application/json' },
+      trace: { requestId: 'abc' }
+    })]), config);
+
+    expect(log.version).toBe('1.2');
+    expect(log.entries).toHaveLength(1);
+    expect(log.entries[0]).toMatchObject({
+      pageref: 'page_1',
+      startedDateTime: new Date(SESSION_START + 100).toISOString(),
+      time: 80,
+      request: {
+        method: 'POST',
+        url: 'https://shop.test/api/orders?page=2',
+        headers: [{ name: 'content-type', value: 'application/json' }],
+        queryString: [{ name: 'page', value: '2' }],
+        postData: { mimeType: 'application/json', text: '{"sku":"A1"}' },
+        bodySize: 12
+      },
+      response: {
+        status: 201,
+        content: { size: 8, mimeType: 'application/json', text: '{"id":7}' }
+      },
+      timings: { send: 0, wait: 80, receive: 0 },
+      _requestId: 'req_1',
+      _trace: { requestId: 'abc' },
+      _consoleLogs: ['log_1']
+    });
+  });
+
+  it('should export URLs as sanitized through the security engine and payloads as captured', async () => {
+    const policy: SecurityPolicy = {
+      version: '1',
+      piiSensitivity: 0.7,
+      minConfidenceThreshold: 0.7,
+      requireExplicitConsent: false,
+      autoSanitization: {
+        enabled: true,
+        thresholds: { creditCard: 0.7, ssn: 0.7, email: 0.7, ipAddress: 0.7, jwt: 0.7, apiKey: 0.7, password: 0.7, phone: 0.7, custom: 0.7 }
+      },
+      dataRetention: { defaultHours: 24, maxHours: 168, autoDeleteEnabled: false },
+      compliance: { gdprEnabled: false, ccpaEnabled: false, hipaaEnabled: false }
+    };
+    const securityEngine = new SecurityEngine(policy, new ConsentManager({
+      version: '1',
+      lastUpdated: new Date(SESSION_START),
+      purposes: [],
+      contactInfo: { privacyEmail: 'privacy@shop.test', companyName: 'Shop' },
+      jurisdiction: 'GDPR'
+    }));
+    const url = 'https://shop.test/api/orders?email=ada.lovelace@example.com';
+
+    // The export manager sanitizes request URLs before handing the session to the formatter
+    const output = await formatter.format(createSession([createRequest({
+      url: securityEngine.sanitizeText(url, 0.7),
+      request: { headers: {}, strippedHeaders: ['authorization'], body: { password: '[REDACTED]' } }
+    })]), config);
+    const log = JSON.parse(output).log;
+
+    expect(output).not.toContain('ada.lovelace@example.com');
+    expect(log.entries[0].request.queryString).toEqual([{ name: 'email', value: 'ad********ce@example.com' }]);
+    expect(log.entries[0].request.postData.text).toBe('{"password":"[REDACTED]"}');
+    expect(log.entries[0].request.comment).toBe('Headers removed before storage: authorization');
+    expect(log._consoleLogs[0].message).toBe('Checkout failed for a***@example.com');
+  });
+
+  it('should keep failed requests with no response', async () => {
+    const log = await exportHar(formatter, createSession([
+      createRequest(),
+      createRequest({ id: 'req_2', method: 'GET', url: 'https://api.shop.test/stock', status: 0, failed: true, timestamp: new Date(SESSION_START + 50), responseTime: 30 })
+    ]), config);
+
+    // Entries are in start order
+    expect(log.entries.map((entry: { _requestId: string }) => entry._requestId)).toEqual(['req_2', 'req_1']);
+    expect(log.entries[0]).toMatchObject({
+      comment: 'Request failed',
+      time: 30,
+      response: { status: 0, content: { size: 0, mimeType: 'x-unknown' }, bodySize: -1 }
+    });
+    expect(log.entries[0].response.content.text).toBeUndefined();
+  });
+});
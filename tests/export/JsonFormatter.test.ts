@@ -0,0 +1,138 @@
+/**
+ * JsonFormatter.test.ts
+ * Test suite for JSON export
+ * Tests that raw error details and table cells are left out whenever a log's message was sanitized
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JsonFormatter } from '../../src/export/formatters/JsonFormatter.js';
+import type { CaptureSession, ExportConfig, LogEntry } from '../../src/types/index.js';
+
+const SESSION_START = Date.UTC(2026, 0, 1, 12);
+
+/**
+ * Builds a session holding the given logs
+ * @param logs - Captured log entries
+ */
+function createSession(logs: LogEntry[]): CaptureSession {
+  return {
+    id: 'session_1',
+    startTime: new Date(SESSION_START),
+    logs,
+    context: {
+      url: 'https://shop.test/account',
+      title: 'Account',
+      userAgent: 'test',
+      viewport: { width: 1280, height: 720 },
+      versions: { browser: 'test', extension: '1.0.0' }
+    },
+    metadata: {
+      totalLogs: logs.length,
+      errorCount: logs.length,
+      warningCount: 0,
+      containsSensitiveData: true,
+      tags: []
+    }
+  };
+}
+
+describe('JsonFormatter', () => {
+  let formatter: JsonFormatter;
+  let config: ExportConfig;
+
+  beforeEach(() => {
+    formatter = new JsonFormatter();
+    config = { ...formatter.getDefaultConfig(), includeSensitiveData: false } as ExportConfig;
+  });
+
+  describe('Sanitized Errors', () => {
+    const uncaught: LogEntry = {
+      id: 'log_1',
+      timestamp: new Date(SESSION_START + 100),
+      level: 'error',
+      origin: 'uncaught-error',
+      message: 'Uncaught Error: No account for ada.lovelace@example.com',
+      sanitizedMessage: 'Uncaught Error: No account for ad********ce@example.com',
+      error: {
+        name: 'Error',
+        message: 'No account for ada.lovelace@example.com',
+        filename: 'https://shop.test/app.js?email=ada.lovelace@example.com',
+        lineno: 3,
+        colno: 9,
+        reason: 'ada.lovelace@example.com'
+      }
+    };
+    const resource: LogEntry = {
+      id: 'log_2',
+      timestamp: new Date(SESSION_START + 200),
+      level: 'error',
+      origin: 'resource-error',
+      message: 'Failed to load img: https://cdn.shop.test/avatar?email=ada.lovelace@example.com',
+      sanitizedMessage: 'Failed to load img: https://cdn.shop.test/avatar?email=ad********ce@example.com',
+      error: {
+        name: 'ResourceError',
+        message: 'Failed to load resource: https://cdn.shop.test/avatar?email=ada.lovelace@example.com',
+        resourceUrl: 'https://cdn.shop.test/avatar?email=ada.lovelace@example.com',
+        resourceType: 'img'
+      }
+    };
+
+    it('should not leak raw error messages, script URLs or resource URLs', async () => {
+      const output = await formatter.format(createSession([uncaught, resource]), config);
+      const logs = JSON.parse(output).logs;
+
+      expect(output).not.toContain('ada.lovelace@example.com');
+      expect(logs[0].error).toEqual({
+        name: 'Error',
+        message: 'Uncaught Error: No account for ad********ce@example.com',
+        lineno: 3,
+        colno: 9
+      });
+      expect(logs[1].error).toEqual({
+        name: 'ResourceError',
+        message: 'Failed to load img: https://cdn.shop.test/avatar?email=ad********ce@example.com',
+        resourceType: 'img'
+      });
+    });
+
+    it('should keep raw error details when sensitive data is included', async () => {
+      const output = await formatter.format(createSession([uncaught, resource]), { ...config, includeSensitiveData: true });
+      const logs = JSON.parse(output).logs;
+
+      expect(logs[0].error).toEqual(uncaught.error);
+      expect(logs[1].error).toEqual(resource.error);
+    });
+  });
+
+  describe('Sanitized Tables', () => {
+    const table: LogEntry = {
+      id: 'log_3',
+      timestamp: new Date(SESSION_START + 300),
+      level: 'log',
+      message: '{"0":{"email":"ada.lovelace@example.com"}}',
+      sanitizedMessage: '{"0":{"email":"ad********ce@example.com"}}',
+      console: {
+        method: 'table',
+        groupDepth: 1,
+        table: { columns: ['email'], rows: [{ index: '0', values: { email: 'ada.lovelace@example.com' } }], truncated: false }
+      }
+    };
+
+    it('should drop table cells with the raw message and keep the call semantics', async () => {
+      const output = await formatter.format(createSession([table]), config);
+
+      expect(output).not.toContain('ada.lovelace@example.com');
+      expect(JSON.parse(output).logs[0].console).toEqual({ method: 'table', groupDepth: 1 });
+    });
+
+    it('should keep table cells when sensitive data is included or nothing was sanitized', async () => {
+      const unsanitized: LogEntry = { ...table };
+      delete unsanitized.sanitizedMessage;
+      const included = JSON.parse(await formatter.format(createSession([table]), { ...config, includeSensitiveData: true }));
+      const clean = JSON.parse(await formatter.format(createSession([unsanitized]), config));
+
+      expect(included.logs[0].console).toEqual(table.console);
+      expect(clean.logs[0].console).toEqual(table.console);
+    });
+  });
+});
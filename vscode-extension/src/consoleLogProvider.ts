@@ -3,7 +3,7 @@
  */
 
 import * as vscode from 'vscode';
-import { ConsoleLogEntry } from './webSocketServer';
+import { ConsoleLogEntry, SerializedValue } from './webSocketServer';
 
 interface SessionInfo {
     id: string;
@@ -55,7 +55,12 @@ export class ConsoleLogProvider implements vscode.TreeDataProvider<LogTreeItem>
     addLog(sessionId: string, log: ConsoleLogEntry): void {
         const session = this.sessions.get(sessionId);
         if (session) {
-            session.logs.push(log);
+            // Pages, workers and frames deliver logs out of order; insert by aligned time
+            let index = session.logs.length;
+            while (index > 0 && compareLogOrder(session.logs[index - 1], log) > 0) {
+                index--;
+            }
+            session.logs.splice(index, 0, log);
             
             // Trim logs if exceeding max limit
             if (session.logs.length > this.maxLogs) {
@@ -115,16 +120,63 @@ export class ConsoleLogProvider implements vscode.TreeDataProvider<LogTreeItem>
                     new LogEntryTreeItem(
                         `${element.sessionId}-${index}`,
                         log,
-                        vscode.TreeItemCollapsibleState.None
+                        (log.args || []).some(isExpandable)
+                            ? vscode.TreeItemCollapsibleState.Collapsed
+                            : vscode.TreeItemCollapsibleState.None
                     )
                 ));
             }
+        } else if (element instanceof LogEntryTreeItem) {
+            // Log level - show console arguments
+            return Promise.resolve((element.log.args || []).map((arg, index) =>
+                new ArgumentTreeItem(`${element.id}-${index}`, `[${index}]`, arg)
+            ));
+        } else if (element instanceof ArgumentTreeItem) {
+            // Argument level - show properties, items and map entries
+            const value = element.value;
+            const children: ArgumentTreeItem[] = [];
+            (value.entries || []).forEach((entry, index) => {
+                children.push(new ArgumentTreeItem(`${element.id}-e${index}`, previewValue(entry.key), entry.value));
+            });
+            (value.properties || []).forEach(property => {
+                children.push(new ArgumentTreeItem(`${element.id}-${property.name}`, property.name, property.value));
+            });
+            return Promise.resolve(children);
         }
         
         return Promise.resolve([]);
     }
 }
 
+/**
+ * Check whether a serialized argument has children to show
+ */
+function isExpandable(value: SerializedValue): boolean {
+    return (value.properties?.length || 0) + (value.entries?.length || 0) > 0;
+}
+
+/**
+ * Short one-line preview of a serialized argument
+ */
+function previewValue(value: SerializedValue): string {
+    if (value.type === 'string') {
+        return `'${value.value ?? value.description}'`;
+    }
+    return value.overflow && !isExpandable(value) ? `${value.description} {…}` : value.description;
+}
+
+/**
+ * Order logs by aligned capture time, then by sequence number
+ */
+function compareLogOrder(a: ConsoleLogEntry, b: ConsoleLogEntry): number {
+    const timeA = a.alignedTime ?? Date.parse(a.timestamp);
+    const timeB = b.alignedTime ?? Date.parse(b.timestamp);
+    if (timeA !== timeB) {
+        return timeA - timeB;
+    }
+    return (a.sequence ?? 0) - (b.sequence ?? 0);
+}
+
 /**
  * Base class for tree items
  */
@@ -165,11 +217,21 @@ class LogEntryTreeItem extends LogTreeItem {
         public readonly log: ConsoleLogEntry,
         collapsibleState: vscode.TreeItemCollapsibleState
     ) {
-        const time = new Date(log.timestamp).toLocaleTimeString();
+        const time = new Date(log.alignedTime ?? log.timestamp).toLocaleTimeString();
         super(`[${log.level.toUpperCase()}] ${log.message}`, collapsibleState);
         
-        this.tooltip = `Level: ${log.level}\nMessage: ${log.message}\nTime: ${time}\nURL: ${log.url}`;
-        this.description = time;
+        const context = log.executionContext;
+        const contextUrl = context?.workerUrl || context?.frameUrl;
+        const isChildContext = context !== undefined && context.type !== 'top-frame';
+
+        this.tooltip = `Level: ${log.level}\nMessage: ${log.message}\nTime: ${time}\nURL: ${log.url}`
+            + (isChildContext ? `\nContext: ${context.type}${contextUrl ? ` (${contextUrl})` : ''}` : '')
+            + (log.preSession ? '\nCaptured before the session started' : '');
+        this.description = [
+            time,
+            isChildContext ? context.type : '',
+            log.preSession ? 'pre-session' : ''
+        ].filter(Boolean).join(' · ');
         
         // Set icon based on log level
         switch (log.level) {
@@ -198,4 +260,24 @@ class LogEntryTreeItem extends LogTreeItem {
             };
         }
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Console argument tree item
+ */
+class ArgumentTreeItem extends LogTreeItem {
+    constructor(
+        public readonly id: string,
+        public readonly name: string,
+        public readonly value: SerializedValue
+    ) {
+        super(
+            name,
+            isExpandable(value) ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+
+        this.description = previewValue(value);
+        this.tooltip = value.stack || (value.type === 'string' ? String(value.value ?? value.description) : value.description);
+        this.iconPath = new vscode.ThemeIcon(isExpandable(value) ? 'symbol-object' : 'symbol-variable');
+    }
+}
@@ -6,10 +6,41 @@ import * as WebSocket from 'ws';
 import * as vscode from 'vscode';
 import { ConsoleLogProvider } from './consoleLogProvider';
 
+/**
+ * Typed preview of a console argument, as serialized by the browser extension
+ */
+export interface SerializedValue {
+    type: string;
+    className?: string;
+    description: string;
+    value?: string | number | boolean;
+    properties?: Array<{ name: string; value: SerializedValue }>;
+    entries?: Array<{ key: SerializedValue; value: SerializedValue }>;
+    size?: number;
+    stack?: string;
+    overflow?: boolean;
+}
+
+/**
+ * Frame or worker a log was produced in
+ */
+export interface ExecutionContext {
+    type: 'top-frame' | 'iframe' | 'dedicated-worker' | 'shared-worker' | 'service-worker';
+    frameUrl?: string;
+    frameId?: number;
+    workerUrl?: string;
+}
+
 export interface ConsoleLogEntry {
     level: 'log' | 'info' | 'warn' | 'error';
     message: string;
     timestamp: string;
+    /** High-resolution epoch milliseconds on the browser's clock */
+    hrTimestamp?: number;
+    /** Position among the logs of the browser context that produced it */
+    sequence?: number;
+    /** Capture time converted to this machine's clock, used to order the timeline */
+    alignedTime?: number;
     url: string;
     stackTrace?: string;
     sourceInfo?: {
@@ -17,6 +48,16 @@ export interface ConsoleLogEntry {
         line: number;
         column: number;
     };
+    args?: SerializedValue[];
+    resolvedStackTrace?: string;
+    resolvedSourceInfo?: {
+        file: string;
+        line: number;
+        column: number;
+        functionName?: string;
+    };
+    executionContext?: ExecutionContext;
+    preSession?: boolean;
     userAgent?: string;
     viewport?: {
         width: number;
@@ -25,21 +66,61 @@ export interface ConsoleLogEntry {
 }
 
 export interface SessionMessage {
-    type: 'session:start' | 'log:entry';
+    type: 'session:start' | 'log:entry' | 'clock:sync-response';
     url?: string;
     timestamp?: string;
+    hrTimestamp?: number;
+    sequence?: number;
+    /** Sync round the response answers */
+    syncId?: number;
+    /** Server time echoed from the sync request */
+    serverTime?: number;
+    /** Browser time when the sync request was answered */
+    clientTime?: number;
     userAgent?: string;
     level?: string;
     message?: string;
     stackTrace?: string;
     sourceInfo?: any;
+    args?: SerializedValue[];
+    resolvedStackTrace?: string;
+    resolvedSourceInfo?: any;
+    executionContext?: ExecutionContext;
+    preSession?: boolean;
+}
+
+/**
+ * Request asking the browser extension for its clock reading
+ */
+export interface ClockSyncRequest {
+    type: 'clock:sync-request';
+    syncId: number;
+    serverTime: number;
+}
+
+/**
+ * Estimated offset between a connected browser's clock and this machine's
+ */
+interface ClockSync {
+    /** Browser clock minus server clock, in milliseconds */
+    offsetMs: number;
+    /** Round trip of the sample the offset came from; smaller is more accurate */
+    roundTripMs: number;
+    /** Sync rounds answered so far */
+    samples: number;
 }
 
+/**
+ * Number of request/response rounds used to estimate a connection's clock offset
+ */
+const CLOCK_SYNC_ROUNDS = 5;
+
 export class WebSocketServer {
     private wss: WebSocket.Server | undefined;
     private port: number;
     private logProvider: ConsoleLogProvider;
     private activeSessions = new Map<WebSocket, string>();
+    private clockSyncs = new Map<WebSocket, ClockSync>();
 
     constructor(port: number, logProvider: ConsoleLogProvider) {
         this.port = port;
@@ -56,6 +137,7 @@ export class WebSocketServer {
 
                 this.wss.on('connection', (ws: WebSocket) => {
                     console.log('Console Capture: Browser extension connected');
+                    this.requestClockSync(ws, 1);
                     
                     ws.on('message', (data: WebSocket.Data) => {
                         try {
@@ -67,6 +149,7 @@ export class WebSocketServer {
                     });
 
                     ws.on('close', () => {
+                        this.clockSyncs.delete(ws);
                         const sessionId = this.activeSessions.get(ws);
                         if (sessionId) {
                             console.log(`Console Capture: Session ${sessionId} ended`);
@@ -104,6 +187,7 @@ export class WebSocketServer {
             this.wss.close();
             this.wss = undefined;
             this.activeSessions.clear();
+            this.clockSyncs.clear();
             console.log('Console Capture: WebSocket server stopped');
         }
     }
@@ -131,30 +215,45 @@ export class WebSocketServer {
                 vscode.window.showInformationMessage(`Console Capture: New session from ${message.url}`);
                 break;
 
+            case 'clock:sync-response':
+                this.handleClockSyncResponse(ws, message);
+                break;
+
             case 'log:entry':
                 const activeSessionId = this.activeSessions.get(ws);
                 if (activeSessionId) {
+                    const timestamp = message.timestamp || new Date().toISOString();
                     const logEntry: ConsoleLogEntry = {
                         level: (message.level as any) || 'log',
                         message: message.message || '',
-                        timestamp: message.timestamp || new Date().toISOString(),
+                        timestamp,
+                        hrTimestamp: message.hrTimestamp,
+                        sequence: message.sequence,
+                        alignedTime: this.toServerTime(ws, message.hrTimestamp ?? Date.parse(timestamp)),
                         url: message.url || 'Unknown',
                         stackTrace: message.stackTrace,
-                        sourceInfo: message.sourceInfo
+                        sourceInfo: message.sourceInfo,
+                        args: message.args,
+                        resolvedStackTrace: message.resolvedStackTrace,
+                        resolvedSourceInfo: message.resolvedSourceInfo,
+                        executionContext: message.executionContext,
+                        preSession: message.preSession
                     };
 
                     this.logProvider.addLog(activeSessionId, logEntry);
 
                     // Show error notifications in VSCode
                     if (logEntry.level === 'error') {
-                        const action = logEntry.sourceInfo ? 'Go to Source' : undefined;
+                        // Prefer the source-mapped location over the bundle location
+                        const sourceInfo = logEntry.resolvedSourceInfo || logEntry.sourceInfo;
+                        const action = sourceInfo ? 'Go to Source' : undefined;
                         const options = action ? [action] : undefined;
                         vscode.window.showErrorMessage(
                             `Console Error: ${logEntry.message}`,
                             ...(options || [])
                         ).then(selection => {
-                            if (selection === 'Go to Source' && logEntry.sourceInfo) {
-                                this.openSourceLocation(logEntry.sourceInfo);
+                            if (selection === 'Go to Source' && sourceInfo) {
+                                this.openSourceLocation(sourceInfo);
                             }
                         });
                     }
@@ -166,6 +265,67 @@ export class WebSocketServer {
         }
     }
 
+    /**
+     * Ask the browser for its clock reading; rounds continue from each response
+     */
+    private requestClockSync(ws: WebSocket, syncId: number): void {
+        if (ws.readyState !== WebSocket.OPEN) {
+            return;
+        }
+
+        const request: ClockSyncRequest = {
+            type: 'clock:sync-request',
+            syncId,
+            serverTime: this.now()
+        };
+        ws.send(JSON.stringify(request));
+    }
+
+    /**
+     * Update the clock offset estimate from a sync response
+     * Assumes the request and response took equally long, so the browser read its
+     * clock halfway through the round trip; the shortest round trip bounds the error best
+     */
+    private handleClockSyncResponse(ws: WebSocket, message: SessionMessage): void {
+        if (typeof message.serverTime !== 'number' || typeof message.clientTime !== 'number') {
+            return;
+        }
+
+        const roundTripMs = Math.max(0, this.now() - message.serverTime);
+        const offsetMs = message.clientTime - (message.serverTime + roundTripMs / 2);
+        const current = this.clockSyncs.get(ws);
+        const samples = (current?.samples ?? 0) + 1;
+
+        if (!current || roundTripMs < current.roundTripMs) {
+            this.clockSyncs.set(ws, { offsetMs, roundTripMs, samples });
+        } else {
+            current.samples = samples;
+        }
+
+        if (samples < CLOCK_SYNC_ROUNDS) {
+            this.requestClockSync(ws, (message.syncId ?? samples) + 1);
+        }
+    }
+
+    /**
+     * Convert a browser timestamp to this machine's clock
+     * Logs that arrive before the first sync response are left unadjusted
+     */
+    private toServerTime(ws: WebSocket, browserTime: number): number | undefined {
+        if (Number.isNaN(browserTime)) {
+            return undefined;
+        }
+
+        return browserTime - (this.clockSyncs.get(ws)?.offsetMs ?? 0);
+    }
+
+    /**
+     * High-resolution epoch milliseconds on this machine
+     */
+    private now(): number {
+        return performance.timeOrigin + performance.now();
+    }
+
     /**
      * Open source file location in VSCode
      */
@@ -175,9 +335,22 @@ export class WebSocketServer {
             let filePath = sourceInfo.file;
             
             // Handle different URL formats
-            if (filePath.startsWith('http://') || filePath.startsWith('https://')) {
+            if (filePath.startsWith('file://')) {
+                filePath = vscode.Uri.parse(filePath).fsPath;
+            } else if (filePath.startsWith('webpack://') || filePath.startsWith('webpack-internal://')) {
+                // Source-mapped webpack paths look like webpack://app-name/./src/file.ts
+                const relativePath = filePath
+                    .replace(/^webpack(-internal)?:\/\/[^/]*\//, '')
+                    .replace(/^(\.\/)+/, '')
+                    .split('?')[0];
+                const files = await vscode.workspace.findFiles(relativePath, '**/node_modules/**', 1);
+                const matches = files.length > 0 ? files : await vscode.workspace.findFiles(`**/${relativePath}`, '**/node_modules/**', 1);
+                if (matches.length > 0) {
+                    filePath = matches[0].fsPath;
+                }
+            } else if (filePath.startsWith('http://') || filePath.startsWith('https://')) {
                 // For web URLs, try to find corresponding local file
-                const fileName = filePath.split('/').pop();
+                const fileName = filePath.split('?')[0].split('/').pop();
                 if (fileName) {
                     const files = await vscode.workspace.findFiles(`**/${fileName}`);
                     if (files.length > 0) {
@@ -13,13 +13,21 @@ export default defineConfig({
     permissions: [
       'activeTab',
       'storage',
-      'scripting'
+      'scripting',
+      'debugger'
     ],
     host_permissions: ['<all_urls>', 'http://localhost:*/*', 'https://localhost:*/*'],
+    commands: {
+      'capture-screenshot': {
+        suggested_key: { default: 'Alt+Shift+S' },
+        description: 'Take a screenshot for the current capture session'
+      }
+    },
     web_accessible_resources: [
       {
         resources: [
           'capture-worker.js',
+          'page-bridge.js',
           'content-scripts/*.js'
         ],
         matches: ['<all_urls>']